@@ -0,0 +1,12 @@
+CREATE TABLE "sync_state" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"entity" varchar(50) NOT NULL,
+	"org_name" varchar(255) NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"repo_name" varchar(255) NOT NULL,
+	"watermark" timestamp NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "sync_state_scope_idx" ON "sync_state" USING btree ("source","entity","org_name","project_name","repo_name");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "backfill_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" varchar(50) NOT NULL,
+	"entity" varchar(50) NOT NULL,
+	"range_start" timestamp NOT NULL,
+	"range_end" timestamp NOT NULL,
+	"chunk_days" integer DEFAULT 7 NOT NULL,
+	"status" varchar(50) DEFAULT 'pending' NOT NULL,
+	"cursor" timestamp NOT NULL,
+	"chunks_completed" integer DEFAULT 0 NOT NULL,
+	"items_ingested" integer DEFAULT 0 NOT NULL,
+	"items_updated" integer DEFAULT 0 NOT NULL,
+	"error_count" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"locked_until" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "backfill_status_idx" ON "backfill_jobs" USING btree ("status");
\ No newline at end of file
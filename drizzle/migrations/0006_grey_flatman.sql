@@ -0,0 +1,2 @@
+ALTER TABLE "pull_requests" ADD COLUMN "source_commit_sha" varchar(40);--> statement-breakpoint
+CREATE INDEX "source_commit_sha_idx" ON "pull_requests" USING btree ("source_commit_sha");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "test_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"result_id" varchar(255) NOT NULL,
+	"run_id" varchar(255) NOT NULL,
+	"repo_name" varchar(255) NOT NULL,
+	"org_name" varchar(255) NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"commit_sha" varchar(255),
+	"test_name" text NOT NULL,
+	"test_suite" text,
+	"outcome" varchar(50) NOT NULL,
+	"duration_ms" integer,
+	"started_at" timestamp NOT NULL,
+	"is_flaky" boolean DEFAULT false NOT NULL,
+	"ingested_at" timestamp DEFAULT now(),
+	CONSTRAINT "test_results_result_id_unique" UNIQUE("result_id")
+);
+--> statement-breakpoint
+CREATE INDEX "test_run_id_idx" ON "test_results" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "test_commit_sha_idx" ON "test_results" USING btree ("commit_sha");--> statement-breakpoint
+CREATE INDEX "test_name_idx" ON "test_results" USING btree ("test_name");--> statement-breakpoint
+CREATE INDEX "test_started_at_idx" ON "test_results" USING btree ("started_at");--> statement-breakpoint
+CREATE INDEX "test_is_flaky_idx" ON "test_results" USING btree ("is_flaky");
\ No newline at end of file
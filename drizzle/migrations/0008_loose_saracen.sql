@@ -0,0 +1,24 @@
+CREATE TABLE "ci_run_timeline" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"record_id" varchar(255) NOT NULL,
+	"run_id" varchar(255) NOT NULL,
+	"workflow_name" varchar(255) NOT NULL,
+	"repo_name" varchar(255) NOT NULL,
+	"org_name" varchar(255) NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"record_type" varchar(20) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"stage_name" varchar(255),
+	"result" varchar(50),
+	"attempt" integer DEFAULT 1,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"duration_ms" integer,
+	"ingested_at" timestamp DEFAULT now(),
+	CONSTRAINT "ci_run_timeline_record_id_unique" UNIQUE("record_id")
+);
+--> statement-breakpoint
+CREATE INDEX "timeline_run_id_idx" ON "ci_run_timeline" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "timeline_project_name_idx" ON "ci_run_timeline" USING btree ("project_name");--> statement-breakpoint
+CREATE INDEX "timeline_name_idx" ON "ci_run_timeline" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "timeline_started_at_idx" ON "ci_run_timeline" USING btree ("started_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ci_runs" ADD COLUMN "queued_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "incidents" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"incident_id" varchar(255) NOT NULL,
+	"title" varchar(500) NOT NULL,
+	"severity" varchar(20) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"org_name" varchar(255) NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"deployment_id" varchar(255),
+	"notes" text,
+	"opened_at" timestamp NOT NULL,
+	"mitigated_at" timestamp,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "incidents_incident_id_unique" UNIQUE("incident_id")
+);
+--> statement-breakpoint
+CREATE INDEX "incident_project_name_idx" ON "incidents" USING btree ("project_name");--> statement-breakpoint
+CREATE INDEX "incident_status_idx" ON "incidents" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "incident_opened_at_idx" ON "incidents" USING btree ("opened_at");--> statement-breakpoint
+CREATE INDEX "incident_deployment_id_idx" ON "incidents" USING btree ("deployment_id");
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "team_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"member_name" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "team_repositories" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"repo_name" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "teams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "teams_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "team_member_idx" ON "team_members" USING btree ("team_id","member_name");--> statement-breakpoint
+CREATE INDEX "team_member_name_idx" ON "team_members" USING btree ("member_name");--> statement-breakpoint
+CREATE UNIQUE INDEX "team_repository_idx" ON "team_repositories" USING btree ("team_id","project_name","repo_name");--> statement-breakpoint
+CREATE INDEX "team_repository_repo_idx" ON "team_repositories" USING btree ("project_name","repo_name");
\ No newline at end of file
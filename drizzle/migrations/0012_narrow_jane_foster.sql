@@ -0,0 +1,19 @@
+CREATE TABLE "identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"is_bot" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "identities_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "identity_aliases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"identity_id" integer NOT NULL,
+	"alias" varchar(255) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "identity_aliases_alias_unique" UNIQUE("alias")
+);
+--> statement-breakpoint
+ALTER TABLE "pull_requests" ADD COLUMN "is_bot" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "identity_alias_identity_idx" ON "identity_aliases" USING btree ("identity_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "pr_reviews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pr_number" integer NOT NULL,
+	"repo_name" varchar(255) NOT NULL,
+	"org_name" varchar(255) NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"reviewer" varchar(255) NOT NULL,
+	"is_bot" boolean DEFAULT false NOT NULL,
+	"vote" varchar(50) DEFAULT 'none' NOT NULL,
+	"voted_at" timestamp,
+	"first_comment_at" timestamp,
+	"ingested_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "pr_review_idx" ON "pr_reviews" USING btree ("project_name","repo_name","pr_number","reviewer");--> statement-breakpoint
+CREATE INDEX "pr_review_reviewer_idx" ON "pr_reviews" USING btree ("reviewer");
\ No newline at end of file
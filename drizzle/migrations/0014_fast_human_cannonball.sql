@@ -0,0 +1 @@
+ALTER TABLE "pull_requests" ADD COLUMN "source" varchar(50) DEFAULT 'azure-devops' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "ci_runs" ADD COLUMN "enriched_at" timestamp;--> statement-breakpoint
+UPDATE "ci_runs" SET "enriched_at" = "ingested_at" WHERE "status" = 'completed';
\ No newline at end of file
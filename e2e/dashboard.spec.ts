@@ -295,7 +295,7 @@ test.describe("DORA Metrics Dashboard", () => {
   test.describe("Error Handling", () => {
     test("should handle network errors gracefully", async ({ page }) => {
       // Intercept API call and return error
-      await page.route("**/api/metrics/dora*", (route) => {
+      await page.route("**/api/metrics/dora/history*", (route) => {
         route.abort("failed");
       });
 
@@ -315,7 +315,7 @@ test.describe("DORA Metrics Dashboard", () => {
       // Intercept first request to fail, second to succeed
       let requestCount = 0;
 
-      await page.route("**/api/metrics/dora*", (route) => {
+      await page.route("**/api/metrics/dora/history*", (route) => {
         requestCount++;
         if (requestCount === 1) {
           route.abort("failed");
@@ -0,0 +1,245 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { asc } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/deployments/import/route";
+import { deployments } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Bulk Deployment Import API
+ *
+ * Tests cover:
+ * - JSON array, JSON Lines and CSV bodies
+ * - Per-row validation errors without aborting the batch (207)
+ * - Dry runs that write nothing
+ * - Re-imports that return existing records instead of duplicates
+ * - Authentication (401), unsupported formats (415) and unreadable bodies (400)
+ */
+
+const VALID_API_KEY = process.env.DEPLOYMENT_API_KEY || "test_api_key_12345";
+
+function createRequest(
+  body: string,
+  contentType: string,
+  query = "",
+  headers: Record<string, string> = {
+    Authorization: `Bearer ${VALID_API_KEY}`,
+  },
+): NextRequest {
+  return new NextRequest(
+    `http://localhost:3000/api/deployments/import${query}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": contentType, ...headers },
+      body,
+    },
+  );
+}
+
+function deployment(n: number, overrides: Record<string, unknown> = {}) {
+  return {
+    environment: "production",
+    commitSha: n.toString(16).padStart(40, "0"),
+    deployedAt: `2025-10-0${n}T10:00:00Z`,
+    projectName: "test-project",
+    orgName: "test-org",
+    ...overrides,
+  };
+}
+
+describe("POST /api/deployments/import", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(deployments);
+  });
+
+  afterEach(async () => {
+    await db.delete(deployments);
+  });
+
+  test("should return 401 when API key is invalid", async () => {
+    const response = await POST(
+      createRequest("[]", "application/json", "", {
+        Authorization: "Bearer wrong_key",
+      }),
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  test("should return 415 for unsupported content types", async () => {
+    const response = await POST(createRequest("<xml/>", "application/xml"));
+
+    expect(response.status).toBe(415);
+  });
+
+  test("should return 400 when a JSON body is not an array", async () => {
+    const response = await POST(
+      createRequest(JSON.stringify(deployment(1)), "application/json"),
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  test("should import a JSON array", async () => {
+    const response = await POST(
+      createRequest(
+        JSON.stringify([deployment(1), deployment(2)]),
+        "application/json",
+      ),
+    );
+
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data).toMatchObject({
+      success: true,
+      dryRun: false,
+      total: 2,
+      created: 2,
+      failed: 0,
+    });
+
+    const stored = await db.select().from(deployments);
+    expect(stored).toHaveLength(2);
+  });
+
+  test("should import JSON Lines and report unreadable lines", async () => {
+    const body = [
+      JSON.stringify(deployment(1)),
+      "",
+      "{not json",
+      JSON.stringify(deployment(2)),
+    ].join("\n");
+
+    const response = await POST(createRequest(body, "application/x-ndjson"));
+
+    expect(response.status).toBe(207);
+
+    const data = await response.json();
+    expect(data.total).toBe(3);
+    expect(data.created).toBe(2);
+    expect(data.results[1]).toEqual({
+      row: 2,
+      status: "error",
+      errors: ["Line is not valid JSON"],
+    });
+  });
+
+  test("should import CSV with quoted fields and boolean columns", async () => {
+    const first = deployment(1);
+    const csv = [
+      "environment,commitSha,deployedAt,projectName,orgName,status,notes,deploymentId,isRollback,rollbackOf",
+      `production,${first.commitSha},2025-10-01T10:00:00Z,test-project,test-org,failure,"Broke checkout, rolled back",release-1,,`,
+      `production,${"f".repeat(40)},2025-10-01T10:30:00Z,test-project,test-org,success,,release-2,yes,release-1`,
+    ].join("\n");
+
+    const response = await POST(createRequest(csv, "text/csv; charset=utf-8"));
+
+    expect(response.status).toBe(200);
+
+    const stored = await db
+      .select()
+      .from(deployments)
+      .orderBy(asc(deployments.startedAt));
+    expect(stored).toHaveLength(2);
+    expect(stored[0].failureReason).toBe("Broke checkout, rolled back");
+    expect(stored[0].recoveredAt).toEqual(new Date("2025-10-01T10:30:00Z"));
+    expect(stored[1].isRollback).toBe(true);
+    expect(stored[1].rollbackOf).toBe(stored[0].id);
+  });
+
+  test("should report per-row validation errors without aborting", async () => {
+    const response = await POST(
+      createRequest(
+        JSON.stringify([
+          deployment(1),
+          deployment(2, { commitSha: "short" }),
+          deployment(3, { environment: "qa" }),
+        ]),
+        "application/json",
+      ),
+    );
+
+    expect(response.status).toBe(207);
+
+    const data = await response.json();
+    expect(data.created).toBe(1);
+    expect(data.failed).toBe(2);
+    expect(data.results[1].row).toBe(2);
+    expect(data.results[1].errors[0]).toStartWith("commitSha:");
+    expect(data.results[2].errors[0]).toStartWith("environment:");
+  });
+
+  test("should not create duplicates when the same file is imported again", async () => {
+    const body = JSON.stringify([deployment(1), deployment(2)]);
+
+    await POST(createRequest(body, "application/json"));
+    const response = await POST(createRequest(body, "application/json"));
+
+    const data = await response.json();
+    expect(data.created).toBe(0);
+    expect(data.existing).toBe(2);
+
+    const stored = await db.select().from(deployments);
+    expect(stored).toHaveLength(2);
+  });
+
+  test("should write nothing in a dry run", async () => {
+    const response = await POST(
+      createRequest(
+        JSON.stringify([
+          deployment(1),
+          deployment(1),
+          deployment(2, { rollbackOf: "deploy_unknown" }),
+        ]),
+        "application/json",
+        "?dryRun=true",
+      ),
+    );
+
+    expect(response.status).toBe(207);
+
+    const data = await response.json();
+    expect(data).toMatchObject({
+      dryRun: true,
+      valid: 1,
+      existing: 1,
+      failed: 1,
+      created: 0,
+    });
+
+    const stored = await db.select().from(deployments);
+    expect(stored).toHaveLength(0);
+  });
+
+  test("should return 400 for an invalid dryRun value", async () => {
+    const response = await POST(
+      createRequest("[]", "application/json", "?dryRun=maybe"),
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
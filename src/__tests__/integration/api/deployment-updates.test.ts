@@ -0,0 +1,195 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { PATCH } from "@/app/api/deployments/[id]/route";
+import { deployments, type NewDeployment } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Deployment Update API (PATCH /api/deployments/:id)
+ *
+ * Tests cover:
+ * - Authentication (401) and validation (400)
+ * - Unknown deployments (404)
+ * - Marking failure and recovery after the fact
+ * - Automatic recoveredAt from later successful deployments
+ */
+
+const VALID_API_KEY = process.env.DEPLOYMENT_API_KEY || "test_api_key_12345";
+
+function patch(
+  id: string,
+  body: unknown,
+  headers: Record<string, string> = {
+    Authorization: `Bearer ${VALID_API_KEY}`,
+  },
+) {
+  const request = new NextRequest(
+    `http://localhost:3000/api/deployments/${id}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    },
+  );
+  return PATCH(request, { params: Promise.resolve({ id }) });
+}
+
+async function insertDeployment(
+  deploymentId: string,
+  deployedAt: string,
+  overrides: Partial<NewDeployment> = {},
+) {
+  await db.insert(deployments).values({
+    deploymentId,
+    environment: "production",
+    orgName: "test-org",
+    projectName: "test-project",
+    commitSha: "abc1234567890def1234567890abcdef12345678",
+    status: "success",
+    startedAt: new Date(deployedAt),
+    completedAt: new Date(deployedAt),
+    ...overrides,
+  });
+}
+
+async function getDeployment(deploymentId: string) {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(eq(deployments.deploymentId, deploymentId));
+  return deployment;
+}
+
+describe("PATCH /api/deployments/:id", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(deployments);
+  });
+
+  afterEach(async () => {
+    await db.delete(deployments);
+  });
+
+  test("should return 401 when API key is invalid", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z");
+
+    const response = await patch(
+      "deploy_1",
+      { isFailed: true },
+      { Authorization: "Bearer wrong_key" },
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  test("should return 400 when the body has no fields", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z");
+
+    const response = await patch("deploy_1", {});
+
+    expect(response.status).toBe(400);
+  });
+
+  test("should return 404 for an unknown deployment", async () => {
+    const response = await patch("deploy_missing", { isFailed: true });
+
+    expect(response.status).toBe(404);
+  });
+
+  test("should mark a deployment as failed and recovered", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z");
+
+    const response = await patch("deploy_1", {
+      isFailed: true,
+      failureReason: "Error rate spiked",
+      recoveredAt: "2025-11-09T11:30:00Z",
+    });
+
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.deployment.isFailed).toBe(true);
+    expect(data.deployment.failureReason).toBe("Error rate spiked");
+
+    const stored = await getDeployment("deploy_1");
+    expect(stored.recoveredAt).toEqual(new Date("2025-11-09T11:30:00Z"));
+  });
+
+  test("should take recoveredAt from the next successful deployment", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z");
+    await insertDeployment("deploy_2", "2025-11-09T10:40:00Z");
+    await insertDeployment("deploy_3", "2025-11-09T12:00:00Z");
+
+    const response = await patch("deploy_1", { isFailed: true });
+
+    expect(response.status).toBe(200);
+
+    const stored = await getDeployment("deploy_1");
+    expect(stored.recoveredAt).toEqual(new Date("2025-11-09T10:40:00Z"));
+  });
+
+  test("should clear failure and recovery when isFailed is false", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z", {
+      isFailed: true,
+      failureReason: "False alarm",
+      recoveredAt: new Date("2025-11-09T10:30:00Z"),
+    });
+
+    const response = await patch("deploy_1", { isFailed: false });
+
+    expect(response.status).toBe(200);
+
+    const stored = await getDeployment("deploy_1");
+    expect(stored.isFailed).toBe(false);
+    expect(stored.failureReason).toBeNull();
+    expect(stored.recoveredAt).toBeNull();
+  });
+
+  test("should return 400 when recoveredAt is set on a healthy deployment", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z");
+
+    const response = await patch("deploy_1", {
+      recoveredAt: "2025-11-09T11:00:00Z",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  test("should return 400 when recoveredAt precedes the deployment", async () => {
+    await insertDeployment("deploy_1", "2025-11-09T10:00:00Z", {
+      isFailed: true,
+    });
+
+    const response = await patch("deploy_1", {
+      recoveredAt: "2025-11-09T09:00:00Z",
+    });
+
+    expect(response.status).toBe(400);
+
+    const stored = await getDeployment("deploy_1");
+    expect(stored.recoveredAt).toBeNull();
+  });
+});
@@ -9,8 +9,9 @@ import {
 import { eq } from "drizzle-orm";
 import { NextRequest } from "next/server";
 import { POST } from "@/app/api/deployments/route";
-import { deployments } from "@/lib/db/schema";
+import { deployments, pullRequests } from "@/lib/db/schema";
 import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { calculateChangeFailureRate } from "@/lib/metrics/dora-metrics";
 
 // ============================================================================
 // ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
@@ -169,6 +170,36 @@ describe("POST /api/deployments", () => {
       expect(data.details.environment).toBeDefined();
     });
 
+    test("should accept environments registered in DEPLOYMENT_ENVIRONMENTS", async () => {
+      const previous = process.env.DEPLOYMENT_ENVIRONMENTS;
+      process.env.DEPLOYMENT_ENVIRONMENTS = "prod-eu,canary";
+
+      try {
+        const accepted = await POST(
+          createRequest(
+            { ...validDeployment, environment: "Prod-EU" },
+            { Authorization: `Bearer ${VALID_API_KEY}` },
+          ),
+        );
+        const rejected = await POST(
+          createRequest(
+            { ...validDeployment, environment: "staging" },
+            { Authorization: `Bearer ${VALID_API_KEY}` },
+          ),
+        );
+
+        expect(accepted.status).toBe(201);
+        expect((await accepted.json()).deployment.environment).toBe("prod-eu");
+        expect(rejected.status).toBe(400);
+      } finally {
+        if (previous === undefined) {
+          delete process.env.DEPLOYMENT_ENVIRONMENTS;
+        } else {
+          process.env.DEPLOYMENT_ENVIRONMENTS = previous;
+        }
+      }
+    });
+
     test("should return 400 when 'commitSha' is not 40 characters", async () => {
       const invalidData = {
         ...validDeployment,
@@ -469,4 +500,271 @@ describe("POST /api/deployments", () => {
       expect(projectNames).toEqual(["project-a", "project-b", "project-c"]);
     });
   });
+
+  describe("PR Linking", () => {
+    afterEach(async () => {
+      await db.delete(pullRequests);
+    });
+
+    test("should link the PR whose merge commit was deployed", async () => {
+      await db.insert(pullRequests).values({
+        prNumber: 77,
+        repoName: "test-repo",
+        orgName: "test-org",
+        projectName: validDeployment.projectName,
+        title: "Ship feature",
+        author: "Dev",
+        state: "merged",
+        createdAt: new Date("2025-11-08T10:00:00Z"),
+        updatedAt: new Date("2025-11-09T09:00:00Z"),
+        closedAt: new Date("2025-11-09T09:00:00Z"),
+        mergedAt: new Date("2025-11-09T09:00:00Z"),
+        mergeCommitSha: validDeployment.commitSha,
+      });
+
+      const request = createRequest(validDeployment, {
+        Authorization: `Bearer ${VALID_API_KEY}`,
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+
+      const data = await response.json();
+      expect(data.deployment.relatedPRs).toEqual([77]);
+
+      const [stored] = await db.select().from(deployments);
+      expect(stored.relatedPRs).toEqual([77]);
+    });
+
+    test("should leave relatedPRs empty when no PR matches", async () => {
+      const request = createRequest(validDeployment, {
+        Authorization: `Bearer ${VALID_API_KEY}`,
+      });
+      const response = await POST(request);
+
+      const data = await response.json();
+      expect(data.deployment.relatedPRs).toEqual([]);
+    });
+  });
+
+  describe("Rollbacks and Recovery", () => {
+    const auth = { Authorization: `Bearer ${VALID_API_KEY}` };
+
+    async function record(overrides: Record<string, unknown>) {
+      const response = await POST(
+        createRequest({ ...validDeployment, ...overrides }, auth),
+      );
+      return { response, data: await response.json() };
+    }
+
+    test("should stamp recoveredAt on a failure when a later deployment succeeds", async () => {
+      const { data: failed } = await record({
+        status: "failure",
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+
+      await record({ deployedAt: "2025-11-09T10:45:00Z" });
+
+      const [stored] = await db
+        .select()
+        .from(deployments)
+        .where(eq(deployments.id, failed.deployment.id));
+      expect(stored.recoveredAt).toEqual(new Date("2025-11-09T10:45:00Z"));
+    });
+
+    test("should not recover failures in another environment or project", async () => {
+      const { data: failed } = await record({
+        status: "failure",
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+
+      await record({
+        environment: "staging",
+        deployedAt: "2025-11-09T10:30:00Z",
+      });
+      await record({
+        projectName: "other-project",
+        deployedAt: "2025-11-09T10:40:00Z",
+      });
+
+      const [stored] = await db
+        .select()
+        .from(deployments)
+        .where(eq(deployments.id, failed.deployment.id));
+      expect(stored.recoveredAt).toBeNull();
+    });
+
+    test("should record a rollback of a referenced deployment and recover it", async () => {
+      const { data: bad } = await record({
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+
+      const { response, data } = await record({
+        commitSha: "0000000000000000000000000000000000000001",
+        deployedAt: "2025-11-09T10:20:00Z",
+        rollbackOf: bad.deployment.deploymentId,
+      });
+
+      expect(response.status).toBe(201);
+      expect(data.deployment.isRollback).toBe(true);
+      expect(data.deployment.rollbackOf).toBe(bad.deployment.id);
+
+      // Rolling back marks the deployment as failed and recovers it
+      const [stored] = await db
+        .select()
+        .from(deployments)
+        .where(eq(deployments.id, bad.deployment.id));
+      expect(stored.isFailed).toBe(true);
+      expect(stored.failureReason).toBe(
+        `Rolled back by ${data.deployment.deploymentId}`,
+      );
+      expect(stored.recoveredAt).toEqual(new Date("2025-11-09T10:20:00Z"));
+    });
+
+    test("should count a deployment and its rollback as one failure", async () => {
+      const { data: bad } = await record({
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+      await record({
+        commitSha: "0000000000000000000000000000000000000001",
+        deployedAt: "2025-11-09T10:20:00Z",
+        rollbackOf: bad.deployment.deploymentId,
+      });
+
+      const cfr = await calculateChangeFailureRate(
+        new Date("2025-11-09T00:00:00Z"),
+        new Date("2025-11-09T23:59:59Z"),
+        "test-project",
+      );
+
+      expect(cfr.failed_count).toBe(1);
+      expect(cfr.total_count).toBe(2);
+    });
+
+    test("should roll back the latest failed deployment when rollbackOf is omitted", async () => {
+      await record({ status: "failure", deployedAt: "2025-11-09T09:00:00Z" });
+      const { data: latest } = await record({
+        status: "failure",
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+
+      const { data } = await record({
+        isRollback: true,
+        deployedAt: "2025-11-09T10:30:00Z",
+      });
+
+      expect(data.deployment.isRollback).toBe(true);
+      expect(data.deployment.rollbackOf).toBe(latest.deployment.id);
+    });
+
+    test("should return 400 when rollbackOf references an unknown deployment", async () => {
+      const { response, data } = await record({
+        rollbackOf: "deploy_0_missing",
+      });
+
+      expect(response.status).toBe(400);
+      expect(data.message).toContain("deploy_0_missing");
+    });
+
+    test("should return 400 when rollbackOf targets another environment", async () => {
+      const { data: staging } = await record({
+        environment: "staging",
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+
+      const { response } = await record({
+        deployedAt: "2025-11-09T10:30:00Z",
+        rollbackOf: staging.deployment.deploymentId,
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    test("should return 400 when the rollback precedes the rolled-back deployment", async () => {
+      const { data: bad } = await record({
+        deployedAt: "2025-11-09T10:00:00Z",
+      });
+
+      const { response } = await record({
+        deployedAt: "2025-11-09T09:00:00Z",
+        rollbackOf: bad.deployment.deploymentId,
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Idempotency", () => {
+    const auth = { Authorization: `Bearer ${VALID_API_KEY}` };
+
+    test("should use a client-supplied deploymentId", async () => {
+      const response = await POST(
+        createRequest({ ...validDeployment, deploymentId: "release-42" }, auth),
+      );
+
+      expect(response.status).toBe(201);
+
+      const data = await response.json();
+      expect(data.deployment.deploymentId).toBe("release-42");
+    });
+
+    test("should return the existing deployment with 200 on retry", async () => {
+      const first = await POST(
+        createRequest(validDeployment, {
+          ...auth,
+          "Idempotency-Key": "pipeline-run-981",
+        }),
+      );
+      const retry = await POST(
+        createRequest(validDeployment, {
+          ...auth,
+          "Idempotency-Key": "pipeline-run-981",
+        }),
+      );
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(200);
+
+      const created = await first.json();
+      const replayed = await retry.json();
+      expect(replayed.deployment.id).toBe(created.deployment.id);
+      expect(replayed.deployment.deploymentId).toBe("pipeline-run-981");
+
+      const stored = await db.select().from(deployments);
+      expect(stored).toHaveLength(1);
+    });
+
+    test("should return 409 when the key was used for a different commit", async () => {
+      await POST(
+        createRequest({ ...validDeployment, deploymentId: "release-42" }, auth),
+      );
+
+      const response = await POST(
+        createRequest(
+          {
+            ...validDeployment,
+            deploymentId: "release-42",
+            commitSha: "0000000000000000000000000000000000000001",
+          },
+          auth,
+        ),
+      );
+
+      expect(response.status).toBe(409);
+
+      const stored = await db.select().from(deployments);
+      expect(stored).toHaveLength(1);
+    });
+
+    test("should return 400 when deploymentId and Idempotency-Key differ", async () => {
+      const response = await POST(
+        createRequest(
+          { ...validDeployment, deploymentId: "release-42" },
+          { ...auth, "Idempotency-Key": "release-43" },
+        ),
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
 });
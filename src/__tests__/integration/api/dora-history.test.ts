@@ -0,0 +1,158 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/metrics/dora/history/route";
+import { deployments } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Integration Test Suite for DORA Metrics History API
+ *
+ * Tests the /api/metrics/dora/history endpoint which returns all four DORA
+ * metrics for consecutive ISO weeks.
+ */
+
+// Helper to create a NextRequest with query parameters
+function createRequest(params?: Record<string, string>): NextRequest {
+  const url = new URL("http://localhost:3000/api/metrics/dora/history");
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+  }
+  return new NextRequest(url);
+}
+
+async function insertDeployments(dates: string[]) {
+  await db.insert(deployments).values(
+    dates.map((date, index) => ({
+      deploymentId: `deploy-history-${index}`,
+      environment: "production",
+      status: "success",
+      orgName: "test-org",
+      projectName: "test-project",
+      commitSha: `sha-history-${index}`,
+      startedAt: new Date(date),
+      completedAt: new Date(date),
+      relatedPRs: [],
+    })),
+  );
+}
+
+describe("GET /api/metrics/dora/history", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(deployments);
+  });
+
+  afterEach(async () => {
+    await db.delete(deployments);
+  });
+
+  test("should return the last 12 weeks by default", async () => {
+    const response = await GET(createRequest({ week: "2025-W10" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.weeks).toHaveLength(12);
+    expect(data.weeks[0].week).toBe("2024-W51");
+    expect(data.weeks[11].week).toBe("2025-W10");
+    expect(data).toMatchObject({
+      week: "2025-W10",
+      startDate: "2024-12-16T00:00:00.000Z",
+      endDate: "2025-03-09T23:59:59.999Z",
+    });
+  });
+
+  test("should return metrics per week", async () => {
+    await insertDeployments([
+      "2025-01-02T10:00:00Z", // 2025-W01
+      "2025-01-08T10:00:00Z", // 2025-W02
+      "2025-01-09T10:00:00Z", // 2025-W02
+    ]);
+
+    const response = await GET(
+      createRequest({ week: "2025-W02", weeks: "3", project: "test-project" }),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.project).toBe("test-project");
+    expect(
+      data.weeks.map(
+        (week: { week: string; deploymentFrequency: { count: number } }) => [
+          week.week,
+          week.deploymentFrequency.count,
+        ],
+      ),
+    ).toEqual([
+      ["2024-W52", 0],
+      ["2025-W01", 1],
+      ["2025-W02", 2],
+    ]);
+    expect(data.weeks[2]).toHaveProperty("leadTime");
+    expect(data.weeks[2]).toHaveProperty("changeFailureRate");
+    expect(data.weeks[2]).toHaveProperty("mttr");
+  });
+
+  test("should include week 53 of long years", async () => {
+    await insertDeployments(["2020-12-30T10:00:00Z"]); // 2020-W53
+
+    const response = await GET(createRequest({ week: "2021-W01", weeks: "2" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.weeks[0]).toMatchObject({
+      week: "2020-W53",
+      startDate: "2020-12-28T00:00:00.000Z",
+      deploymentFrequency: { count: 1 },
+    });
+    expect(data.weeks[1].week).toBe("2021-W01");
+  });
+
+  test("should return 400 for invalid week counts", async () => {
+    for (const weeks of ["0", "53", "abc", "1.5"]) {
+      const response = await GET(createRequest({ weeks }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid weeks");
+      expect(data.received).toBe(weeks);
+    }
+  });
+
+  test("should return 400 for invalid week format", async () => {
+    const response = await GET(createRequest({ week: "2025-W99" }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid week format");
+  });
+
+  test("should return 404 for unknown teams", async () => {
+    const response = await GET(createRequest({ team: "unknown-team" }));
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Team not found");
+  });
+});
@@ -8,7 +8,12 @@ import {
 } from "bun:test";
 import { NextRequest } from "next/server";
 import { GET } from "@/app/api/metrics/dora/route";
-import { deployments, pullRequests } from "@/lib/db/schema";
+import {
+  deployments,
+  pullRequests,
+  teamRepositories,
+  teams,
+} from "@/lib/db/schema";
 import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
 
 // ============================================================================
@@ -310,6 +315,246 @@ describe("GET /api/metrics/dora", () => {
     });
   });
 
+  describe("Per-Repository Breakdown", () => {
+    const baseDate = new Date("2025-01-08T10:00:00Z");
+
+    function deployment(
+      deploymentId: string,
+      repoName: string | null,
+      failed = false,
+    ) {
+      return {
+        deploymentId,
+        environment: "production",
+        status: failed ? "failure" : "success",
+        orgName: "test-org",
+        projectName: "platform",
+        repoName,
+        commitSha: `sha-${deploymentId}`,
+        startedAt: baseDate,
+        completedAt: baseDate,
+        isFailed: failed,
+        recoveredAt: failed ? new Date(baseDate.getTime() + 7200000) : null,
+        relatedPRs: [],
+      };
+    }
+
+    beforeEach(async () => {
+      await db
+        .insert(deployments)
+        .values([
+          deployment("billing-1", "billing-api"),
+          deployment("billing-2", "billing-api", true),
+          deployment("web-1", "web-app"),
+          deployment("web-2", "web-app"),
+        ]);
+    });
+
+    test("should return per-repository breakdown when groupBy=repo", async () => {
+      const request = createRequest({
+        week: testWeek,
+        project: "platform",
+        groupBy: "repo",
+      });
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.project).toBe("platform");
+      expect(data.repos).toHaveLength(2);
+
+      const [billing, web] = data.repos;
+      expect(billing).toMatchObject({
+        projectName: "platform",
+        repoName: "billing-api",
+        deploymentFrequency: { count: 1 },
+        leadTime: { p50_hours: null, p90_hours: null, count: 0 },
+        changeFailureRate: { percentage: 50, failed_count: 1, total_count: 2 },
+        mttr: { p50_hours: 2, count: 1, source: "deployments" },
+      });
+      expect(web).toMatchObject({
+        projectName: "platform",
+        repoName: "web-app",
+        deploymentFrequency: { count: 2 },
+        changeFailureRate: { percentage: 0, failed_count: 0, total_count: 2 },
+        mttr: { p50_hours: null, count: 0, source: "deployments" },
+      });
+    });
+
+    test("should filter metrics by repository", async () => {
+      const request = createRequest({
+        week: testWeek,
+        project: "platform",
+        repo: "web-app",
+      });
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.repo).toBe("web-app");
+      expect(data.deploymentFrequency.count).toBe(2);
+      expect(data.changeFailureRate.total_count).toBe(2);
+      expect(data.mttr.count).toBe(0);
+    });
+
+    test("should return 400 for unsupported groupBy", async () => {
+      const request = createRequest({ week: testWeek, groupBy: "team" });
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.error).toBe("Invalid groupBy");
+      expect(data.received).toBe("team");
+    });
+  });
+
+  describe("Team Filter", () => {
+    afterEach(async () => {
+      await db.delete(teamRepositories);
+      await db.delete(teams);
+    });
+
+    test("should limit metrics to the team's repositories", async () => {
+      const [team] = await db
+        .insert(teams)
+        .values({ name: "payments" })
+        .returning();
+      await db.insert(teamRepositories).values({
+        teamId: team.id,
+        projectName: "platform",
+        repoName: "billing-api",
+      });
+
+      const baseDate = new Date("2025-01-08T10:00:00Z");
+      await db.insert(deployments).values(
+        ["billing-api", "web-app"].map((repoName) => ({
+          deploymentId: `deploy-${repoName}`,
+          environment: "production",
+          status: "success",
+          orgName: "test-org",
+          projectName: "platform",
+          repoName,
+          commitSha: `sha-${repoName}`,
+          startedAt: baseDate,
+          completedAt: baseDate,
+          relatedPRs: [],
+        })),
+      );
+
+      const response = await GET(
+        createRequest({ week: testWeek, team: "payments" }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.team).toBe("payments");
+      expect(data.deploymentFrequency.count).toBe(1);
+    });
+
+    test("should return 404 for an unknown team", async () => {
+      const response = await GET(
+        createRequest({ week: testWeek, team: "unknown" }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("Team not found");
+      expect(data.received).toBe("unknown");
+    });
+  });
+
+  describe("Date Ranges and Time Series", () => {
+    async function insertDeployments(dates: string[]) {
+      await db.insert(deployments).values(
+        dates.map((date, index) => ({
+          deploymentId: `deploy-range-${index}`,
+          environment: "production",
+          status: "success",
+          orgName: "test-org",
+          projectName: "test-project",
+          commitSha: `sha-range-${index}`,
+          startedAt: new Date(date),
+          completedAt: new Date(date),
+          relatedPRs: [],
+        })),
+      );
+    }
+
+    test("should calculate metrics for an explicit date range", async () => {
+      await insertDeployments([
+        "2025-01-02T10:00:00Z",
+        "2025-01-20T10:00:00Z",
+        "2025-02-01T10:00:00Z",
+      ]);
+
+      const response = await GET(
+        createRequest({ from: "2025-01-01", to: "2025-01-31" }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.deploymentFrequency.count).toBe(2);
+      expect(data).toMatchObject({
+        from: "2025-01-01",
+        to: "2025-01-31",
+        startDate: "2025-01-01T00:00:00.000Z",
+        endDate: "2025-01-31T23:59:59.999Z",
+      });
+      expect(data).not.toHaveProperty("week");
+    });
+
+    test("should return a time series with one bucket per period", async () => {
+      await insertDeployments([
+        "2025-01-02T10:00:00Z",
+        "2025-01-03T10:00:00Z",
+        "2025-02-10T10:00:00Z",
+      ]);
+
+      const response = await GET(
+        createRequest({
+          from: "2025-01-01",
+          to: "2025-03-31",
+          granularity: "month",
+        }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.granularity).toBe("month");
+      expect(
+        data.series.map(
+          (bucket: {
+            period: string;
+            deploymentFrequency: { count: number };
+          }) => [bucket.period, bucket.deploymentFrequency.count],
+        ),
+      ).toEqual([
+        ["2025-01", 2],
+        ["2025-02", 1],
+        ["2025-03", 0],
+      ]);
+      expect(data.series[0]).toHaveProperty("leadTime");
+      expect(data.series[0]).toHaveProperty("mttr");
+      expect(data).not.toHaveProperty("deploymentFrequency");
+    });
+
+    test("should return 400 for invalid ranges and granularities", async () => {
+      const invalid: Record<string, string>[] = [
+        { from: "2025-01-31", to: "2025-01-01" },
+        { from: "2025-01-01" },
+        { week: "2025-W02", from: "2025-01-01", to: "2025-01-31" },
+        { week: "2025-W02", granularity: "year" },
+        { week: "2025-W02", granularity: "day", allProjects: "true" },
+      ];
+
+      for (const params of invalid) {
+        const response = await GET(createRequest(params));
+        expect(response.status).toBe(400);
+      }
+    });
+  });
+
   describe("Query Parameter Validation", () => {
     test("should return 400 for invalid week format", async () => {
       const request = createRequest({ week: "invalid-week" });
@@ -0,0 +1,389 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { NextRequest } from "next/server";
+import { POST as RECORD_DEPLOYMENT } from "@/app/api/deployments/route";
+import {
+  DELETE,
+  GET as GET_IDENTITY,
+  PATCH,
+} from "@/app/api/identities/[id]/route";
+import { GET as LIST_IDENTITIES, POST } from "@/app/api/identities/route";
+import {
+  deployments,
+  identities,
+  identityAliases,
+  prReviews,
+  pullRequests,
+  teamMembers,
+  teams,
+} from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { calculatePRCycleTime } from "@/lib/metrics/pr-metrics";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Identity Administration API (/api/identities, /api/identities/:id)
+ *
+ * Tests cover:
+ * - Authentication (401) and validation (400)
+ * - Creating, listing, updating and deleting identities
+ * - Duplicate names and aliases (409), unknown identities (404)
+ * - Reconciliation of ingested PR authors, reviewers and deployers
+ * - Normalization of manually recorded deployers
+ */
+
+const VALID_API_KEY = process.env.ADMIN_API_KEY || "test_admin_key_12345";
+const AUTH = { Authorization: `Bearer ${VALID_API_KEY}` };
+const DEPLOYMENT_AUTH = {
+  Authorization: `Bearer ${process.env.DEPLOYMENT_API_KEY || "test_api_key_12345"}`,
+};
+
+function request(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = AUTH,
+) {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    ...(body !== undefined && {
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+  });
+}
+
+function createIdentity(body: unknown, headers?: Record<string, string>) {
+  return POST(request("POST", "/api/identities", body, headers));
+}
+
+function context(id: number | string) {
+  return { params: Promise.resolve({ id: String(id) }) };
+}
+
+const janeDoe = {
+  name: "Jane Doe",
+  aliases: ["jane.doe@example.com", "JaneDoe"],
+};
+
+async function insertPR(
+  prNumber: number,
+  author: string,
+  overrides: Partial<typeof pullRequests.$inferInsert> = {},
+) {
+  const createdAt = new Date("2025-01-08T10:00:00Z");
+
+  await db.insert(pullRequests).values({
+    prNumber,
+    repoName: "test-repo",
+    orgName: "test-org",
+    projectName: "test-project",
+    title: `PR ${prNumber}`,
+    author,
+    state: "open",
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+}
+
+async function authorOf(prNumber: number) {
+  const rows = await db.select().from(pullRequests);
+  return rows.find((pr) => pr.prNumber === prNumber);
+}
+
+describe("Identities API", () => {
+  async function cleanup() {
+    await db.delete(identityAliases);
+    await db.delete(identities);
+    await db.delete(pullRequests);
+    await db.delete(prReviews);
+    await db.delete(deployments);
+    await db.delete(teamMembers);
+    await db.delete(teams);
+  }
+
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  describe("POST /api/identities", () => {
+    test("should return 401 when API key is invalid", async () => {
+      const response = await createIdentity(janeDoe, {
+        Authorization: "Bearer wrong_key",
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    test("should create an identity with normalized aliases", async () => {
+      const response = await createIdentity(janeDoe);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.identity).toMatchObject({
+        name: "Jane Doe",
+        isBot: false,
+        aliases: ["jane.doe@example.com", "janedoe"],
+      });
+    });
+
+    test("should return 400 for a missing name", async () => {
+      const response = await createIdentity({ aliases: ["janedoe"] });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Validation error");
+    });
+
+    test("should return 409 when an alias belongs to another identity", async () => {
+      await createIdentity(janeDoe);
+
+      const response = await createIdentity({
+        name: "J. Doe",
+        aliases: ["jane.doe@EXAMPLE.com"],
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(data.message).toContain("jane.doe@example.com");
+    });
+
+    test("should rewrite ingested PR authors and deployers", async () => {
+      await insertPR(1, "JANEDOE");
+      await insertPR(2, "John Smith");
+      await RECORD_DEPLOYMENT(
+        request(
+          "POST",
+          "/api/deployments",
+          {
+            environment: "production",
+            commitSha: "abc1234567890def1234567890abcdef12345678",
+            deployedAt: "2025-01-08T10:30:00Z",
+            projectName: "test-project",
+            orgName: "test-org",
+            status: "success",
+            deployedBy: "Jane.Doe@example.com",
+          },
+          DEPLOYMENT_AUTH,
+        ),
+      );
+
+      await createIdentity(janeDoe);
+
+      expect((await authorOf(1))?.author).toBe("Jane Doe");
+      expect((await authorOf(2))?.author).toBe("John Smith");
+      const [deployment] = await db.select().from(deployments);
+      expect(deployment.deployedBy).toBe("Jane Doe");
+    });
+
+    test("should rewrite ingested reviewers, keeping one review per PR", async () => {
+      const review = {
+        repoName: "test-repo",
+        orgName: "test-org",
+        projectName: "test-project",
+      };
+      await db.insert(prReviews).values([
+        { ...review, prNumber: 1, reviewer: "JaneDoe", vote: "approved" },
+        { ...review, prNumber: 1, reviewer: "jane.doe@example.com" },
+        { ...review, prNumber: 2, reviewer: "janedoe" },
+        { ...review, prNumber: 2, reviewer: "John Smith" },
+      ]);
+
+      await createIdentity(janeDoe);
+
+      const rows = await db.select().from(prReviews);
+      expect(
+        rows
+          .map((row) => [row.prNumber, row.reviewer, row.vote])
+          .sort((a, b) => `${a}`.localeCompare(`${b}`)),
+      ).toEqual([
+        [1, "Jane Doe", "approved"],
+        [2, "Jane Doe", "none"],
+        [2, "John Smith", "none"],
+      ]);
+    });
+
+    test("should store new deployments under the identity name", async () => {
+      await createIdentity(janeDoe);
+
+      const response = await RECORD_DEPLOYMENT(
+        request(
+          "POST",
+          "/api/deployments",
+          {
+            environment: "production",
+            commitSha: "abc1234567890def1234567890abcdef12345678",
+            deployedAt: "2025-01-08T10:30:00Z",
+            projectName: "test-project",
+            orgName: "test-org",
+            status: "success",
+            deployedBy: "jane.doe@example.com",
+          },
+          DEPLOYMENT_AUTH,
+        ),
+      );
+
+      expect(response.status).toBe(201);
+      const [deployment] = await db.select().from(deployments);
+      expect(deployment.deployedBy).toBe("Jane Doe");
+    });
+  });
+
+  describe("GET /api/identities", () => {
+    test("should list identities ordered by name", async () => {
+      await createIdentity(janeDoe);
+      await createIdentity({ name: "Dependabot", isBot: true });
+
+      const response = await LIST_IDENTITIES();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(
+        data.identities.map((identity: { name: string }) => identity.name),
+      ).toEqual(["Dependabot", "Jane Doe"]);
+    });
+  });
+
+  describe("/api/identities/:id", () => {
+    async function createJane(): Promise<number> {
+      const response = await createIdentity(janeDoe);
+      return (await response.json()).identity.id;
+    }
+
+    test("should return an identity", async () => {
+      const id = await createJane();
+
+      const response = await GET_IDENTITY(
+        request("GET", `/api/identities/${id}`),
+        context(id),
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).identity.name).toBe("Jane Doe");
+    });
+
+    test("should return 404 for unknown or malformed IDs", async () => {
+      for (const id of ["999999", "abc"]) {
+        const response = await GET_IDENTITY(
+          request("GET", `/api/identities/${id}`),
+          context(id),
+        );
+
+        expect(response.status).toBe(404);
+      }
+    });
+
+    test("should flag existing PRs when marked as a bot", async () => {
+      const id = await createJane();
+      await insertPR(1, "Jane Doe");
+
+      const response = await PATCH(
+        request("PATCH", `/api/identities/${id}`, { isBot: true }),
+        context(id),
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).identity.isBot).toBe(true);
+      expect((await authorOf(1))?.isBot).toBe(true);
+    });
+
+    test("should keep the previous name as an alias on rename", async () => {
+      const id = await createJane();
+      await insertPR(1, "Jane Doe");
+
+      const response = await PATCH(
+        request("PATCH", `/api/identities/${id}`, { name: "Jane Roe" }),
+        context(id),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.identity.aliases).toContain("jane doe");
+      expect((await authorOf(1))?.author).toBe("Jane Roe");
+    });
+
+    test("should keep team members matching PRs after a rename", async () => {
+      const id = await createJane();
+      const [team] = await db
+        .insert(teams)
+        .values({ name: "payments" })
+        .returning();
+      await db.insert(teamMembers).values([
+        { teamId: team.id, memberName: "Jane Doe" },
+        { teamId: team.id, memberName: "JaneDoe" },
+      ]);
+      await insertPR(1, "Jane Doe", {
+        state: "merged",
+        mergedAt: new Date("2025-01-08T14:00:00Z"),
+      });
+
+      const response = await PATCH(
+        request("PATCH", `/api/identities/${id}`, { name: "Jane Roe" }),
+        context(id),
+      );
+      expect(response.status).toBe(200);
+
+      const members = await db.select().from(teamMembers);
+      expect(members.map((member) => member.memberName)).toEqual(["Jane Roe"]);
+
+      const cycleTime = await calculatePRCycleTime(
+        new Date("2025-01-06T00:00:00Z"),
+        new Date("2025-01-12T23:59:59Z"),
+        undefined,
+        team.id,
+      );
+      expect(cycleTime.count).toBe(1);
+    });
+
+    test("should return 409 when renaming to an existing identity", async () => {
+      const id = await createJane();
+      await createIdentity({ name: "John Smith" });
+
+      const response = await PATCH(
+        request("PATCH", `/api/identities/${id}`, { name: "John Smith" }),
+        context(id),
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    test("should delete an identity with its aliases", async () => {
+      const id = await createJane();
+
+      const unauthorized = await DELETE(
+        request("DELETE", `/api/identities/${id}`, undefined, {}),
+        context(id),
+      );
+      expect(unauthorized.status).toBe(401);
+
+      const response = await DELETE(
+        request("DELETE", `/api/identities/${id}`),
+        context(id),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await db.select().from(identities)).toHaveLength(0);
+      expect(await db.select().from(identityAliases)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/incidents/route";
+import { deployments, incidents } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Incident Event API
+ *
+ * Tests cover:
+ * - Open, mitigate and resolve lifecycle events
+ * - Request validation (400) and authentication (401)
+ * - Unknown (404) and conflicting (409) incidents
+ */
+
+const VALID_API_KEY = process.env.DEPLOYMENT_API_KEY || "test_api_key_12345";
+
+function createRequest(
+  body: unknown,
+  headers: Record<string, string> = {
+    Authorization: `Bearer ${VALID_API_KEY}`,
+  },
+): NextRequest {
+  return new NextRequest("http://localhost:3000/api/incidents", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+const openEvent = {
+  event: "open",
+  incidentId: "INC-1042",
+  occurredAt: "2025-11-09T10:45:00Z",
+  title: "Checkout returns 500",
+  severity: "sev2",
+  projectName: "test-project",
+  orgName: "test-org",
+};
+
+async function getIncident() {
+  const [incident] = await db
+    .select()
+    .from(incidents)
+    .where(eq(incidents.incidentId, openEvent.incidentId));
+  return incident;
+}
+
+describe("POST /api/incidents", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(incidents);
+    await db.delete(deployments);
+  });
+
+  afterEach(async () => {
+    await db.delete(incidents);
+    await db.delete(deployments);
+  });
+
+  describe("Authentication", () => {
+    test("should return 401 when API key is invalid", async () => {
+      const response = await POST(
+        createRequest(openEvent, { Authorization: "Bearer invalid_key" }),
+      );
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe("Unauthorized");
+    });
+  });
+
+  describe("Request Validation", () => {
+    test("should return 400 for an unknown event", async () => {
+      const response = await POST(
+        createRequest({ ...openEvent, event: "escalate" }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Validation error");
+    });
+
+    test("should return 400 for an invalid severity", async () => {
+      const response = await POST(
+        createRequest({ ...openEvent, severity: "critical" }),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    test("should return 400 when the linked deployment does not exist", async () => {
+      const response = await POST(
+        createRequest({ ...openEvent, deploymentId: "deploy_missing" }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await getIncident()).toBeUndefined();
+    });
+  });
+
+  describe("Lifecycle", () => {
+    test("should open an incident linked to a deployment", async () => {
+      await db.insert(deployments).values({
+        deploymentId: "deploy_1",
+        environment: "production",
+        orgName: "test-org",
+        projectName: "test-project",
+        commitSha: "a".repeat(40),
+        status: "success",
+        startedAt: new Date("2025-11-09T10:30:00Z"),
+      });
+
+      const response = await POST(
+        createRequest({ ...openEvent, deploymentId: "deploy_1" }),
+      );
+
+      expect(response.status).toBe(201);
+
+      const data = await response.json();
+      expect(data.success).toBe(true);
+      expect(data.incident).toMatchObject({
+        incidentId: "INC-1042",
+        status: "open",
+        severity: "sev2",
+        deploymentId: "deploy_1",
+      });
+    });
+
+    test("should record mitigation and resolution times", async () => {
+      await POST(createRequest(openEvent));
+
+      const mitigate = await POST(
+        createRequest({
+          event: "mitigate",
+          incidentId: "INC-1042",
+          occurredAt: "2025-11-09T11:00:00Z",
+        }),
+      );
+      expect(mitigate.status).toBe(200);
+
+      const resolve = await POST(
+        createRequest({
+          event: "resolve",
+          incidentId: "INC-1042",
+          occurredAt: "2025-11-09T11:30:00Z",
+          notes: "Rolled back",
+        }),
+      );
+      expect(resolve.status).toBe(200);
+
+      const incident = await getIncident();
+      expect(incident.status).toBe("resolved");
+      expect(incident.openedAt).toEqual(new Date("2025-11-09T10:45:00Z"));
+      expect(incident.mitigatedAt).toEqual(new Date("2025-11-09T11:00:00Z"));
+      expect(incident.resolvedAt).toEqual(new Date("2025-11-09T11:30:00Z"));
+      expect(incident.notes).toBe("Rolled back");
+    });
+
+    test("should return 409 when the incident already exists", async () => {
+      await POST(createRequest(openEvent));
+
+      const response = await POST(createRequest(openEvent));
+
+      expect(response.status).toBe(409);
+    });
+
+    test("should return 404 when resolving an unknown incident", async () => {
+      const response = await POST(
+        createRequest({
+          event: "resolve",
+          incidentId: "INC-404",
+          occurredAt: "2025-11-09T11:30:00Z",
+        }),
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    test("should return 409 when the incident is already resolved", async () => {
+      await POST(createRequest(openEvent));
+      const resolveEvent = {
+        event: "resolve",
+        incidentId: "INC-1042",
+        occurredAt: "2025-11-09T11:30:00Z",
+      };
+      await POST(createRequest(resolveEvent));
+
+      const response = await POST(createRequest(resolveEvent));
+
+      expect(response.status).toBe(409);
+    });
+
+    test("should return 400 when resolving before the incident opened", async () => {
+      await POST(createRequest(openEvent));
+
+      const response = await POST(
+        createRequest({
+          event: "resolve",
+          incidentId: "INC-1042",
+          occurredAt: "2025-11-09T10:00:00Z",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await getIncident()).status).toBe("open");
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { NextRequest } from "next/server";
+import { GET as ingestCIRuns } from "@/app/api/ingest/ci-runs/route";
+import { GET as ingestPullRequests } from "@/app/api/ingest/pull-requests/route";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for the Ingest Cron Routes
+ *
+ * Tests cover:
+ * - Authentication (401)
+ * - Query parameter validation (400)
+ * - Skipping GitHub ingestion while GitHub is not configured
+ *
+ * Requests that reach a source API are not covered here.
+ */
+
+const CRON_SECRET = "test_cron_secret";
+
+function createRequest(
+  path: string,
+  params: Record<string, string> = {},
+  secret = CRON_SECRET,
+): NextRequest {
+  const url = new URL(`http://localhost:3000${path}`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return new NextRequest(url, {
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+}
+
+describe("GET /api/ingest/pull-requests and /api/ingest/ci-runs", () => {
+  const originalEnv = {
+    CRON_SECRET: process.env.CRON_SECRET,
+    GITHUB_TOKEN: process.env.GITHUB_TOKEN,
+    GITHUB_ORG: process.env.GITHUB_ORG,
+  };
+
+  const routes = [
+    { path: "/api/ingest/pull-requests", GET: ingestPullRequests },
+    { path: "/api/ingest/ci-runs", GET: ingestCIRuns },
+  ];
+
+  beforeEach(() => {
+    process.env.CRON_SECRET = CRON_SECRET;
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GITHUB_ORG;
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  test("should reject requests without the cron secret", async () => {
+    for (const { path, GET } of routes) {
+      const response = await GET(createRequest(path, {}, "wrong-secret"));
+
+      expect(response.status).toBe(401);
+    }
+  });
+
+  test("should reject an unknown source", async () => {
+    for (const { path, GET } of routes) {
+      const response = await GET(createRequest(path, { source: "gitlab" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid source");
+    }
+  });
+
+  test("should reject a fullResync other than true or false", async () => {
+    for (const fullResync of ["1", "yes", "TRUE"]) {
+      const response = await ingestPullRequests(
+        createRequest("/api/ingest/pull-requests", { fullResync }),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid fullResync");
+      expect(data.received).toBe(fullResync);
+    }
+  });
+
+  test("should skip GitHub ingestion while GitHub is not configured", async () => {
+    process.env.GITHUB_TOKEN = "ghp_test"; // GITHUB_ORG still missing
+
+    for (const { path, GET } of routes) {
+      const response = await GET(createRequest(path, { source: "github" }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({
+        success: true,
+        skipped: true,
+        reason: "GitHub is not configured",
+      });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/metrics/merged-by-midweek/route";
+import { pullRequests } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Integration Test Suite for Merged by Midweek API
+ *
+ * Tests the /api/metrics/merged-by-midweek endpoint which returns the
+ * percentage of PRs opened Monday-Tuesday merged by Wednesday EOD.
+ */
+
+// Helper to create a NextRequest with query parameters
+function createRequest(params?: Record<string, string>): NextRequest {
+  const url = new URL("http://localhost:3000/api/metrics/merged-by-midweek");
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+  }
+  return new NextRequest(url);
+}
+
+async function insertPR(
+  prNumber: number,
+  createdAt: string,
+  mergedAt: string | null,
+) {
+  await db.insert(pullRequests).values({
+    prNumber,
+    repoName: "test-repo",
+    orgName: "test-org",
+    projectName: "test-project",
+    title: `PR ${prNumber}`,
+    author: "test-author",
+    state: mergedAt ? "merged" : "open",
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(mergedAt ?? createdAt),
+    mergedAt: mergedAt ? new Date(mergedAt) : null,
+  });
+}
+
+describe("GET /api/metrics/merged-by-midweek", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(pullRequests);
+  });
+
+  afterEach(async () => {
+    await db.delete(pullRequests);
+  });
+
+  test("should return the percentage merged by Wednesday", async () => {
+    await insertPR(1, "2025-01-06T09:00:00Z", "2025-01-08T15:00:00Z"); // Mon, merged Wed
+    await insertPR(2, "2025-01-07T09:00:00Z", "2025-01-09T15:00:00Z"); // Tue, merged Thu
+
+    const response = await GET(
+      createRequest({ week: "2025-W02", project: "test-project" }),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      percentage: 50,
+      merged_count: 1,
+      opened_count: 2,
+      cutoffDay: "wednesday",
+      cutoffDate: "2025-01-08T23:59:59.999Z",
+      week: "2025-W02",
+      startDate: "2025-01-06T00:00:00.000Z",
+      endDate: "2025-01-12T23:59:59.999Z",
+      project: "test-project",
+    });
+  });
+
+  test("should accept a cut-off day in any case", async () => {
+    await insertPR(1, "2025-01-07T09:00:00Z", "2025-01-09T15:00:00Z"); // Tue, merged Thu
+
+    const response = await GET(
+      createRequest({ week: "2025-W02", cutoff: "Thursday" }),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.cutoffDay).toBe("thursday");
+    expect(data.percentage).toBe(100);
+  });
+
+  test("should return null percentage when no PRs were opened", async () => {
+    const response = await GET(createRequest({ week: "2025-W02" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.percentage).toBeNull();
+    expect(data.opened_count).toBe(0);
+  });
+
+  test("should reject an invalid cut-off day", async () => {
+    for (const cutoff of ["monday", "midweek"]) {
+      const response = await GET(createRequest({ week: "2025-W02", cutoff }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid cutoff");
+      expect(data.received).toBe(cutoff);
+    }
+  });
+
+  test("should reject an invalid week", async () => {
+    const response = await GET(createRequest({ week: "2025-02" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Invalid week format");
+  });
+
+  test("should return 404 for an unknown team", async () => {
+    const response = await GET(
+      createRequest({ week: "2025-W02", team: "no-such-team" }),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Team not found");
+  });
+});
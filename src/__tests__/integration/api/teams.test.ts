@@ -0,0 +1,262 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { NextRequest } from "next/server";
+import { DELETE, GET as GET_TEAM, PATCH } from "@/app/api/teams/[name]/route";
+import { GET as LIST_TEAMS, POST } from "@/app/api/teams/route";
+import { teamMembers, teamRepositories, teams } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Team Administration API (/api/teams, /api/teams/:name)
+ *
+ * Tests cover:
+ * - Authentication (401) and validation (400)
+ * - Creating, listing, updating and deleting teams
+ * - Duplicate (409) and unknown (404) teams
+ */
+
+const VALID_API_KEY = process.env.ADMIN_API_KEY || "test_admin_key_12345";
+const AUTH = { Authorization: `Bearer ${VALID_API_KEY}` };
+
+function request(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = AUTH,
+) {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    ...(body !== undefined && {
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    }),
+  });
+}
+
+function createTeam(body: unknown, headers?: Record<string, string>) {
+  return POST(request("POST", "/api/teams", body, headers));
+}
+
+function context(name: string) {
+  return { params: Promise.resolve({ name }) };
+}
+
+const paymentsTeam = {
+  name: "payments",
+  description: "Checkout and billing",
+  members: ["Jane Doe", "John Smith"],
+  repositories: [
+    { projectName: "platform", repoName: "checkout-web" },
+    { projectName: "platform", repoName: "billing-api" },
+  ],
+};
+
+describe("Teams API", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(teamMembers);
+    await db.delete(teamRepositories);
+    await db.delete(teams);
+  });
+
+  afterEach(async () => {
+    await db.delete(teamMembers);
+    await db.delete(teamRepositories);
+    await db.delete(teams);
+  });
+
+  describe("POST /api/teams", () => {
+    test("should return 401 when API key is invalid", async () => {
+      const response = await createTeam(paymentsTeam, {
+        Authorization: "Bearer wrong_key",
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    test("should return 401 for the deployment API key", async () => {
+      const response = await createTeam(paymentsTeam, {
+        Authorization: `Bearer ${process.env.DEPLOYMENT_API_KEY || "test_api_key_12345"}`,
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    test("should create a team with members and repositories", async () => {
+      const response = await createTeam(paymentsTeam);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.success).toBe(true);
+      expect(data.team).toMatchObject({
+        name: "payments",
+        description: "Checkout and billing",
+        members: ["Jane Doe", "John Smith"],
+        repositories: [
+          { projectName: "platform", repoName: "billing-api" },
+          { projectName: "platform", repoName: "checkout-web" },
+        ],
+      });
+    });
+
+    test("should return 400 for an invalid team name", async () => {
+      const response = await createTeam({ name: "payments team" });
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+    });
+
+    test("should return 400 for invalid JSON", async () => {
+      const response = await createTeam("{not json");
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Invalid JSON");
+    });
+
+    test("should return 409 when the team already exists", async () => {
+      await createTeam(paymentsTeam);
+
+      const response = await createTeam({ name: "payments" });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("GET /api/teams", () => {
+    test("should list teams ordered by name", async () => {
+      await createTeam(paymentsTeam);
+      await createTeam({ name: "identity", members: ["Alex Kim"] });
+
+      const response = await LIST_TEAMS();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.teams.map((team: { name: string }) => team.name)).toEqual([
+        "identity",
+        "payments",
+      ]);
+      expect(data.teams[0]).toMatchObject({
+        members: ["Alex Kim"],
+        repositories: [],
+      });
+    });
+  });
+
+  describe("/api/teams/:name", () => {
+    test("should return a team", async () => {
+      await createTeam(paymentsTeam);
+
+      const response = await GET_TEAM(
+        request("GET", "/api/teams/payments"),
+        context("payments"),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.team.members).toEqual(["Jane Doe", "John Smith"]);
+    });
+
+    test("should return 404 for an unknown team", async () => {
+      const response = await GET_TEAM(
+        request("GET", "/api/teams/unknown"),
+        context("unknown"),
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    test("should replace members and keep omitted fields", async () => {
+      await createTeam(paymentsTeam);
+
+      const response = await PATCH(
+        request("PATCH", "/api/teams/payments", {
+          members: ["Alex Kim"],
+        }),
+        context("payments"),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.team.members).toEqual(["Alex Kim"]);
+      expect(data.team.description).toBe("Checkout and billing");
+      expect(data.team.repositories).toHaveLength(2);
+    });
+
+    test("should rename a team", async () => {
+      await createTeam(paymentsTeam);
+
+      const response = await PATCH(
+        request("PATCH", "/api/teams/payments", { name: "billing" }),
+        context("payments"),
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).team.name).toBe("billing");
+    });
+
+    test("should return 409 when renaming to an existing team", async () => {
+      await createTeam(paymentsTeam);
+      await createTeam({ name: "identity" });
+
+      const response = await PATCH(
+        request("PATCH", "/api/teams/payments", { name: "identity" }),
+        context("payments"),
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    test("should return 400 when the update has no fields", async () => {
+      await createTeam(paymentsTeam);
+
+      const response = await PATCH(
+        request("PATCH", "/api/teams/payments", {}),
+        context("payments"),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    test("should delete a team with its mappings", async () => {
+      await createTeam(paymentsTeam);
+
+      const unauthorized = await DELETE(
+        request("DELETE", "/api/teams/payments", undefined, {}),
+        context("payments"),
+      );
+      expect(unauthorized.status).toBe(401);
+
+      const response = await DELETE(
+        request("DELETE", "/api/teams/payments"),
+        context("payments"),
+      );
+
+      expect(response.status).toBe(200);
+      expect(await db.select().from(teams)).toHaveLength(0);
+      expect(await db.select().from(teamMembers)).toHaveLength(0);
+      expect(await db.select().from(teamRepositories)).toHaveLength(0);
+    });
+  });
+});
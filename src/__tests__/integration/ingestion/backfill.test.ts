@@ -0,0 +1,231 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import { backfillJobs } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import {
+  claimBackfillJob,
+  countRemainingChunks,
+  createBackfillJob,
+  getNextChunk,
+  runBackfill,
+} from "@/lib/ingestion/backfill";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+describe("Historical Backfill", () => {
+  const rangeStart = new Date("2024-01-01T00:00:00Z");
+  const rangeEnd = new Date("2024-01-31T00:00:00Z");
+
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(backfillJobs);
+  });
+
+  afterEach(async () => {
+    await db.delete(backfillJobs);
+  });
+
+  describe("getNextChunk", () => {
+    test("should walk backwards from the cursor in chunkDays steps", () => {
+      const chunk = getNextChunk({
+        rangeStart,
+        cursor: rangeEnd,
+        chunkDays: 7,
+      });
+
+      expect(chunk).toEqual({
+        since: new Date("2024-01-24T00:00:00Z"),
+        until: rangeEnd,
+      });
+    });
+
+    test("should clamp the last chunk to the range start", () => {
+      const chunk = getNextChunk({
+        rangeStart,
+        cursor: new Date("2024-01-03T00:00:00Z"),
+        chunkDays: 7,
+      });
+
+      expect(chunk).toEqual({
+        since: rangeStart,
+        until: new Date("2024-01-03T00:00:00Z"),
+      });
+    });
+
+    test("should return null once the cursor reaches the range start", () => {
+      expect(
+        getNextChunk({ rangeStart, cursor: rangeStart, chunkDays: 7 }),
+      ).toBeNull();
+    });
+
+    test("should count remaining chunks including a partial one", () => {
+      // 30 days in 7-day chunks: 4 full + 1 partial
+      expect(
+        countRemainingChunks({ rangeStart, cursor: rangeEnd, chunkDays: 7 }),
+      ).toBe(5);
+      expect(
+        countRemainingChunks({ rangeStart, cursor: rangeStart, chunkDays: 7 }),
+      ).toBe(0);
+    });
+  });
+
+  describe("createBackfillJob", () => {
+    test("should create a pending job with the cursor at the range end", async () => {
+      const job = await createBackfillJob({
+        source: "azure-devops",
+        entity: "pull_requests",
+        rangeStart,
+        rangeEnd,
+      });
+
+      expect(job.status).toBe("pending");
+      expect(job.cursor).toEqual(rangeEnd);
+      expect(job.chunkDays).toBe(7);
+      expect(job.chunksCompleted).toBe(0);
+    });
+
+    test("should reject an empty range", async () => {
+      await expect(
+        createBackfillJob({
+          source: "azure-devops",
+          entity: "ci_runs",
+          rangeStart: rangeEnd,
+          rangeEnd: rangeStart,
+        }),
+      ).rejects.toThrow("range start must be before range end");
+    });
+  });
+
+  describe("claimBackfillJob", () => {
+    test("should lease the oldest unfinished job", async () => {
+      const first = await createBackfillJob({
+        source: "azure-devops",
+        entity: "pull_requests",
+        rangeStart,
+        rangeEnd,
+      });
+      await createBackfillJob({
+        source: "azure-devops",
+        entity: "ci_runs",
+        rangeStart,
+        rangeEnd,
+      });
+
+      const claimed = await claimBackfillJob();
+
+      expect(claimed?.id).toBe(first.id);
+      expect(claimed?.status).toBe("running");
+      expect(claimed?.lockedUntil).not.toBeNull();
+    });
+
+    test("should not lease a job that is already leased", async () => {
+      const job = await createBackfillJob({
+        source: "azure-devops",
+        entity: "pull_requests",
+        rangeStart,
+        rangeEnd,
+      });
+
+      const first = await claimBackfillJob(job.id);
+      const second = await claimBackfillJob(job.id);
+
+      expect(first?.id).toBe(job.id);
+      expect(second).toBeNull();
+    });
+
+    test("should lease a job whose lease has expired", async () => {
+      const job = await createBackfillJob({
+        source: "azure-devops",
+        entity: "pull_requests",
+        rangeStart,
+        rangeEnd,
+      });
+      await db
+        .update(backfillJobs)
+        .set({ status: "running", lockedUntil: new Date(Date.now() - 1000) })
+        .where(eq(backfillJobs.id, job.id));
+
+      const claimed = await claimBackfillJob();
+
+      expect(claimed?.id).toBe(job.id);
+    });
+
+    test("should skip completed jobs", async () => {
+      const job = await createBackfillJob({
+        source: "azure-devops",
+        entity: "pull_requests",
+        rangeStart,
+        rangeEnd,
+      });
+      await db
+        .update(backfillJobs)
+        .set({ status: "completed", cursor: rangeStart })
+        .where(eq(backfillJobs.id, job.id));
+
+      expect(await claimBackfillJob()).toBeNull();
+    });
+  });
+
+  describe("runBackfill", () => {
+    const originalPat = process.env.AZURE_DEVOPS_PAT;
+
+    afterEach(() => {
+      if (originalPat === undefined) {
+        delete process.env.AZURE_DEVOPS_PAT;
+      } else {
+        process.env.AZURE_DEVOPS_PAT = originalPat;
+      }
+    });
+
+    test("should return null when no jobs are pending", async () => {
+      expect(await runBackfill()).toBeNull();
+    });
+
+    test("should keep the cursor and release the lease on a fatal error", async () => {
+      // Missing credentials make provider creation fail before any chunk runs
+      delete process.env.AZURE_DEVOPS_PAT;
+
+      const job = await createBackfillJob({
+        source: "azure-devops",
+        entity: "pull_requests",
+        rangeStart,
+        rangeEnd,
+      });
+
+      const result = await runBackfill({ jobId: job.id });
+      const [stored] = await db
+        .select()
+        .from(backfillJobs)
+        .where(eq(backfillJobs.id, job.id));
+
+      expect(result?.success).toBe(false);
+      expect(result?.chunksProcessed).toBe(0);
+      expect(result?.chunksRemaining).toBe(5);
+      expect(result?.cursor).toEqual(rangeEnd);
+      expect(stored.cursor).toEqual(rangeEnd);
+      expect(stored.lockedUntil).toBeNull();
+      expect(stored.errorCount).toBe(1);
+      expect(stored.lastError).not.toBeNull();
+    });
+  });
+});
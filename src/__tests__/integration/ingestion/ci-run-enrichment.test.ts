@@ -0,0 +1,153 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { ciRuns, ciRunTimeline, testResults } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { ingestCIRunRange } from "@/lib/ingestion/ci-runs";
+import type { TransformedCIRun } from "@/lib/ingestion/transformers/transform-ci-run";
+import type { TransformedTestResult } from "@/lib/ingestion/transformers/transform-test-result";
+import type { TransformedCITimeline } from "@/lib/ingestion/transformers/transform-timeline";
+import type { SourceProject, SourceProvider } from "@/lib/ingestion/types";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+const RUN_ID = "Project-A-1234";
+const PROJECT: SourceProject = { name: "Project-A", orgName: "test-org" };
+const SINCE = new Date("2025-01-15T00:00:00Z");
+const UNTIL = new Date("2025-01-16T00:00:00Z");
+
+const run: TransformedCIRun = {
+  runId: RUN_ID,
+  workflowName: "web-app-ci",
+  repoName: "web-app",
+  orgName: "test-org",
+  projectName: "Project-A",
+  branch: "main",
+  commitSha: "0123456789abcdef0123456789abcdef01234567",
+  prNumber: null,
+  status: "completed",
+  conclusion: "success",
+  queuedAt: new Date("2025-01-15T09:59:00Z"),
+  startedAt: new Date("2025-01-15T10:00:00Z"),
+  completedAt: new Date("2025-01-15T10:05:00Z"),
+  isFlaky: false,
+  flakyTestCount: 0,
+  failureReason: null,
+  jobsCount: 0,
+  failedJobsCount: 0,
+};
+
+function createTestResult(testName: string): TransformedTestResult {
+  return {
+    resultId: `${RUN_ID}-${testName}`,
+    runId: RUN_ID,
+    repoName: "web-app",
+    orgName: "test-org",
+    projectName: "Project-A",
+    commitSha: run.commitSha,
+    testName,
+    testSuite: null,
+    outcome: "passed",
+    durationMs: 100,
+    startedAt: new Date("2025-01-15T10:01:00Z"),
+  };
+}
+
+const timeline: TransformedCITimeline = {
+  records: [],
+  jobsCount: 3,
+  failedJobsCount: 0,
+  failureReason: null,
+};
+
+/**
+ * Provider returning the same completed run on every sync; the test result
+ * fetch fails while `failEnrichment` is set
+ */
+function createProvider() {
+  const state = { failEnrichment: true, testResultFetches: 0 };
+
+  const provider = {
+    name: "azure-devops",
+    displayName: "Test Provider",
+    discoverProjects: async () => [PROJECT],
+    listPullRequests: async () => ({ prs: [], syncedRepos: [] }),
+    enrichReviews: async () => ({
+      firstReviewAt: null,
+      approvedAt: null,
+      reviews: [],
+    }),
+    listCIRuns: async () => [run],
+    listTestResults: async () => {
+      state.testResultFetches++;
+      if (state.failEnrichment) {
+        throw new Error("Test results API unavailable");
+      }
+      return [createTestResult("login"), createTestResult("checkout")];
+    },
+    getRunTimeline: async () => timeline,
+  } as unknown as SourceProvider;
+
+  return { provider, state };
+}
+
+describe("CI run enrichment", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(testResults);
+    await db.delete(ciRunTimeline);
+    await db.delete(ciRuns);
+  });
+
+  afterEach(async () => {
+    await db.delete(testResults);
+    await db.delete(ciRunTimeline);
+    await db.delete(ciRuns);
+  });
+
+  test("should retry enrichment of an unchanged run after a failed fetch", async () => {
+    const { provider, state } = createProvider();
+
+    const first = await ingestCIRunRange(provider, [PROJECT], SINCE, UNTIL);
+    expect(first.runsIngested).toBe(1);
+    expect(first.errors).toHaveLength(1);
+
+    const [failed] = await db.select().from(ciRuns);
+    expect(failed.enrichedAt).toBeNull();
+    expect(await db.select().from(testResults)).toHaveLength(0);
+
+    state.failEnrichment = false;
+    const second = await ingestCIRunRange(provider, [PROJECT], SINCE, UNTIL);
+    expect(second.runsIngested).toBe(0);
+    expect(second.runsUpdated).toBe(0);
+    expect(second.testResultsIngested).toBe(2);
+    expect(second.timelinesIngested).toBe(1);
+    expect(second.errors).toHaveLength(0);
+
+    const [enriched] = await db.select().from(ciRuns);
+    expect(enriched.enrichedAt).not.toBeNull();
+    expect(enriched.jobsCount).toBe(3);
+
+    // Enriched runs are not fetched again
+    await ingestCIRunRange(provider, [PROJECT], SINCE, UNTIL);
+    expect(state.testResultFetches).toBe(2);
+  });
+});
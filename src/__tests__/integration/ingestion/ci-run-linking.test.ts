@@ -0,0 +1,154 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import {
+  ciRuns,
+  type NewCIRun,
+  type NewPullRequest,
+  pullRequests,
+} from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { enrichCIRunsWithPRLinks } from "@/lib/ingestion/ci-runs";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+const SOURCE_SHA = "a".repeat(40);
+const MERGE_SHA = "b".repeat(40);
+const OTHER_SHA = "c".repeat(40);
+
+async function insertPR(overrides: Partial<NewPullRequest> = {}) {
+  const now = new Date();
+  await db.insert(pullRequests).values({
+    prNumber: 10,
+    repoName: "web-app",
+    orgName: "test-org",
+    projectName: "Project-A",
+    title: "Add login",
+    author: "Dev",
+    state: "merged",
+    createdAt: now,
+    updatedAt: now,
+    mergedAt: now,
+    sourceCommitSha: SOURCE_SHA,
+    mergeCommitSha: MERGE_SHA,
+    ...overrides,
+  });
+}
+
+async function insertRun(
+  runId: string,
+  overrides: Partial<NewCIRun> = {},
+): Promise<number> {
+  const [run] = await db
+    .insert(ciRuns)
+    .values({
+      runId,
+      workflowName: "build",
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      branch: "main",
+      commitSha: OTHER_SHA,
+      status: "completed",
+      conclusion: "success",
+      startedAt: new Date(),
+      ...overrides,
+    })
+    .returning();
+  return run.id;
+}
+
+async function getPRNumber(id: number): Promise<number | null> {
+  const [run] = await db.select().from(ciRuns).where(eq(ciRuns.id, id));
+  return run.prNumber;
+}
+
+describe("enrichCIRunsWithPRLinks()", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(ciRuns);
+    await db.delete(pullRequests);
+  });
+
+  afterEach(async () => {
+    await db.delete(ciRuns);
+    await db.delete(pullRequests);
+  });
+
+  test("should link runs of a PR's source and merge commits", async () => {
+    await insertPR();
+    const sourceRun = await insertRun("run-source", {
+      branch: "feature/login",
+      commitSha: SOURCE_SHA,
+    });
+    const mergeRun = await insertRun("run-merge", { commitSha: MERGE_SHA });
+    const unrelatedRun = await insertRun("run-other");
+
+    const result = await enrichCIRunsWithPRLinks();
+
+    expect(result).toEqual({ enriched: 2, errors: 0 });
+    expect(await getPRNumber(sourceRun)).toBe(10);
+    expect(await getPRNumber(mergeRun)).toBe(10);
+    expect(await getPRNumber(unrelatedRun)).toBeNull();
+  });
+
+  test("should prefer the PR that merged a commit over one built from it", async () => {
+    await insertPR({ prNumber: 10, mergeCommitSha: MERGE_SHA });
+    // A follow-up PR branched from the merge commit
+    await insertPR({
+      prNumber: 11,
+      state: "open",
+      mergedAt: null,
+      sourceCommitSha: MERGE_SHA,
+      mergeCommitSha: null,
+    });
+    const run = await insertRun("run-merge", { commitSha: MERGE_SHA });
+
+    await enrichCIRunsWithPRLinks();
+
+    expect(await getPRNumber(run)).toBe(10);
+  });
+
+  test("should only match PRs in the same project and repository", async () => {
+    await insertPR({ repoName: "api" });
+    const run = await insertRun("run-source", { commitSha: SOURCE_SHA });
+
+    const result = await enrichCIRunsWithPRLinks();
+
+    expect(result.enriched).toBe(0);
+    expect(await getPRNumber(run)).toBeNull();
+  });
+
+  test("should keep PR numbers already set from build metadata", async () => {
+    await insertPR();
+    const run = await insertRun("run-pr", {
+      branch: "refs/pull/12/merge",
+      commitSha: SOURCE_SHA,
+      prNumber: 12,
+    });
+
+    const result = await enrichCIRunsWithPRLinks();
+
+    expect(result.enriched).toBe(0);
+    expect(await getPRNumber(run)).toBe(12);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import { ciRuns, ciRunTimeline } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { replaceCIRunTimeline } from "@/lib/ingestion/persistence";
+import type {
+  TransformedCITimeline,
+  TransformedTimelineRecord,
+} from "@/lib/ingestion/transformers/transform-timeline";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+const RUN_ID = "Project-A-1234";
+
+function createRecord(
+  name: string,
+  overrides: Partial<TransformedTimelineRecord> = {},
+): TransformedTimelineRecord {
+  return {
+    recordId: `${RUN_ID}-${name}`,
+    runId: RUN_ID,
+    workflowName: "web-app-ci",
+    repoName: "web-app",
+    orgName: "test-org",
+    projectName: "Project-A",
+    recordType: "job",
+    name,
+    stageName: "Test",
+    result: "succeeded",
+    attempt: 1,
+    startedAt: new Date("2025-01-15T10:00:00Z"),
+    completedAt: new Date("2025-01-15T10:05:00Z"),
+    durationMs: 300000,
+    ...overrides,
+  };
+}
+
+async function getRun() {
+  const [run] = await db.select().from(ciRuns).where(eq(ciRuns.runId, RUN_ID));
+  return run;
+}
+
+describe("replaceCIRunTimeline()", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(ciRunTimeline);
+    await db.delete(ciRuns);
+    await db.insert(ciRuns).values({
+      runId: RUN_ID,
+      workflowName: "web-app-ci",
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      status: "completed",
+      conclusion: "failure",
+      startedAt: new Date("2025-01-15T10:00:00Z"),
+    });
+  });
+
+  afterEach(async () => {
+    await db.delete(ciRunTimeline);
+    await db.delete(ciRuns);
+  });
+
+  test("should store records and fill the run's counters", async () => {
+    const timeline: TransformedCITimeline = {
+      records: [
+        createRecord("Test", { recordType: "stage", stageName: null }),
+        createRecord("Unit tests"),
+        createRecord("E2E tests", { result: "failed" }),
+      ],
+      jobsCount: 2,
+      failedJobsCount: 1,
+      failureReason: "Run Playwright: Process completed with exit code 1.",
+    };
+
+    await replaceCIRunTimeline(RUN_ID, timeline);
+
+    const rows = await db.select().from(ciRunTimeline);
+    expect(rows).toHaveLength(3);
+
+    const run = await getRun();
+    expect(run.jobsCount).toBe(2);
+    expect(run.failedJobsCount).toBe(1);
+    expect(run.failureReason).toBe(
+      "Run Playwright: Process completed with exit code 1.",
+    );
+  });
+
+  test("should replace the timeline of a retried run", async () => {
+    await replaceCIRunTimeline(RUN_ID, {
+      records: [
+        createRecord("Unit tests"),
+        createRecord("E2E tests", { result: "failed" }),
+      ],
+      jobsCount: 2,
+      failedJobsCount: 1,
+      failureReason: "E2E tests failed",
+    });
+
+    await replaceCIRunTimeline(RUN_ID, {
+      records: [
+        createRecord("Unit tests"),
+        createRecord("E2E tests", { attempt: 2 }),
+      ],
+      jobsCount: 2,
+      failedJobsCount: 0,
+      failureReason: null,
+    });
+
+    const rows = await db.select().from(ciRunTimeline);
+    expect(rows).toHaveLength(2);
+    expect(rows.find((row) => row.name === "E2E tests")?.attempt).toBe(2);
+
+    const run = await getRun();
+    expect(run.failedJobsCount).toBe(0);
+    expect(run.failureReason).toBeNull();
+  });
+});
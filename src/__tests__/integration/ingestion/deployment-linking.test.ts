@@ -0,0 +1,186 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import {
+  type Deployment,
+  deployments,
+  type NewDeployment,
+  type NewPullRequest,
+  pullRequests,
+} from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import {
+  enrichDeploymentsWithPRLinks,
+  resolveDeploymentPRs,
+} from "@/lib/ingestion/deployments";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Deployment-to-PR Linking
+ *
+ * A deployment ships the PRs merged after the previously deployed commit up
+ * to and including its own commit, matched through PR merge commit SHAs.
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+const base = Date.now() - 10 * DAY;
+
+function sha(n: number): string {
+  return n.toString(16).padStart(40, "0");
+}
+
+async function insertMergedPR(prNumber: number, mergedDay: number) {
+  const mergedAt = new Date(base + mergedDay * DAY);
+  const pr: NewPullRequest = {
+    prNumber,
+    repoName: "web-app",
+    orgName: "test-org",
+    projectName: "Project-A",
+    title: `PR ${prNumber}`,
+    author: "Dev",
+    state: "merged",
+    createdAt: new Date(mergedAt.getTime() - DAY),
+    updatedAt: mergedAt,
+    closedAt: mergedAt,
+    mergedAt,
+    mergeCommitSha: sha(prNumber),
+  };
+  await db.insert(pullRequests).values(pr);
+}
+
+async function insertDeployment(
+  commitSha: string,
+  startedDay: number,
+  overrides: Partial<NewDeployment> = {},
+): Promise<Deployment> {
+  const startedAt = new Date(base + startedDay * DAY);
+  const [deployment] = await db
+    .insert(deployments)
+    .values({
+      deploymentId: `deploy-${commitSha.slice(-6)}-${startedDay}`,
+      environment: "production",
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      commitSha,
+      status: "success",
+      startedAt,
+      completedAt: startedAt,
+      relatedPRs: [],
+      ...overrides,
+    })
+    .returning();
+  return deployment;
+}
+
+describe("Deployment PR Linking", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(deployments);
+    await db.delete(pullRequests);
+  });
+
+  afterEach(async () => {
+    await db.delete(deployments);
+    await db.delete(pullRequests);
+  });
+
+  test("should link PRs merged between the previous and current deployed commits", async () => {
+    await insertMergedPR(1, 1);
+    await insertMergedPR(2, 2);
+    await insertMergedPR(3, 3);
+    await insertMergedPR(4, 4);
+    await insertMergedPR(5, 6); // merged after the deployed commit
+
+    await insertDeployment(sha(1), 1.5);
+    const deployment = await insertDeployment(sha(4), 5);
+
+    expect(await resolveDeploymentPRs(deployment)).toEqual([2, 3, 4]);
+  });
+
+  test("should only link the deployed PR when there is no previous deployment", async () => {
+    await insertMergedPR(1, 1);
+    await insertMergedPR(2, 2);
+
+    const deployment = await insertDeployment(sha(2), 3);
+
+    expect(await resolveDeploymentPRs(deployment)).toEqual([2]);
+  });
+
+  test("should fall back to deployment times for commits that are not PR merges", async () => {
+    await insertMergedPR(1, 1);
+    await insertMergedPR(2, 3);
+    await insertMergedPR(3, 6);
+
+    await insertDeployment(sha(999), 2);
+    const deployment = await insertDeployment(sha(998), 5);
+
+    expect(await resolveDeploymentPRs(deployment)).toEqual([2]);
+  });
+
+  test("should link nothing when the previous commit is redeployed", async () => {
+    await insertMergedPR(1, 1);
+
+    await insertDeployment(sha(1), 2);
+    const redeploy = await insertDeployment(sha(1), 3);
+
+    expect(await resolveDeploymentPRs(redeploy)).toEqual([]);
+  });
+
+  test("should ignore failed deployments and other environments as the previous deployment", async () => {
+    await insertMergedPR(1, 1);
+    await insertMergedPR(2, 2);
+    await insertMergedPR(3, 3);
+
+    await insertDeployment(sha(1), 1.5);
+    await insertDeployment(sha(2), 2.5, { status: "failure", isFailed: true });
+    await insertDeployment(sha(2), 2.6, { environment: "staging" });
+    const deployment = await insertDeployment(sha(3), 4);
+
+    expect(await resolveDeploymentPRs(deployment)).toEqual([2, 3]);
+  });
+
+  test("should fill relatedPRs of unlinked deployments only", async () => {
+    await insertMergedPR(1, 1);
+    await insertMergedPR(2, 2);
+
+    const first = await insertDeployment(sha(1), 1.5);
+    const listed = await insertDeployment(sha(2), 3, { relatedPRs: [42] });
+
+    const result = await enrichDeploymentsWithPRLinks();
+
+    expect(result).toEqual({ enriched: 1, errors: 0 });
+
+    const [firstRow] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.id, first.id));
+    const [listedRow] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.id, listed.id));
+
+    expect(firstRow.relatedPRs).toEqual([1]);
+    expect(listedRow.relatedPRs).toEqual([42]);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { PATCH } from "@/app/api/deployments/[id]/route";
+import { deployments } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { upsertDeployment } from "@/lib/ingestion/persistence";
+import type { TransformedDeployment } from "@/lib/ingestion/transformers/transform-deployment";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+const VALID_API_KEY = process.env.DEPLOYMENT_API_KEY || "test_api_key_12345";
+
+function patchDeployment(id: string, body: unknown) {
+  const request = new NextRequest(
+    `http://localhost:3000/api/deployments/${id}`,
+    {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${VALID_API_KEY}`,
+      },
+      body: JSON.stringify(body),
+    },
+  );
+  return PATCH(request, { params: Promise.resolve({ id }) });
+}
+
+function createDeployment(
+  overrides: Partial<TransformedDeployment> = {},
+): TransformedDeployment {
+  return {
+    deploymentId: "ado-env-test-org-Project-A-7-4321",
+    environment: "production",
+    repoName: "web-app",
+    orgName: "test-org",
+    projectName: "Project-A",
+    commitSha: "0123456789abcdef0123456789abcdef01234567",
+    deployedBy: "Pipeline User",
+    status: "in_progress",
+    startedAt: new Date("2025-01-15T10:00:00Z"),
+    completedAt: null,
+    isFailed: false,
+    failureReason: null,
+    relatedPRs: [101],
+    ...overrides,
+  };
+}
+
+describe("upsertDeployment()", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(deployments);
+  });
+
+  afterEach(async () => {
+    await db.delete(deployments);
+  });
+
+  test("should insert a new deployment", async () => {
+    expect(await upsertDeployment(createDeployment())).toBe("inserted");
+
+    const rows = await db.select().from(deployments);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].relatedPRs).toEqual([101]);
+  });
+
+  test("should skip an unchanged deployment", async () => {
+    await upsertDeployment(createDeployment());
+    expect(await upsertDeployment(createDeployment())).toBe("skipped");
+  });
+
+  test("should update when the deployment completes", async () => {
+    await upsertDeployment(createDeployment());
+
+    const action = await upsertDeployment(
+      createDeployment({
+        status: "failure",
+        isFailed: true,
+        completedAt: new Date("2025-01-15T10:05:00Z"),
+      }),
+    );
+    expect(action).toBe("updated");
+
+    const [row] = await db.select().from(deployments);
+    expect(row.status).toBe("failure");
+    expect(row.isFailed).toBe(true);
+  });
+
+  test("should update when related PRs change", async () => {
+    await upsertDeployment(createDeployment());
+    expect(
+      await upsertDeployment(createDeployment({ relatedPRs: [101, 102] })),
+    ).toBe("updated");
+  });
+
+  test("should preserve manually recorded recovery data", async () => {
+    await upsertDeployment(
+      createDeployment({
+        status: "failure",
+        isFailed: true,
+        completedAt: new Date("2025-01-15T10:05:00Z"),
+      }),
+    );
+
+    const recoveredAt = new Date("2025-01-15T12:00:00Z");
+    await db
+      .update(deployments)
+      .set({ recoveredAt, notes: "Hotfix deployed" })
+      .where(eq(deployments.deploymentId, createDeployment().deploymentId));
+
+    await upsertDeployment(
+      createDeployment({
+        status: "failure",
+        isFailed: true,
+        completedAt: new Date("2025-01-15T10:06:00Z"),
+      }),
+    );
+
+    const [row] = await db.select().from(deployments);
+    expect(row.completedAt).toEqual(new Date("2025-01-15T10:06:00Z"));
+    expect(row.recoveredAt).toEqual(recoveredAt);
+    expect(row.notes).toBe("Hotfix deployed");
+  });
+
+  test("should keep linked PRs when the build resolves none", async () => {
+    await upsertDeployment(createDeployment());
+
+    const action = await upsertDeployment(
+      createDeployment({
+        status: "success",
+        completedAt: new Date("2025-01-15T10:05:00Z"),
+        relatedPRs: [],
+      }),
+    );
+    expect(action).toBe("updated");
+
+    const [row] = await db.select().from(deployments);
+    expect(row.status).toBe("success");
+    expect(row.relatedPRs).toEqual([101]);
+  });
+
+  test("should preserve failure data set through the deployments API", async () => {
+    const completed = createDeployment({
+      status: "success",
+      completedAt: new Date("2025-01-15T10:05:00Z"),
+    });
+    await upsertDeployment(completed);
+
+    const response = await patchDeployment(completed.deploymentId, {
+      isFailed: true,
+      failureReason: "Checkout error rate spiked",
+    });
+    expect(response.status).toBe(200);
+
+    // Next ingestion run: redeployed, and the build resolved no PRs
+    const action = await upsertDeployment({
+      ...completed,
+      completedAt: new Date("2025-01-15T10:06:00Z"),
+      relatedPRs: [],
+    });
+    expect(action).toBe("updated");
+
+    const [row] = await db.select().from(deployments);
+    expect(row.completedAt).toEqual(new Date("2025-01-15T10:06:00Z"));
+    expect(row.isFailed).toBe(true);
+    expect(row.failureReason).toBe("Checkout error rate spiked");
+    expect(row.relatedPRs).toEqual([101]);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { eq } from "drizzle-orm";
+import { deployments, type NewDeployment } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { stampDeploymentRecoveries } from "@/lib/ingestion/deployments";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for Deployment Recovery Tracking
+ *
+ * A failed deployment is recovered by the first later successful deployment
+ * to the same project/environment.
+ */
+
+let counter = 0;
+
+async function insertDeployment(
+  completedAt: string,
+  overrides: Partial<NewDeployment> = {},
+): Promise<string> {
+  counter++;
+  const deploymentId = `deploy_${counter}`;
+  await db.insert(deployments).values({
+    deploymentId,
+    environment: "production",
+    orgName: "test-org",
+    projectName: "Project-A",
+    commitSha: counter.toString(16).padStart(40, "0"),
+    status: "success",
+    startedAt: new Date(completedAt),
+    completedAt: new Date(completedAt),
+    ...overrides,
+  });
+  return deploymentId;
+}
+
+async function recoveredAt(deploymentId: string) {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(eq(deployments.deploymentId, deploymentId));
+  return deployment.recoveredAt;
+}
+
+describe("stampDeploymentRecoveries", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(deployments);
+  });
+
+  afterEach(async () => {
+    await db.delete(deployments);
+  });
+
+  test("should use the first later successful deployment", async () => {
+    const failed = await insertDeployment("2025-11-09T10:00:00Z", {
+      status: "failure",
+      isFailed: true,
+    });
+    await insertDeployment("2025-11-09T09:00:00Z");
+    await insertDeployment("2025-11-09T10:50:00Z", {
+      status: "failure",
+      isFailed: true,
+    });
+    await insertDeployment("2025-11-09T11:15:00Z");
+    await insertDeployment("2025-11-09T13:00:00Z");
+
+    const count = await stampDeploymentRecoveries();
+
+    // Both failures recover at 11:15
+    expect(count).toBe(2);
+    expect(await recoveredAt(failed)).toEqual(new Date("2025-11-09T11:15:00Z"));
+  });
+
+  test("should not count deployments later marked as failed", async () => {
+    const failed = await insertDeployment("2025-11-09T10:00:00Z", {
+      isFailed: true,
+    });
+    await insertDeployment("2025-11-09T10:30:00Z", { isFailed: true });
+
+    await stampDeploymentRecoveries();
+
+    expect(await recoveredAt(failed)).toBeNull();
+  });
+
+  test("should keep an existing recoveredAt", async () => {
+    const failed = await insertDeployment("2025-11-09T10:00:00Z", {
+      isFailed: true,
+      recoveredAt: new Date("2025-11-09T10:05:00Z"),
+    });
+    await insertDeployment("2025-11-09T11:00:00Z");
+
+    expect(await stampDeploymentRecoveries()).toBe(0);
+    expect(await recoveredAt(failed)).toEqual(new Date("2025-11-09T10:05:00Z"));
+  });
+
+  test("should only update the given project/environment", async () => {
+    const inScope = await insertDeployment("2025-11-09T10:00:00Z", {
+      isFailed: true,
+    });
+    const otherEnv = await insertDeployment("2025-11-09T10:00:00Z", {
+      environment: "staging",
+      isFailed: true,
+    });
+    await insertDeployment("2025-11-09T11:00:00Z");
+    await insertDeployment("2025-11-09T11:00:00Z", { environment: "staging" });
+
+    await stampDeploymentRecoveries({
+      projectName: "Project-A",
+      environment: "production",
+    });
+
+    expect(await recoveredAt(inScope)).toEqual(
+      new Date("2025-11-09T11:00:00Z"),
+    );
+    expect(await recoveredAt(otherEnv)).toBeNull();
+  });
+});
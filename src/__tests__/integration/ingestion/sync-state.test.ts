@@ -0,0 +1,105 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { syncState } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import {
+  getWatermarks,
+  type SyncScope,
+  saveWatermark,
+} from "@/lib/ingestion/sync-state";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+describe("Ingestion Sync State", () => {
+  const scope: SyncScope = {
+    source: "azure-devops",
+    entity: "pull_requests",
+    orgName: "test-org",
+    projectName: "Project-A",
+  };
+
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(syncState);
+  });
+
+  afterEach(async () => {
+    await db.delete(syncState);
+  });
+
+  test("should return an empty map for a project that was never synced", async () => {
+    const watermarks = await getWatermarks(scope);
+
+    expect(watermarks.size).toBe(0);
+  });
+
+  test("should return saved watermarks keyed by repository", async () => {
+    await saveWatermark(scope, "api", new Date("2025-01-06T00:00:00Z"));
+    await saveWatermark(scope, "web", new Date("2025-01-07T00:00:00Z"));
+
+    const watermarks = await getWatermarks(scope);
+
+    expect(watermarks.size).toBe(2);
+    expect(watermarks.get("api")).toEqual(new Date("2025-01-06T00:00:00Z"));
+    expect(watermarks.get("web")).toEqual(new Date("2025-01-07T00:00:00Z"));
+  });
+
+  test("should advance an existing watermark instead of adding a row", async () => {
+    await saveWatermark(scope, "api", new Date("2025-01-06T00:00:00Z"));
+    await saveWatermark(scope, "api", new Date("2025-01-08T00:00:00Z"));
+
+    const rows = await db.select().from(syncState);
+    const watermarks = await getWatermarks(scope);
+
+    expect(rows).toHaveLength(1);
+    expect(watermarks.get("api")).toEqual(new Date("2025-01-08T00:00:00Z"));
+  });
+
+  test("should keep watermarks separate per project and source", async () => {
+    await saveWatermark(scope, "api", new Date("2025-01-06T00:00:00Z"));
+    await saveWatermark(
+      { ...scope, projectName: "Project-B" },
+      "api",
+      new Date("2025-01-07T00:00:00Z"),
+    );
+    await saveWatermark(
+      { ...scope, source: "github", projectName: "api" },
+      "api",
+      new Date("2025-01-08T00:00:00Z"),
+    );
+
+    const projectA = await getWatermarks(scope);
+    const projectB = await getWatermarks({
+      ...scope,
+      projectName: "Project-B",
+    });
+    const github = await getWatermarks({
+      ...scope,
+      source: "github",
+      projectName: "api",
+    });
+
+    expect(projectA.get("api")).toEqual(new Date("2025-01-06T00:00:00Z"));
+    expect(projectB.get("api")).toEqual(new Date("2025-01-07T00:00:00Z"));
+    expect(github.get("api")).toEqual(new Date("2025-01-08T00:00:00Z"));
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { ciRuns, type NewCIRun } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import {
+  calculateCIDuration,
+  calculateCIDurationByProject,
+  calculateCIDurationByWorkflow,
+} from "@/lib/metrics/ci-metrics";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+const MINUTE = 60 * 1000;
+
+let runCounter = 0;
+
+/**
+ * Insert a completed run that queued for `queueMinutes` and ran for
+ * `durationMinutes`, started Wednesday of 2025-W02
+ */
+async function insertRun(
+  durationMinutes: number,
+  queueMinutes: number | null,
+  overrides: Partial<NewCIRun> = {},
+) {
+  const startedAt = new Date("2025-01-08T10:00:00Z");
+  runCounter++;
+  await db.insert(ciRuns).values({
+    runId: `run-${runCounter}`,
+    workflowName: "build",
+    repoName: "test-repo",
+    orgName: "test-org",
+    projectName: "project-a",
+    status: "completed",
+    conclusion: "success",
+    queuedAt:
+      queueMinutes === null
+        ? null
+        : new Date(startedAt.getTime() - queueMinutes * MINUTE),
+    startedAt,
+    completedAt: new Date(startedAt.getTime() + durationMinutes * MINUTE),
+    ...overrides,
+  });
+}
+
+describe("CI Metrics", () => {
+  const startDate = new Date("2025-01-06T00:00:00Z"); // Monday W02
+  const endDate = new Date("2025-01-12T23:59:59Z"); // Sunday W02
+
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(ciRuns);
+  });
+
+  afterEach(async () => {
+    await db.delete(ciRuns);
+  });
+
+  describe("calculateCIDuration", () => {
+    test("should return null percentiles when no runs exist", async () => {
+      const result = await calculateCIDuration(startDate, endDate);
+
+      expect(result.duration).toEqual({
+        p50_minutes: null,
+        p90_minutes: null,
+        count: 0,
+      });
+      expect(result.queueTime.count).toBe(0);
+    });
+
+    test("should calculate p50 and p90 duration and queue time", async () => {
+      // Durations 1..10 minutes, queue times 0..9 minutes
+      for (let i = 1; i <= 10; i++) {
+        await insertRun(i, i - 1);
+      }
+
+      const result = await calculateCIDuration(startDate, endDate);
+
+      expect(result.duration.p50_minutes).toBeCloseTo(5.5, 5);
+      expect(result.duration.p90_minutes).toBeCloseTo(9.1, 5);
+      expect(result.duration.count).toBe(10);
+      expect(result.queueTime.p50_minutes).toBeCloseTo(4.5, 5);
+      expect(result.queueTime.count).toBe(10);
+    });
+
+    test("should skip runs without a queue time for queue percentiles", async () => {
+      await insertRun(10, 2);
+      await insertRun(20, null);
+
+      const result = await calculateCIDuration(startDate, endDate);
+
+      expect(result.duration.count).toBe(2);
+      expect(result.queueTime.count).toBe(1);
+      expect(result.queueTime.p50_minutes).toBeCloseTo(2, 5);
+    });
+
+    test("should exclude cancelled, unfinished and out-of-window runs", async () => {
+      await insertRun(10, 1);
+      await insertRun(1, 1, { conclusion: "cancelled" });
+      await insertRun(30, 1, { status: "in_progress", completedAt: null });
+      await insertRun(60, 1, {
+        startedAt: new Date("2025-01-14T10:00:00Z"),
+        completedAt: new Date("2025-01-14T11:00:00Z"),
+      });
+
+      const result = await calculateCIDuration(startDate, endDate);
+
+      expect(result.duration.count).toBe(1);
+      expect(result.duration.p50_minutes).toBeCloseTo(10, 5);
+    });
+
+    test("should filter by project", async () => {
+      await insertRun(10, 1);
+      await insertRun(40, 1, { projectName: "project-b" });
+
+      const result = await calculateCIDuration(startDate, endDate, "project-b");
+
+      expect(result.duration.count).toBe(1);
+      expect(result.duration.p50_minutes).toBeCloseTo(40, 5);
+    });
+  });
+
+  describe("calculateCIDurationByProject", () => {
+    test("should return metrics per project", async () => {
+      await insertRun(10, 1);
+      await insertRun(20, 1);
+      await insertRun(40, 3, { projectName: "project-b" });
+
+      const result = await calculateCIDurationByProject(startDate, endDate);
+
+      expect(result.size).toBe(2);
+      expect(result.get("project-a")?.duration.p50_minutes).toBeCloseTo(15, 5);
+      expect(result.get("project-b")?.queueTime.p50_minutes).toBeCloseTo(3, 5);
+    });
+  });
+
+  describe("calculateCIDurationByWorkflow", () => {
+    test("should return workflows slowest first", async () => {
+      await insertRun(5, 1, { workflowName: "lint" });
+      await insertRun(30, 1, { workflowName: "e2e" });
+      await insertRun(12, 1, { workflowName: "build" });
+
+      const result = await calculateCIDurationByWorkflow(startDate, endDate);
+
+      expect(result.map((w) => w.workflowName)).toEqual([
+        "e2e",
+        "build",
+        "lint",
+      ]);
+      expect(result[0]).toMatchObject({
+        projectName: "project-a",
+        workflowName: "e2e",
+        duration: { count: 1 },
+      });
+    });
+  });
+});
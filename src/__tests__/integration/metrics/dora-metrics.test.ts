@@ -6,17 +6,27 @@ import {
   expect,
   test,
 } from "bun:test";
-import { deployments, pullRequests } from "@/lib/db/schema";
+import {
+  deployments,
+  incidents,
+  type NewIncident,
+  pullRequests,
+} from "@/lib/db/schema";
 import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
 import {
   calculateChangeFailureRate,
   calculateChangeFailureRateByProject,
+  calculateChangeFailureRateByRepo,
   calculateDeploymentFrequency,
   calculateDeploymentFrequencyByProject,
+  calculateDeploymentFrequencyByRepo,
+  calculateIncidentMTTR,
   calculateLeadTimeForChanges,
   calculateLeadTimeForChangesByProject,
+  calculateLeadTimeForChangesByRepo,
   calculateMTTR,
   calculateMTTRByProject,
+  calculateMTTRByRepo,
 } from "@/lib/metrics/dora-metrics";
 
 // ============================================================================
@@ -1419,4 +1429,421 @@ describe("DORA Metrics", () => {
       expect(projectB?.p50_hours).toBeCloseTo(4.5, 1);
     });
   });
+
+  describe("Incident-based MTTR", () => {
+    const HOUR = 3600000;
+
+    beforeEach(async () => {
+      await db.delete(incidents);
+    });
+
+    afterEach(async () => {
+      await db.delete(incidents);
+    });
+
+    async function insertIncident(
+      incidentId: string,
+      recoveryHours: number | null,
+      overrides: Partial<NewIncident> = {},
+    ) {
+      const openedAt = new Date("2025-01-08T10:00:00Z");
+      await db.insert(incidents).values({
+        incidentId,
+        title: `Incident ${incidentId}`,
+        severity: "sev2",
+        status: recoveryHours === null ? "open" : "resolved",
+        orgName: "test-org",
+        projectName: "project-a",
+        openedAt,
+        resolvedAt:
+          recoveryHours === null
+            ? null
+            : new Date(openedAt.getTime() + recoveryHours * HOUR),
+        ...overrides,
+      });
+    }
+
+    async function insertRecoveredDeployment(
+      projectName: string,
+      recoveryHours: number,
+    ) {
+      const completedAt = new Date("2025-01-08T11:00:00Z");
+      await db.insert(deployments).values({
+        deploymentId: `${projectName}-failed`,
+        environment: "production",
+        status: "failure",
+        orgName: "test-org",
+        projectName,
+        commitSha: "sha-failed",
+        startedAt: new Date("2025-01-08T10:00:00Z"),
+        completedAt,
+        isFailed: true,
+        recoveredAt: new Date(completedAt.getTime() + recoveryHours * HOUR),
+        relatedPRs: [],
+      });
+    }
+
+    test("should calculate percentiles from resolved incidents only", async () => {
+      await insertIncident("INC-1", 1);
+      await insertIncident("INC-2", 2);
+      await insertIncident("INC-3", 3);
+      await insertIncident("INC-4", null);
+
+      const result = await calculateIncidentMTTR(startDate, endDate);
+
+      expect(result.count).toBe(3);
+      expect(result.p50_hours).toBeCloseTo(2, 5);
+    });
+
+    test("should prefer incidents over failed deployments", async () => {
+      await insertIncident("INC-1", 1);
+      await insertRecoveredDeployment("project-a", 10);
+
+      const result = await calculateMTTR(startDate, endDate);
+
+      expect(result.source).toBe("incidents");
+      expect(result.p50_hours).toBeCloseTo(1, 5);
+    });
+
+    test("should fall back to failed deployments without resolved incidents", async () => {
+      await insertIncident("INC-1", null);
+      await insertRecoveredDeployment("project-a", 10);
+
+      const result = await calculateMTTR(startDate, endDate);
+
+      expect(result.source).toBe("deployments");
+      expect(result.count).toBe(1);
+      expect(result.p50_hours).toBeCloseTo(10, 5);
+    });
+
+    test("should choose the source per project", async () => {
+      await insertIncident("INC-1", 1);
+      await insertRecoveredDeployment("project-a", 10);
+      await insertRecoveredDeployment("project-b", 5);
+
+      const result = await calculateMTTRByProject(startDate, endDate);
+
+      expect(result.get("project-a")).toMatchObject({
+        source: "incidents",
+        count: 1,
+      });
+      expect(result.get("project-b")).toMatchObject({
+        source: "deployments",
+        count: 1,
+      });
+    });
+  });
+
+  describe("Production tiers", () => {
+    let savedProductionEnvironments: string | undefined;
+
+    beforeEach(() => {
+      savedProductionEnvironments = process.env.PRODUCTION_ENVIRONMENTS;
+      process.env.PRODUCTION_ENVIRONMENTS = "prod-eu,prod-us";
+    });
+
+    afterEach(() => {
+      if (savedProductionEnvironments === undefined) {
+        delete process.env.PRODUCTION_ENVIRONMENTS;
+      } else {
+        process.env.PRODUCTION_ENVIRONMENTS = savedProductionEnvironments;
+      }
+    });
+
+    async function insertDeployment(
+      deploymentId: string,
+      environment: string,
+      failed = false,
+    ) {
+      const startedAt = new Date("2025-01-08T10:00:00Z");
+      await db.insert(deployments).values({
+        deploymentId,
+        environment,
+        status: failed ? "failure" : "success",
+        orgName: "test-org",
+        projectName: "test-project",
+        commitSha: `sha-${deploymentId}`,
+        startedAt,
+        completedAt: startedAt,
+        isFailed: failed,
+        recoveredAt: failed ? new Date("2025-01-08T12:00:00Z") : null,
+        relatedPRs: [],
+      });
+    }
+
+    test("should count deployments to every production tier", async () => {
+      await insertDeployment("eu-1", "prod-eu");
+      await insertDeployment("us-1", "prod-us");
+      await insertDeployment("us-2", "prod-us", true);
+      await insertDeployment("canary-1", "canary");
+      await insertDeployment("legacy-1", "production");
+
+      const frequency = await calculateDeploymentFrequency(startDate, endDate);
+      const cfr = await calculateChangeFailureRate(startDate, endDate);
+      const mttr = await calculateMTTR(startDate, endDate);
+
+      expect(frequency.count).toBe(2);
+      expect(cfr).toMatchObject({ failed_count: 1, total_count: 3 });
+      expect(mttr).toMatchObject({ source: "deployments", count: 1 });
+      expect(mttr.p50_hours).toBeCloseTo(2, 5);
+    });
+
+    test("should compute lead time across production tiers", async () => {
+      await db.insert(pullRequests).values({
+        prNumber: 1,
+        repoName: "test-repo",
+        orgName: "test-org",
+        projectName: "test-project",
+        title: "Feature",
+        author: "Dev",
+        state: "merged",
+        createdAt: new Date("2025-01-08T06:00:00Z"),
+        updatedAt: new Date("2025-01-08T08:00:00Z"),
+        mergedAt: new Date("2025-01-08T08:00:00Z"),
+      });
+      await db.insert(deployments).values({
+        deploymentId: "eu-1",
+        environment: "prod-eu",
+        status: "success",
+        orgName: "test-org",
+        projectName: "test-project",
+        commitSha: "sha-eu-1",
+        startedAt: new Date("2025-01-08T10:00:00Z"),
+        completedAt: new Date("2025-01-08T10:00:00Z"),
+        relatedPRs: [1],
+      });
+
+      const result = await calculateLeadTimeForChanges(startDate, endDate);
+
+      expect(result.count).toBe(1);
+      expect(result.p50_hours).toBeCloseTo(4, 5);
+    });
+  });
+
+  describe("Repository breakdown", () => {
+    beforeEach(async () => {
+      await db.delete(incidents);
+    });
+
+    afterEach(async () => {
+      await db.delete(incidents);
+    });
+
+    async function insertDeployment(
+      deploymentId: string,
+      repoName: string | null,
+      options: {
+        projectName?: string;
+        failed?: boolean;
+        relatedPRs?: number[];
+      } = {},
+    ) {
+      const startedAt = new Date("2025-01-08T10:00:00Z");
+      await db.insert(deployments).values({
+        deploymentId,
+        environment: "production",
+        status: options.failed ? "failure" : "success",
+        orgName: "test-org",
+        projectName: options.projectName ?? "platform",
+        repoName,
+        commitSha: `sha-${deploymentId}`,
+        startedAt,
+        completedAt: startedAt,
+        isFailed: options.failed ?? false,
+        recoveredAt: options.failed ? new Date("2025-01-08T13:00:00Z") : null,
+        relatedPRs: options.relatedPRs ?? [],
+      });
+    }
+
+    async function insertPR(prNumber: number, createdAt: Date) {
+      await db.insert(pullRequests).values({
+        prNumber,
+        repoName: "billing-api",
+        orgName: "test-org",
+        projectName: "platform",
+        title: `PR ${prNumber}`,
+        author: "Dev",
+        state: "merged",
+        createdAt,
+        updatedAt: createdAt,
+        mergedAt: createdAt,
+      });
+    }
+
+    test("should filter single-value metrics by repository", async () => {
+      await insertDeployment("billing-1", "billing-api");
+      await insertDeployment("billing-2", "billing-api", { failed: true });
+      await insertDeployment("web-1", "web-app");
+      await insertDeployment("web-2", "web-app");
+      await insertDeployment("web-3", "web-app");
+
+      const frequency = await calculateDeploymentFrequency(
+        startDate,
+        endDate,
+        "platform",
+        "billing-api",
+      );
+      const cfr = await calculateChangeFailureRate(
+        startDate,
+        endDate,
+        undefined,
+        "billing-api",
+      );
+      const mttr = await calculateMTTR(
+        startDate,
+        endDate,
+        "platform",
+        "web-app",
+      );
+
+      expect(frequency.count).toBe(1);
+      expect(cfr).toMatchObject({
+        percentage: 50,
+        failed_count: 1,
+        total_count: 2,
+      });
+      expect(mttr).toMatchObject({ count: 0, source: "deployments" });
+    });
+
+    test("should break deployment frequency and CFR down by repository", async () => {
+      await insertDeployment("billing-1", "billing-api");
+      await insertDeployment("billing-2", "billing-api", { failed: true });
+      await insertDeployment("web-1", "web-app");
+      await insertDeployment("manual-1", null);
+      await insertDeployment("other-1", "billing-api", {
+        projectName: "other",
+      });
+
+      const frequencies = await calculateDeploymentFrequencyByRepo(
+        startDate,
+        endDate,
+        "platform",
+      );
+      const cfrs = await calculateChangeFailureRateByRepo(startDate, endDate);
+
+      expect(frequencies).toEqual([
+        { projectName: "platform", repoName: "billing-api", count: 1 },
+        { projectName: "platform", repoName: "web-app", count: 1 },
+        { projectName: "platform", repoName: null, count: 1 },
+      ]);
+      expect(cfrs).toEqual([
+        {
+          projectName: "other",
+          repoName: "billing-api",
+          percentage: 0,
+          failed_count: 0,
+          total_count: 1,
+        },
+        {
+          projectName: "platform",
+          repoName: "billing-api",
+          percentage: 50,
+          failed_count: 1,
+          total_count: 2,
+        },
+        {
+          projectName: "platform",
+          repoName: "web-app",
+          percentage: 0,
+          failed_count: 0,
+          total_count: 1,
+        },
+        {
+          projectName: "platform",
+          repoName: null,
+          percentage: 0,
+          failed_count: 0,
+          total_count: 1,
+        },
+      ]);
+    });
+
+    test("should break lead time down by repository", async () => {
+      await insertPR(1, new Date("2025-01-08T08:00:00Z"));
+      await insertPR(2, new Date("2025-01-08T04:00:00Z"));
+      await insertDeployment("billing-1", "billing-api", { relatedPRs: [1] });
+      await insertDeployment("web-1", "web-app", { relatedPRs: [2] });
+
+      const leadTimes = await calculateLeadTimeForChangesByRepo(
+        startDate,
+        endDate,
+      );
+      const billing = await calculateLeadTimeForChanges(
+        startDate,
+        endDate,
+        "platform",
+        "billing-api",
+      );
+
+      expect(leadTimes).toHaveLength(2);
+      expect(leadTimes[0]).toMatchObject({
+        repoName: "billing-api",
+        count: 1,
+      });
+      expect(leadTimes[0].p50_hours).toBeCloseTo(2, 5);
+      expect(leadTimes[1]).toMatchObject({ repoName: "web-app", count: 1 });
+      expect(leadTimes[1].p50_hours).toBeCloseTo(6, 5);
+      expect(billing.count).toBe(1);
+      expect(billing.p50_hours).toBeCloseTo(2, 5);
+    });
+
+    test("should attribute incidents to the repository of their deployment", async () => {
+      await insertDeployment("billing-1", "billing-api");
+      await insertDeployment("web-1", "web-app", { failed: true });
+      await db.insert(incidents).values([
+        {
+          incidentId: "INC-1",
+          title: "Billing outage",
+          severity: "sev1",
+          status: "resolved",
+          orgName: "test-org",
+          projectName: "platform",
+          deploymentId: "billing-1",
+          openedAt: new Date("2025-01-08T11:00:00Z"),
+          resolvedAt: new Date("2025-01-08T12:00:00Z"),
+        },
+        {
+          incidentId: "INC-2",
+          title: "Unattributed outage",
+          severity: "sev2",
+          status: "resolved",
+          orgName: "test-org",
+          projectName: "platform",
+          openedAt: new Date("2025-01-08T11:00:00Z"),
+          resolvedAt: new Date("2025-01-08T19:00:00Z"),
+        },
+      ]);
+
+      const mttrs = await calculateMTTRByRepo(startDate, endDate, "platform");
+      const billing = await calculateMTTR(
+        startDate,
+        endDate,
+        "platform",
+        "billing-api",
+      );
+      const web = await calculateMTTR(
+        startDate,
+        endDate,
+        "platform",
+        "web-app",
+      );
+
+      expect(mttrs).toHaveLength(2);
+      expect(mttrs[0]).toMatchObject({
+        projectName: "platform",
+        repoName: "billing-api",
+        count: 1,
+        source: "incidents",
+      });
+      expect(mttrs[0].p50_hours).toBeCloseTo(1, 5);
+      expect(mttrs[1]).toMatchObject({
+        repoName: "web-app",
+        count: 1,
+        source: "deployments",
+      });
+      expect(mttrs[1].p50_hours).toBeCloseTo(3, 5);
+      expect(billing).toMatchObject({ count: 1, source: "incidents" });
+      expect(web).toMatchObject({ count: 1, source: "deployments" });
+    });
+  });
 });
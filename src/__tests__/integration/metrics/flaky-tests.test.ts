@@ -6,13 +6,14 @@ import {
   expect,
   test,
 } from "bun:test";
-import { ciRuns } from "@/lib/db/schema";
+import { ciRuns, type NewTestResult, testResults } from "@/lib/db/schema";
 import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
 import {
   calculateFlakyTestRate,
   calculateFlakyTestRateByProject,
   getCISuccessRate,
   getFlakyRunCount,
+  getTopFlakyTests,
 } from "@/lib/metrics/flaky-tests";
 
 // ============================================================================
@@ -35,6 +36,7 @@ import {
  * - Per-project aggregation
  * - Time window filtering
  * - Edge cases (no data, all flaky, zero flaky)
+ * - Top flaky tests ranking
  */
 
 describe("Flaky Test Rate Calculation", () => {
@@ -562,3 +564,92 @@ describe("Edge Cases", () => {
     expect(rate).toBe(50);
   });
 });
+
+describe("Top Flaky Tests", () => {
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(testResults);
+  });
+
+  afterEach(async () => {
+    await db.delete(testResults);
+  });
+
+  const startDate = new Date("2025-01-13T00:00:00Z");
+  const endDate = new Date("2025-01-19T23:59:59Z");
+
+  async function insertResult(
+    runId: string,
+    testName: string,
+    outcome: string,
+    isFlaky: boolean,
+    overrides: Partial<NewTestResult> = {},
+  ) {
+    await db.insert(testResults).values({
+      resultId: `${runId}-${testName}`,
+      runId,
+      repoName: "test-repo",
+      orgName: "test-org",
+      projectName: "test-project",
+      commitSha: "a".repeat(40),
+      testName,
+      outcome,
+      startedAt: new Date("2025-01-15T10:00:00Z"),
+      isFlaky,
+      ...overrides,
+    });
+  }
+
+  test("should return an empty list when no tests are flaky", async () => {
+    await insertResult("run-1", "LoginTest", "failed", false);
+
+    expect(await getTopFlakyTests(startDate, endDate)).toEqual([]);
+  });
+
+  test("should rank tests by the number of runs they flaked in", async () => {
+    await insertResult("run-1", "LoginTest", "failed", true);
+    await insertResult("run-2", "LoginTest", "passed", true);
+    await insertResult("run-3", "LoginTest", "passed", false);
+    await insertResult("run-4", "LoginTest", "passed", false);
+    await insertResult("run-1", "SearchTest", "failed", true);
+    await insertResult("run-2", "SearchTest", "passed", true);
+    await insertResult("run-3", "SearchTest", "failed", true);
+    await insertResult("run-4", "SearchTest", "passed", true);
+
+    const tests = await getTopFlakyTests(startDate, endDate);
+
+    expect(tests.map((t) => t.testName)).toEqual(["SearchTest", "LoginTest"]);
+    expect(tests[1]).toMatchObject({
+      projectName: "test-project",
+      repoName: "test-repo",
+      flakyRuns: 2,
+      failedCount: 1,
+      totalRuns: 4,
+      flakeRate: 50,
+    });
+  });
+
+  test("should filter by project, time window and limit", async () => {
+    await insertResult("run-1", "LoginTest", "failed", true);
+    await insertResult("run-2", "CheckoutTest", "failed", true);
+    await insertResult("run-3", "OtherTest", "failed", true, {
+      projectName: "other-project",
+    });
+    await insertResult("run-4", "OldTest", "failed", true, {
+      startedAt: new Date("2025-01-01T10:00:00Z"),
+    });
+
+    const tests = await getTopFlakyTests(startDate, endDate, "test-project");
+    expect(tests.map((t) => t.testName).sort()).toEqual([
+      "CheckoutTest",
+      "LoginTest",
+    ]);
+
+    expect(
+      await getTopFlakyTests(startDate, endDate, undefined, 1),
+    ).toHaveLength(1);
+  });
+});
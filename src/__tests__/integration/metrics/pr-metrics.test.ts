@@ -9,12 +9,15 @@ import {
 import { pullRequests } from "@/lib/db/schema";
 import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
 import {
+  calculateMergedByMidweek,
   calculatePRCycleTime,
   calculatePRCycleTimeByProject,
   calculatePRReviewWaitTime,
   calculatePRReviewWaitTimeByProject,
   calculatePRSizeDistribution,
   calculatePRSizeDistributionByProject,
+  getBlockedPullRequests,
+  getPullRequestUrl,
 } from "@/lib/metrics/pr-metrics";
 
 // ============================================================================
@@ -159,6 +162,36 @@ describe("PR Metrics", () => {
       expect(result.p50_hours).toBeCloseTo(2, 1);
     });
 
+    test("should exclude bot PRs from calculation", async () => {
+      const createdAt = new Date("2025-01-08T10:00:00Z");
+
+      await db.insert(pullRequests).values(
+        [
+          { author: "test-author", hours: 3, isBot: false },
+          { author: "dependabot[bot]", hours: 1, isBot: true },
+          { author: "Release Service", hours: 1, isBot: true },
+        ].map(({ author, hours, isBot }, i) => ({
+          prNumber: i + 1,
+          repoName: "test-repo",
+          orgName: "test-org",
+          projectName: "test-project",
+          title: `PR ${i + 1}`,
+          author,
+          state: "merged",
+          createdAt,
+          updatedAt: createdAt,
+          mergedAt: new Date(createdAt.getTime() + hours * 3600000),
+          isDraft: false,
+          isBot,
+        })),
+      );
+
+      const result = await calculatePRCycleTime(startDate, endDate);
+
+      expect(result.count).toBe(1);
+      expect(result.p50_hours).toBeCloseTo(3, 1);
+    });
+
     test("should only include PRs with mergedAt timestamp", async () => {
       const baseDate = new Date("2025-01-08T10:00:00Z");
 
@@ -1129,4 +1162,188 @@ describe("PR Metrics", () => {
       expect(projectB?.percentages.xl).toBeCloseTo(16.67, 1); // 5/30 ≈ 16.67%
     });
   });
+
+  describe("calculateMergedByMidweek", () => {
+    async function insertPR(
+      prNumber: number,
+      createdAt: string,
+      mergedAt: string | null,
+      overrides: Partial<typeof pullRequests.$inferInsert> = {},
+    ) {
+      await db.insert(pullRequests).values({
+        prNumber,
+        repoName: "test-repo",
+        orgName: "test-org",
+        projectName: "test-project",
+        title: `PR ${prNumber}`,
+        author: "test-author",
+        state: mergedAt ? "merged" : "open",
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(mergedAt ?? createdAt),
+        mergedAt: mergedAt ? new Date(mergedAt) : null,
+        ...overrides,
+      });
+    }
+
+    test("should count PRs opened Mon-Tue merged by Wednesday EOD", async () => {
+      await insertPR(1, "2025-01-06T09:00:00Z", "2025-01-06T15:00:00Z"); // Mon, merged Mon
+      await insertPR(2, "2025-01-07T23:00:00Z", "2025-01-08T23:59:00Z"); // Tue, merged Wed
+      await insertPR(3, "2025-01-07T10:00:00Z", "2025-01-09T00:30:00Z"); // Tue, merged Thu
+      await insertPR(4, "2025-01-06T10:00:00Z", null); // Mon, still open
+      await insertPR(5, "2025-01-08T08:00:00Z", "2025-01-08T09:00:00Z"); // Wed, not counted
+      await insertPR(6, "2025-01-05T10:00:00Z", "2025-01-06T10:00:00Z"); // previous week
+
+      const result = await calculateMergedByMidweek("2025-W02");
+
+      expect(result).toEqual({
+        percentage: 50,
+        merged_count: 2,
+        opened_count: 4,
+        cutoffDay: "wednesday",
+        cutoffDate: new Date("2025-01-08T23:59:59.999Z"),
+      });
+    });
+
+    test("should support another cut-off day", async () => {
+      await insertPR(1, "2025-01-07T10:00:00Z", "2025-01-09T00:30:00Z"); // Tue, merged Thu
+      await insertPR(2, "2025-01-08T08:00:00Z", "2025-01-10T09:00:00Z"); // Wed, merged Fri
+
+      const result = await calculateMergedByMidweek("2025-W02", "thursday");
+
+      expect(result.opened_count).toBe(2);
+      expect(result.merged_count).toBe(1);
+      expect(result.cutoffDate).toEqual(new Date("2025-01-09T23:59:59.999Z"));
+    });
+
+    test("should exclude draft and bot PRs", async () => {
+      await insertPR(1, "2025-01-06T09:00:00Z", "2025-01-06T15:00:00Z", {
+        isDraft: true,
+      });
+      await insertPR(2, "2025-01-06T09:00:00Z", "2025-01-06T15:00:00Z", {
+        author: "dependabot[bot]",
+        isBot: true,
+      });
+
+      const result = await calculateMergedByMidweek("2025-W02");
+
+      expect(result.percentage).toBeNull();
+      expect(result.opened_count).toBe(0);
+    });
+
+    test("should filter by project", async () => {
+      await insertPR(1, "2025-01-06T09:00:00Z", "2025-01-06T15:00:00Z");
+      await insertPR(2, "2025-01-06T09:00:00Z", null, {
+        projectName: "other-project",
+      });
+
+      const result = await calculateMergedByMidweek(
+        "2025-W02",
+        "wednesday",
+        "other-project",
+      );
+
+      expect(result.percentage).toBe(0);
+      expect(result.opened_count).toBe(1);
+    });
+
+    test("should reject Monday as cut-off day", async () => {
+      await expect(
+        calculateMergedByMidweek("2025-W02", "monday"),
+      ).rejects.toThrow("Invalid cut-off day");
+    });
+  });
+
+  describe("getBlockedPullRequests", () => {
+    const asOf = new Date("2025-01-10T12:00:00Z");
+
+    async function insertOpenPR(
+      prNumber: number,
+      createdAt: string,
+      overrides: Partial<typeof pullRequests.$inferInsert> = {},
+    ) {
+      await db.insert(pullRequests).values({
+        prNumber,
+        repoName: "test-repo",
+        orgName: "test-org",
+        projectName: "test-project",
+        title: `PR ${prNumber}`,
+        author: "test-author",
+        state: "open",
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(createdAt),
+        ...overrides,
+      });
+    }
+
+    test("should list labelled and unreviewed PRs, oldest first", async () => {
+      await insertOpenPR(1, "2025-01-09T12:00:00Z", {
+        labels: ["needs-design", "Blocked-by-infra"],
+      });
+      await insertOpenPR(2, "2025-01-05T12:00:00Z"); // 5 days, no review
+      await insertOpenPR(3, "2025-01-08T12:00:00Z"); // 2 days, no review
+      await insertOpenPR(4, "2025-01-05T12:00:00Z", {
+        firstReviewAt: new Date("2025-01-06T12:00:00Z"),
+      });
+
+      const result = await getBlockedPullRequests(asOf);
+
+      expect(result.map((pr) => [pr.prNumber, pr.reason])).toEqual([
+        [2, "no-review"],
+        [1, "label"],
+      ]);
+      expect(result[0].ageHours).toBe(120);
+      expect(result[1].labels).toEqual(["needs-design", "Blocked-by-infra"]);
+      expect(result[0].url).toBe(
+        "https://dev.azure.com/test-org/test-project/_git/test-repo/pullrequest/2",
+      );
+    });
+
+    test("should exclude closed, draft and bot PRs", async () => {
+      await insertOpenPR(1, "2025-01-05T12:00:00Z", { state: "merged" });
+      await insertOpenPR(2, "2025-01-05T12:00:00Z", { isDraft: true });
+      await insertOpenPR(3, "2025-01-05T12:00:00Z", {
+        author: "dependabot[bot]",
+        isBot: true,
+      });
+
+      expect(await getBlockedPullRequests(asOf)).toHaveLength(0);
+    });
+
+    test("should filter by project", async () => {
+      await insertOpenPR(1, "2025-01-05T12:00:00Z");
+      await insertOpenPR(2, "2025-01-05T12:00:00Z", {
+        projectName: "other-project",
+      });
+
+      const result = await getBlockedPullRequests(asOf, "other-project");
+
+      expect(result.map((pr) => pr.prNumber)).toEqual([2]);
+    });
+
+    test("should link GitHub PRs to GitHub", async () => {
+      await insertOpenPR(1, "2025-01-05T12:00:00Z", {
+        repoName: "billing",
+        projectName: "billing",
+        source: "github",
+      });
+
+      const result = await getBlockedPullRequests(asOf);
+
+      expect(result[0].url).toBe("https://github.com/test-org/billing/pull/1");
+    });
+
+    test("should encode URL segments", () => {
+      expect(
+        getPullRequestUrl({
+          source: "azure-devops",
+          orgName: "acme",
+          projectName: "Online Shop",
+          repoName: "billing",
+          prNumber: 42,
+        }),
+      ).toBe(
+        "https://dev.azure.com/acme/Online%20Shop/_git/billing/pullrequest/42",
+      );
+    });
+  });
 });
@@ -0,0 +1,331 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { prReviews, pullRequests, teamMembers, teams } from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { replacePullRequestReviews } from "@/lib/ingestion/persistence";
+import type { TransformedPRReview } from "@/lib/ingestion/transformers/transform-pr";
+import {
+  calculateReviewerLoad,
+  calculateReviewerSLA,
+} from "@/lib/metrics/reviewer-metrics";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST using PGlite (Postgres in WebAssembly).
+// PGlite runs in-process with zero setup - no Docker, no cloud database needed.
+//
+// SAFETY: PGlite uses in-memory database isolated per test run. Cannot affect
+// production data because it never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+describe("Reviewer Metrics", () => {
+  const startDate = new Date("2025-01-06T00:00:00Z"); // Monday W02
+  const endDate = new Date("2025-01-12T23:59:59Z"); // Sunday W02
+  const asOf = new Date("2025-01-20T00:00:00Z");
+
+  async function insertPR(
+    prNumber: number,
+    createdAt: string,
+    overrides: Partial<typeof pullRequests.$inferInsert> = {},
+  ) {
+    await db.insert(pullRequests).values({
+      prNumber,
+      repoName: "test-repo",
+      orgName: "test-org",
+      projectName: "test-project",
+      title: `PR ${prNumber}`,
+      author: "test-author",
+      state: "open",
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(createdAt),
+      ...overrides,
+    });
+  }
+
+  function review(
+    reviewer: string,
+    overrides: Partial<TransformedPRReview> = {},
+  ): TransformedPRReview {
+    return {
+      reviewer,
+      isBot: false,
+      vote: "none",
+      votedAt: null,
+      firstCommentAt: null,
+      ...overrides,
+    };
+  }
+
+  async function insertReviews(
+    prNumber: number,
+    reviews: TransformedPRReview[],
+    projectName = "test-project",
+  ) {
+    await replacePullRequestReviews(
+      { prNumber, repoName: "test-repo", orgName: "test-org", projectName },
+      reviews,
+    );
+  }
+
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await db.delete(pullRequests);
+    await db.delete(prReviews);
+    await db.delete(teamMembers);
+    await db.delete(teams);
+  });
+
+  afterEach(async () => {
+    await db.delete(pullRequests);
+    await db.delete(prReviews);
+    await db.delete(teamMembers);
+    await db.delete(teams);
+  });
+
+  describe("replacePullRequestReviews", () => {
+    test("should replace the reviews of a PR", async () => {
+      await insertReviews(1, [review("alice"), review("bob")]);
+      await insertReviews(1, [
+        review("alice", {
+          vote: "approved",
+          firstCommentAt: new Date("2025-01-06T12:00:00Z"),
+        }),
+      ]);
+
+      const rows = await db.select().from(prReviews);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        prNumber: 1,
+        reviewer: "alice",
+        vote: "approved",
+        firstCommentAt: new Date("2025-01-06T12:00:00Z"),
+      });
+    });
+
+    test("should store a reviewer listed twice once", async () => {
+      const stored = await replacePullRequestReviews(
+        {
+          prNumber: 1,
+          repoName: "test-repo",
+          orgName: "test-org",
+          projectName: "test-project",
+        },
+        [review("alice", { vote: "approved" }), review("alice")],
+      );
+
+      expect(stored).toBe(1);
+    });
+
+    test("should leave other PRs untouched", async () => {
+      await insertReviews(1, [review("alice")]);
+      await insertReviews(2, [review("bob")]);
+      await insertReviews(1, []);
+
+      const rows = await db.select().from(prReviews);
+
+      expect(rows.map((row) => row.prNumber)).toEqual([2]);
+    });
+  });
+
+  describe("calculateReviewerSLA", () => {
+    test("should count review requests answered within 24 hours", async () => {
+      await insertPR(1, "2025-01-06T09:00:00Z");
+      await insertReviews(1, [
+        review("alice", { firstCommentAt: new Date("2025-01-06T15:00:00Z") }), // 6h
+        review("bob", { votedAt: new Date("2025-01-07T09:00:00Z") }), // exactly 24h
+        review("carol", {
+          votedAt: new Date("2025-01-08T09:00:00Z"),
+          firstCommentAt: new Date("2025-01-07T08:00:00Z"), // 23h, first response
+        }),
+        review("dave", { firstCommentAt: new Date("2025-01-09T09:00:00Z") }), // 72h
+        review("erin"), // never answered
+      ]);
+
+      const result = await calculateReviewerSLA(
+        startDate,
+        endDate,
+        undefined,
+        undefined,
+        asOf,
+      );
+
+      expect(result).toEqual({
+        percentage: 60,
+        within_sla_count: 3,
+        total_count: 5,
+        sla_hours: 24,
+      });
+    });
+
+    test("should leave out requests while the SLA is running", async () => {
+      await insertPR(1, "2025-01-12T12:00:00Z");
+      await insertReviews(1, [
+        review("alice", { votedAt: new Date("2025-01-12T13:00:00Z") }),
+        review("bob"),
+      ]);
+
+      const result = await calculateReviewerSLA(
+        startDate,
+        endDate,
+        undefined,
+        undefined,
+        new Date("2025-01-12T18:00:00Z"),
+      );
+
+      expect(result.total_count).toBe(0);
+      expect(result.percentage).toBeNull();
+    });
+
+    test("should exclude bot reviewers and draft or bot PRs", async () => {
+      await insertPR(1, "2025-01-06T09:00:00Z");
+      await insertPR(2, "2025-01-06T09:00:00Z", { isDraft: true });
+      await insertPR(3, "2025-01-06T09:00:00Z", { isBot: true });
+      await insertReviews(1, [review("ci-bot", { isBot: true })]);
+      await insertReviews(2, [review("alice")]);
+      await insertReviews(3, [review("alice")]);
+
+      const result = await calculateReviewerSLA(
+        startDate,
+        endDate,
+        undefined,
+        undefined,
+        asOf,
+      );
+
+      expect(result.total_count).toBe(0);
+      expect(result.percentage).toBeNull();
+    });
+
+    test("should filter by project", async () => {
+      await insertPR(1, "2025-01-06T09:00:00Z");
+      await insertPR(1, "2025-01-06T09:00:00Z", {
+        projectName: "other-project",
+      });
+      await insertReviews(1, [review("alice")]);
+      await insertReviews(
+        1,
+        [review("bob", { votedAt: new Date("2025-01-06T10:00:00Z") })],
+        "other-project",
+      );
+
+      const result = await calculateReviewerSLA(
+        startDate,
+        endDate,
+        "other-project",
+        undefined,
+        asOf,
+      );
+
+      expect(result.total_count).toBe(1);
+      expect(result.percentage).toBe(100);
+    });
+  });
+
+  describe("calculateReviewerLoad", () => {
+    test("should aggregate reviews per reviewer without names", async () => {
+      const answered = new Date("2025-01-07T10:00:00Z");
+      for (const prNumber of [1, 2, 3, 4]) {
+        await insertPR(prNumber, "2025-01-06T09:00:00Z");
+      }
+      await insertReviews(1, [
+        review("alice", { votedAt: answered }),
+        review("bob", { firstCommentAt: answered }),
+      ]);
+      await insertReviews(2, [
+        review("alice", { votedAt: answered }),
+        review("carol", { votedAt: answered }),
+      ]);
+      await insertReviews(3, [review("alice", { votedAt: answered })]);
+      await insertReviews(4, [
+        review("bob", { firstCommentAt: answered }),
+        review("dave"), // no response
+      ]);
+
+      const result = await calculateReviewerLoad(startDate, endDate);
+
+      expect(result).toEqual({
+        reviewer_count: 3,
+        review_count: 6,
+        p50_reviews: 2,
+        p90_reviews: 2.8,
+        max_reviews: 3,
+        distribution: [
+          { reviews: 1, reviewers: 1 },
+          { reviews: 2, reviewers: 1 },
+          { reviews: 3, reviewers: 1 },
+        ],
+      });
+    });
+
+    test("should count reviews by first response within the window", async () => {
+      await insertPR(1, "2025-01-03T09:00:00Z"); // previous week
+      await insertPR(2, "2025-01-10T09:00:00Z");
+      await insertReviews(1, [
+        review("alice", { votedAt: new Date("2025-01-06T10:00:00Z") }),
+        review("bob", { votedAt: new Date("2025-01-04T10:00:00Z") }),
+      ]);
+      await insertReviews(2, [
+        review("alice", { votedAt: new Date("2025-01-13T10:00:00Z") }), // next week
+      ]);
+
+      const result = await calculateReviewerLoad(startDate, endDate);
+
+      expect(result.reviewer_count).toBe(1);
+      expect(result.review_count).toBe(1);
+    });
+
+    test("should return empty distribution without reviews", async () => {
+      const result = await calculateReviewerLoad(startDate, endDate);
+
+      expect(result).toEqual({
+        reviewer_count: 0,
+        review_count: 0,
+        p50_reviews: null,
+        p90_reviews: null,
+        max_reviews: null,
+        distribution: [],
+      });
+    });
+
+    test("should filter by team", async () => {
+      const answered = new Date("2025-01-07T10:00:00Z");
+      const [team] = await db
+        .insert(teams)
+        .values({ name: "payments" })
+        .returning();
+      await db
+        .insert(teamMembers)
+        .values({ teamId: team.id, memberName: "team-author" });
+      await insertPR(1, "2025-01-06T09:00:00Z", { author: "team-author" });
+      await insertPR(2, "2025-01-06T09:00:00Z");
+      await insertReviews(1, [review("alice", { votedAt: answered })]);
+      await insertReviews(2, [
+        review("alice", { votedAt: answered }),
+        review("bob", { votedAt: answered }),
+      ]);
+
+      const result = await calculateReviewerLoad(
+        startDate,
+        endDate,
+        undefined,
+        team.id,
+      );
+
+      expect(result.reviewer_count).toBe(1);
+      expect(result.review_count).toBe(1);
+    });
+  });
+});
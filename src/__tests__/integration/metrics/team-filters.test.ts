@@ -0,0 +1,247 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import {
+  ciRuns,
+  deployments,
+  incidents,
+  pullRequests,
+  teamMembers,
+  teamRepositories,
+  teams,
+} from "@/lib/db/schema";
+import { testDb as db, initializeTestSchema } from "@/lib/db/test-client";
+import { calculateCIDuration } from "@/lib/metrics/ci-metrics";
+import {
+  calculateDeploymentFrequency,
+  calculateDeploymentFrequencyByProject,
+  calculateMTTR,
+} from "@/lib/metrics/dora-metrics";
+import {
+  calculatePRCycleTime,
+  calculatePRSizeDistributionByProject,
+} from "@/lib/metrics/pr-metrics";
+
+// ============================================================================
+// ⚠️  INTEGRATION TEST - PGLITE DATABASE ⚠️
+// ============================================================================
+// This is an INTEGRATION TEST that verifies database queries work correctly
+// against a real Postgres database (PGlite - Postgres compiled to WebAssembly).
+//
+// SAFETY: PGlite uses in-memory database that's isolated per test run. Even
+// though this file uses unconditional DELETE statements, they can't affect
+// production data because PGlite never connects to external databases.
+//
+// See GitHub Issue #39 for context on why we added PGlite.
+// ============================================================================
+
+/**
+ * Test Suite for the team filter of the metrics layer
+ *
+ * Tests cover:
+ * - Repository ownership (deployments, CI runs)
+ * - PR ownership through repositories or members
+ * - Incident attribution through the causing deployment
+ */
+
+const HOUR = 3600000;
+
+describe("Team filters", () => {
+  const startDate = new Date("2025-01-06T00:00:00Z"); // Monday W02
+  const endDate = new Date("2025-01-12T23:59:59Z"); // Sunday W02
+  const baseDate = new Date("2025-01-08T10:00:00Z");
+
+  let teamId: number;
+
+  async function cleanup() {
+    await db.delete(ciRuns);
+    await db.delete(deployments);
+    await db.delete(incidents);
+    await db.delete(pullRequests);
+    await db.delete(teamMembers);
+    await db.delete(teamRepositories);
+    await db.delete(teams);
+  }
+
+  beforeAll(async () => {
+    await initializeTestSchema();
+  });
+
+  beforeEach(async () => {
+    await cleanup();
+
+    const [team] = await db
+      .insert(teams)
+      .values({ name: "payments" })
+      .returning();
+    teamId = team.id;
+
+    await db.insert(teamMembers).values({ teamId, memberName: "Jane Doe" });
+    await db
+      .insert(teamRepositories)
+      .values({ teamId, projectName: "platform", repoName: "billing-api" });
+  });
+
+  afterEach(cleanup);
+
+  async function insertDeployment(
+    deploymentId: string,
+    repoName: string | null,
+    failed = false,
+  ) {
+    await db.insert(deployments).values({
+      deploymentId,
+      environment: "production",
+      status: failed ? "failure" : "success",
+      orgName: "test-org",
+      projectName: "platform",
+      repoName,
+      commitSha: `sha-${deploymentId}`,
+      startedAt: baseDate,
+      completedAt: baseDate,
+      isFailed: failed,
+      recoveredAt: failed ? new Date(baseDate.getTime() + 4 * HOUR) : null,
+      relatedPRs: [],
+    });
+  }
+
+  async function insertPR(
+    prNumber: number,
+    repoName: string,
+    author: string,
+    cycleHours: number,
+  ) {
+    await db.insert(pullRequests).values({
+      prNumber,
+      repoName,
+      orgName: "test-org",
+      projectName: "platform",
+      title: `PR ${prNumber}`,
+      author,
+      state: "merged",
+      createdAt: baseDate,
+      updatedAt: baseDate,
+      mergedAt: new Date(baseDate.getTime() + cycleHours * HOUR),
+      additions: 10,
+      deletions: 5,
+    });
+  }
+
+  test("should limit deployment metrics to the team's repositories", async () => {
+    await insertDeployment("billing-1", "billing-api");
+    await insertDeployment("billing-2", "billing-api");
+    await insertDeployment("web-1", "web-app");
+    await insertDeployment("manual-1", null);
+
+    const team = await calculateDeploymentFrequency(
+      startDate,
+      endDate,
+      undefined,
+      undefined,
+      teamId,
+    );
+    const byProject = await calculateDeploymentFrequencyByProject(
+      startDate,
+      endDate,
+      teamId,
+    );
+    const organization = await calculateDeploymentFrequency(startDate, endDate);
+
+    expect(team.count).toBe(2);
+    expect(byProject.get("platform")).toEqual({ count: 2 });
+    expect(organization.count).toBe(4);
+  });
+
+  test("should include PRs to team repositories and PRs by team members", async () => {
+    await insertPR(1, "billing-api", "Outside Contributor", 2);
+    await insertPR(2, "web-app", "Jane Doe", 4);
+    await insertPR(3, "web-app", "Someone Else", 100);
+
+    const cycleTime = await calculatePRCycleTime(
+      startDate,
+      endDate,
+      undefined,
+      teamId,
+    );
+    const sizes = await calculatePRSizeDistributionByProject(
+      startDate,
+      endDate,
+      teamId,
+    );
+
+    expect(cycleTime.count).toBe(2);
+    expect(cycleTime.p90_hours).toBeLessThan(100);
+    expect(sizes.get("platform")?.total).toBe(2);
+  });
+
+  test("should attribute incidents through their deployment", async () => {
+    await insertDeployment("billing-1", "billing-api");
+    await insertDeployment("web-1", "web-app");
+    await db.insert(incidents).values([
+      {
+        incidentId: "INC-1",
+        title: "Billing outage",
+        severity: "sev1",
+        status: "resolved",
+        orgName: "test-org",
+        projectName: "platform",
+        deploymentId: "billing-1",
+        openedAt: baseDate,
+        resolvedAt: new Date(baseDate.getTime() + HOUR),
+      },
+      {
+        incidentId: "INC-2",
+        title: "Web outage",
+        severity: "sev2",
+        status: "resolved",
+        orgName: "test-org",
+        projectName: "platform",
+        deploymentId: "web-1",
+        openedAt: baseDate,
+        resolvedAt: new Date(baseDate.getTime() + 5 * HOUR),
+      },
+    ]);
+
+    const mttr = await calculateMTTR(
+      startDate,
+      endDate,
+      undefined,
+      undefined,
+      teamId,
+    );
+
+    expect(mttr).toMatchObject({ count: 1, source: "incidents" });
+    expect(mttr.p50_hours).toBeCloseTo(1, 5);
+  });
+
+  test("should limit CI metrics to the team's repositories", async () => {
+    await db.insert(ciRuns).values(
+      ["billing-api", "web-app"].map((repoName, index) => ({
+        runId: `run-${index}`,
+        workflowName: "CI",
+        repoName,
+        orgName: "test-org",
+        projectName: "platform",
+        status: "completed",
+        conclusion: "success",
+        startedAt: baseDate,
+        completedAt: new Date(baseDate.getTime() + (index + 1) * 600000),
+      })),
+    );
+
+    const metrics = await calculateCIDuration(
+      startDate,
+      endDate,
+      undefined,
+      teamId,
+    );
+
+    expect(metrics.duration.count).toBe(1);
+    expect(metrics.duration.p50_minutes).toBeCloseTo(10, 5);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { createIdentityResolver, isBotName } from "@/lib/identities/resolver";
+
+describe("Identity Resolution", () => {
+  describe("isBotName", () => {
+    test("should recognize well-known bot accounts", () => {
+      expect(isBotName("dependabot[bot]")).toBe(true);
+      expect(isBotName("dependabot")).toBe(true);
+      expect(isBotName("renovate-bot")).toBe(true);
+      expect(isBotName("Project Collection Build Service (acme)")).toBe(true);
+    });
+
+    test("should not flag people", () => {
+      expect(isBotName("Jane Doe")).toBe(false);
+      expect(isBotName("robot.enthusiast@example.com")).toBe(false);
+    });
+  });
+
+  describe("createIdentityResolver", () => {
+    const resolve = createIdentityResolver([
+      {
+        name: "Jane Doe",
+        isBot: false,
+        aliases: ["jane.doe@example.com", "janedoe"],
+      },
+      { name: "Release Service", isBot: true, aliases: ["svc-release"] },
+    ]);
+
+    test("should match names and aliases case-insensitively", () => {
+      expect(resolve(["JANE.DOE@example.com"])).toEqual({
+        name: "Jane Doe",
+        isBot: false,
+      });
+      expect(resolve([" jane doe "])?.name).toBe("Jane Doe");
+      expect(resolve(["svc-release"])).toEqual({
+        name: "Release Service",
+        isBot: true,
+      });
+    });
+
+    test("should try every name before falling back", () => {
+      expect(resolve(["Doe, Jane", "janedoe"])?.name).toBe("Jane Doe");
+    });
+
+    test("should keep the first name when no identity matches", () => {
+      expect(resolve([null, "", "John Smith", "jsmith"])).toEqual({
+        name: "John Smith",
+        isBot: false,
+      });
+      expect(resolve(["renovate[bot]"])).toEqual({
+        name: "renovate[bot]",
+        isBot: true,
+      });
+    });
+
+    test("should return null without names", () => {
+      expect(resolve([undefined, null, "  "])).toBeNull();
+    });
+  });
+});
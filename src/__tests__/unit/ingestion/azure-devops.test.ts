@@ -1,9 +1,14 @@
 import { describe, expect, test } from "bun:test";
+import {
+  fetchAllContinuationPages,
+  getContinuationPage,
+} from "@/lib/ingestion/azure-devops-client";
 import {
   calculateApprovedAt,
   calculateFirstReviewAt,
 } from "@/lib/ingestion/transformers/transform-pr";
 import {
+  createPagedClient,
   createPRWithApprovalButNoComment,
   createPRWithCommentsButNoApproval,
   createPRWithDeletedThreads,
@@ -208,6 +213,86 @@ describe("Pagination Logic", () => {
   });
 });
 
+const testResource = {
+  apiVersion: "7.2-preview.1",
+  area: "distributedtask",
+  locationId: "test-location",
+};
+
+describe("getContinuationPage()", () => {
+  test("should read the continuation token from the response header", async () => {
+    const { client, requestedTokens } = createPagedClient([[1, 2], [3]]);
+
+    const page = await getContinuationPage<number>(
+      client,
+      testResource,
+      { project: "test-project" },
+      { continuationToken: undefined, top: 2 },
+    );
+
+    expect(page).toEqual({ items: [1, 2], continuationToken: "page-2" });
+    expect(requestedTokens).toEqual([undefined]);
+  });
+
+  test("should return no token on the last page", async () => {
+    const { client } = createPagedClient([[1, 2], [3]]);
+
+    const page = await getContinuationPage<number>(
+      client,
+      testResource,
+      { project: "test-project" },
+      { continuationToken: "page-2", top: 2 },
+    );
+
+    expect(page).toEqual({ items: [3], continuationToken: undefined });
+  });
+});
+
+describe("fetchAllContinuationPages()", () => {
+  test("should follow continuation tokens across pages", async () => {
+    const { client, requestedTokens } = createPagedClient([
+      Array.from({ length: 100 }, (_, i) => i + 1),
+      Array.from({ length: 100 }, (_, i) => i + 101),
+      Array.from({ length: 50 }, (_, i) => i + 201),
+    ]);
+
+    const items = await fetchAllContinuationPages((continuationToken) =>
+      getContinuationPage<number>(
+        client,
+        testResource,
+        { project: "test-project" },
+        { continuationToken, top: 100 },
+      ),
+    );
+
+    expect(items).toHaveLength(250);
+    expect(items[249]).toBe(250);
+    expect(requestedTokens).toEqual([undefined, "page-2", "page-3"]);
+  });
+
+  test("should stop early when shouldStop returns true", async () => {
+    const { client, requestedTokens } = createPagedClient([
+      [5, 4],
+      [3, 2],
+      [1, 0],
+    ]);
+
+    const items = await fetchAllContinuationPages(
+      (continuationToken) =>
+        getContinuationPage<number>(
+          client,
+          testResource,
+          { project: "test-project" },
+          { continuationToken, top: 2 },
+        ),
+      (page) => page.some((item) => item < 3),
+    );
+
+    expect(items).toEqual([5, 4, 3, 2]);
+    expect(requestedTokens).toEqual([undefined, "page-2"]);
+  });
+});
+
 // ============================================================================
 // Test Helpers
 // ============================================================================
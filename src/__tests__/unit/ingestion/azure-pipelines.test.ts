@@ -1,4 +1,12 @@
 import { describe, expect, test } from "bun:test";
+import type * as azdev from "azure-devops-node-api";
+import type { Build } from "azure-devops-node-api/interfaces/BuildInterfaces";
+import type { ShallowTestCaseResult } from "azure-devops-node-api/interfaces/TestInterfaces";
+import {
+  fetchAllCIRunsForProject,
+  fetchTestResultsForBuild,
+} from "@/lib/ingestion/providers/azure-devops";
+import { createPagedClient } from "./fixtures/azure-devops-api-responses";
 import {
   createAllFailingScenario,
   createAllPassingScenario,
@@ -362,3 +370,50 @@ describe("Pagination Logic", () => {
     expect(batches).toBe(3);
   });
 });
+
+describe("fetchAllCIRunsForProject()", () => {
+  test("should fetch every page of builds", async () => {
+    const pages: Build[][] = [
+      Array.from({ length: 100 }, (_, i) => ({ id: i + 1 })),
+      Array.from({ length: 100 }, (_, i) => ({ id: i + 101 })),
+      Array.from({ length: 30 }, (_, i) => ({ id: i + 201 })),
+    ];
+    const { client, requestedTokens } = createPagedClient(pages);
+    const connection = {
+      getBuildApi: async () => client,
+    } as unknown as azdev.WebApi;
+
+    const builds = await fetchAllCIRunsForProject(connection, "test-project", {
+      since: new Date("2025-01-01T00:00:00Z"),
+      until: new Date("2025-01-08T00:00:00Z"),
+    });
+
+    expect(builds).toHaveLength(230);
+    expect(builds[229].id).toBe(230);
+    expect(requestedTokens).toEqual([undefined, "page-2", "page-3"]);
+  });
+});
+
+describe("fetchTestResultsForBuild()", () => {
+  test("should fetch every page of test results", async () => {
+    const pages: ShallowTestCaseResult[][] = [
+      Array.from({ length: 1000 }, (_, i) => ({ id: i + 1 })),
+      Array.from({ length: 1000 }, (_, i) => ({ id: i + 1001 })),
+      Array.from({ length: 200 }, (_, i) => ({ id: i + 2001 })),
+    ];
+    const { client, requestedTokens } = createPagedClient(pages);
+    const connection = {
+      getTestResultsApi: async () => client,
+    } as unknown as azdev.WebApi;
+
+    const results = await fetchTestResultsForBuild(
+      connection,
+      "test-project",
+      42,
+    );
+
+    expect(results).toHaveLength(2200);
+    expect(results[2199].id).toBe(2200);
+    expect(requestedTokens).toEqual([undefined, "page-2", "page-3"]);
+  });
+});
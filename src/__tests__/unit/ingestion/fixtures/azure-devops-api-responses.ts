@@ -1,4 +1,5 @@
 import { faker } from "@faker-js/faker";
+import type { ClientApiBase } from "azure-devops-node-api/ClientApiBases";
 import type {
   Comment,
   GitPullRequestCommentThread,
@@ -421,3 +422,53 @@ export function createPRWithRejection() {
     expectedApproval: null, // Rejected, not approved
   };
 }
+
+// ============================================================================
+// Paged API Factories
+// ============================================================================
+
+/**
+ * Create an SDK client whose REST client returns the given pages, linked by
+ * "page-<n>" continuation tokens in the x-ms-continuationtoken header
+ *
+ * requestedTokens records the continuation token of every request.
+ */
+export function createPagedClient<T>(pages: T[][]) {
+  const requestedTokens: Array<string | undefined> = [];
+  let pageIndex = 0;
+
+  const client = {
+    vsoClient: {
+      getVersioningData: async (
+        apiVersion: string,
+        _area: string,
+        _locationId: string,
+        _routeValues: unknown,
+        queryValues: { continuationToken?: string },
+      ) => {
+        requestedTokens.push(queryValues.continuationToken);
+        pageIndex = queryValues.continuationToken
+          ? Number.parseInt(queryValues.continuationToken.slice(5), 10) - 1
+          : 0;
+        return { requestUrl: "https://dev.azure.com/test-org", apiVersion };
+      },
+    },
+    rest: {
+      get: async () => ({
+        statusCode: 200,
+        result: pages[pageIndex],
+        headers:
+          pageIndex < pages.length - 1
+            ? { "x-ms-continuationtoken": `page-${pageIndex + 2}` }
+            : {},
+      }),
+    },
+    createRequestOptions: () => ({}),
+    formatResponse: (data: unknown) => data,
+  } as unknown as Pick<
+    ClientApiBase,
+    "vsoClient" | "rest" | "createRequestOptions" | "formatResponse"
+  >;
+
+  return { client, requestedTokens };
+}
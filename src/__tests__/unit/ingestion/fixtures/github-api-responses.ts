@@ -0,0 +1,204 @@
+import type {
+  GitHubPullRequest,
+  GitHubReview,
+  GitHubWorkflowRun,
+} from "@/lib/ingestion/types";
+
+/**
+ * Test Fixtures for GitHub REST API Responses
+ *
+ * Recorded responses from the GitHub REST API (trimmed to the fields
+ * DevSignals reads, identifiers anonymized). Factories return fresh copies
+ * so tests can mutate them freely.
+ */
+
+// ============================================================================
+// Pull Requests (GET /repos/{owner}/{repo}/pulls)
+// ============================================================================
+
+const MERGED_PR: GitHubPullRequest = {
+  number: 1347,
+  title: "Add retry budget to webhook dispatcher",
+  state: "closed",
+  draft: false,
+  user: { login: "octo-dev", type: "User" },
+  created_at: "2025-01-07T09:12:44Z",
+  updated_at: "2025-01-08T16:03:10Z",
+  closed_at: "2025-01-08T16:03:09Z",
+  merged_at: "2025-01-08T16:03:09Z",
+  labels: [{ name: "enhancement" }, { name: "backend" }],
+  base: { ref: "main" },
+  head: {
+    ref: "feature/webhook-retry-budget",
+    sha: "3f786850e387550fdab836ed7e6dc881de23001b",
+  },
+  merge_commit_sha: "89e6c98d92887913cadf06b2adb97f26cde4849b",
+};
+
+const CLOSED_UNMERGED_PR: GitHubPullRequest = {
+  number: 1351,
+  title: "Try alternate serializer",
+  state: "closed",
+  draft: false,
+  user: { login: "octo-dev", type: "User" },
+  created_at: "2025-01-08T11:00:00Z",
+  updated_at: "2025-01-09T08:30:00Z",
+  closed_at: "2025-01-09T08:30:00Z",
+  merged_at: null,
+  labels: [],
+  base: { ref: "main" },
+  head: {
+    ref: "spike/serializer",
+    sha: "a3db5c13ff90a36963278c6a39e4ee3c22e2a436",
+  },
+  merge_commit_sha: null,
+};
+
+const OPEN_DRAFT_PR: GitHubPullRequest = {
+  number: 1360,
+  title: "WIP: migrate queue consumer",
+  state: "open",
+  draft: true,
+  user: { login: "octo-dev", type: "User" },
+  created_at: "2025-01-10T14:20:00Z",
+  updated_at: "2025-01-10T15:45:00Z",
+  closed_at: null,
+  merged_at: null,
+  labels: [{ name: "blocked" }],
+  base: { ref: "develop" },
+  head: {
+    ref: "feature/queue-consumer",
+    sha: "9c1185a5c5e9fc54612808977ee8f548b2258d31",
+  },
+  merge_commit_sha: null,
+};
+
+export function createMergedPullRequest(
+  overrides?: Partial<GitHubPullRequest>,
+): GitHubPullRequest {
+  return structuredClone({ ...MERGED_PR, ...overrides });
+}
+
+export function createClosedUnmergedPullRequest(
+  overrides?: Partial<GitHubPullRequest>,
+): GitHubPullRequest {
+  return structuredClone({ ...CLOSED_UNMERGED_PR, ...overrides });
+}
+
+export function createOpenDraftPullRequest(
+  overrides?: Partial<GitHubPullRequest>,
+): GitHubPullRequest {
+  return structuredClone({ ...OPEN_DRAFT_PR, ...overrides });
+}
+
+// ============================================================================
+// Reviews (GET /repos/{owner}/{repo}/pulls/{number}/reviews)
+// ============================================================================
+
+/**
+ * Reviews for MERGED_PR: a self-comment by the author, a change request,
+ * a pending review, then an approval.
+ */
+export function createReviewsForMergedPR(): {
+  reviews: GitHubReview[];
+  expectedFirstReview: Date;
+  expectedApproval: Date;
+} {
+  return {
+    reviews: [
+      {
+        id: 2001,
+        user: { login: "octo-dev", type: "User" },
+        state: "COMMENTED",
+        submitted_at: "2025-01-07T09:30:00Z",
+      },
+      {
+        id: 2002,
+        user: { login: "reviewer-a", type: "User" },
+        state: "CHANGES_REQUESTED",
+        submitted_at: "2025-01-07T13:05:21Z",
+      },
+      {
+        id: 2003,
+        user: { login: "reviewer-b", type: "User" },
+        state: "PENDING",
+        submitted_at: null,
+      },
+      {
+        id: 2004,
+        user: { login: "reviewer-a", type: "User" },
+        state: "APPROVED",
+        submitted_at: "2025-01-08T10:47:02Z",
+      },
+    ],
+    expectedFirstReview: new Date("2025-01-07T13:05:21Z"),
+    expectedApproval: new Date("2025-01-08T10:47:02Z"),
+  };
+}
+
+// ============================================================================
+// Workflow Runs (GET /repos/{owner}/{repo}/actions/runs)
+// ============================================================================
+
+const COMPLETED_PR_RUN: GitHubWorkflowRun = {
+  id: 7736411092,
+  name: "CI",
+  head_branch: "feature/webhook-retry-budget",
+  head_sha: "3f786850e387550fdab836ed7e6dc881de23001b",
+  status: "completed",
+  conclusion: "success",
+  event: "pull_request",
+  run_attempt: 1,
+  created_at: "2025-01-07T09:13:02Z",
+  updated_at: "2025-01-07T09:21:48Z",
+  run_started_at: "2025-01-07T09:13:02Z",
+  pull_requests: [{ number: 1347 }],
+};
+
+const TIMED_OUT_PUSH_RUN: GitHubWorkflowRun = {
+  id: 7736900417,
+  name: "Nightly E2E",
+  head_branch: "main",
+  head_sha: "89e6c98d92887913cadf06b2adb97f26cde4849b",
+  status: "completed",
+  conclusion: "timed_out",
+  event: "schedule",
+  run_attempt: 1,
+  created_at: "2025-01-09T02:00:11Z",
+  updated_at: "2025-01-09T08:00:15Z",
+  run_started_at: "2025-01-09T02:00:14Z",
+  pull_requests: [],
+};
+
+const IN_PROGRESS_RUN: GitHubWorkflowRun = {
+  id: 7737012233,
+  name: null,
+  head_branch: "main",
+  head_sha: "89e6c98d92887913cadf06b2adb97f26cde4849b",
+  status: "in_progress",
+  conclusion: null,
+  event: "push",
+  run_attempt: 2,
+  created_at: "2025-01-09T10:00:00Z",
+  updated_at: "2025-01-09T10:04:00Z",
+  run_started_at: "2025-01-09T10:03:30Z",
+  pull_requests: [],
+};
+
+export function createCompletedPRWorkflowRun(
+  overrides?: Partial<GitHubWorkflowRun>,
+): GitHubWorkflowRun {
+  return structuredClone({ ...COMPLETED_PR_RUN, ...overrides });
+}
+
+export function createTimedOutWorkflowRun(
+  overrides?: Partial<GitHubWorkflowRun>,
+): GitHubWorkflowRun {
+  return structuredClone({ ...TIMED_OUT_PUSH_RUN, ...overrides });
+}
+
+export function createInProgressWorkflowRun(
+  overrides?: Partial<GitHubWorkflowRun>,
+): GitHubWorkflowRun {
+  return structuredClone({ ...IN_PROGRESS_RUN, ...overrides });
+}
@@ -0,0 +1,430 @@
+import { describe, expect, test } from "bun:test";
+import { createIdentityResolver } from "@/lib/identities/resolver";
+import { fetchAllPages, findFirstPage } from "@/lib/ingestion/github-client";
+import {
+  calculateGitHubReviewTimestamps,
+  transformGitHubPullRequest,
+  transformWorkflowRun,
+} from "@/lib/ingestion/transformers/transform-github";
+import {
+  createClosedUnmergedPullRequest,
+  createCompletedPRWorkflowRun,
+  createInProgressWorkflowRun,
+  createMergedPullRequest,
+  createOpenDraftPullRequest,
+  createReviewsForMergedPR,
+  createTimedOutWorkflowRun,
+} from "./fixtures/github-api-responses";
+
+/**
+ * Test Suite for GitHub Ingestion
+ *
+ * Tests cover:
+ * - PR transformation from the GitHub pulls API to the pull_requests schema
+ * - Review timestamp calculation from the reviews API
+ * - Workflow run transformation from the Actions API to the ci_runs schema
+ * - Page-number pagination and page seeking
+ */
+
+const ORG = "acme";
+const REPO = "webhooks";
+
+describe("transformGitHubPullRequest()", () => {
+  test("should map merged PR to state='merged' with mergedAt", () => {
+    const result = transformGitHubPullRequest(
+      createMergedPullRequest(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.prNumber).toBe(1347);
+    expect(result.state).toBe("merged");
+    expect(result.mergedAt).toEqual(new Date("2025-01-08T16:03:09Z"));
+    expect(result.closedAt).toEqual(new Date("2025-01-08T16:03:09Z"));
+    expect(result.updatedAt).toEqual(new Date("2025-01-08T16:03:10Z"));
+  });
+
+  test("should map closed unmerged PR to state='closed' with mergedAt=null", () => {
+    const result = transformGitHubPullRequest(
+      createClosedUnmergedPullRequest(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.state).toBe("closed");
+    expect(result.mergedAt).toBeNull();
+  });
+
+  test("should map open draft PR with labels and branches", () => {
+    const result = transformGitHubPullRequest(
+      createOpenDraftPullRequest(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.state).toBe("open");
+    expect(result.isDraft).toBe(true);
+    expect(result.labels).toEqual(["blocked"]);
+    expect(result.baseBranch).toBe("develop");
+    expect(result.headBranch).toBe("feature/queue-consumer");
+  });
+
+  test("should use owner as orgName and repository as projectName", () => {
+    const result = transformGitHubPullRequest(
+      createMergedPullRequest(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.orgName).toBe(ORG);
+    expect(result.repoName).toBe(REPO);
+    expect(result.projectName).toBe(REPO);
+    expect(result.author).toBe("octo-dev");
+    expect(result.source).toBe("github");
+  });
+
+  test("should leave review timestamps null until enrichment", () => {
+    const result = transformGitHubPullRequest(
+      createMergedPullRequest(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.firstReviewAt).toBeNull();
+    expect(result.approvedAt).toBeNull();
+  });
+
+  test("should capture head and merge commit SHAs of merged PRs", () => {
+    const result = transformGitHubPullRequest(
+      createMergedPullRequest(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.sourceCommitSha).toBe(
+      "3f786850e387550fdab836ed7e6dc881de23001b",
+    );
+    expect(result.mergeCommitSha).toBe(
+      "89e6c98d92887913cadf06b2adb97f26cde4849b",
+    );
+  });
+
+  test("should ignore the preview merge commit of open PRs", () => {
+    const result = transformGitHubPullRequest(
+      createOpenDraftPullRequest({
+        merge_commit_sha: "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391",
+      }),
+      ORG,
+      REPO,
+    );
+
+    expect(result.sourceCommitSha).toBe(
+      "9c1185a5c5e9fc54612808977ee8f548b2258d31",
+    );
+    expect(result.mergeCommitSha).toBeNull();
+  });
+
+  test("should fall back to 'Unknown' author for deleted accounts", () => {
+    const result = transformGitHubPullRequest(
+      createMergedPullRequest({ user: null }),
+      ORG,
+      REPO,
+    );
+
+    expect(result.author).toBe("Unknown");
+  });
+
+  test("should store the author under the identity name", () => {
+    const pr = createMergedPullRequest();
+    const identities = createIdentityResolver([
+      { name: "Jane Doe", isBot: false, aliases: [pr.user?.login ?? ""] },
+    ]);
+
+    const result = transformGitHubPullRequest(pr, ORG, REPO, identities);
+
+    expect(result.author).toBe("Jane Doe");
+    expect(result.isBot).toBe(false);
+  });
+
+  test("should flag PRs opened by GitHub App accounts as bot PRs", () => {
+    const result = transformGitHubPullRequest(
+      createMergedPullRequest({
+        user: { login: "acme-release-app", type: "Bot" },
+      }),
+      ORG,
+      REPO,
+    );
+
+    expect(result.author).toBe("acme-release-app");
+    expect(result.isBot).toBe(true);
+  });
+});
+
+describe("calculateGitHubReviewTimestamps()", () => {
+  test("should use earliest non-author review and earliest approval", () => {
+    const scenario = createReviewsForMergedPR();
+
+    const result = calculateGitHubReviewTimestamps(
+      scenario.reviews,
+      "octo-dev",
+    );
+
+    expect(result.firstReviewAt).toEqual(scenario.expectedFirstReview);
+    expect(result.approvedAt).toEqual(scenario.expectedApproval);
+  });
+
+  test("should return nulls when there are no reviews", () => {
+    const result = calculateGitHubReviewTimestamps([], "octo-dev");
+
+    expect(result.firstReviewAt).toBeNull();
+    expect(result.approvedAt).toBeNull();
+  });
+
+  test("should ignore pending reviews and self-reviews", () => {
+    const { reviews } = createReviewsForMergedPR();
+    const selfAndPending = reviews.filter(
+      (review) =>
+        review.user?.login === "octo-dev" || review.state === "PENDING",
+    );
+
+    const result = calculateGitHubReviewTimestamps(selfAndPending, "octo-dev");
+
+    expect(result.firstReviewAt).toBeNull();
+    expect(result.approvedAt).toBeNull();
+  });
+
+  test("should set firstReviewAt but not approvedAt for comment-only reviews", () => {
+    const { reviews } = createReviewsForMergedPR();
+    const withoutApproval = reviews.filter(
+      (review) => review.state !== "APPROVED",
+    );
+
+    const result = calculateGitHubReviewTimestamps(withoutApproval, "octo-dev");
+
+    expect(result.firstReviewAt).toEqual(new Date("2025-01-07T13:05:21Z"));
+    expect(result.approvedAt).toBeNull();
+  });
+
+  test("should return one review per reviewer with the latest vote", () => {
+    const { reviews } = createReviewsForMergedPR();
+
+    const result = calculateGitHubReviewTimestamps(reviews, "octo-dev");
+
+    expect(result.reviews).toEqual([
+      {
+        reviewer: "reviewer-a",
+        isBot: false,
+        vote: "approved",
+        votedAt: new Date("2025-01-07T13:05:21Z"),
+        firstCommentAt: null,
+      },
+    ]);
+  });
+
+  test("should record comment-only reviews and resolve reviewer identities", () => {
+    const identities = createIdentityResolver([
+      { name: "Reviewer B", isBot: false, aliases: ["reviewer-b"] },
+    ]);
+    const reviews = [
+      {
+        id: 1,
+        user: { login: "reviewer-b", type: "User" },
+        state: "COMMENTED",
+        submitted_at: "2025-01-07T10:00:00Z",
+      },
+      {
+        id: 2,
+        user: { login: "acme-lint-app", type: "Bot" },
+        state: "CHANGES_REQUESTED",
+        submitted_at: "2025-01-07T11:00:00Z",
+      },
+      {
+        id: 3,
+        user: { login: "acme-lint-app", type: "Bot" },
+        state: "DISMISSED",
+        submitted_at: "2025-01-07T12:00:00Z",
+      },
+    ];
+
+    const result = calculateGitHubReviewTimestamps(
+      reviews,
+      "octo-dev",
+      identities,
+    );
+
+    expect(result.reviews).toEqual([
+      {
+        reviewer: "Reviewer B",
+        isBot: false,
+        vote: "none",
+        votedAt: null,
+        firstCommentAt: new Date("2025-01-07T10:00:00Z"),
+      },
+      {
+        reviewer: "acme-lint-app",
+        isBot: true,
+        vote: "none",
+        votedAt: new Date("2025-01-07T11:00:00Z"),
+        firstCommentAt: null,
+      },
+    ]);
+  });
+
+  test("should add requested reviewers who have not reviewed yet", () => {
+    const { reviews } = createReviewsForMergedPR();
+
+    const result = calculateGitHubReviewTimestamps(
+      reviews,
+      "octo-dev",
+      undefined,
+      [
+        { login: "reviewer-a", type: "User" }, // re-requested after approving
+        { login: "reviewer-c", type: "User" },
+      ],
+    );
+
+    expect(result.reviews).toEqual([
+      {
+        reviewer: "reviewer-a",
+        isBot: false,
+        vote: "approved",
+        votedAt: new Date("2025-01-07T13:05:21Z"),
+        firstCommentAt: null,
+      },
+      {
+        reviewer: "reviewer-c",
+        isBot: false,
+        vote: "none",
+        votedAt: null,
+        firstCommentAt: null,
+      },
+    ]);
+  });
+});
+
+describe("transformWorkflowRun()", () => {
+  test("should map completed PR-triggered run with PR link", () => {
+    const result = transformWorkflowRun(
+      createCompletedPRWorkflowRun(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.runId).toBe("github-acme-webhooks-7736411092");
+    expect(result.workflowName).toBe("CI");
+    expect(result.status).toBe("completed");
+    expect(result.conclusion).toBe("success");
+    expect(result.prNumber).toBe(1347);
+    expect(result.commitSha).toBe("3f786850e387550fdab836ed7e6dc881de23001b");
+    expect(result.startedAt).toEqual(new Date("2025-01-07T09:13:02Z"));
+    expect(result.completedAt).toEqual(new Date("2025-01-07T09:21:48Z"));
+  });
+
+  test("should map timed_out conclusion to failure", () => {
+    const result = transformWorkflowRun(createTimedOutWorkflowRun(), ORG, REPO);
+
+    expect(result.conclusion).toBe("failure");
+    expect(result.prNumber).toBeNull();
+  });
+
+  test("should map in-progress run without completion time", () => {
+    const result = transformWorkflowRun(
+      createInProgressWorkflowRun(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.status).toBe("in_progress");
+    expect(result.conclusion).toBeNull();
+    expect(result.completedAt).toBeNull();
+    expect(result.workflowName).toBe("unknown-workflow");
+    expect(result.startedAt).toEqual(new Date("2025-01-09T10:03:30Z"));
+  });
+
+  test("should default flaky fields for post-ingestion detection", () => {
+    const result = transformWorkflowRun(
+      createCompletedPRWorkflowRun(),
+      ORG,
+      REPO,
+    );
+
+    expect(result.isFlaky).toBe(false);
+    expect(result.flakyTestCount).toBe(0);
+  });
+});
+
+describe("fetchAllPages()", () => {
+  test("should stop after a short page", async () => {
+    const pages = [
+      Array.from({ length: 100 }, (_, i) => i),
+      Array.from({ length: 20 }, (_, i) => i + 100),
+    ];
+    const requested: number[] = [];
+
+    const items = await fetchAllPages(async (page) => {
+      requested.push(page);
+      return pages[page - 1] ?? [];
+    });
+
+    expect(items).toHaveLength(120);
+    expect(requested).toEqual([1, 2]);
+  });
+
+  test("should stop early when shouldStop returns true", async () => {
+    const requested: number[] = [];
+
+    const items = await fetchAllPages(
+      async (page) => {
+        requested.push(page);
+        return Array.from({ length: 100 }, (_, i) => (page - 1) * 100 + i);
+      },
+      (page) => page[page.length - 1] >= 199,
+    );
+
+    expect(items).toHaveLength(200);
+    expect(requested).toEqual([1, 2]);
+  });
+});
+
+describe("findFirstPage()", () => {
+  // 50 pages of 100 descending values (4999 down to 0), then empty pages
+  const fetchDescendingPage = (requested: number[]) => async (page: number) => {
+    requested.push(page);
+    return page > 50
+      ? []
+      : Array.from({ length: 100 }, (_, i) => 5000 - (page - 1) * 100 - i - 1);
+  };
+  const reachesBelow = (value: number) => (items: number[]) =>
+    items.length === 0 || items[items.length - 1] < value;
+
+  test("should find the first page reaching the target in few requests", async () => {
+    const requested: number[] = [];
+
+    const page = await findFirstPage(
+      fetchDescendingPage(requested),
+      reachesBelow(1250),
+    );
+
+    // Page 38 holds 1299..1200; page 37 ends at 1300
+    expect(page).toBe(38);
+    expect(requested.length).toBeLessThanOrEqual(12);
+  });
+
+  test("should return page 1 when the first page reaches the target", async () => {
+    const requested: number[] = [];
+
+    const page = await findFirstPage(
+      fetchDescendingPage(requested),
+      reachesBelow(6000),
+    );
+
+    expect(page).toBe(1);
+    expect(requested).toEqual([1]);
+  });
+
+  test("should return the page after the last one when nothing reaches the target", async () => {
+    const page = await findFirstPage(fetchDescendingPage([]), reachesBelow(-1));
+
+    expect(page).toBe(51);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  DEFAULT_SOURCE,
+  getConfiguredSource,
+  isSourceName,
+  SOURCE_NAMES,
+} from "@/lib/ingestion/providers";
+
+/**
+ * Test Suite for the Source Provider Registry
+ *
+ * Tests cover:
+ * - Source name validation (query parameter / env var input)
+ * - Resolution of the configured default source (INGESTION_SOURCE)
+ */
+
+describe("isSourceName()", () => {
+  test("should accept every registered source", () => {
+    for (const source of SOURCE_NAMES) {
+      expect(isSourceName(source)).toBe(true);
+    }
+  });
+
+  test("should register Azure DevOps and GitHub", () => {
+    expect(SOURCE_NAMES).toContain("azure-devops");
+    expect(SOURCE_NAMES).toContain("github");
+  });
+
+  test("should reject unknown sources", () => {
+    expect(isSourceName("gitlab")).toBe(false);
+    expect(isSourceName("")).toBe(false);
+    expect(isSourceName("GitHub")).toBe(false);
+  });
+});
+
+describe("getConfiguredSource()", () => {
+  const originalSource = process.env.INGESTION_SOURCE;
+
+  afterEach(() => {
+    if (originalSource === undefined) {
+      delete process.env.INGESTION_SOURCE;
+    } else {
+      process.env.INGESTION_SOURCE = originalSource;
+    }
+  });
+
+  test("should default to Azure DevOps when INGESTION_SOURCE is unset", () => {
+    delete process.env.INGESTION_SOURCE;
+
+    expect(getConfiguredSource()).toBe(DEFAULT_SOURCE);
+    expect(DEFAULT_SOURCE).toBe("azure-devops");
+  });
+
+  test("should default when INGESTION_SOURCE is blank", () => {
+    process.env.INGESTION_SOURCE = "  ";
+
+    expect(getConfiguredSource()).toBe("azure-devops");
+  });
+
+  test("should return the configured source", () => {
+    process.env.INGESTION_SOURCE = "github";
+
+    expect(getConfiguredSource()).toBe("github");
+  });
+
+  test("should throw for an unknown configured source", () => {
+    process.env.INGESTION_SOURCE = "gitlab";
+
+    expect(() => getConfiguredSource()).toThrow(/INGESTION_SOURCE/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import {
+  extractBuildPRNumber,
+  transformCIRun,
+} from "@/lib/ingestion/transformers/transform-ci-run";
+import { createSuccessfulBuild } from "../fixtures/azure-pipelines-api-responses";
+
+/**
+ * Test Suite for PR detection in transformCIRun()
+ *
+ * PR-triggered builds are linked to their PR from build metadata; branch
+ * builds stay unlinked until enrichCIRunsWithPRLinks matches their commit.
+ */
+
+describe("extractBuildPRNumber()", () => {
+  test("should read the PR number from a PR merge ref", () => {
+    const build = createSuccessfulBuild({
+      sourceBranch: "refs/pull/482/merge",
+    });
+
+    expect(extractBuildPRNumber(build)).toBe(482);
+  });
+
+  test("should read the PR number from trigger info", () => {
+    const build = createSuccessfulBuild({
+      sourceBranch: "refs/heads/feature/login",
+      triggerInfo: { "pr.number": "91", "pr.sourceBranch": "feature/login" },
+    });
+
+    expect(extractBuildPRNumber(build)).toBe(91);
+  });
+
+  test("should return null for branch builds", () => {
+    const build = createSuccessfulBuild({
+      sourceBranch: "refs/heads/main",
+      triggerInfo: {},
+    });
+
+    expect(extractBuildPRNumber(build)).toBeNull();
+  });
+
+  test("should ignore malformed trigger info", () => {
+    const build = createSuccessfulBuild({
+      sourceBranch: "refs/heads/main",
+      triggerInfo: { "pr.number": "not-a-number" },
+    });
+
+    expect(extractBuildPRNumber(build)).toBeNull();
+  });
+});
+
+describe("transformCIRun() prNumber", () => {
+  test("should link PR validation builds to their PR", () => {
+    const build = createSuccessfulBuild({ sourceBranch: "refs/pull/17/merge" });
+
+    const result = transformCIRun(build, "Project-A", "test-org");
+
+    expect(result.prNumber).toBe(17);
+  });
+
+  test("should leave branch builds unlinked", () => {
+    const build = createSuccessfulBuild({ sourceBranch: "refs/heads/main" });
+
+    const result = transformCIRun(build, "Project-A", "test-org");
+
+    expect(result.prNumber).toBeNull();
+    expect(result.branch).toBe("main");
+  });
+});
@@ -0,0 +1,345 @@
+import { describe, expect, test } from "bun:test";
+import type {
+  Build,
+  Change,
+} from "azure-devops-node-api/interfaces/BuildInterfaces";
+import type { Deployment } from "azure-devops-node-api/interfaces/ReleaseInterfaces";
+import type { EnvironmentDeploymentExecutionRecord } from "azure-devops-node-api/interfaces/TaskAgentInterfaces";
+import {
+  createDeploymentBuildContext,
+  type DeploymentBuildContext,
+  extractRelatedPRs,
+  getReleaseBuildId,
+  normalizeEnvironmentName,
+  transformEnvironmentDeployment,
+  transformReleaseDeployment,
+} from "@/lib/ingestion/transformers/transform-deployment";
+
+/**
+ * Test Suite for the Deployment Transformer
+ *
+ * Covers environment name normalization, related PR extraction and the
+ * mapping of environment deployment records and classic Release
+ * deployments to the deployments schema.
+ */
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+function createMockRecord(
+  overrides: Partial<EnvironmentDeploymentExecutionRecord> = {},
+): EnvironmentDeploymentExecutionRecord {
+  return {
+    id: 1,
+    environmentId: 7,
+    owner: { id: 4321, name: "20250115.1" },
+    definition: { id: 12, name: "web-app" },
+    planType: "Build",
+    stageName: "DeployProd",
+    jobName: "Deploy",
+    queueTime: new Date("2025-01-15T09:58:00Z"),
+    startTime: new Date("2025-01-15T10:00:00Z"),
+    finishTime: new Date("2025-01-15T10:05:00Z"),
+    result: 0, // Succeeded
+    ...overrides,
+  } as EnvironmentDeploymentExecutionRecord;
+}
+
+function createMockReleaseDeployment(
+  overrides: Partial<Deployment> = {},
+): Deployment {
+  return {
+    id: 99,
+    attempt: 1,
+    deploymentStatus: 4, // Succeeded
+    queuedOn: new Date("2025-01-15T09:58:00Z"),
+    startedOn: new Date("2025-01-15T10:00:00Z"),
+    completedOn: new Date("2025-01-15T10:20:00Z"),
+    release: {
+      id: 55,
+      name: "Release-55",
+      artifacts: [
+        {
+          alias: "_web-app",
+          type: "Build",
+          isPrimary: true,
+          definitionReference: {
+            version: { id: "4321", name: "20250115.1" },
+            sourceVersion: { id: SHA, name: SHA },
+            repository: { id: "repo-id", name: "web-app" },
+          },
+        },
+      ],
+    },
+    releaseEnvironment: { id: 3, name: "Production" },
+    requestedFor: { displayName: "Release Manager" },
+    ...overrides,
+  } as Deployment;
+}
+
+const context: DeploymentBuildContext = {
+  repoName: "web-app",
+  commitSha: SHA,
+  requestedFor: "Pipeline User",
+  relatedPRs: [101, 102],
+};
+
+describe("normalizeEnvironmentName()", () => {
+  test("should map production names to 'production'", () => {
+    expect(normalizeEnvironmentName("Production")).toBe("production");
+    expect(normalizeEnvironmentName("PRD-WestEurope")).toBe("production");
+    expect(normalizeEnvironmentName("web-app-prod")).toBe("production");
+    expect(normalizeEnvironmentName("Live")).toBe("production");
+  });
+
+  test("should map pre-production names to 'staging' before production", () => {
+    expect(normalizeEnvironmentName("PreProd")).toBe("staging");
+    expect(normalizeEnvironmentName("pre-prod")).toBe("staging");
+    expect(normalizeEnvironmentName("Staging")).toBe("staging");
+    expect(normalizeEnvironmentName("UAT")).toBe("staging");
+  });
+
+  test("should map development and test names to 'development'", () => {
+    expect(normalizeEnvironmentName("Dev")).toBe("development");
+    expect(normalizeEnvironmentName("QA")).toBe("development");
+    expect(normalizeEnvironmentName("integration-test")).toBe("development");
+  });
+
+  test("should lowercase unrecognized names", () => {
+    expect(normalizeEnvironmentName(" Sandbox ")).toBe("sandbox");
+    expect(normalizeEnvironmentName("delivery")).toBe("delivery");
+  });
+
+  test("should keep names registered in the environment registry", () => {
+    const previous = process.env.PRODUCTION_ENVIRONMENTS;
+    process.env.PRODUCTION_ENVIRONMENTS = "prod-eu,prod-us";
+
+    try {
+      expect(normalizeEnvironmentName("Prod-EU")).toBe("prod-eu");
+      expect(normalizeEnvironmentName("prod-apac")).toBe("production");
+    } finally {
+      if (previous === undefined) {
+        delete process.env.PRODUCTION_ENVIRONMENTS;
+      } else {
+        process.env.PRODUCTION_ENVIRONMENTS = previous;
+      }
+    }
+  });
+});
+
+describe("extractRelatedPRs()", () => {
+  test("should extract PR number from a PR merge ref", () => {
+    const build = { sourceBranch: "refs/pull/42/merge" } as Build;
+    expect(extractRelatedPRs(build, [])).toEqual([42]);
+  });
+
+  test("should extract PR number from trigger info", () => {
+    const build = {
+      sourceBranch: "refs/heads/main",
+      triggerInfo: { "pr.number": "43" },
+    } as Build;
+    expect(extractRelatedPRs(build, [])).toEqual([43]);
+  });
+
+  test("should extract merged PRs from commit messages without duplicates", () => {
+    const build = { sourceBranch: "refs/heads/main" } as Build;
+    const changes = [
+      { message: "Merged PR 101: Add login page" },
+      { message: "Fix typo in README" },
+      { message: "Merged PR 102: Refactor auth" },
+      { message: "Merged PR 101: Add login page" },
+    ] as Change[];
+
+    expect(extractRelatedPRs(build, changes)).toEqual([101, 102]);
+  });
+
+  test("should build a context from build and changes", () => {
+    const build = {
+      sourceBranch: "refs/heads/main",
+      sourceVersion: SHA,
+      repository: { name: "web-app" },
+      requestedFor: { displayName: "Pipeline User" },
+    } as Build;
+
+    expect(
+      createDeploymentBuildContext(build, [
+        { message: "Merged PR 7: Change" },
+      ] as Change[]),
+    ).toEqual({
+      repoName: "web-app",
+      commitSha: SHA,
+      requestedFor: "Pipeline User",
+      relatedPRs: [7],
+    });
+  });
+});
+
+describe("transformEnvironmentDeployment()", () => {
+  test("should map a successful run to a production deployment", () => {
+    const deployment = transformEnvironmentDeployment(
+      [createMockRecord()],
+      "Production",
+      context,
+      "Project-A",
+      "test-org",
+    );
+
+    expect(deployment).toEqual({
+      deploymentId: "ado-env-test-org-Project-A-7-4321",
+      environment: "production",
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      commitSha: SHA,
+      deployedBy: "Pipeline User",
+      status: "success",
+      startedAt: new Date("2025-01-15T10:00:00Z"),
+      completedAt: new Date("2025-01-15T10:05:00Z"),
+      isFailed: false,
+      failureReason: null,
+      relatedPRs: [101, 102],
+    });
+  });
+
+  test("should fold multiple deployment jobs of one run into one deployment", () => {
+    const deployment = transformEnvironmentDeployment(
+      [
+        createMockRecord({ id: 1, jobName: "DeployWeb" }),
+        createMockRecord({
+          id: 2,
+          jobName: "DeployApi",
+          startTime: new Date("2025-01-15T09:59:00Z"),
+          finishTime: new Date("2025-01-15T10:10:00Z"),
+          result: 2, // Failed
+        }),
+      ],
+      "Production",
+      context,
+      "Project-A",
+      "test-org",
+    );
+
+    expect(deployment?.status).toBe("failure");
+    expect(deployment?.isFailed).toBe(true);
+    expect(deployment?.failureReason).toBe(
+      "Deployment job failed: DeployProd/DeployApi",
+    );
+    expect(deployment?.startedAt).toEqual(new Date("2025-01-15T09:59:00Z"));
+    expect(deployment?.completedAt).toEqual(new Date("2025-01-15T10:10:00Z"));
+  });
+
+  test("should map unfinished jobs to in_progress without completedAt", () => {
+    const deployment = transformEnvironmentDeployment(
+      [createMockRecord({ result: undefined, finishTime: undefined })],
+      "Production",
+      context,
+      "Project-A",
+      "test-org",
+    );
+
+    expect(deployment?.status).toBe("in_progress");
+    expect(deployment?.completedAt).toBeNull();
+    expect(deployment?.isFailed).toBe(false);
+  });
+
+  test("should map canceled jobs to cancelled (not a failure)", () => {
+    const deployment = transformEnvironmentDeployment(
+      [createMockRecord({ result: 3 })],
+      "Production",
+      context,
+      "Project-A",
+      "test-org",
+    );
+
+    expect(deployment?.status).toBe("cancelled");
+    expect(deployment?.isFailed).toBe(false);
+  });
+
+  test("should skip runs without a full commit SHA", () => {
+    expect(
+      transformEnvironmentDeployment(
+        [createMockRecord()],
+        "Production",
+        null,
+        "Project-A",
+        "test-org",
+      ),
+    ).toBeNull();
+    expect(
+      transformEnvironmentDeployment(
+        [createMockRecord()],
+        "Production",
+        { ...context, commitSha: "abc123" },
+        "Project-A",
+        "test-org",
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("transformReleaseDeployment()", () => {
+  test("should map a succeeded release deployment", () => {
+    const deployment = transformReleaseDeployment(
+      createMockReleaseDeployment(),
+      context,
+      "Project-A",
+      "test-org",
+    );
+
+    expect(deployment).toEqual({
+      deploymentId: "ado-release-test-org-Project-A-55-3",
+      environment: "production",
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      commitSha: SHA,
+      deployedBy: "Release Manager",
+      status: "success",
+      startedAt: new Date("2025-01-15T10:00:00Z"),
+      completedAt: new Date("2025-01-15T10:20:00Z"),
+      isFailed: false,
+      failureReason: null,
+      relatedPRs: [101, 102],
+    });
+  });
+
+  test("should map failed and partially succeeded deployments to failure", () => {
+    for (const deploymentStatus of [8, 16]) {
+      const deployment = transformReleaseDeployment(
+        createMockReleaseDeployment({ deploymentStatus }),
+        context,
+        "Project-A",
+        "test-org",
+      );
+
+      expect(deployment?.status).toBe("failure");
+      expect(deployment?.isFailed).toBe(true);
+      expect(deployment?.failureReason).toBe(
+        "Release Release-55 failed in Production",
+      );
+    }
+  });
+
+  test("should use the artifact commit when the build is unavailable", () => {
+    const deployment = transformReleaseDeployment(
+      createMockReleaseDeployment(),
+      null,
+      "Project-A",
+      "test-org",
+    );
+
+    expect(deployment?.commitSha).toBe(SHA);
+    expect(deployment?.repoName).toBe("web-app");
+    expect(deployment?.relatedPRs).toEqual([]);
+  });
+
+  test("should resolve the build id of the primary Build artifact", () => {
+    expect(getReleaseBuildId(createMockReleaseDeployment())).toBe(4321);
+    expect(
+      getReleaseBuildId(
+        createMockReleaseDeployment({
+          release: { id: 56, artifacts: [{ type: "Git", isPrimary: true }] },
+        }),
+      ),
+    ).toBeNull();
+  });
+});
@@ -1,9 +1,17 @@
 import { describe, expect, test } from "bun:test";
-import type { GitPullRequest } from "azure-devops-node-api/interfaces/GitInterfaces";
-import { transformPullRequest } from "@/lib/ingestion/transformers/transform-pr";
+import type {
+  GitPullRequest,
+  GitPullRequestCommentThread,
+  IdentityRefWithVote,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
+import { createIdentityResolver } from "@/lib/identities/resolver";
+import {
+  calculatePRReviews,
+  transformPullRequest,
+} from "@/lib/ingestion/transformers/transform-pr";
 
 /**
- * Test Suite for transformPullRequest()
+ * Test Suite for transformPullRequest() and calculatePRReviews()
  *
  * Tests the actual production function (not a duplicate helper).
  * This ensures the real code used in production gets coverage.
@@ -215,6 +223,46 @@ describe("transformPullRequest()", () => {
     });
   });
 
+  describe("Commit SHAs", () => {
+    test("should capture source and merge commits of completed PRs", () => {
+      const pr = createMockPR({
+        status: 3,
+        closedDate: new Date("2025-01-11T15:00:00Z"),
+        lastMergeSourceCommit: { commitId: "a".repeat(40) },
+        lastMergeCommit: { commitId: "b".repeat(40) },
+      });
+
+      const result = transformPullRequest(pr, testProjectName, testOrgName);
+
+      expect(result.sourceCommitSha).toBe("a".repeat(40));
+      expect(result.mergeCommitSha).toBe("b".repeat(40));
+    });
+
+    test("should ignore the preview merge commit of active PRs", () => {
+      const pr = createMockPR({
+        status: 1,
+        lastMergeSourceCommit: { commitId: "a".repeat(40) },
+        lastMergeCommit: { commitId: "b".repeat(40) },
+      });
+
+      const result = transformPullRequest(pr, testProjectName, testOrgName);
+
+      expect(result.sourceCommitSha).toBe("a".repeat(40));
+      expect(result.mergeCommitSha).toBeNull();
+    });
+
+    test("should default to null when commits are missing", () => {
+      const result = transformPullRequest(
+        createMockPR(),
+        testProjectName,
+        testOrgName,
+      );
+
+      expect(result.sourceCommitSha).toBeNull();
+      expect(result.mergeCommitSha).toBeNull();
+    });
+  });
+
   describe("Timestamp Logic", () => {
     test("should use creationDate for createdAt when present", () => {
       const pr = createMockPR({
@@ -328,6 +376,90 @@ describe("transformPullRequest()", () => {
     });
   });
 
+  describe("Author Identity", () => {
+    const identities = createIdentityResolver([
+      {
+        name: "Jane Doe",
+        isBot: false,
+        aliases: ["jane.doe@example.com"],
+      },
+      {
+        name: "Release Service",
+        isBot: true,
+        aliases: ["svc-release@example.com"],
+      },
+    ]);
+
+    test("should keep the display name without a matching identity", () => {
+      const result = transformPullRequest(
+        createMockPR(),
+        testProjectName,
+        testOrgName,
+        identities,
+      );
+
+      expect(result.author).toBe("Test User");
+      expect(result.isBot).toBe(false);
+    });
+
+    test("should resolve the author through the unique name", () => {
+      const pr = createMockPR({
+        createdBy: {
+          displayName: "Doe, Jane",
+          uniqueName: "Jane.Doe@example.com",
+        },
+      });
+
+      const result = transformPullRequest(
+        pr,
+        testProjectName,
+        testOrgName,
+        identities,
+      );
+
+      expect(result.author).toBe("Jane Doe");
+      expect(result.isBot).toBe(false);
+    });
+
+    test("should flag PRs by bot identities", () => {
+      const pr = createMockPR({
+        createdBy: {
+          displayName: "svc-release",
+          uniqueName: "svc-release@example.com",
+        },
+      });
+
+      const result = transformPullRequest(
+        pr,
+        testProjectName,
+        testOrgName,
+        identities,
+      );
+
+      expect(result.author).toBe("Release Service");
+      expect(result.isBot).toBe(true);
+    });
+
+    test("should flag well-known bots without an identity", () => {
+      const pr = createMockPR({
+        createdBy: { displayName: "Project Collection Build Service (acme)" },
+      });
+
+      const result = transformPullRequest(pr, testProjectName, testOrgName);
+
+      expect(result.isBot).toBe(true);
+    });
+
+    test("should fall back to 'Unknown' when the creator is missing", () => {
+      const pr = createMockPR({ createdBy: undefined });
+
+      const result = transformPullRequest(pr, testProjectName, testOrgName);
+
+      expect(result.author).toBe("Unknown");
+      expect(result.isBot).toBe(false);
+    });
+  });
+
   describe("Boolean Flags and Fixed Values", () => {
     test("should set isDraft=true when PR is draft", () => {
       const pr = createMockPR({
@@ -379,3 +511,94 @@ describe("transformPullRequest()", () => {
     });
   });
 });
+
+describe("calculatePRReviews()", () => {
+  function createReviewer(
+    overrides: Partial<IdentityRefWithVote> = {},
+  ): IdentityRefWithVote {
+    return {
+      id: "reviewer-id",
+      displayName: "Jane Reviewer",
+      uniqueName: "jane@example.com",
+      vote: 0,
+      ...overrides,
+    } as IdentityRefWithVote;
+  }
+
+  function createThread(
+    authorId: string,
+    publishedDate: string,
+    overrides: Partial<GitPullRequestCommentThread> = {},
+  ): GitPullRequestCommentThread {
+    return {
+      publishedDate: new Date(publishedDate),
+      comments: [{ author: { id: authorId } }],
+      ...overrides,
+    } as GitPullRequestCommentThread;
+  }
+
+  test("should map votes and first comments per reviewer", () => {
+    const reviewers = [
+      createReviewer({ vote: 10 }),
+      createReviewer({
+        id: "other-id",
+        displayName: "Sam Reviewer",
+        uniqueName: "sam@example.com",
+        vote: -5,
+      }),
+    ];
+    const threads = [
+      createThread("reviewer-id", "2025-01-11T09:00:00Z"),
+      createThread("reviewer-id", "2025-01-10T15:00:00Z"),
+      createThread("reviewer-id", "2025-01-10T12:00:00Z", { isDeleted: true }),
+    ];
+
+    const result = calculatePRReviews(reviewers, threads);
+
+    expect(result).toEqual([
+      {
+        reviewer: "Jane Reviewer",
+        isBot: false,
+        vote: "approved",
+        votedAt: null,
+        firstCommentAt: new Date("2025-01-10T15:00:00Z"),
+      },
+      {
+        reviewer: "Sam Reviewer",
+        isBot: false,
+        vote: "changes_requested",
+        votedAt: null,
+        firstCommentAt: null,
+      },
+    ]);
+  });
+
+  test("should skip group reviewers and the PR author", () => {
+    const reviewers = [
+      createReviewer({ id: "author-id", vote: 10 }),
+      createReviewer({
+        id: "group-id",
+        displayName: "[test-project]\\Reviewers",
+        isContainer: true,
+      }),
+    ];
+
+    expect(calculatePRReviews(reviewers, [], "author-id")).toEqual([]);
+  });
+
+  test("should resolve reviewer identities", () => {
+    const identities = createIdentityResolver([
+      { name: "Jane Doe", isBot: false, aliases: ["jane@example.com"] },
+    ]);
+
+    const [review] = calculatePRReviews(
+      [createReviewer({ vote: 5, displayName: "Jane (Contractor)" })],
+      [],
+      undefined,
+      identities,
+    );
+
+    expect(review.reviewer).toBe("Jane Doe");
+    expect(review.vote).toBe("approved");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import type { ShallowTestCaseResult } from "azure-devops-node-api/interfaces/TestInterfaces";
+import {
+  normalizeTestOutcome,
+  transformTestResult,
+} from "@/lib/ingestion/transformers/transform-test-result";
+
+/**
+ * Test Suite for transformTestResult()
+ *
+ * Test results inherit commit and start time from the CI run that produced
+ * them, so flaky detection can compare outcomes per commit.
+ */
+
+const run = {
+  runId: "test-org-Project-A-1234",
+  repoName: "web-app",
+  orgName: "test-org",
+  projectName: "Project-A",
+  commitSha: "a".repeat(40),
+  startedAt: new Date("2025-01-15T10:00:00Z"),
+};
+
+function createResult(
+  overrides: Partial<ShallowTestCaseResult> = {},
+): ShallowTestCaseResult {
+  return {
+    id: 100000,
+    runId: 55,
+    automatedTestName: "WebApp.Tests.LoginTests.ShouldRejectBadPassword",
+    automatedTestStorage: "WebApp.Tests.dll",
+    outcome: "Passed",
+    durationInMs: 42.5,
+    ...overrides,
+  };
+}
+
+describe("normalizeTestOutcome()", () => {
+  test("should map passed results", () => {
+    expect(normalizeTestOutcome("Passed")).toBe("passed");
+  });
+
+  test("should treat timeouts and aborts as failures", () => {
+    expect(normalizeTestOutcome("Failed")).toBe("failed");
+    expect(normalizeTestOutcome("Timeout")).toBe("failed");
+    expect(normalizeTestOutcome("Aborted")).toBe("failed");
+  });
+
+  test("should lowercase other outcomes", () => {
+    expect(normalizeTestOutcome("NotExecuted")).toBe("notexecuted");
+    expect(normalizeTestOutcome(undefined)).toBe("unspecified");
+  });
+});
+
+describe("transformTestResult()", () => {
+  test("should copy run context onto the result", () => {
+    const result = transformTestResult(createResult(), run);
+
+    expect(result).toEqual({
+      resultId: "test-org-Project-A-1234-55-100000",
+      runId: run.runId,
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      commitSha: run.commitSha,
+      testName: "WebApp.Tests.LoginTests.ShouldRejectBadPassword",
+      testSuite: "WebApp.Tests.dll",
+      outcome: "passed",
+      durationMs: 42.5,
+      startedAt: run.startedAt,
+    });
+  });
+
+  test("should fall back to the test case title for manual tests", () => {
+    const result = transformTestResult(
+      createResult({
+        automatedTestName: undefined,
+        automatedTestStorage: undefined,
+        testCaseTitle: "Checkout works",
+      }),
+      run,
+    );
+
+    expect(result?.testName).toBe("Checkout works");
+    expect(result?.testSuite).toBeNull();
+  });
+
+  test("should return null for results without an identity", () => {
+    expect(transformTestResult(createResult({ id: undefined }), run)).toBe(
+      null,
+    );
+    expect(
+      transformTestResult(
+        createResult({
+          automatedTestName: undefined,
+          testCaseTitle: undefined,
+        }),
+        run,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, test } from "bun:test";
+import type { TimelineRecord } from "azure-devops-node-api/interfaces/BuildInterfaces";
+import {
+  extractFailureReason,
+  mapTimelineResult,
+  transformTimeline,
+} from "@/lib/ingestion/transformers/transform-timeline";
+
+/**
+ * Test Suite for transformTimeline()
+ *
+ * Stages and jobs of a build timeline are stored per run; tasks only feed
+ * the run's failure reason.
+ */
+
+const run = {
+  runId: "Project-A-1234",
+  workflowName: "web-app-ci",
+  repoName: "web-app",
+  orgName: "test-org",
+  projectName: "Project-A",
+};
+
+function record(overrides: TimelineRecord): TimelineRecord {
+  return {
+    attempt: 1,
+    result: 0,
+    startTime: new Date("2025-01-15T10:00:00Z"),
+    finishTime: new Date("2025-01-15T10:05:00Z"),
+    ...overrides,
+  };
+}
+
+/** YAML pipeline: Build stage (1 job) and Test stage (2 jobs, one failed) */
+function createTimelineRecords(): TimelineRecord[] {
+  return [
+    record({ id: "s1", type: "Stage", name: "Build" }),
+    record({ id: "p1", type: "Phase", name: "Build", parentId: "s1" }),
+    record({ id: "j1", type: "Job", name: "Compile", parentId: "p1" }),
+    record({
+      id: "s2",
+      type: "Stage",
+      name: "Test",
+      result: 2,
+      startTime: new Date("2025-01-15T10:05:00Z"),
+      finishTime: new Date("2025-01-15T10:20:00Z"),
+    }),
+    record({ id: "p2", type: "Phase", name: "Test", parentId: "s2" }),
+    record({ id: "j2", type: "Job", name: "Unit tests", parentId: "p2" }),
+    record({
+      id: "j3",
+      type: "Job",
+      name: "E2E tests",
+      parentId: "p2",
+      result: 2,
+      attempt: 2,
+    }),
+    record({
+      id: "t1",
+      type: "Task",
+      name: "Run Playwright",
+      parentId: "j3",
+      result: 2,
+      finishTime: new Date("2025-01-15T10:18:00Z"),
+      issues: [
+        { type: 2, message: "Deprecated option" },
+        { type: 1, message: "Process completed with exit code 1." },
+      ],
+    }),
+  ];
+}
+
+describe("mapTimelineResult()", () => {
+  test("should map task results", () => {
+    expect(mapTimelineResult(0)).toBe("succeeded");
+    expect(mapTimelineResult(1)).toBe("succeeded_with_issues");
+    expect(mapTimelineResult(2)).toBe("failed");
+    expect(mapTimelineResult(3)).toBe("canceled");
+    expect(mapTimelineResult(4)).toBe("skipped");
+  });
+
+  test("should return null for records that have not finished", () => {
+    expect(mapTimelineResult(undefined)).toBeNull();
+  });
+});
+
+describe("extractFailureReason()", () => {
+  test("should use the first error issue of the failed task", () => {
+    expect(extractFailureReason(createTimelineRecords())).toBe(
+      "Run Playwright: Process completed with exit code 1.",
+    );
+  });
+
+  test("should use the earliest failed task", () => {
+    const reason = extractFailureReason([
+      record({
+        type: "Task",
+        name: "Publish",
+        result: 2,
+        finishTime: new Date("2025-01-15T10:30:00Z"),
+      }),
+      record({
+        type: "Task",
+        name: "Lint",
+        result: 2,
+        finishTime: new Date("2025-01-15T10:02:00Z"),
+      }),
+    ]);
+
+    expect(reason).toBe("Lint failed");
+  });
+
+  test("should return null when no task failed", () => {
+    expect(
+      extractFailureReason([record({ type: "Task", name: "Build" })]),
+    ).toBeNull();
+  });
+});
+
+describe("transformTimeline()", () => {
+  test("should store stages and jobs only", () => {
+    const timeline = transformTimeline(
+      { records: createTimelineRecords() },
+      run,
+    );
+
+    expect(timeline.records.map((r) => [r.recordType, r.name])).toEqual([
+      ["stage", "Build"],
+      ["job", "Compile"],
+      ["stage", "Test"],
+      ["job", "Unit tests"],
+      ["job", "E2E tests"],
+    ]);
+  });
+
+  test("should resolve each job's stage and duration", () => {
+    const timeline = transformTimeline(
+      { records: createTimelineRecords() },
+      run,
+    );
+    const e2e = timeline.records.find((r) => r.name === "E2E tests");
+
+    expect(e2e).toEqual({
+      recordId: "Project-A-1234-j3",
+      runId: "Project-A-1234",
+      workflowName: "web-app-ci",
+      repoName: "web-app",
+      orgName: "test-org",
+      projectName: "Project-A",
+      recordType: "job",
+      name: "E2E tests",
+      stageName: "Test",
+      result: "failed",
+      attempt: 2,
+      startedAt: new Date("2025-01-15T10:00:00Z"),
+      completedAt: new Date("2025-01-15T10:05:00Z"),
+      durationMs: 5 * 60 * 1000,
+    });
+  });
+
+  test("should derive job counters and failure reason", () => {
+    const timeline = transformTimeline(
+      { records: createTimelineRecords() },
+      run,
+    );
+
+    expect(timeline.jobsCount).toBe(3);
+    expect(timeline.failedJobsCount).toBe(1);
+    expect(timeline.failureReason).toBe(
+      "Run Playwright: Process completed with exit code 1.",
+    );
+  });
+
+  test("should leave stageName null for classic pipelines", () => {
+    const timeline = transformTimeline(
+      {
+        records: [
+          record({ id: "p1", type: "Phase", name: "Agent job 1" }),
+          record({
+            id: "j1",
+            type: "Job",
+            name: "Agent job 1",
+            parentId: "p1",
+          }),
+        ],
+      },
+      run,
+    );
+
+    expect(timeline.records[0].stageName).toBeNull();
+  });
+
+  test("should keep skipped records without timestamps", () => {
+    const timeline = transformTimeline(
+      {
+        records: [
+          record({
+            id: "s1",
+            type: "Stage",
+            name: "Deploy",
+            result: 4,
+            startTime: undefined,
+            finishTime: undefined,
+          }),
+        ],
+      },
+      run,
+    );
+
+    expect(timeline.records[0]).toMatchObject({
+      result: "skipped",
+      startedAt: null,
+      durationMs: null,
+    });
+    expect(timeline.jobsCount).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { parseCSV } from "@/lib/utils/csv";
+
+describe("CSV Utilities", () => {
+  describe("parseCSV", () => {
+    test("should split rows and fields", () => {
+      expect(parseCSV("a,b,c\n1,2,3\n")).toEqual([
+        ["a", "b", "c"],
+        ["1", "2", "3"],
+      ]);
+    });
+
+    test("should handle CRLF line endings and blank lines", () => {
+      expect(parseCSV("a,b\r\n\r\n1,2\r\n")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+
+    test("should keep empty fields", () => {
+      expect(parseCSV("a,,c\n,,")).toEqual([
+        ["a", "", "c"],
+        ["", "", ""],
+      ]);
+    });
+
+    test("should parse quoted fields with commas, newlines and quotes", () => {
+      expect(
+        parseCSV('notes,by\n"hotfix, ""urgent""\nsecond line",dev'),
+      ).toEqual([
+        ["notes", "by"],
+        ['hotfix, "urgent"\nsecond line', "dev"],
+      ]);
+    });
+
+    test("should ignore a leading byte order mark", () => {
+      expect(parseCSV("\uFEFFenvironment\nproduction")).toEqual([
+        ["environment"],
+        ["production"],
+      ]);
+    });
+
+    test("should throw on an unterminated quoted field", () => {
+      expect(() => parseCSV('a\n"unterminated')).toThrow(
+        "Unterminated quoted field",
+      );
+    });
+  });
+});
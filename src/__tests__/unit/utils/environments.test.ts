@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  getEnvironmentRegistry,
+  getProductionEnvironments,
+  isKnownEnvironment,
+} from "@/lib/utils/environments";
+
+describe("Environment Registry", () => {
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = {
+      DEPLOYMENT_ENVIRONMENTS: process.env.DEPLOYMENT_ENVIRONMENTS,
+      PRODUCTION_ENVIRONMENTS: process.env.PRODUCTION_ENVIRONMENTS,
+    };
+    delete process.env.DEPLOYMENT_ENVIRONMENTS;
+    delete process.env.PRODUCTION_ENVIRONMENTS;
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  describe("getEnvironmentRegistry", () => {
+    test("should default to production, staging and development", () => {
+      expect(getEnvironmentRegistry()).toEqual({
+        environments: ["production", "staging", "development"],
+        productionEnvironments: ["production"],
+      });
+    });
+
+    test("should read configured environments and production tiers", () => {
+      process.env.DEPLOYMENT_ENVIRONMENTS = " Canary, staging ,,canary";
+      process.env.PRODUCTION_ENVIRONMENTS = "PROD-EU,prod-us";
+
+      expect(getEnvironmentRegistry()).toEqual({
+        environments: ["prod-eu", "prod-us", "canary", "staging"],
+        productionEnvironments: ["prod-eu", "prod-us"],
+      });
+    });
+  });
+
+  describe("getProductionEnvironments", () => {
+    test("should fall back to production when the list is empty", () => {
+      process.env.PRODUCTION_ENVIRONMENTS = " , ";
+
+      expect(getProductionEnvironments()).toEqual(["production"]);
+    });
+  });
+
+  describe("isKnownEnvironment", () => {
+    test("should match registered names case-insensitively", () => {
+      process.env.DEPLOYMENT_ENVIRONMENTS = "canary";
+
+      expect(isKnownEnvironment("Canary")).toBe(true);
+      expect(isKnownEnvironment("production")).toBe(true);
+      expect(isKnownEnvironment("staging")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { calculateTrend, formatHours } from "@/lib/utils/metric-format";
+
+describe("Metric Formatting", () => {
+  describe("formatHours", () => {
+    test("should format minutes, hours and days", () => {
+      expect(formatHours(0.5)).toBe("30m");
+      expect(formatHours(4.25)).toBe("4.3h");
+      expect(formatHours(36)).toBe("1.5d");
+    });
+
+    test("should return N/A without a value", () => {
+      expect(formatHours(null)).toBe("N/A");
+    });
+  });
+
+  describe("calculateTrend", () => {
+    test("should compare to the previous value", () => {
+      expect(calculateTrend(12, 10)).toBe("up");
+      expect(calculateTrend(8, 10)).toBe("down");
+      expect(calculateTrend(10.4, 10)).toBe("same");
+    });
+
+    test("should return undefined without a comparable previous value", () => {
+      expect(calculateTrend(10, null)).toBeUndefined();
+      expect(calculateTrend(null, 10)).toBeUndefined();
+      expect(calculateTrend(10, 0)).toBeUndefined();
+    });
+  });
+});
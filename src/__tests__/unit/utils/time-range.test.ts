@@ -0,0 +1,202 @@
+import { describe, expect, test } from "bun:test";
+import {
+  calculateTimeSeries,
+  describeTimeRange,
+  getTimeBuckets,
+  MAX_TIME_BUCKETS,
+  parseDateParam,
+  resolveTimeRange,
+  type TimeRange,
+} from "@/lib/utils/time-range";
+
+function resolve(query: string): TimeRange {
+  const range = resolveTimeRange(new URLSearchParams(query));
+  if ("error" in range) {
+    throw new Error(`Unexpected error: ${range.details}`);
+  }
+  return range;
+}
+
+function resolveError(query: string) {
+  const range = resolveTimeRange(new URLSearchParams(query));
+  if (!("error" in range)) {
+    throw new Error("Expected an error");
+  }
+  return range;
+}
+
+describe("Time Range Utilities", () => {
+  describe("parseDateParam", () => {
+    test("should parse dates as UTC days", () => {
+      expect(parseDateParam("2025-01-06")).toEqual(
+        new Date("2025-01-06T00:00:00.000Z"),
+      );
+      expect(parseDateParam("2025-01-12", true)).toEqual(
+        new Date("2025-01-12T23:59:59.999Z"),
+      );
+    });
+
+    test("should reject malformed and impossible dates", () => {
+      expect(parseDateParam("2025-1-6")).toBeNull();
+      expect(parseDateParam("2025-01-06T10:00:00Z")).toBeNull();
+      expect(parseDateParam("2025-02-30")).toBeNull();
+    });
+  });
+
+  describe("getTimeBuckets", () => {
+    test("should align weeks to Monday and clip the first and last week", () => {
+      const buckets = getTimeBuckets(
+        new Date("2025-01-01T00:00:00.000Z"), // Wednesday
+        new Date("2025-01-15T23:59:59.999Z"), // Wednesday
+        "week",
+      );
+
+      expect(buckets.map((bucket) => bucket.period)).toEqual([
+        "2025-W01",
+        "2025-W02",
+        "2025-W03",
+      ]);
+      expect(buckets[0].startDate).toEqual(
+        new Date("2025-01-01T00:00:00.000Z"),
+      );
+      expect(buckets[0].endDate).toEqual(new Date("2025-01-05T23:59:59.999Z"));
+      expect(buckets[1].startDate).toEqual(
+        new Date("2025-01-06T00:00:00.000Z"),
+      );
+      expect(buckets[2].endDate).toEqual(new Date("2025-01-15T23:59:59.999Z"));
+    });
+
+    test("should label ISO weeks across year boundaries", () => {
+      const buckets = getTimeBuckets(
+        new Date("2020-12-21T00:00:00.000Z"),
+        new Date("2021-01-10T23:59:59.999Z"),
+        "week",
+      );
+
+      expect(buckets.map((bucket) => bucket.period)).toEqual([
+        "2020-W52",
+        "2020-W53",
+        "2021-W01",
+      ]);
+    });
+
+    test("should split days, months and quarters", () => {
+      const start = new Date("2024-12-30T00:00:00.000Z");
+      const end = new Date("2025-04-02T23:59:59.999Z");
+
+      expect(getTimeBuckets(start, end, "day")).toHaveLength(94);
+      expect(
+        getTimeBuckets(start, end, "month").map((bucket) => bucket.period),
+      ).toEqual(["2024-12", "2025-01", "2025-02", "2025-03", "2025-04"]);
+      expect(
+        getTimeBuckets(start, end, "quarter").map((bucket) => bucket.period),
+      ).toEqual(["2024-Q4", "2025-Q1", "2025-Q2"]);
+    });
+
+    test("should handle months of different lengths", () => {
+      const [february] = getTimeBuckets(
+        new Date("2024-02-01T00:00:00.000Z"),
+        new Date("2024-03-31T23:59:59.999Z"),
+        "month",
+      );
+
+      expect(february.endDate).toEqual(new Date("2024-02-29T23:59:59.999Z"));
+    });
+  });
+
+  describe("resolveTimeRange", () => {
+    test("should resolve a week", () => {
+      const range = resolve("week=2025-W02");
+
+      expect(range.week).toBe("2025-W02");
+      expect(range.startDate).toEqual(new Date("2025-01-06T00:00:00.000Z"));
+      expect(range.buckets).toBeUndefined();
+    });
+
+    test("should default to the current week", () => {
+      expect(resolve("").week).toMatch(/^\d{4}-W\d{2}$/);
+    });
+
+    test("should resolve an inclusive date range with buckets", () => {
+      const range = resolve("from=2025-01-01&to=2025-03-31&granularity=month");
+
+      expect(range.startDate).toEqual(new Date("2025-01-01T00:00:00.000Z"));
+      expect(range.endDate).toEqual(new Date("2025-03-31T23:59:59.999Z"));
+      expect(range.buckets?.map((bucket) => bucket.period)).toEqual([
+        "2025-01",
+        "2025-02",
+        "2025-03",
+      ]);
+    });
+
+    test("should split a week into days", () => {
+      expect(resolve("week=2025-W02&granularity=day").buckets).toHaveLength(7);
+    });
+
+    test("should reject invalid combinations and values", () => {
+      expect(resolveError("week=2025-W99").error).toBe("Invalid week format");
+      expect(resolveError("week=2025-W02&from=2025-01-01").error).toBe(
+        "Invalid date range",
+      );
+      expect(resolveError("from=2025-01-01").details).toContain("together");
+      expect(resolveError("from=2025-01-01&to=2025-13-01").received).toBe(
+        "2025-13-01",
+      );
+      expect(resolveError("from=2025-03-01&to=2025-01-01").details).toContain(
+        "not be after",
+      );
+      expect(resolveError("week=2025-W02&granularity=year").error).toBe(
+        "Invalid granularity",
+      );
+    });
+
+    test(`should reject more than ${MAX_TIME_BUCKETS} buckets`, () => {
+      expect(
+        resolveError("from=2023-01-01&to=2024-12-31&granularity=day").error,
+      ).toBe("Invalid granularity");
+      expect(
+        resolve("from=2023-01-01&to=2024-12-31&granularity=week").buckets,
+      ).toHaveLength(106); // 2023-01-01 is a Sunday (2022-W52)
+    });
+  });
+
+  describe("describeTimeRange", () => {
+    test("should describe weeks and date ranges", () => {
+      expect(describeTimeRange(resolve("week=2025-W02"))).toEqual({
+        week: "2025-W02",
+        startDate: "2025-01-06T00:00:00.000Z",
+        endDate: "2025-01-12T23:59:59.999Z",
+      });
+      expect(
+        describeTimeRange(
+          resolve("from=2025-01-01&to=2025-01-31&granularity=week"),
+        ),
+      ).toEqual({
+        from: "2025-01-01",
+        to: "2025-01-31",
+        startDate: "2025-01-01T00:00:00.000Z",
+        endDate: "2025-01-31T23:59:59.999Z",
+        granularity: "week",
+      });
+    });
+  });
+
+  describe("calculateTimeSeries", () => {
+    test("should calculate one entry per bucket", async () => {
+      const range = resolve("week=2025-W02&granularity=day");
+
+      const series = await calculateTimeSeries(
+        range.buckets ?? [],
+        async (startDate) => ({ day: startDate.getUTCDay() }),
+      );
+
+      expect(series).toHaveLength(7);
+      expect(series[0]).toEqual({
+        period: "2025-01-06",
+        startDate: "2025-01-06T00:00:00.000Z",
+        endDate: "2025-01-06T23:59:59.999Z",
+        day: 1,
+      });
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import {
   getCurrentWeek,
+  getRecentWeeks,
   getWeekBoundaries,
   getWeekIdentifier,
   isValidWeekIdentifier,
@@ -147,6 +148,41 @@ describe("Week Utilities", () => {
     });
   });
 
+  describe("getRecentWeeks", () => {
+    test("should return consecutive weeks ending with the given week", () => {
+      expect(getRecentWeeks("2025-W10", 3)).toEqual([
+        "2025-W08",
+        "2025-W09",
+        "2025-W10",
+      ]);
+    });
+
+    test("should include week 53 of long years", () => {
+      expect(getRecentWeeks("2021-W02", 3)).toEqual([
+        "2020-W53",
+        "2021-W01",
+        "2021-W02",
+      ]);
+      expect(getRecentWeeks("2027-W01", 2)).toEqual(["2026-W53", "2027-W01"]);
+    });
+
+    test("should skip to week 52 of short years", () => {
+      expect(getRecentWeeks("2025-W01", 2)).toEqual(["2024-W52", "2025-W01"]);
+    });
+
+    test("should return 12 distinct weeks across a year boundary", () => {
+      const weeks = getRecentWeeks("2021-W05", 12);
+
+      expect(weeks).toHaveLength(12);
+      expect(new Set(weeks).size).toBe(12);
+      expect(weeks[0]).toBe("2020-W47");
+    });
+
+    test("should throw for invalid week identifiers", () => {
+      expect(() => getRecentWeeks("invalid", 3)).toThrow();
+    });
+  });
+
   describe("isValidWeekIdentifier", () => {
     test("should return true for valid identifiers", () => {
       expect(isValidWeekIdentifier("2025-W02")).toBe(true);
@@ -0,0 +1,210 @@
+import { eq } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import { db } from "@/lib/db/client";
+import { type Deployment, deployments } from "@/lib/db/schema";
+import { stampDeploymentRecoveries } from "@/lib/ingestion/deployments";
+
+/**
+ * PATCH /api/deployments/:id
+ *
+ * Marks failure/recovery of a recorded deployment after the fact
+ *
+ * Deployments often look healthy when they land and only turn out to be
+ * failed changes later (alerts, incidents, customer reports). This endpoint
+ * updates the Change Failure Rate and MTTR fields of an existing deployment,
+ * identified by its deploymentId (manual or ingested).
+ *
+ * Fields (all optional, at least one required):
+ * - isFailed: mark the deployment as a failed change (true) or clear the
+ *   failure (false, also clears failureReason and recoveredAt)
+ * - failureReason: why the deployment failed
+ * - recoveredAt: when service was restored; requires a failed deployment and
+ *   must not precede its completion. When a failure is marked without
+ *   recoveredAt, it is taken from the next successful deployment to the same
+ *   project/environment, if one has landed.
+ * - notes: free-form notes
+ *
+ * Authentication: Requires DEPLOYMENT_API_KEY in Authorization header
+ * Format: Authorization: Bearer <DEPLOYMENT_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X PATCH http://localhost:3000/api/deployments/deploy_1699527000_abc123 \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{
+ *     "isFailed": true,
+ *     "failureReason": "Checkout error rate spiked",
+ *     "recoveredAt": "2025-11-09T11:30:00Z"
+ *   }'
+ * ```
+ *
+ * Responses:
+ * - 200 OK: { success: true, deployment }
+ * - 400: invalid body, or recoveredAt without a failure / before completion
+ * - 401: missing or invalid API key
+ * - 404: unknown deploymentId
+ */
+
+// Validation schema for deployment update request body
+const deploymentUpdateSchema = z
+  .object({
+    isFailed: z.boolean().optional(),
+    failureReason: z.string().optional(),
+    recoveredAt: z
+      .string()
+      .datetime({ message: "recoveredAt must be a valid ISO 8601 timestamp" })
+      .optional(),
+    notes: z.string().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message:
+      "At least one of isFailed, failureReason, recoveredAt or notes is required",
+  });
+
+type DeploymentUpdateRequest = z.infer<typeof deploymentUpdateSchema>;
+
+/**
+ * Build the column changes for an update request
+ *
+ * @returns The changes, or an error message if the request conflicts with
+ *   the deployment's state
+ */
+function buildChanges(
+  existing: Deployment,
+  data: DeploymentUpdateRequest,
+): Partial<Deployment> | string {
+  const changes: Partial<Deployment> = {};
+
+  if (data.isFailed === false) {
+    changes.isFailed = false;
+    changes.failureReason = null;
+    changes.recoveredAt = null;
+  } else if (data.isFailed === true) {
+    changes.isFailed = true;
+  }
+
+  if (data.failureReason !== undefined) {
+    changes.failureReason = data.failureReason;
+  }
+
+  if (data.notes !== undefined) {
+    changes.notes = data.notes;
+  }
+
+  if (data.recoveredAt !== undefined) {
+    if (!(changes.isFailed ?? existing.isFailed)) {
+      return "recoveredAt can only be set on a failed deployment";
+    }
+
+    const recoveredAt = new Date(data.recoveredAt);
+    const completedAt = existing.completedAt ?? existing.startedAt;
+    if (recoveredAt < completedAt) {
+      return `recoveredAt must not be before the deployment completed (${completedAt.toISOString()})`;
+    }
+
+    changes.recoveredAt = recoveredAt;
+  }
+
+  return changes;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validationResult = deploymentUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation error",
+          message: "Invalid request body",
+          details: validationResult.error.format(),
+        },
+        { status: 400 },
+      );
+    }
+
+    const data: DeploymentUpdateRequest = validationResult.data;
+
+    // 3. Look up the deployment
+    const { id } = await params;
+    const [existing] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.deploymentId, id))
+      .limit(1);
+
+    if (!existing) {
+      return errorResponse(404, "Not found", `Deployment ${id} does not exist`);
+    }
+
+    const changes = buildChanges(existing, data);
+    if (typeof changes === "string") {
+      return errorResponse(400, "Validation error", changes);
+    }
+
+    // 4. Apply the update
+    await db
+      .update(deployments)
+      .set(changes)
+      .where(eq(deployments.id, existing.id));
+
+    // 5. Fill recoveredAt of new failures from later successful deployments
+    //    (and let a cleared failure recover earlier ones)
+    await stampDeploymentRecoveries({
+      projectName: existing.projectName,
+      environment: existing.environment,
+    });
+
+    const [deployment] = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.id, existing.id));
+
+    console.log(
+      `[API] Deployment updated: ${id} (failed: ${deployment.isFailed}, recovered: ${deployment.recoveredAt?.toISOString() ?? "no"})`,
+    );
+
+    return NextResponse.json({ success: true, deployment }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error updating deployment:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to update deployment",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import {
+  detectImportFormat,
+  importDeployments,
+  MAX_IMPORT_ROWS,
+  parseDeploymentImport,
+  type RawImportRow,
+} from "@/lib/ingestion/deployment-import";
+
+/**
+ * POST /api/deployments/import
+ *
+ * Bulk deployment import endpoint for loading historical deployments
+ *
+ * Each row is validated like a POST /api/deployments body and recorded the
+ * same way (idempotency, rollbacks, recovery stamping, PR linking). Invalid
+ * rows are reported individually without aborting the batch.
+ *
+ * Formats (by Content-Type):
+ * - application/json: array of deployment objects
+ * - application/x-ndjson (or application/jsonl): one deployment object per line
+ * - text/csv: header row with the field names (environment, commitSha,
+ *   deployedAt, projectName, orgName, status, deployedBy, notes, repoName,
+ *   deploymentId, isRollback, rollbackOf); empty cells are omitted
+ *
+ * Rows without a deploymentId get one derived from project, environment,
+ * commit and deployedAt, so re-importing a file does not create duplicates.
+ * At most 5000 rows per request.
+ *
+ * Query Parameters:
+ * - dryRun: Optional "true" to validate and check every row without writing
+ *
+ * Authentication: Requires DEPLOYMENT_API_KEY in Authorization header
+ * Format: Authorization: Bearer <DEPLOYMENT_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X POST "http://localhost:3000/api/deployments/import?dryRun=true" \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: text/csv" \
+ *   --data-binary @deployments.csv
+ * ```
+ *
+ * Response (200 OK, or 207 Multi-Status if some rows failed):
+ * ```json
+ * {
+ *   "success": false,
+ *   "dryRun": true,
+ *   "total": 3,
+ *   "created": 0,
+ *   "existing": 1,
+ *   "valid": 1,
+ *   "failed": 1,
+ *   "results": [
+ *     { "row": 1, "status": "valid", "deploymentId": "import_3f1c..." },
+ *     { "row": 2, "status": "existing", "deploymentId": "release-42" },
+ *     { "row": 3, "status": "error", "errors": ["commitSha: commitSha must be exactly 40 characters (Git SHA-1 hash)"] }
+ *   ]
+ * }
+ * ```
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Validate query parameters and format
+    const dryRunParam = request.nextUrl.searchParams.get("dryRun");
+    if (
+      dryRunParam !== null &&
+      dryRunParam !== "true" &&
+      dryRunParam !== "false"
+    ) {
+      return errorResponse(
+        400,
+        "Validation error",
+        "dryRun must be either: true, false",
+      );
+    }
+
+    const format = detectImportFormat(request.headers.get("content-type"));
+    if (!format) {
+      return errorResponse(
+        415,
+        "Unsupported media type",
+        "Content-Type must be application/json, application/x-ndjson or text/csv",
+      );
+    }
+
+    // 3. Split the body into rows
+    let rows: RawImportRow[];
+    try {
+      rows = parseDeploymentImport(await request.text(), format);
+    } catch (error) {
+      return errorResponse(
+        400,
+        "Invalid body",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    if (rows.length === 0) {
+      return errorResponse(400, "Validation error", "No deployments to import");
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return errorResponse(
+        400,
+        "Validation error",
+        `At most ${MAX_IMPORT_ROWS} deployments can be imported per request (received ${rows.length})`,
+      );
+    }
+
+    // 4. Import (or check) every row
+    const result = await importDeployments(rows, {
+      dryRun: dryRunParam === "true",
+    });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 207 });
+  } catch (error) {
+    console.error("[API] Error importing deployments:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to import deployments",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
-import { db } from "@/lib/db/client";
-import { deployments } from "@/lib/db/schema";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import {
+  type DeploymentRequest,
+  deploymentSchema,
+  recordDeployment,
+} from "@/lib/ingestion/manual-deployments";
 
 /**
  * POST /api/deployments
@@ -12,6 +16,29 @@ import { deployments } from "@/lib/db/schema";
  * of automated CI/CD pipelines. Used for tracking deployments across all projects
  * for Deployment Frequency, Change Failure Rate, and MTTR calculations.
  *
+ * relatedPRs (used by Lead Time for Changes) is resolved automatically from
+ * the PRs merged since the previous successful deployment to the same
+ * project/environment, matched through PR merge commit SHAs.
+ *
+ * environment must be registered in the environment registry
+ * (DEPLOYMENT_ENVIRONMENTS, default production/staging/development); the
+ * production tiers (PRODUCTION_ENVIRONMENTS) count towards DORA metrics.
+ *
+ * Rollbacks and recovery (used by deployment-based MTTR):
+ * - isRollback/rollbackOf record a rollback of an earlier deployment to the
+ *   same project/environment (rollbackOf is its deploymentId; without it the
+ *   latest failed deployment is assumed). The rolled-back deployment is
+ *   marked as failed.
+ * - A successful deployment or rollback stamps recoveredAt on earlier failed
+ *   deployments to the same project/environment that were not yet recovered.
+ * - PATCH /api/deployments/:id marks failure/recovery after the fact.
+ *
+ * Idempotency: pipelines that retry after a timeout should send a stable ID,
+ * either as the deploymentId field or an Idempotency-Key header. A retry with
+ * an ID that is already recorded returns the existing deployment with 200
+ * instead of inserting a duplicate (409 if the ID was used for a different
+ * commit, project or environment). Without one, an ID is generated.
+ *
  * Authentication: Requires DEPLOYMENT_API_KEY in Authorization header
  * Format: Authorization: Bearer <DEPLOYMENT_API_KEY>
  *
@@ -20,6 +47,7 @@ import { deployments } from "@/lib/db/schema";
  * curl -X POST http://localhost:3000/api/deployments \
  *   -H "Authorization: Bearer your_api_key_here" \
  *   -H "Content-Type: application/json" \
+ *   -H "Idempotency-Key: release-2025.11.09-1" \
  *   -d '{
  *     "environment": "production",
  *     "commitSha": "abc123...",
@@ -30,9 +58,22 @@ import { deployments } from "@/lib/db/schema";
  *     "deployedBy": "john.doe@example.com",
  *     "notes": "Hotfix deployment"
  *   }'
+ *
+ * curl -X POST http://localhost:3000/api/deployments \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{
+ *     "environment": "production",
+ *     "commitSha": "def456...",
+ *     "deployedAt": "2025-11-09T11:05:00Z",
+ *     "projectName": "my-project",
+ *     "orgName": "my-org",
+ *     "isRollback": true,
+ *     "rollbackOf": "deploy_1699527000_abc123"
+ *   }'
  * ```
  *
- * Response (201 Created):
+ * Response (201 Created, or 200 OK for an already recorded deployment ID):
  * ```json
  * {
  *   "success": true,
@@ -46,96 +87,48 @@ import { deployments } from "@/lib/db/schema";
  * ```
  */
 
-// Validation schema for deployment request body
-const deploymentSchema = z.object({
-  environment: z.enum(["production", "staging", "development"], {
-    message: "environment must be one of: production, staging, development",
-  }),
-  commitSha: z
-    .string()
-    .length(40, "commitSha must be exactly 40 characters (Git SHA-1 hash)")
-    .regex(/^[a-f0-9]+$/i, "commitSha must be a valid hexadecimal hash"),
-  deployedAt: z
-    .string()
-    .datetime({ message: "deployedAt must be a valid ISO 8601 timestamp" }),
-  projectName: z
-    .string()
-    .min(1, "projectName is required")
-    .max(255, "projectName must be 255 characters or less"),
-  orgName: z
-    .string()
-    .min(1, "orgName is required")
-    .max(255, "orgName must be 255 characters or less"),
-  status: z
-    .enum(["success", "failure"], {
-      message: "status must be either: success, failure",
-    })
-    .default("success"),
-  deployedBy: z
-    .string()
-    .max(255, "deployedBy must be 255 characters or less")
-    .optional(),
-  notes: z.string().optional(),
-  repoName: z
-    .string()
-    .max(255, "repoName must be 255 characters or less")
-    .optional(),
-});
-
-type DeploymentRequest = z.infer<typeof deploymentSchema>;
-
 /**
- * Validates API key from Authorization header
+ * Reads the client-supplied deployment ID from the body or the
+ * Idempotency-Key header
+ *
+ * @returns The ID (undefined if neither was sent), or an error response if
+ *   the header is invalid or disagrees with the body
  */
-function validateApiKey(request: NextRequest): boolean {
-  const authHeader = request.headers.get("authorization");
-
-  if (!authHeader) {
-    return false;
+function readDeploymentId(
+  request: NextRequest,
+  data: DeploymentRequest,
+): string | undefined | NextResponse {
+  const idempotencyKey = request.headers.get("idempotency-key")?.trim();
+
+  if (idempotencyKey === undefined || idempotencyKey === "") {
+    return data.deploymentId;
   }
 
-  // Expected format: "Bearer <api_key>"
-  const [scheme, token] = authHeader.split(" ");
-
-  if (scheme !== "Bearer" || !token) {
-    return false;
+  if (idempotencyKey.length > 255) {
+    return errorResponse(
+      400,
+      "Validation error",
+      "Idempotency-Key must be 255 characters or less",
+    );
   }
 
-  const expectedKey = process.env.DEPLOYMENT_API_KEY;
-
-  if (!expectedKey) {
-    console.error(
-      "[API] DEPLOYMENT_API_KEY not configured in environment variables",
+  if (data.deploymentId && data.deploymentId !== idempotencyKey) {
+    return errorResponse(
+      400,
+      "Validation error",
+      "deploymentId and Idempotency-Key must match when both are provided",
     );
-    return false;
   }
 
-  return token === expectedKey;
-}
-
-/**
- * Generates a unique deployment ID
- * Format: deploy_<timestamp>_<short_sha>
- */
-function generateDeploymentId(commitSha: string): string {
-  const timestamp = Date.now();
-  const shortSha = commitSha.substring(0, 8);
-  return `deploy_${timestamp}_${shortSha}`;
+  return idempotencyKey;
 }
 
 export async function POST(request: NextRequest) {
   try {
     // 1. Authentication check
-    if (!validateApiKey(request)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Unauthorized",
-          message:
-            "Valid API key required. Provide Authorization: Bearer <key> header",
-        },
-        { status: 401 },
-      );
+    const unauthorized = requireApiKey(request);
+    if (unauthorized) {
+      return unauthorized;
     }
 
     // 2. Parse and validate request body
@@ -169,49 +162,29 @@ export async function POST(request: NextRequest) {
 
     const data: DeploymentRequest = validationResult.data;
 
-    // 3. Prepare deployment record
-    const deploymentId = generateDeploymentId(data.commitSha);
-    const deployedAt = new Date(data.deployedAt);
-    const isFailed = data.status === "failure";
-
-    const deploymentRecord = {
-      deploymentId,
-      environment: data.environment,
-      repoName: data.repoName ?? null,
-      orgName: data.orgName,
-      projectName: data.projectName,
-      commitSha: data.commitSha,
-      deployedBy: data.deployedBy ?? null,
-      notes: data.notes ?? null,
-      status: data.status,
-      startedAt: deployedAt,
-      completedAt: deployedAt, // For manual deployments, started and completed are the same
-      isFailed,
-      failureReason: isFailed ? (data.notes ?? null) : null,
-      isRollback: false,
-      rollbackOf: null,
-      recoveredAt: null,
-      relatedPRs: [],
-    };
-
-    // 4. Insert into database
-    const [createdDeployment] = await db
-      .insert(deployments)
-      .values(deploymentRecord)
-      .returning();
-
-    console.log(
-      `[API] Deployment recorded: ${deploymentId} (${data.environment}, ${data.projectName}, ${data.status})`,
-    );
+    const deploymentId = readDeploymentId(request, data);
+    if (deploymentId instanceof NextResponse) {
+      return deploymentId;
+    }
 
-    // 5. Return success response
-    return NextResponse.json(
-      {
-        success: true,
-        deployment: createdDeployment,
-      },
-      { status: 201 },
-    );
+    // 3. Record the deployment (or return the one recorded under its ID)
+    const result = await recordDeployment({ ...data, deploymentId });
+
+    switch (result.outcome) {
+      case "created":
+      case "existing":
+        return NextResponse.json(
+          {
+            success: true,
+            deployment: result.deployment,
+          },
+          { status: result.outcome === "created" ? 201 : 200 },
+        );
+      case "conflict":
+        return errorResponse(409, "Conflict", result.message);
+      case "invalid":
+        return errorResponse(400, "Validation error", result.message);
+    }
   } catch (error) {
     console.error("[API] Error recording deployment:", error);
 
@@ -0,0 +1,194 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import {
+  deleteIdentity,
+  findIdentity,
+  getIdentity,
+  identityUpdateSchema,
+  updateIdentity,
+} from "@/lib/identities/identities";
+
+/**
+ * /api/identities/:id
+ *
+ * Single identity administration endpoint
+ *
+ * GET /api/identities/:id
+ * Returns the identity with its aliases.
+ *
+ * PATCH /api/identities/:id
+ * Updates an identity. Omitted fields are kept; aliases replace the current
+ * list. On rename without new aliases, the previous name becomes an alias.
+ * Already ingested PRs and deployments are rewritten to match.
+ *
+ * DELETE /api/identities/:id
+ * Deletes the identity and its aliases. Ingested records keep its name.
+ *
+ * Authentication (PATCH, DELETE): Requires ADMIN_API_KEY in Authorization header
+ * Format: Authorization: Bearer <ADMIN_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X PATCH http://localhost:3000/api/identities/42 \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{ "isBot": true }'
+ * ```
+ *
+ * Responses:
+ * - 200 OK: { success: true, identity } (DELETE: { success: true })
+ * - 400: invalid body
+ * - 401: missing or invalid API key
+ * - 404: unknown identity
+ * - 409: the name or an alias belongs to another identity
+ */
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFoundResponse(id: string) {
+  return errorResponse(404, "Not found", `Identity ${id} does not exist`);
+}
+
+/**
+ * Parse the identity ID route parameter
+ *
+ * @returns The numeric ID, or null when it is not a positive integer
+ */
+function parseId(id: string): number | null {
+  return /^[1-9][0-9]*$/.test(id) ? Number(id) : null;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const identityId = parseId(id);
+    const identity = identityId ? await getIdentity(identityId) : undefined;
+
+    if (!identity) {
+      return notFoundResponse(id);
+    }
+
+    return NextResponse.json({ success: true, identity }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error fetching identity:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to fetch identity",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(
+        400,
+        "Invalid JSON",
+        "Request body must be valid JSON",
+      );
+    }
+
+    const validation = identityUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation error",
+          message: "Invalid request body",
+          details: validation.error.format(),
+        },
+        { status: 400 },
+      );
+    }
+
+    // 3. Look up the identity
+    const { id } = await params;
+    const identityId = parseId(id);
+    const existing = identityId ? await findIdentity(identityId) : undefined;
+
+    if (!existing) {
+      return notFoundResponse(id);
+    }
+
+    // 4. Apply the changes
+    const result = await updateIdentity(existing, validation.data);
+
+    if ("conflict" in result) {
+      return errorResponse(
+        409,
+        "Conflict",
+        result.conflict === "name"
+          ? `Identity ${result.name} already exists`
+          : `Aliases already belong to another identity: ${result.aliases.join(", ")}`,
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, identity: result.identity },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error updating identity:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to update identity",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { id } = await params;
+    const identityId = parseId(id);
+    const existing = identityId ? await findIdentity(identityId) : undefined;
+
+    if (!existing) {
+      return notFoundResponse(id);
+    }
+
+    await deleteIdentity(existing);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error deleting identity:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to delete identity",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
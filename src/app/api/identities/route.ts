@@ -0,0 +1,133 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import {
+  createIdentity,
+  identitySchema,
+  listIdentities,
+} from "@/lib/identities/identities";
+
+/**
+ * /api/identities
+ *
+ * Identity administration endpoint
+ *
+ * Identities reconcile the names a person or bot appears under (Azure DevOps
+ * display and unique names, GitHub logins, deployer emails). Ingestion stores
+ * PR authors and deployers under the identity name; PRs by bot identities
+ * are excluded from the flow metrics. Creating an identity also rewrites
+ * already ingested PRs and deployments matching its aliases.
+ *
+ * GET /api/identities
+ * Lists all identities with their aliases.
+ *
+ * POST /api/identities
+ * Creates an identity.
+ *
+ * Authentication (POST only): Requires ADMIN_API_KEY in Authorization header
+ * Format: Authorization: Bearer <ADMIN_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X POST http://localhost:3000/api/identities \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{
+ *     "name": "Jane Doe",
+ *     "aliases": ["jane.doe@example.com", "janedoe"]
+ *   }'
+ *
+ * curl -X POST http://localhost:3000/api/identities \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{ "name": "Release Service", "isBot": true, "aliases": ["svc-release@example.com"] }'
+ * ```
+ *
+ * Responses:
+ * - 200 OK (GET): { identities: [{ id, name, isBot, aliases, createdAt, updatedAt }] }
+ * - 201 Created (POST): { success: true, identity }
+ * - 400: invalid body
+ * - 401: missing or invalid API key
+ * - 409: the name or an alias belongs to another identity
+ */
+
+export async function GET() {
+  try {
+    const identities = await listIdentities();
+
+    return NextResponse.json({ identities }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing identities:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(
+        400,
+        "Invalid JSON",
+        "Request body must be valid JSON",
+      );
+    }
+
+    const validation = identitySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation error",
+          message: "Invalid request body",
+          details: validation.error.format(),
+        },
+        { status: 400 },
+      );
+    }
+
+    // 3. Create the identity
+    const result = await createIdentity(validation.data);
+
+    if ("conflict" in result) {
+      return errorResponse(
+        409,
+        "Conflict",
+        result.conflict === "name"
+          ? `Identity ${result.name} already exists`
+          : `Aliases already belong to another identity: ${result.aliases.join(", ")}`,
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, identity: result.identity },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("[API] Error creating identity:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to create identity",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
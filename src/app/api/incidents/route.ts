@@ -0,0 +1,281 @@
+import { eq } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import { db } from "@/lib/db/client";
+import { deployments, type Incident, incidents } from "@/lib/db/schema";
+
+/**
+ * POST /api/incidents
+ *
+ * Incident lifecycle event recording endpoint for incident-based MTTR
+ *
+ * Records open, mitigate and resolve events for production incidents, e.g.
+ * forwarded from an incident management tool. MTTR is computed from the
+ * open → resolve time of each incident (see calculateMTTR).
+ *
+ * Events:
+ * - open: creates the incident (severity, title, project, optional deployment link)
+ * - mitigate: marks an open incident as mitigated (optional step)
+ * - resolve: marks an open or mitigated incident as resolved
+ *
+ * Authentication: Requires DEPLOYMENT_API_KEY in Authorization header
+ * Format: Authorization: Bearer <DEPLOYMENT_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X POST http://localhost:3000/api/incidents \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{
+ *     "event": "open",
+ *     "incidentId": "INC-1042",
+ *     "occurredAt": "2025-11-09T10:45:00Z",
+ *     "title": "Checkout returns 500",
+ *     "severity": "sev2",
+ *     "projectName": "my-project",
+ *     "orgName": "my-org",
+ *     "deploymentId": "deploy_1699527000_abc123"
+ *   }'
+ *
+ * curl -X POST http://localhost:3000/api/incidents \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{ "event": "resolve", "incidentId": "INC-1042", "occurredAt": "2025-11-09T11:30:00Z" }'
+ * ```
+ *
+ * Responses:
+ * - 201 Created (open) / 200 OK (mitigate, resolve): { success: true, incident }
+ * - 400: invalid body, unknown deploymentId, or event before the incident opened
+ * - 401: missing or invalid API key
+ * - 404: mitigate/resolve for an unknown incident
+ * - 409: incident already exists (open) or is already resolved
+ */
+
+const incidentIdSchema = z
+  .string()
+  .min(1, "incidentId is required")
+  .max(255, "incidentId must be 255 characters or less");
+
+const occurredAtSchema = z
+  .string()
+  .datetime({ message: "occurredAt must be a valid ISO 8601 timestamp" });
+
+const notesSchema = z.string().optional();
+
+// Validation schema for incident event request body
+const incidentEventSchema = z.discriminatedUnion("event", [
+  z.object({
+    event: z.literal("open"),
+    incidentId: incidentIdSchema,
+    occurredAt: occurredAtSchema,
+    title: z
+      .string()
+      .min(1, "title is required")
+      .max(500, "title must be 500 characters or less"),
+    severity: z.enum(["sev1", "sev2", "sev3", "sev4"], {
+      message: "severity must be one of: sev1, sev2, sev3, sev4",
+    }),
+    projectName: z
+      .string()
+      .min(1, "projectName is required")
+      .max(255, "projectName must be 255 characters or less"),
+    orgName: z
+      .string()
+      .min(1, "orgName is required")
+      .max(255, "orgName must be 255 characters or less"),
+    deploymentId: z
+      .string()
+      .max(255, "deploymentId must be 255 characters or less")
+      .optional(),
+    notes: notesSchema,
+  }),
+  z.object({
+    event: z.literal("mitigate"),
+    incidentId: incidentIdSchema,
+    occurredAt: occurredAtSchema,
+    notes: notesSchema,
+  }),
+  z.object({
+    event: z.literal("resolve"),
+    incidentId: incidentIdSchema,
+    occurredAt: occurredAtSchema,
+    notes: notesSchema,
+  }),
+]);
+
+type IncidentEventRequest = z.infer<typeof incidentEventSchema>;
+
+/**
+ * Create an incident from an open event
+ */
+async function openIncident(
+  data: Extract<IncidentEventRequest, { event: "open" }>,
+): Promise<NextResponse> {
+  const [existing] = await db
+    .select({ id: incidents.id })
+    .from(incidents)
+    .where(eq(incidents.incidentId, data.incidentId))
+    .limit(1);
+
+  if (existing) {
+    return errorResponse(
+      409,
+      "Conflict",
+      `Incident ${data.incidentId} already exists`,
+    );
+  }
+
+  if (data.deploymentId) {
+    const [deployment] = await db
+      .select({ id: deployments.id })
+      .from(deployments)
+      .where(eq(deployments.deploymentId, data.deploymentId))
+      .limit(1);
+
+    if (!deployment) {
+      return errorResponse(
+        400,
+        "Validation error",
+        `Unknown deploymentId: ${data.deploymentId}`,
+      );
+    }
+  }
+
+  const [incident] = await db
+    .insert(incidents)
+    .values({
+      incidentId: data.incidentId,
+      title: data.title,
+      severity: data.severity,
+      status: "open",
+      orgName: data.orgName,
+      projectName: data.projectName,
+      deploymentId: data.deploymentId ?? null,
+      notes: data.notes ?? null,
+      openedAt: new Date(data.occurredAt),
+    })
+    .returning();
+
+  console.log(
+    `[API] Incident opened: ${data.incidentId} (${data.severity}, ${data.projectName})`,
+  );
+
+  return NextResponse.json({ success: true, incident }, { status: 201 });
+}
+
+/**
+ * Apply a mitigate or resolve event to an existing incident
+ */
+async function updateIncident(
+  data: Extract<IncidentEventRequest, { event: "mitigate" | "resolve" }>,
+): Promise<NextResponse> {
+  const [existing] = await db
+    .select()
+    .from(incidents)
+    .where(eq(incidents.incidentId, data.incidentId))
+    .limit(1);
+
+  if (!existing) {
+    return errorResponse(
+      404,
+      "Not found",
+      `Incident ${data.incidentId} does not exist`,
+    );
+  }
+
+  if (existing.status === "resolved") {
+    return errorResponse(
+      409,
+      "Conflict",
+      `Incident ${data.incidentId} is already resolved`,
+    );
+  }
+
+  const occurredAt = new Date(data.occurredAt);
+  if (occurredAt < existing.openedAt) {
+    return errorResponse(
+      400,
+      "Validation error",
+      `occurredAt must not be before the incident was opened (${existing.openedAt.toISOString()})`,
+    );
+  }
+
+  const changes: Partial<Incident> =
+    data.event === "mitigate"
+      ? { status: "mitigated", mitigatedAt: occurredAt }
+      : { status: "resolved", resolvedAt: occurredAt };
+
+  const [incident] = await db
+    .update(incidents)
+    .set({
+      ...changes,
+      ...(data.notes !== undefined && { notes: data.notes }),
+      updatedAt: new Date(),
+    })
+    .where(eq(incidents.id, existing.id))
+    .returning();
+
+  console.log(`[API] Incident ${changes.status}: ${data.incidentId}`);
+
+  return NextResponse.json({ success: true, incident }, { status: 200 });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+        },
+        { status: 400 },
+      );
+    }
+
+    const validationResult = incidentEventSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation error",
+          message: "Invalid request body",
+          details: validationResult.error.format(),
+        },
+        { status: 400 },
+      );
+    }
+
+    const data: IncidentEventRequest = validationResult.data;
+
+    // 3. Apply the lifecycle event
+    return data.event === "open"
+      ? await openIncident(data)
+      : await updateIncident(data);
+  } catch (error) {
+    console.error("[API] Error recording incident event:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to record incident event",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,274 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  createBackfillJob,
+  DEFAULT_CHUNK_DAYS,
+  runBackfill,
+} from "@/lib/ingestion/backfill";
+import {
+  getConfiguredSource,
+  isSourceName,
+  SOURCE_NAMES,
+} from "@/lib/ingestion/providers";
+import type { BackfillResult } from "@/lib/ingestion/types";
+
+// Force dynamic rendering to prevent static optimization
+export const dynamic = "force-dynamic";
+
+// Allow each invocation to use the full backfill time budget
+export const maxDuration = 300;
+
+/**
+ * Validates the cron secret from the Authorization header
+ */
+function validateCronSecret(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[API] CRON_SECRET environment variable not set");
+    return false;
+  }
+
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const token = authHeader.substring(7); // Remove "Bearer " prefix
+  return token === cronSecret;
+}
+
+// Validation schema for backfill job request body
+const backfillSchema = z
+  .object({
+    entity: z.enum(["pull_requests", "ci_runs"], {
+      message: "entity must be one of: pull_requests, ci_runs",
+    }),
+    from: z
+      .string()
+      .datetime({ message: "from must be a valid ISO 8601 timestamp" }),
+    to: z
+      .string()
+      .datetime({ message: "to must be a valid ISO 8601 timestamp" })
+      .optional(),
+    chunkDays: z
+      .number()
+      .int("chunkDays must be an integer")
+      .min(1, "chunkDays must be at least 1")
+      .max(90, "chunkDays must be 90 or less")
+      .default(DEFAULT_CHUNK_DAYS),
+    source: z
+      .string()
+      .refine(isSourceName, {
+        message: `source must be one of: ${SOURCE_NAMES.join(", ")}`,
+      })
+      .optional(),
+  })
+  .refine((data) => !data.to || new Date(data.from) < new Date(data.to), {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+/**
+ * HTTP status for a backfill invocation:
+ * 200 when the job is complete, 202 when more chunks remain,
+ * 207 when chunks completed with errors
+ */
+function statusFor(result: BackfillResult): number {
+  if (!result.success) return 207;
+  return result.status === "completed" ? 200 : 202;
+}
+
+/**
+ * POST /api/ingest/backfill
+ *
+ * Creates a historical backfill job and processes its first chunks
+ *
+ * Backfills ingest PRs or CI runs older than the regular 90-day window.
+ * The range is split into chunks processed newest first; progress is saved
+ * after every chunk, and the job continues on later invocations of
+ * GET /api/ingest/backfill (daily cron or manual).
+ *
+ * Authentication: Requires CRON_SECRET in Authorization header
+ *
+ * Request Body:
+ * - entity: "pull_requests" or "ci_runs"
+ * - from: ISO 8601 start of the range (inclusive)
+ * - to: Optional ISO 8601 end of the range (exclusive, default: now)
+ * - chunkDays: Optional chunk size in days (1-90, default: 7)
+ * - source: Optional "azure-devops" or "github" (default: INGESTION_SOURCE)
+ *
+ * Usage:
+ * ```bash
+ * curl -X POST http://localhost:3000/api/ingest/backfill \
+ *   -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"entity": "pull_requests", "from": "2024-01-01T00:00:00Z", "to": "2025-01-01T00:00:00Z"}'
+ * ```
+ *
+ * Response (202 Accepted while chunks remain, 200 OK once complete):
+ * ```json
+ * {
+ *   "success": true,
+ *   "jobId": 3,
+ *   "status": "running",
+ *   "cursor": "2024-09-02T00:00:00.000Z",
+ *   "chunksProcessed": 17,
+ *   "chunksRemaining": 36,
+ *   "itemsIngested": 1243,
+ *   "itemsUpdated": 0,
+ *   "errors": [],
+ *   "metrics": [{ "stepName": "backfill-pull_requests-2024-12-25-2025-01-01", ... }]
+ * }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  if (!validateCronSecret(request)) {
+    console.warn(
+      "[API] Unauthorized backfill request - invalid or missing cron secret",
+    );
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid JSON",
+        message: "Request body must be valid JSON",
+      },
+      { status: 400 },
+    );
+  }
+
+  const validationResult = backfillSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      {
+        error: "Validation error",
+        message: "Invalid request body",
+        details: validationResult.error.format(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const data = validationResult.data;
+
+  try {
+    const job = await createBackfillJob({
+      source:
+        data.source && isSourceName(data.source)
+          ? data.source
+          : getConfiguredSource(),
+      entity: data.entity,
+      rangeStart: new Date(data.from),
+      rangeEnd: data.to ? new Date(data.to) : new Date(),
+      chunkDays: data.chunkDays,
+    });
+
+    const result = await runBackfill({ jobId: job.id });
+
+    if (!result) {
+      // Another invocation leased the job first; it will make progress
+      return NextResponse.json(
+        { jobId: job.id, status: "pending" },
+        { status: 202 },
+      );
+    }
+
+    return NextResponse.json(result, { status: statusFor(result) });
+  } catch (error) {
+    console.error("[API] Unhandled error during backfill:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        errors: [
+          {
+            message: "Unhandled error during backfill",
+            error: error instanceof Error ? error.message : String(error),
+          },
+        ],
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * GET /api/ingest/backfill
+ *
+ * Resumes the oldest unfinished backfill job (or a specific one)
+ *
+ * This endpoint is called by:
+ * - Vercel Cron Jobs (daily at 3 AM)
+ * - Manual triggers to speed up a large backfill
+ *
+ * Authentication: Requires CRON_SECRET in Authorization header
+ *
+ * Query Parameters:
+ * - jobId: Optional ID of the job to resume
+ *
+ * Usage:
+ * ```bash
+ * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   "http://localhost:3000/api/ingest/backfill?jobId=3"
+ * ```
+ *
+ * Response: Same shape as POST, or `{ "message": "No backfill jobs pending" }`
+ */
+export async function GET(request: NextRequest) {
+  if (!validateCronSecret(request)) {
+    console.warn(
+      "[API] Unauthorized backfill request - invalid or missing cron secret",
+    );
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const jobIdParam = request.nextUrl.searchParams.get("jobId");
+  const jobId = jobIdParam === null ? undefined : Number(jobIdParam);
+
+  if (jobId !== undefined && (!Number.isInteger(jobId) || jobId <= 0)) {
+    return NextResponse.json(
+      {
+        error: "Invalid jobId",
+        details: "jobId must be a positive integer",
+        received: jobIdParam,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await runBackfill({ jobId });
+
+    if (!result) {
+      return NextResponse.json(
+        { message: "No backfill jobs pending" },
+        { status: 200 },
+      );
+    }
+
+    return NextResponse.json(result, { status: statusFor(result) });
+  } catch (error) {
+    console.error("[API] Unhandled error during backfill:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        errors: [
+          {
+            message: "Unhandled error during backfill",
+            error: error instanceof Error ? error.message : String(error),
+          },
+        ],
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { ingestCIRuns } from "@/lib/ingestion/azure-pipelines";
+import { ingestCIRuns } from "@/lib/ingestion/ci-runs";
+import { isGitHubConfigured } from "@/lib/ingestion/github-client";
+import { isSourceName, SOURCE_NAMES } from "@/lib/ingestion/providers";
 
 // Force dynamic rendering to prevent static optimization
 export const dynamic = "force-dynamic";
@@ -28,7 +30,7 @@ function validateCronSecret(request: NextRequest): boolean {
 /**
  * GET /api/ingest/ci-runs
  *
- * Triggers Azure Pipelines CI run ingestion with flaky test detection
+ * Triggers CI run ingestion (Azure Pipelines or GitHub Actions) with flaky test detection
  *
  * This endpoint is called by:
  * - Vercel Cron Jobs (weekly on Mondays at 1 AM)
@@ -36,17 +38,29 @@ function validateCronSecret(request: NextRequest): boolean {
  *
  * Authentication: Requires CRON_SECRET in Authorization header
  *
+ * Query Parameters:
+ * - source: Optional "azure-devops" or "github" (default: INGESTION_SOURCE,
+ *   falling back to "azure-devops"). "github" is skipped with
+ *   `{ "success": true, "skipped": true }` while GITHUB_TOKEN or GITHUB_ORG
+ *   is not set, so the GitHub cron is harmless without GitHub
+ *
  * This endpoint:
  * - Autodiscovers all projects in the organization
- * - Fetches CI run data from Azure Pipelines
+ * - Fetches CI run data from Azure Pipelines or GitHub Actions
  * - Upserts CI runs to the database with smart merge logic
  * - Performs post-ingestion flaky test detection
+ * - Links CI runs to PRs by commit SHA (PR-triggered runs are linked from
+ *   build metadata during ingestion)
  * - Returns detailed results including success counts and errors
  *
  * Usage:
  * ```bash
  * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
  *   http://localhost:3000/api/ingest/ci-runs
+ *
+ * # GitHub Actions workflow runs
+ * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   "http://localhost:3000/api/ingest/ci-runs?source=github"
  * ```
  *
  * Response:
@@ -57,6 +71,10 @@ function validateCronSecret(request: NextRequest): boolean {
  *   "runsIngested": 342,
  *   "runsUpdated": 87,
  *   "flakyRunsDetected": 12,
+ *   "testResultsIngested": 18400,
+ *   "flakyTestResultsDetected": 37,
+ *   "timelinesIngested": 96,
+ *   "runsLinkedToPRs": 140,
  *   "errors": []
  * }
  * ```
@@ -69,11 +87,38 @@ export async function GET(request: NextRequest) {
     );
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+
+  // Optional override of the configured source (INGESTION_SOURCE)
+  const source = request.nextUrl.searchParams.get("source");
+  if (source !== null && !isSourceName(source)) {
+    return NextResponse.json(
+      {
+        error: "Invalid source",
+        details: `source must be one of: ${SOURCE_NAMES.join(", ")}`,
+        received: source,
+      },
+      { status: 400 },
+    );
+  }
+
+  // The GitHub cron runs on every deployment; skip it until GitHub is set up
+  if (source === "github" && !isGitHubConfigured()) {
+    console.log(
+      "[API] Skipping GitHub CI run ingestion - GITHUB_TOKEN or GITHUB_ORG not set",
+    );
+    return NextResponse.json(
+      { success: true, skipped: true, reason: "GitHub is not configured" },
+      { status: 200 },
+    );
+  }
+
   try {
-    console.log("[API] Starting CI run ingestion request...");
+    console.log(
+      `[API] Starting CI run ingestion request (source: ${source ?? "configured"})...`,
+    );
 
-    // Run ingestion
-    const result = await ingestCIRuns();
+    // Run ingestion for the requested (or configured) source
+    const result = await ingestCIRuns(source ?? undefined);
 
     // Return result with appropriate status code
     const statusCode = result.success ? 200 : 207; // 207 = Multi-Status (partial success)
@@ -89,6 +134,10 @@ export async function GET(request: NextRequest) {
         runsIngested: 0,
         runsUpdated: 0,
         flakyRunsDetected: 0,
+        testResultsIngested: 0,
+        flakyTestResultsDetected: 0,
+        timelinesIngested: 0,
+        runsLinkedToPRs: 0,
         errors: [
           {
             message: "Unhandled error during ingestion",
@@ -0,0 +1,133 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ingestDeployments } from "@/lib/ingestion/deployments";
+import { isSourceName, SOURCE_NAMES } from "@/lib/ingestion/providers";
+
+// Force dynamic rendering to prevent static optimization
+export const dynamic = "force-dynamic";
+
+/**
+ * Validates the cron secret from the Authorization header
+ */
+function validateCronSecret(request: NextRequest): boolean {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("[API] CRON_SECRET environment variable not set");
+    return false;
+  }
+
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const token = authHeader.substring(7); // Remove "Bearer " prefix
+  return token === cronSecret;
+}
+
+/**
+ * GET /api/ingest/deployments
+ *
+ * Triggers deployment ingestion from Azure Pipelines environments and classic Releases
+ *
+ * This endpoint is called by:
+ * - Vercel Cron Jobs (daily at 2 AM)
+ * - Manual triggers for testing/debugging
+ *
+ * Authentication: Requires CRON_SECRET in Authorization header
+ *
+ * Query Parameters:
+ * - source: Optional "azure-devops" or "github" (default: INGESTION_SOURCE,
+ *   falling back to "azure-devops"). GitHub has no deployment records to
+ *   ingest; use POST /api/deployments for GitHub-hosted repositories.
+ *
+ * This endpoint:
+ * - Autodiscovers all projects in the organization
+ * - Fetches environment deployment records and classic Release deployments
+ * - Resolves commit SHA and related PRs from the deployed build
+ * - Upserts deployments with smart merge logic (manual rollback/recovery
+ *   data is preserved)
+ * - Links deployments without related PRs to the PRs merged since the
+ *   previous deployment (via PR merge commit SHAs)
+ * - Stamps recoveredAt on failed deployments followed by a successful
+ *   deployment to the same project/environment
+ * - Returns detailed results including success counts and errors
+ *
+ * Usage:
+ * ```bash
+ * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   http://localhost:3000/api/ingest/deployments
+ * ```
+ *
+ * Response:
+ * ```json
+ * {
+ *   "success": true,
+ *   "projectsProcessed": 5,
+ *   "deploymentsIngested": 48,
+ *   "deploymentsUpdated": 3,
+ *   "deploymentsSkipped": 112,
+ *   "deploymentsLinked": 4,
+ *   "deploymentsRecovered": 1,
+ *   "errors": []
+ * }
+ * ```
+ */
+export async function GET(request: NextRequest) {
+  // Validate cron secret
+  if (!validateCronSecret(request)) {
+    console.warn(
+      "[API] Unauthorized deployment ingestion request - invalid or missing cron secret",
+    );
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Optional override of the configured source (INGESTION_SOURCE)
+  const source = request.nextUrl.searchParams.get("source");
+  if (source !== null && !isSourceName(source)) {
+    return NextResponse.json(
+      {
+        error: "Invalid source",
+        details: `source must be one of: ${SOURCE_NAMES.join(", ")}`,
+        received: source,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    console.log(
+      `[API] Starting deployment ingestion request (source: ${source ?? "configured"})...`,
+    );
+
+    // Run ingestion for the requested (or configured) source
+    const result = await ingestDeployments(source ?? undefined);
+
+    // Return result with appropriate status code
+    const statusCode = result.success ? 200 : 207; // 207 = Multi-Status (partial success)
+
+    return NextResponse.json(result, { status: statusCode });
+  } catch (error) {
+    console.error("[API] Unhandled error during deployment ingestion:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        projectsProcessed: 0,
+        deploymentsIngested: 0,
+        deploymentsUpdated: 0,
+        deploymentsSkipped: 0,
+        deploymentsLinked: 0,
+        deploymentsRecovered: 0,
+        errors: [
+          {
+            message: "Unhandled error during ingestion",
+            error: error instanceof Error ? error.message : String(error),
+          },
+        ],
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { ingestPullRequests } from "@/lib/ingestion/azure-devops";
+import { isGitHubConfigured } from "@/lib/ingestion/github-client";
+import { isSourceName, SOURCE_NAMES } from "@/lib/ingestion/providers";
+import { ingestPullRequests } from "@/lib/ingestion/pull-requests";
 
 // Force dynamic rendering to prevent static optimization
 export const dynamic = "force-dynamic";
@@ -28,7 +30,7 @@ function validateCronSecret(request: NextRequest): boolean {
 /**
  * GET /api/ingest/pull-requests
  *
- * Triggers Azure DevOps PR metadata ingestion
+ * Triggers PR metadata ingestion
  *
  * This endpoint is called by:
  * - Vercel Cron Jobs (daily at midnight)
@@ -36,9 +38,19 @@ function validateCronSecret(request: NextRequest): boolean {
  *
  * Authentication: Requires CRON_SECRET in Authorization header
  *
+ * Query Parameters:
+ * - source: Optional "azure-devops" or "github" (default: INGESTION_SOURCE,
+ *   falling back to "azure-devops"). "github" is skipped with
+ *   `{ "success": true, "skipped": true }` while GITHUB_TOKEN or GITHUB_ORG
+ *   is not set, so the GitHub cron is harmless without GitHub
+ * - fullResync: Optional "true" or "false" (default). "true" ignores stored
+ *   watermarks and refetches every PR created in the last 90 days (recovery
+ *   after bad data or schema changes)
+ *
  * This endpoint:
- * - Autodiscovers all projects in the organization
- * - Fetches PR data from each project's repositories
+ * - Autodiscovers all projects (Azure DevOps) or repositories (GitHub)
+ * - Fetches PRs changed since each repository's last successful sync
+ *   (first sync or full resync: PRs created in the last 90 days)
  * - Upserts PRs to the database with smart merge logic
  * - Returns detailed results including success counts and errors
  *
@@ -46,6 +58,14 @@ function validateCronSecret(request: NextRequest): boolean {
  * ```bash
  * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
  *   http://localhost:3000/api/ingest/pull-requests
+ *
+ * # GitHub repositories
+ * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   "http://localhost:3000/api/ingest/pull-requests?source=github"
+ *
+ * # Full resync (ignore watermarks)
+ * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   "http://localhost:3000/api/ingest/pull-requests?fullResync=true"
  * ```
  *
  * Response:
@@ -55,6 +75,8 @@ function validateCronSecret(request: NextRequest): boolean {
  *   "projectsProcessed": 5,
  *   "prsIngested": 127,
  *   "prsUpdated": 43,
+ *   "fullResync": false,
+ *   "reposSynced": 18,
  *   "errors": []
  * }
  * ```
@@ -67,11 +89,58 @@ export async function GET(request: NextRequest) {
     );
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+
+  // Optional override of the configured source (INGESTION_SOURCE)
+  const source = request.nextUrl.searchParams.get("source");
+  if (source !== null && !isSourceName(source)) {
+    return NextResponse.json(
+      {
+        error: "Invalid source",
+        details: `source must be one of: ${SOURCE_NAMES.join(", ")}`,
+        received: source,
+      },
+      { status: 400 },
+    );
+  }
+
+  const fullResyncParam = request.nextUrl.searchParams.get("fullResync");
+  if (
+    fullResyncParam !== null &&
+    fullResyncParam !== "true" &&
+    fullResyncParam !== "false"
+  ) {
+    return NextResponse.json(
+      {
+        error: "Invalid fullResync",
+        details: "fullResync must be either: true, false",
+        received: fullResyncParam,
+      },
+      { status: 400 },
+    );
+  }
+  const fullResync = fullResyncParam === "true";
+
+  // The GitHub cron runs on every deployment; skip it until GitHub is set up
+  if (source === "github" && !isGitHubConfigured()) {
+    console.log(
+      "[API] Skipping GitHub PR ingestion - GITHUB_TOKEN or GITHUB_ORG not set",
+    );
+    return NextResponse.json(
+      { success: true, skipped: true, reason: "GitHub is not configured" },
+      { status: 200 },
+    );
+  }
+
   try {
-    console.log("[API] Starting PR ingestion request...");
+    console.log(
+      `[API] Starting PR ingestion request (source: ${source ?? "configured"}, fullResync: ${fullResync})...`,
+    );
 
-    // Run ingestion
-    const result = await ingestPullRequests();
+    // Run ingestion for the requested (or configured) source
+    const result = await ingestPullRequests({
+      source: source ?? undefined,
+      fullResync,
+    });
 
     // Return result with appropriate status code
     const statusCode = result.success ? 200 : 207; // 207 = Multi-Status (partial success)
@@ -0,0 +1,156 @@
+/**
+ * CI Duration API Endpoint
+ * GET /api/metrics/ci-duration
+ *
+ * Calculates median (p50) and 90th percentile (p90) pipeline duration and
+ * queue time for CI runs started in a given week. Duration is measured from
+ * run start to completion, queue time from queueing to start. Cancelled runs
+ * are excluded. All values are in minutes.
+ *
+ * Query Parameters:
+ * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period (not combined with allProjects).
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to the team's repositories.
+ * - allProjects: Optional boolean ("true"). Returns per-project breakdown.
+ *
+ * Response:
+ * - Single project/org: { duration, queueTime, workflows: [{ projectName, workflowName, duration, queueTime }], week, project? }
+ *   where duration/queueTime are { p50_minutes, p90_minutes, count }
+ * - All projects: { projects: { [projectName]: { duration, queueTime } }, week }
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
+ *
+ * Examples:
+ * - GET /api/metrics/ci-duration (current week, all projects)
+ * - GET /api/metrics/ci-duration?week=2025-W02 (specific week, all projects)
+ * - GET /api/metrics/ci-duration?week=2025-W02&project=my-project (specific week and project)
+ * - GET /api/metrics/ci-duration?week=2025-W02&allProjects=true (per-project breakdown)
+ * - GET /api/metrics/ci-duration?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/ci-duration?from=2025-01-01&to=2025-03-31 (custom date range)
+ * - GET /api/metrics/ci-duration?from=2025-01-01&to=2025-03-31&granularity=week (weekly time series)
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import {
+  calculateCIDuration,
+  calculateCIDurationByProject,
+  calculateCIDurationByWorkflow,
+} from "@/lib/metrics/ci-metrics";
+import {
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+    const allProjectsParam = searchParams.get("allProjects");
+
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
+
+    // Time series cover single project/organization queries only
+    if (timeRange.granularity && allProjectsParam === "true") {
+      return NextResponse.json(
+        {
+          error: "Invalid granularity",
+          details: "granularity cannot be combined with allProjects",
+          received: timeRange.granularity,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    // Handle per-project breakdown
+    if (allProjectsParam === "true") {
+      const projectMetrics = await calculateCIDurationByProject(
+        startDate,
+        endDate,
+        teamId,
+      );
+
+      // Convert Map to object for JSON serialization
+      const projects: Record<string, unknown> = {};
+      for (const [projectName, metrics] of projectMetrics.entries()) {
+        projects[projectName] = metrics;
+      }
+
+      return NextResponse.json(
+        {
+          projects,
+          ...describeTimeRange(timeRange),
+          ...(teamParam && { team: teamParam }),
+        },
+        { status: 200 },
+      );
+    }
+
+    // Handle single project or organization-wide query
+    // (one value per bucket when a granularity is requested)
+    const calculate = async (windowStart: Date, windowEnd: Date) => {
+      const [metrics, workflows] = await Promise.all([
+        calculateCIDuration(
+          windowStart,
+          windowEnd,
+          projectParam || undefined,
+          teamId,
+        ),
+        calculateCIDurationByWorkflow(
+          windowStart,
+          windowEnd,
+          projectParam || undefined,
+          teamId,
+        ),
+      ]);
+
+      return { ...metrics, workflows };
+    };
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
+
+    const response = {
+      ...metrics,
+      ...describeTimeRange(timeRange),
+      ...(projectParam && { project: projectParam }),
+      ...(teamParam && { team: teamParam }),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error in CI duration endpoint:", error);
+
+    // Handle specific error types
+    if (error instanceof Error) {
+      if (error.message.includes("Invalid week")) {
+        return NextResponse.json(
+          { error: "Invalid week format", details: error.message },
+          { status: 400 },
+        );
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
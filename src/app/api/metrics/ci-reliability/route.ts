@@ -0,0 +1,108 @@
+/**
+ * CI Reliability API Endpoint
+ * GET /api/metrics/ci-reliability
+ *
+ * Returns the flaky test rate (percentage of CI runs flagged as flaky) and the
+ * CI success rate (percentage of CI runs that succeeded) for runs started in a
+ * given week.
+ *
+ * Query Parameters:
+ * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period.
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to the team's repositories.
+ *
+ * Response:
+ * - { flakyRate, successRate, flakyRuns, week, project? } (rates as percentages, 0-100)
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
+ *
+ * Examples:
+ * - GET /api/metrics/ci-reliability (current week, all projects)
+ * - GET /api/metrics/ci-reliability?week=2025-W02&project=my-project (specific week and project)
+ * - GET /api/metrics/ci-reliability?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/ci-reliability?from=2025-01-01&to=2025-03-31&granularity=week (weekly time series)
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import {
+  calculateFlakyTestRate,
+  getCISuccessRate,
+  getFlakyRunCount,
+} from "@/lib/metrics/flaky-tests";
+import {
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
+
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    // One value per bucket when a granularity is requested
+    const calculate = async (windowStart: Date, windowEnd: Date) => {
+      const [flakyRate, successRate, flakyRuns] = await Promise.all([
+        calculateFlakyTestRate(
+          windowStart,
+          windowEnd,
+          projectParam || undefined,
+          teamId,
+        ),
+        getCISuccessRate(
+          windowStart,
+          windowEnd,
+          projectParam || undefined,
+          teamId,
+        ),
+        getFlakyRunCount(
+          windowStart,
+          windowEnd,
+          projectParam || undefined,
+          teamId,
+        ),
+      ]);
+
+      return { flakyRate, successRate, flakyRuns };
+    };
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
+
+    return NextResponse.json(
+      {
+        ...metrics,
+        ...describeTimeRange(timeRange),
+        ...(projectParam && { project: projectParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in CI reliability endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
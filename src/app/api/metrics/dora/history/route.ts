@@ -0,0 +1,147 @@
+/**
+ * DORA Metrics History API Endpoint
+ * GET /api/metrics/dora/history
+ *
+ * Returns all four DORA metrics for consecutive ISO weeks, e.g. for trend
+ * indicators and sparklines. Weeks follow the calendar, so years with 53 ISO
+ * weeks include week 53.
+ *
+ * Shorthand for GET /api/metrics/dora?from=...&to=...&granularity=week over
+ * the last `weeks` weeks, with each bucket's period returned as `week`.
+ *
+ * Query Parameters:
+ * - weeks: Optional number of weeks (1-52). Defaults to 12.
+ * - week: Optional ISO 8601 week identifier of the last week (e.g., "2025-W02"). Defaults to current week.
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to the team's repositories.
+ * - repo: Optional repository (service) filter, combined with project when given.
+ *
+ * Response: {
+ *   weeks: [
+ *     {
+ *       week,
+ *       startDate,
+ *       endDate,
+ *       deploymentFrequency: { count },
+ *       leadTime: { p50_hours, p90_hours, count },
+ *       changeFailureRate: { percentage, failed_count, total_count },
+ *       mttr: { p50_hours, p90_hours, count, source }
+ *     }
+ *   ], // oldest first, ending with the requested week
+ *   week,
+ *   startDate,
+ *   endDate,
+ *   project?,
+ *   repo?,
+ *   team?
+ * }
+ *
+ * Examples:
+ * - GET /api/metrics/dora/history (last 12 weeks, all projects)
+ * - GET /api/metrics/dora/history?weeks=4&week=2025-W02 (2024-W51 to 2025-W02)
+ * - GET /api/metrics/dora/history?project=my-project&team=payments
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import { calculateDORAMetrics } from "@/lib/metrics/dora-metrics";
+import { calculateTimeSeries, getTimeBuckets } from "@/lib/utils/time-range";
+import {
+  getCurrentWeek,
+  getRecentWeeks,
+  getWeekBoundaries,
+  isValidWeekIdentifier,
+} from "@/lib/utils/week";
+
+const DEFAULT_HISTORY_WEEKS = 12;
+const MAX_HISTORY_WEEKS = 52;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const weeksParam = searchParams.get("weeks");
+    const weekParam = searchParams.get("week") || getCurrentWeek();
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+    const repoParam = searchParams.get("repo");
+
+    // Validate week count
+    const weekCount =
+      weeksParam === null ? DEFAULT_HISTORY_WEEKS : Number(weeksParam);
+    if (
+      !Number.isInteger(weekCount) ||
+      weekCount < 1 ||
+      weekCount > MAX_HISTORY_WEEKS
+    ) {
+      return NextResponse.json(
+        {
+          error: "Invalid weeks",
+          details: `weeks must be a whole number between 1 and ${MAX_HISTORY_WEEKS}`,
+          received: weeksParam,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Validate week format
+    if (!isValidWeekIdentifier(weekParam)) {
+      return NextResponse.json(
+        {
+          error: "Invalid week format",
+          details:
+            'Week must be in ISO 8601 format (e.g., "2025-W02"). Use YYYY-Wnn where nn is the week number (01-53).',
+          received: weekParam,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    const recentWeeks = getRecentWeeks(weekParam, weekCount);
+    const { startDate } = getWeekBoundaries(recentWeeks[0]);
+    const { endDate } = getWeekBoundaries(weekParam);
+
+    const series = await calculateTimeSeries(
+      getTimeBuckets(startDate, endDate, "week"),
+      (windowStart, windowEnd) =>
+        calculateDORAMetrics(
+          windowStart,
+          windowEnd,
+          projectParam || undefined,
+          repoParam || undefined,
+          teamId,
+        ),
+    );
+    const weeks = series.map(({ period, ...metrics }) => ({
+      week: period,
+      ...metrics,
+    }));
+
+    return NextResponse.json(
+      {
+        weeks,
+        week: weekParam,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        ...(projectParam && { project: projectParam }),
+        ...(repoParam && { repo: repoParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in DORA metrics history endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
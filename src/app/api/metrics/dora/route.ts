@@ -10,19 +10,25 @@
  *
  * Query Parameters:
  * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period (not combined with allProjects or groupBy).
  * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to the team's repositories.
+ * - repo: Optional repository (service) filter, combined with project when given.
  * - allProjects: Optional boolean ("true"). Returns per-project breakdown.
+ * - groupBy: Optional "repo". Returns per-repository breakdown (of project, if given).
  *
  * Response:
  * - Single project/org: {
  *     deploymentFrequency: { count },
  *     leadTime: { p50_hours, p90_hours, count },
  *     changeFailureRate: { percentage, failed_count, total_count },
- *     mttr: { p50_hours, p90_hours, count },
+ *     mttr: { p50_hours, p90_hours, count, source }, // source: "incidents" | "deployments"
  *     week,
  *     startDate,
  *     endDate,
- *     project?
+ *     project?,
+ *     repo?
  *   }
  * - All projects: {
  *     projects: {
@@ -30,64 +36,199 @@
  *         deploymentFrequency: { count },
  *         leadTime: { p50_hours, p90_hours, count },
  *         changeFailureRate: { percentage, failed_count, total_count },
- *         mttr: { p50_hours, p90_hours, count }
+ *         mttr: { p50_hours, p90_hours, count, source }
  *       }
  *     },
  *     week,
  *     startDate,
  *     endDate
  *   }
+ * - By repository: {
+ *     repos: [
+ *       {
+ *         projectName,
+ *         repoName, // null for deployments recorded without a repository
+ *         deploymentFrequency, leadTime, changeFailureRate, mttr
+ *       }
+ *     ],
+ *     week,
+ *     startDate,
+ *     endDate,
+ *     project?
+ *   }
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
  *
  * Examples:
  * - GET /api/metrics/dora (current week, all projects)
  * - GET /api/metrics/dora?week=2025-W02 (specific week, all projects)
  * - GET /api/metrics/dora?week=2025-W02&project=my-project (specific week and project)
  * - GET /api/metrics/dora?week=2025-W02&allProjects=true (per-project breakdown)
+ * - GET /api/metrics/dora?week=2025-W02&project=my-project&repo=billing-api (single repository)
+ * - GET /api/metrics/dora?week=2025-W02&project=my-project&groupBy=repo (per-repository breakdown)
+ * - GET /api/metrics/dora?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/dora?from=2025-01-01&to=2025-03-31 (custom date range)
+ * - GET /api/metrics/dora?from=2025-01-01&to=2025-03-31&granularity=week (weekly time series)
  */
 
 import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
 import {
-  calculateChangeFailureRate,
   calculateChangeFailureRateByProject,
-  calculateDeploymentFrequency,
+  calculateChangeFailureRateByRepo,
   calculateDeploymentFrequencyByProject,
-  calculateLeadTimeForChanges,
+  calculateDeploymentFrequencyByRepo,
+  calculateDORAMetrics,
   calculateLeadTimeForChangesByProject,
-  calculateMTTR,
+  calculateLeadTimeForChangesByRepo,
   calculateMTTRByProject,
+  calculateMTTRByRepo,
+  compareRepoMetrics,
+  repoMetricKey,
 } from "@/lib/metrics/dora-metrics";
 import {
-  getCurrentWeek,
-  getWeekBoundaries,
-  isValidWeekIdentifier,
-} from "@/lib/utils/week";
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
 
 export async function GET(request: NextRequest) {
   try {
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams;
-    const weekParam = searchParams.get("week");
     const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+    const repoParam = searchParams.get("repo");
     const allProjectsParam = searchParams.get("allProjects");
+    const groupByParam = searchParams.get("groupBy");
 
-    // Determine week to query (default to current week)
-    const week = weekParam || getCurrentWeek();
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
 
-    // Validate week format
-    if (!isValidWeekIdentifier(week)) {
+    // Time series cover single project/organization queries only
+    if (
+      timeRange.granularity &&
+      (allProjectsParam === "true" || groupByParam !== null)
+    ) {
       return NextResponse.json(
         {
-          error: "Invalid week format",
-          details:
-            'Week must be in ISO 8601 format (e.g., "2025-W02"). Use YYYY-Wnn where nn is the week number (01-53).',
-          received: week,
+          error: "Invalid granularity",
+          details: "granularity cannot be combined with allProjects or groupBy",
+          received: timeRange.granularity,
         },
         { status: 400 },
       );
     }
 
-    // Get week boundaries
-    const { startDate, endDate } = getWeekBoundaries(week);
+    // Validate grouping
+    if (groupByParam !== null && groupByParam !== "repo") {
+      return NextResponse.json(
+        {
+          error: "Invalid groupBy",
+          details: 'groupBy must be "repo"',
+          received: groupByParam,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    // Handle per-repository breakdown
+    if (groupByParam === "repo") {
+      const project = projectParam || undefined;
+
+      // Fetch all metrics in parallel
+      const [deploymentFrequencies, leadTimes, changeFailureRates, mttrs] =
+        await Promise.all([
+          calculateDeploymentFrequencyByRepo(
+            startDate,
+            endDate,
+            project,
+            teamId,
+          ),
+          calculateLeadTimeForChangesByRepo(
+            startDate,
+            endDate,
+            project,
+            teamId,
+          ),
+          calculateChangeFailureRateByRepo(startDate, endDate, project, teamId),
+          calculateMTTRByRepo(startDate, endDate, project, teamId),
+        ]);
+
+      // Combine metrics for each repository seen by any metric
+      const repos = new Map<
+        string,
+        { projectName: string; repoName: string | null }
+      >();
+      for (const { projectName, repoName } of [
+        ...deploymentFrequencies,
+        ...leadTimes,
+        ...changeFailureRates,
+        ...mttrs,
+      ]) {
+        repos.set(repoMetricKey({ projectName, repoName }), {
+          projectName,
+          repoName,
+        });
+      }
+
+      const find = <T extends { projectName: string; repoName: string | null }>(
+        metrics: T[],
+        key: string,
+      ) => metrics.find((metric) => repoMetricKey(metric) === key);
+
+      const combined = [...repos.entries()]
+        .sort(([, a], [, b]) => compareRepoMetrics(a, b))
+        .map(([key, { projectName, repoName }]) => {
+          const deploymentFrequency = find(deploymentFrequencies, key);
+          const leadTime = find(leadTimes, key);
+          const changeFailureRate = find(changeFailureRates, key);
+          const mttr = find(mttrs, key);
+
+          return {
+            projectName,
+            repoName,
+            deploymentFrequency: { count: deploymentFrequency?.count ?? 0 },
+            leadTime: {
+              p50_hours: leadTime?.p50_hours ?? null,
+              p90_hours: leadTime?.p90_hours ?? null,
+              count: leadTime?.count ?? 0,
+            },
+            changeFailureRate: {
+              percentage: changeFailureRate?.percentage ?? 0,
+              failed_count: changeFailureRate?.failed_count ?? 0,
+              total_count: changeFailureRate?.total_count ?? 0,
+            },
+            mttr: {
+              p50_hours: mttr?.p50_hours ?? null,
+              p90_hours: mttr?.p90_hours ?? null,
+              count: mttr?.count ?? 0,
+              source: mttr?.source ?? "deployments",
+            },
+          };
+        });
+
+      return NextResponse.json(
+        {
+          repos: combined,
+          ...describeTimeRange(timeRange),
+          ...(projectParam && { project: projectParam }),
+          ...(teamParam && { team: teamParam }),
+        },
+        { status: 200 },
+      );
+    }
 
     // Handle per-project breakdown
     if (allProjectsParam === "true") {
@@ -98,10 +239,10 @@ export async function GET(request: NextRequest) {
         changeFailureRateMap,
         mttrMap,
       ] = await Promise.all([
-        calculateDeploymentFrequencyByProject(startDate, endDate),
-        calculateLeadTimeForChangesByProject(startDate, endDate),
-        calculateChangeFailureRateByProject(startDate, endDate),
-        calculateMTTRByProject(startDate, endDate),
+        calculateDeploymentFrequencyByProject(startDate, endDate, teamId),
+        calculateLeadTimeForChangesByProject(startDate, endDate, teamId),
+        calculateChangeFailureRateByProject(startDate, endDate, teamId),
+        calculateMTTRByProject(startDate, endDate, teamId),
       ]);
 
       // Get all unique project names
@@ -133,6 +274,7 @@ export async function GET(request: NextRequest) {
             p50_hours: null,
             p90_hours: null,
             count: 0,
+            source: "deployments",
           },
         };
       }
@@ -140,45 +282,33 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(
         {
           projects,
-          week,
-          startDate: startDate.toISOString(),
-          endDate: endDate.toISOString(),
+          ...describeTimeRange(timeRange),
+          ...(teamParam && { team: teamParam }),
         },
         { status: 200 },
       );
     }
 
-    // Handle single project or organization-wide query
-    // Fetch all metrics in parallel
-    const [deploymentFrequency, leadTime, changeFailureRate, mttr] =
-      await Promise.all([
-        calculateDeploymentFrequency(
-          startDate,
-          endDate,
-          projectParam || undefined,
-        ),
-        calculateLeadTimeForChanges(
-          startDate,
-          endDate,
-          projectParam || undefined,
-        ),
-        calculateChangeFailureRate(
-          startDate,
-          endDate,
-          projectParam || undefined,
-        ),
-        calculateMTTR(startDate, endDate, projectParam || undefined),
-      ]);
+    // Handle single project/repository or organization-wide query
+    // (one value per bucket when a granularity is requested)
+    const calculate = (windowStart: Date, windowEnd: Date) =>
+      calculateDORAMetrics(
+        windowStart,
+        windowEnd,
+        projectParam || undefined,
+        repoParam || undefined,
+        teamId,
+      );
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
 
     const response = {
-      deploymentFrequency,
-      leadTime,
-      changeFailureRate,
-      mttr,
-      week,
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
+      ...metrics,
+      ...describeTimeRange(timeRange),
       ...(projectParam && { project: projectParam }),
+      ...(repoParam && { repo: repoParam }),
+      ...(teamParam && { team: teamParam }),
     };
 
     return NextResponse.json(response, { status: 200 });
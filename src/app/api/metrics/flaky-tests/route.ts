@@ -0,0 +1,108 @@
+/**
+ * Top Flaky Tests API Endpoint
+ * GET /api/metrics/flaky-tests
+ *
+ * Ranks individual tests that both passed and failed on the same commit in a
+ * given week, ordered by the number of runs in which they were flaky.
+ *
+ * Query Parameters:
+ * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period.
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to the team's repositories.
+ * - limit: Optional number of tests to return (1-100). Defaults to 10.
+ *
+ * Response:
+ * - { tests: [{ testName, testSuite, projectName, repoName, flakyRuns, failedCount, totalRuns, flakeRate }], week, project? }
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
+ *
+ * Examples:
+ * - GET /api/metrics/flaky-tests (current week, all projects)
+ * - GET /api/metrics/flaky-tests?week=2025-W02&project=my-project (specific week and project)
+ * - GET /api/metrics/flaky-tests?limit=25 (top 25 in the current week)
+ * - GET /api/metrics/flaky-tests?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/flaky-tests?from=2025-01-01&to=2025-03-31 (custom date range)
+ * - GET /api/metrics/flaky-tests?from=2025-01-01&to=2025-03-31&granularity=week (weekly time series)
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import { getTopFlakyTests } from "@/lib/metrics/flaky-tests";
+import {
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+    const limitParam = searchParams.get("limit");
+
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
+
+    // Validate limit
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        {
+          error: "Invalid limit",
+          details: `Limit must be an integer between 1 and ${MAX_LIMIT}.`,
+          received: limitParam,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    // One ranking per bucket when a granularity is requested
+    const calculate = async (windowStart: Date, windowEnd: Date) => ({
+      tests: await getTopFlakyTests(
+        windowStart,
+        windowEnd,
+        projectParam || undefined,
+        limit,
+        teamId,
+      ),
+    });
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
+
+    return NextResponse.json(
+      {
+        ...metrics,
+        ...describeTimeRange(timeRange),
+        ...(projectParam && { project: projectParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in flaky tests endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
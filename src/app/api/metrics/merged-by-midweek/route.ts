@@ -0,0 +1,122 @@
+/**
+ * Merged by Midweek API Endpoint
+ * GET /api/metrics/merged-by-midweek
+ *
+ * Calculates the percentage of PRs opened Monday-Tuesday that were merged by
+ * Wednesday EOD in a given week (target: > 70%). With another cut-off day, PRs
+ * opened from Monday up to the day before it are counted. Draft and bot PRs
+ * are excluded.
+ *
+ * Query Parameters:
+ * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - cutoff: Optional cut-off day, "tuesday" to "sunday". Defaults to "wednesday".
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to PRs to the team's repositories or by its members.
+ *
+ * Response: {
+ *   percentage, // null when no PRs were opened before the cut-off day
+ *   merged_count,
+ *   opened_count,
+ *   cutoffDay,
+ *   cutoffDate, // end of the cut-off day (UTC)
+ *   week,
+ *   startDate,
+ *   endDate,
+ *   project?,
+ *   team?
+ * }
+ *
+ * Examples:
+ * - GET /api/metrics/merged-by-midweek (current week, all projects)
+ * - GET /api/metrics/merged-by-midweek?week=2025-W02&project=my-project
+ * - GET /api/metrics/merged-by-midweek?week=2025-W02&cutoff=thursday (PRs opened Mon-Wed merged by Thursday EOD)
+ * - GET /api/metrics/merged-by-midweek?week=2025-W02&team=payments (single team)
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import {
+  calculateMergedByMidweek,
+  DEFAULT_MIDWEEK_CUTOFF_DAY,
+  WEEKDAYS,
+  type Weekday,
+} from "@/lib/metrics/pr-metrics";
+import {
+  getCurrentWeek,
+  getWeekBoundaries,
+  isValidWeekIdentifier,
+} from "@/lib/utils/week";
+
+// Monday cannot be the cut-off day: no PRs are opened before it
+const CUTOFF_DAYS: readonly string[] = WEEKDAYS.slice(1);
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const weekParam = searchParams.get("week") || getCurrentWeek();
+    const cutoffParam = searchParams.get("cutoff");
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+
+    // Validate week format
+    if (!isValidWeekIdentifier(weekParam)) {
+      return NextResponse.json(
+        {
+          error: "Invalid week format",
+          details:
+            'Week must be in ISO 8601 format (e.g., "2025-W02"). Use YYYY-Wnn where nn is the week number (01-53).',
+          received: weekParam,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Validate cut-off day
+    const cutoffDay = cutoffParam?.toLowerCase() ?? DEFAULT_MIDWEEK_CUTOFF_DAY;
+    if (!CUTOFF_DAYS.includes(cutoffDay)) {
+      return NextResponse.json(
+        {
+          error: "Invalid cutoff",
+          details: `cutoff must be one of: ${CUTOFF_DAYS.join(", ")}`,
+          received: cutoffParam,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+
+    const { startDate, endDate } = getWeekBoundaries(weekParam);
+    const metric = await calculateMergedByMidweek(
+      weekParam,
+      cutoffDay as Weekday,
+      projectParam || undefined,
+      teamFilter.team?.id,
+    );
+
+    return NextResponse.json(
+      {
+        ...metric,
+        cutoffDate: metric.cutoffDate.toISOString(),
+        week: weekParam,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        ...(projectParam && { project: projectParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in merged by midweek endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
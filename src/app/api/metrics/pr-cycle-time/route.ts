@@ -7,63 +7,80 @@
  *
  * Query Parameters:
  * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period (not combined with allProjects).
  * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to PRs to the team's repositories or by its members.
  * - allProjects: Optional boolean ("true"). Returns per-project breakdown.
  *
  * Response:
  * - Single project/org: { p50_hours, p90_hours, count, week, project? }
  * - All projects: { projects: { [projectName]: { p50_hours, p90_hours, count } }, week }
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
  *
  * Examples:
  * - GET /api/metrics/pr-cycle-time (current week, all projects)
  * - GET /api/metrics/pr-cycle-time?week=2025-W02 (specific week, all projects)
  * - GET /api/metrics/pr-cycle-time?week=2025-W02&project=my-project (specific week and project)
  * - GET /api/metrics/pr-cycle-time?week=2025-W02&allProjects=true (per-project breakdown)
+ * - GET /api/metrics/pr-cycle-time?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/pr-cycle-time?from=2025-01-01&to=2025-03-31 (custom date range)
+ * - GET /api/metrics/pr-cycle-time?from=2025-01-01&to=2025-03-31&granularity=week (weekly time series)
  */
 
 import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
 import {
   calculatePRCycleTime,
   calculatePRCycleTimeByProject,
 } from "@/lib/metrics/pr-metrics";
 import {
-  getCurrentWeek,
-  getWeekBoundaries,
-  isValidWeekIdentifier,
-} from "@/lib/utils/week";
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
 
 export async function GET(request: NextRequest) {
   try {
     // Parse query parameters
     const searchParams = request.nextUrl.searchParams;
-    const weekParam = searchParams.get("week");
     const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
     const allProjectsParam = searchParams.get("allProjects");
 
-    // Determine week to query (default to current week)
-    const week = weekParam || getCurrentWeek();
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
 
-    // Validate week format
-    if (!isValidWeekIdentifier(week)) {
+    // Time series cover single project/organization queries only
+    if (timeRange.granularity && allProjectsParam === "true") {
       return NextResponse.json(
         {
-          error: "Invalid week format",
-          details:
-            'Week must be in ISO 8601 format (e.g., "2025-W02"). Use YYYY-Wnn where nn is the week number (01-53).',
-          received: week,
+          error: "Invalid granularity",
+          details: "granularity cannot be combined with allProjects",
+          received: timeRange.granularity,
         },
         { status: 400 },
       );
     }
 
-    // Get week boundaries
-    const { startDate, endDate } = getWeekBoundaries(week);
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
 
     // Handle per-project breakdown
     if (allProjectsParam === "true") {
       const projectMetrics = await calculatePRCycleTimeByProject(
         startDate,
         endDate,
+        teamId,
       );
 
       // Convert Map to object for JSON serialization
@@ -75,27 +92,31 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(
         {
           projects,
-          week,
-          startDate: startDate.toISOString(),
-          endDate: endDate.toISOString(),
+          ...describeTimeRange(timeRange),
+          ...(teamParam && { team: teamParam }),
         },
         { status: 200 },
       );
     }
 
     // Handle single project or organization-wide query
-    const metrics = await calculatePRCycleTime(
-      startDate,
-      endDate,
-      projectParam || undefined,
-    );
+    // (one value per bucket when a granularity is requested)
+    const calculate = (windowStart: Date, windowEnd: Date) =>
+      calculatePRCycleTime(
+        windowStart,
+        windowEnd,
+        projectParam || undefined,
+        teamId,
+      );
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
 
     const response = {
       ...metrics,
-      week,
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
+      ...describeTimeRange(timeRange),
       ...(projectParam && { project: projectParam }),
+      ...(teamParam && { team: teamParam }),
     };
 
     return NextResponse.json(response, { status: 200 });
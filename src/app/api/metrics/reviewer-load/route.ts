@@ -0,0 +1,95 @@
+/**
+ * Reviewer Load API Endpoint
+ * GET /api/metrics/reviewer-load
+ *
+ * Returns the distribution of reviews per reviewer for reviews given
+ * (first vote or comment) in a given week: the counter-metric for review wait
+ * time. Only aggregates are returned, never reviewer names. Bot reviewers and
+ * draft or bot PRs are excluded.
+ *
+ * Query Parameters:
+ * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period.
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to reviews of PRs to the team's repositories or by its members.
+ *
+ * Response:
+ * - {
+ *     reviewer_count,
+ *     review_count,
+ *     p50_reviews,
+ *     p90_reviews,
+ *     max_reviews,
+ *     distribution: [{ reviews, reviewers }], // reviewers with that many reviews
+ *     week,
+ *     project?
+ *   }
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
+ *
+ * Examples:
+ * - GET /api/metrics/reviewer-load (current week, all projects)
+ * - GET /api/metrics/reviewer-load?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/reviewer-load?from=2025-01-01&to=2025-03-31&granularity=month (monthly time series)
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import { calculateReviewerLoad } from "@/lib/metrics/reviewer-metrics";
+import {
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
+
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    // One value per bucket when a granularity is requested
+    const calculate = (windowStart: Date, windowEnd: Date) =>
+      calculateReviewerLoad(
+        windowStart,
+        windowEnd,
+        projectParam || undefined,
+        teamId,
+      );
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
+
+    return NextResponse.json(
+      {
+        ...metrics,
+        ...describeTimeRange(timeRange),
+        ...(projectParam && { project: projectParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in reviewer load endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Reviewer SLA API Endpoint
+ * GET /api/metrics/reviewer-sla
+ *
+ * Returns the percentage of review requests answered (first vote or comment)
+ * within 24 hours of PR creation, for PRs created in a given week (target:
+ * > 80%). Requests still within the 24 hours are left out until answered or
+ * expired. Bot reviewers and draft or bot PRs are excluded.
+ *
+ * Query Parameters:
+ * - week: Optional ISO 8601 week identifier (e.g., "2025-W02"). Defaults to current week.
+ * - from, to: Optional inclusive UTC dates (YYYY-MM-DD), instead of week.
+ * - granularity: Optional "day", "week", "month" or "quarter". Returns a time series with one bucket per period.
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits metrics to PRs to the team's repositories or by its members.
+ *
+ * Response:
+ * - { percentage, within_sla_count, total_count, sla_hours, week, project? } (percentage null without review requests)
+ * - Time series (granularity): { series: [{ period, startDate, endDate, ...metrics }], granularity, week | from/to, startDate, endDate, project? }
+ *
+ * Examples:
+ * - GET /api/metrics/reviewer-sla (current week, all projects)
+ * - GET /api/metrics/reviewer-sla?week=2025-W02&project=my-project (specific week and project)
+ * - GET /api/metrics/reviewer-sla?week=2025-W02&team=payments (single team)
+ * - GET /api/metrics/reviewer-sla?from=2025-01-01&to=2025-03-31&granularity=week (weekly time series)
+ */
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import { calculateReviewerSLA } from "@/lib/metrics/reviewer-metrics";
+import {
+  calculateTimeSeries,
+  describeTimeRange,
+  resolveTimeRange,
+} from "@/lib/utils/time-range";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+
+    // Resolve time range (week or from/to) and optional granularity
+    const timeRange = resolveTimeRange(searchParams);
+    if ("error" in timeRange) {
+      return NextResponse.json(timeRange, { status: 400 });
+    }
+
+    const { startDate, endDate } = timeRange;
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+    const teamId = teamFilter.team?.id;
+
+    // One value per bucket when a granularity is requested
+    const calculate = (windowStart: Date, windowEnd: Date) =>
+      calculateReviewerSLA(
+        windowStart,
+        windowEnd,
+        projectParam || undefined,
+        teamId,
+      );
+    const metrics = timeRange.buckets
+      ? { series: await calculateTimeSeries(timeRange.buckets, calculate) }
+      : await calculate(startDate, endDate);
+
+    return NextResponse.json(
+      {
+        ...metrics,
+        ...describeTimeRange(timeRange),
+        ...(projectParam && { project: projectParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in reviewer SLA endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Blocked PRs API Endpoint
+ * GET /api/prs/blocked
+ *
+ * Lists open PRs that are currently blocked, for the daily standup:
+ * - labelled as blocked (any label containing "blocked"), or
+ * - open for more than 3 days without a review
+ * Draft and bot PRs are excluded.
+ *
+ * Query Parameters:
+ * - project: Optional project name filter. If omitted, returns all projects.
+ * - team: Optional team name filter (see /api/teams). Limits the list to PRs to the team's repositories or by its members.
+ *
+ * Response: {
+ *   prs: [
+ *     {
+ *       prNumber, title, author, orgName, projectName, repoName, labels,
+ *       createdAt,
+ *       ageHours,
+ *       reason, // "label" | "no-review"
+ *       url // Azure DevOps pull request page
+ *     }
+ *   ], // oldest first
+ *   count,
+ *   asOf,
+ *   project?,
+ *   team?
+ * }
+ *
+ * Examples:
+ * - GET /api/prs/blocked (all projects)
+ * - GET /api/prs/blocked?project=my-project (single project)
+ * - GET /api/prs/blocked?team=payments (single team)
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { resolveTeamParam } from "@/lib/api/team-param";
+import { getBlockedPullRequests } from "@/lib/metrics/pr-metrics";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const projectParam = searchParams.get("project");
+    const teamParam = searchParams.get("team");
+
+    // Resolve team filter
+    const teamFilter = await resolveTeamParam(searchParams);
+    if ("error" in teamFilter) {
+      return NextResponse.json(teamFilter, { status: 404 });
+    }
+
+    const asOf = new Date();
+    const prs = await getBlockedPullRequests(
+      asOf,
+      projectParam || undefined,
+      teamFilter.team?.id,
+    );
+
+    return NextResponse.json(
+      {
+        prs,
+        count: prs.length,
+        asOf: asOf.toISOString(),
+        ...(projectParam && { project: projectParam }),
+        ...(teamParam && { team: teamParam }),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("[API] Error in blocked PRs endpoint:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
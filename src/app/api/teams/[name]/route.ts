@@ -0,0 +1,176 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import {
+  deleteTeam,
+  findTeam,
+  getTeam,
+  teamUpdateSchema,
+  updateTeam,
+} from "@/lib/teams/teams";
+
+/**
+ * /api/teams/:name
+ *
+ * Single team administration endpoint
+ *
+ * GET /api/teams/:name
+ * Returns the team with its members and repositories.
+ *
+ * PATCH /api/teams/:name
+ * Updates a team. Omitted fields are kept; members and repositories replace
+ * the current lists.
+ *
+ * DELETE /api/teams/:name
+ * Deletes the team and its member and repository mappings.
+ *
+ * Authentication (PATCH, DELETE): Requires ADMIN_API_KEY in Authorization header
+ * Format: Authorization: Bearer <ADMIN_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X PATCH http://localhost:3000/api/teams/payments \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{ "members": ["Jane Doe", "John Smith", "Alex Kim"] }'
+ * ```
+ *
+ * Responses:
+ * - 200 OK: { success: true, team } (DELETE: { success: true })
+ * - 400: invalid body
+ * - 401: missing or invalid API key
+ * - 404: unknown team
+ * - 409: renaming to the name of another team
+ */
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    const team = await getTeam(name);
+
+    if (!team) {
+      return errorResponse(404, "Not found", `Team ${name} does not exist`);
+    }
+
+    return NextResponse.json({ success: true, team }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error fetching team:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to fetch team",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(
+        400,
+        "Invalid JSON",
+        "Request body must be valid JSON",
+      );
+    }
+
+    const validation = teamUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation error",
+          message: "Invalid request body",
+          details: validation.error.format(),
+        },
+        { status: 400 },
+      );
+    }
+
+    const data = validation.data;
+
+    // 3. Look up the team
+    const { name } = await params;
+    const existing = await findTeam(name);
+
+    if (!existing) {
+      return errorResponse(404, "Not found", `Team ${name} does not exist`);
+    }
+
+    if (data.name !== undefined && data.name !== existing.name) {
+      if (await findTeam(data.name)) {
+        return errorResponse(
+          409,
+          "Conflict",
+          `Team ${data.name} already exists`,
+        );
+      }
+    }
+
+    // 4. Apply the changes
+    const team = await updateTeam(existing, data);
+
+    return NextResponse.json({ success: true, team }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error updating team:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to update team",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const { name } = await params;
+    const existing = await findTeam(name);
+
+    if (!existing) {
+      return errorResponse(404, "Not found", `Team ${name} does not exist`);
+    }
+
+    await deleteTeam(existing);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error deleting team:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to delete team",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
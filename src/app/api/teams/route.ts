@@ -0,0 +1,119 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/api/auth";
+import { errorResponse } from "@/lib/api/responses";
+import { createTeam, listTeams, teamSchema } from "@/lib/teams/teams";
+
+/**
+ * /api/teams
+ *
+ * Team administration endpoint
+ *
+ * Teams map people (PR authors) and repositories to the team that owns
+ * them. Every /api/metrics/* route accepts ?team=<name> to slice metrics by
+ * team.
+ *
+ * GET /api/teams
+ * Lists all teams with their members and repositories.
+ *
+ * POST /api/teams
+ * Creates a team.
+ *
+ * Authentication (POST only): Requires ADMIN_API_KEY in Authorization header
+ * Format: Authorization: Bearer <ADMIN_API_KEY>
+ *
+ * Usage:
+ * ```bash
+ * curl -X POST http://localhost:3000/api/teams \
+ *   -H "Authorization: Bearer your_api_key_here" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{
+ *     "name": "payments",
+ *     "description": "Checkout and billing",
+ *     "members": ["Jane Doe", "John Smith"],
+ *     "repositories": [{ "projectName": "platform", "repoName": "billing-api" }]
+ *   }'
+ * ```
+ *
+ * Responses:
+ * - 200 OK (GET): { teams: [{ id, name, description, members, repositories, createdAt, updatedAt }] }
+ * - 201 Created (POST): { success: true, team }
+ * - 400: invalid body
+ * - 401: missing or invalid API key
+ * - 409: a team with that name already exists
+ */
+
+export async function GET() {
+  try {
+    const teams = await listTeams();
+
+    return NextResponse.json({ teams }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error listing teams:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authentication check
+    const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    // 2. Parse and validate request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(
+        400,
+        "Invalid JSON",
+        "Request body must be valid JSON",
+      );
+    }
+
+    const validation = teamSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Validation error",
+          message: "Invalid request body",
+          details: validation.error.format(),
+        },
+        { status: 400 },
+      );
+    }
+
+    // 3. Create the team
+    const team = await createTeam(validation.data);
+
+    if (!team) {
+      return errorResponse(
+        409,
+        "Conflict",
+        `Team ${validation.data.name} already exists`,
+      );
+    }
+
+    return NextResponse.json({ success: true, team }, { status: 201 });
+  } catch (error) {
+    console.error("[API] Error creating team:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: "Failed to create team",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
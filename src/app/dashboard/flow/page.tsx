@@ -0,0 +1,413 @@
+"use client";
+
+import Link from "next/link";
+import * as React from "react";
+import {
+  MetricCard,
+  type MetricStatus,
+} from "@/components/dashboard/metric-card";
+import {
+  type PRSizeCounts,
+  PRSizeHistogram,
+} from "@/components/dashboard/pr-size-histogram";
+import {
+  buildDashboardQuery,
+  useDashboardFilters,
+} from "@/components/dashboard/use-dashboard-filters";
+import { WeekSelector } from "@/components/dashboard/week-selector";
+import { Button } from "@/components/ui/button";
+import { calculateTrend, formatHours } from "@/lib/utils/metric-format";
+import { getRecentWeeks, getWeekBoundaries } from "@/lib/utils/week";
+
+/**
+ * One weekly bucket of a metrics time series (granularity=week)
+ */
+type SeriesEntry<T> = T & {
+  period: string;
+  startDate: string;
+  endDate: string;
+};
+
+interface SeriesResponse<T> {
+  series: SeriesEntry<T>[];
+}
+
+interface PercentileMetrics {
+  p50_hours: number | null;
+  p90_hours: number | null;
+  count: number;
+}
+
+interface CIReliabilityMetrics {
+  flakyRate: number;
+  successRate: number;
+  flakyRuns: number;
+}
+
+interface MergedByMidweekMetrics {
+  percentage: number | null;
+  merged_count: number;
+  opened_count: number;
+}
+
+/**
+ * Flow metrics for the selected week and the weeks before it, oldest first
+ */
+interface FlowMetricsHistory {
+  cycleTime: SeriesEntry<PercentileMetrics>[];
+  reviewWait: SeriesEntry<PercentileMetrics>[];
+  prSize: SeriesEntry<PRSizeCounts>[];
+  ciReliability: SeriesEntry<CIReliabilityMetrics>[];
+  mergedByMidweek: MergedByMidweekMetrics[]; // previous and selected week
+}
+
+// Number of weeks shown in the metric card sparklines
+const HISTORY_WEEKS = 12;
+
+/**
+ * Calculates status based on flow targets from METRICS_DEFINITIONS.md
+ */
+function calculateCycleTimeStatus(p50_hours: number | null): MetricStatus {
+  if (p50_hours === null) return "critical";
+  if (p50_hours < 4) return "success"; // Target: <4 hours
+  if (p50_hours < 24) return "warning"; // <1 day
+  return "critical";
+}
+
+function calculateReviewWaitStatus(p50_hours: number | null): MetricStatus {
+  if (p50_hours === null) return "critical";
+  if (p50_hours < 2) return "success"; // Target: <2 hours
+  if (p50_hours < 8) return "warning"; // <8 hours
+  return "critical";
+}
+
+function calculateFlakyRateStatus(percentage: number): MetricStatus {
+  if (percentage < 5) return "success"; // Target: <5%
+  if (percentage < 10) return "warning";
+  return "critical";
+}
+
+function calculateCISuccessRateStatus(percentage: number): MetricStatus {
+  if (percentage >= 80) return "success"; // Target: <20% failed runs
+  if (percentage >= 60) return "warning";
+  return "critical";
+}
+
+function calculateMergedByMidweekStatus(
+  percentage: number | null,
+): MetricStatus {
+  if (percentage === null) return "critical";
+  if (percentage > 70) return "success"; // Target: >70%
+  if (percentage > 50) return "warning";
+  return "critical";
+}
+
+/**
+ * Builds the query for a weekly time series ending with the given week
+ */
+function getWeeklySeriesQuery(week: string): string {
+  const [firstWeek] = getRecentWeeks(week, HISTORY_WEEKS);
+  const from = getWeekBoundaries(firstWeek).startDate;
+  const to = getWeekBoundaries(week).endDate;
+
+  return `from=${from.toISOString().slice(0, 10)}&to=${to.toISOString().slice(0, 10)}&granularity=week`;
+}
+
+async function fetchSeries<T>(path: string, query: string) {
+  const response = await fetch(`${path}?${query}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch metrics: ${response.statusText}`);
+  }
+
+  const data: SeriesResponse<T> = await response.json();
+  return data.series;
+}
+
+async function fetchMergedByMidweek(week: string) {
+  const response = await fetch(`/api/metrics/merged-by-midweek?week=${week}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch metrics: ${response.statusText}`);
+  }
+
+  const data: MergedByMidweekMetrics = await response.json();
+  return data;
+}
+
+/**
+ * Flow Dashboard Page Component
+ *
+ * Displays flow metrics (PR cycle time, review wait, PR size distribution,
+ * flaky test rate, CI success rate, PRs merged by Wednesday) with week
+ * selection, trend indicators, sparklines of the last 12 weeks, and
+ * responsive card layout.
+ * The selected week is kept in the URL, shared with the DORA dashboard.
+ */
+export default function FlowDashboardPage() {
+  // useSearchParams (URL filters) requires a Suspense boundary
+  return (
+    <React.Suspense>
+      <FlowDashboard />
+    </React.Suspense>
+  );
+}
+
+function FlowDashboard() {
+  const { week, project, setWeek } = useDashboardFilters();
+  const [history, setHistory] = React.useState<FlowMetricsHistory | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Fetch flow metrics for the selected week and the weeks before it
+  const fetchMetrics = React.useCallback(async (week: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = getWeeklySeriesQuery(week);
+      const [previousWeek] = getRecentWeeks(week, 2);
+
+      const [cycleTime, reviewWait, prSize, ciReliability, ...mergedByMidweek] =
+        await Promise.all([
+          fetchSeries<PercentileMetrics>("/api/metrics/pr-cycle-time", query),
+          fetchSeries<PercentileMetrics>("/api/metrics/review-wait", query),
+          fetchSeries<PRSizeCounts>("/api/metrics/pr-size-distribution", query),
+          fetchSeries<CIReliabilityMetrics>(
+            "/api/metrics/ci-reliability",
+            query,
+          ),
+          fetchMergedByMidweek(previousWeek),
+          fetchMergedByMidweek(week),
+        ]);
+
+      setHistory({
+        cycleTime,
+        reviewWait,
+        prSize,
+        ciReliability,
+        mergedByMidweek,
+      });
+    } catch (err) {
+      console.error("Error fetching flow metrics:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load metrics data",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Fetch metrics when week changes
+  React.useEffect(() => {
+    fetchMetrics(week);
+  }, [week, fetchMetrics]);
+
+  // Retry handler
+  const handleRetry = () => {
+    fetchMetrics(week);
+  };
+
+  // The series end with the selected week
+  const cycleTime = history?.cycleTime.at(-1) ?? null;
+  const reviewWait = history?.reviewWait.at(-1) ?? null;
+  const prSize = history?.prSize.at(-1) ?? null;
+  const ciReliability = history?.ciReliability.at(-1) ?? null;
+  const mergedByMidweek = history?.mergedByMidweek.at(-1) ?? null;
+
+  // Calculate trends
+  const cycleTimeTrend = calculateTrend(
+    cycleTime?.p50_hours ?? null,
+    history?.cycleTime.at(-2)?.p50_hours ?? null,
+  );
+
+  const reviewWaitTrend = calculateTrend(
+    reviewWait?.p50_hours ?? null,
+    history?.reviewWait.at(-2)?.p50_hours ?? null,
+  );
+
+  const flakyRateTrend = calculateTrend(
+    ciReliability?.flakyRate ?? null,
+    history?.ciReliability.at(-2)?.flakyRate ?? null,
+  );
+
+  const ciSuccessRateTrend = calculateTrend(
+    ciReliability?.successRate ?? null,
+    history?.ciReliability.at(-2)?.successRate ?? null,
+  );
+
+  const mergedByMidweekTrend = calculateTrend(
+    mergedByMidweek?.percentage ?? null,
+    history?.mergedByMidweek.at(-2)?.percentage ?? null,
+  );
+
+  return (
+    <div className="container mx-auto space-y-8 px-4 py-8">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold tracking-tight">
+            Flow Metrics Dashboard
+          </h1>
+          <p className="text-muted-foreground">
+            Track PR cycle time, review wait, PR size, flaky tests, CI success
+            rate, and PRs merged by Wednesday
+          </p>
+        </div>
+        <Link href={`/dashboard?${buildDashboardQuery({ week, project })}`}>
+          <Button variant="outline">DORA Metrics</Button>
+        </Link>
+      </div>
+
+      {/* Week Selector */}
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <label htmlFor="week-selector" className="sr-only">
+            Select week to view metrics
+          </label>
+          <WeekSelector
+            value={week}
+            onValueChange={setWeek}
+            ariaLabel="Select week to view flow metrics"
+          />
+        </div>
+      </div>
+
+      {/* Flow Metrics Cards */}
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        {/* PR Cycle Time */}
+        <MetricCard
+          name="PR Cycle Time"
+          value={
+            cycleTime?.p50_hours !== null && cycleTime?.p50_hours !== undefined
+              ? formatHours(cycleTime.p50_hours)
+              : null
+          }
+          unit="(median)"
+          description="Time from PR creation to merge"
+          status={
+            cycleTime
+              ? calculateCycleTimeStatus(cycleTime.p50_hours)
+              : "critical"
+          }
+          trend={cycleTimeTrend}
+          history={history?.cycleTime.map((week) => week.p50_hours)}
+          isLoading={isLoading}
+          error={error || undefined}
+          onRetry={handleRetry}
+          ariaLabel="PR cycle time metric card"
+        />
+
+        {/* PR Review Wait Time */}
+        <MetricCard
+          name="Review Wait Time"
+          value={
+            reviewWait?.p50_hours !== null &&
+            reviewWait?.p50_hours !== undefined
+              ? formatHours(reviewWait.p50_hours)
+              : null
+          }
+          unit="(median)"
+          description="Time from PR creation to first review"
+          status={
+            reviewWait
+              ? calculateReviewWaitStatus(reviewWait.p50_hours)
+              : "critical"
+          }
+          trend={reviewWaitTrend}
+          history={history?.reviewWait.map((week) => week.p50_hours)}
+          isLoading={isLoading}
+          error={error || undefined}
+          onRetry={handleRetry}
+          ariaLabel="Review wait time metric card"
+        />
+
+        {/* Flaky Test Rate */}
+        <MetricCard
+          name="Flaky Test Rate"
+          value={ciReliability ? ciReliability.flakyRate.toFixed(1) : null}
+          unit="%"
+          description="Percentage of CI runs flagged as flaky"
+          status={
+            ciReliability
+              ? calculateFlakyRateStatus(ciReliability.flakyRate)
+              : "critical"
+          }
+          trend={flakyRateTrend}
+          history={history?.ciReliability.map((week) => week.flakyRate)}
+          isLoading={isLoading}
+          error={error || undefined}
+          onRetry={handleRetry}
+          ariaLabel="Flaky test rate metric card"
+        />
+
+        {/* CI Success Rate */}
+        <MetricCard
+          name="CI Success Rate"
+          value={ciReliability ? ciReliability.successRate.toFixed(1) : null}
+          unit="%"
+          description="Percentage of CI runs that succeeded"
+          status={
+            ciReliability
+              ? calculateCISuccessRateStatus(ciReliability.successRate)
+              : "critical"
+          }
+          trend={ciSuccessRateTrend}
+          history={history?.ciReliability.map((week) => week.successRate)}
+          isLoading={isLoading}
+          error={error || undefined}
+          onRetry={handleRetry}
+          ariaLabel="CI success rate metric card"
+        />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* PR Size Histogram */}
+        <div className="lg:col-span-2">
+          <PRSizeHistogram
+            distribution={prSize}
+            isLoading={isLoading}
+            error={error || undefined}
+            onRetry={handleRetry}
+          />
+        </div>
+
+        {/* Merged by Wednesday */}
+        <MetricCard
+          name="Merged by Wednesday"
+          value={
+            mergedByMidweek?.percentage !== null &&
+            mergedByMidweek?.percentage !== undefined
+              ? mergedByMidweek.percentage.toFixed(1)
+              : null
+          }
+          unit="%"
+          description={
+            mergedByMidweek
+              ? `${mergedByMidweek.merged_count} of ${mergedByMidweek.opened_count} PRs opened Mon-Tue merged by Wednesday EOD`
+              : "PRs opened Mon-Tue merged by Wednesday EOD"
+          }
+          status={calculateMergedByMidweekStatus(
+            mergedByMidweek?.percentage ?? null,
+          )}
+          trend={mergedByMidweekTrend}
+          isLoading={isLoading}
+          error={error || undefined}
+          onRetry={handleRetry}
+          ariaLabel="Merged by Wednesday metric card"
+        />
+      </div>
+
+      {/* Footer Info */}
+      {cycleTime && !isLoading && !error && (
+        <div className="text-sm text-muted-foreground">
+          <p>
+            Showing metrics for {week} (
+            {new Date(cycleTime.startDate).toLocaleDateString()} -{" "}
+            {new Date(cycleTime.endDate).toLocaleDateString()})
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
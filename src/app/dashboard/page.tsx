@@ -1,19 +1,32 @@
 "use client";
 
+import Link from "next/link";
 import * as React from "react";
+import {
+  type BlockedPR,
+  BlockedPRsPanel,
+} from "@/components/dashboard/blocked-prs-panel";
 import {
   MetricCard,
   type MetricStatus,
 } from "@/components/dashboard/metric-card";
 import {
-  useWeekSelection,
-  WeekSelector,
-} from "@/components/dashboard/week-selector";
+  type DoraProjectMetrics,
+  ProjectComparisonTable,
+} from "@/components/dashboard/project-comparison-table";
+import { ProjectSelector } from "@/components/dashboard/project-selector";
+import {
+  buildDashboardQuery,
+  useDashboardFilters,
+} from "@/components/dashboard/use-dashboard-filters";
+import { WeekSelector } from "@/components/dashboard/week-selector";
+import { Button } from "@/components/ui/button";
+import { calculateTrend, formatHours } from "@/lib/utils/metric-format";
 
 /**
- * DORA Metrics Response Type
+ * DORA metrics for one week of the history response
  */
-interface DoraMetricsResponse {
+interface DoraWeekMetrics {
   deploymentFrequency: {
     count: number;
   };
@@ -35,9 +48,41 @@ interface DoraMetricsResponse {
   week: string;
   startDate: string;
   endDate: string;
+}
+
+/**
+ * DORA Metrics History Response Type (/api/metrics/dora/history)
+ */
+interface DoraHistoryResponse {
+  weeks: DoraWeekMetrics[];
+  week: string;
+  startDate: string;
+  endDate: string;
   project?: string;
 }
 
+/**
+ * Per-project DORA Metrics Response Type (/api/metrics/dora?allProjects=true)
+ */
+interface DoraProjectsResponse {
+  projects: Record<string, DoraProjectMetrics>;
+  week: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Blocked PRs Response Type (/api/prs/blocked)
+ */
+interface BlockedPRsResponse {
+  prs: BlockedPR[];
+  count: number;
+  asOf: string;
+}
+
+// Number of weeks shown in the metric card sparklines
+const HISTORY_WEEKS = 12;
+
 /**
  * Calculates status based on DORA target thresholds from METRICS_DEFINITIONS.md
  */
@@ -67,128 +112,126 @@ function calculateMTTRStatus(p50_hours: number | null): MetricStatus {
   return "critical";
 }
 
-/**
- * Formats hours to human-readable string
- */
-function formatHours(hours: number | null): string {
-  if (hours === null) return "N/A";
-  if (hours < 1) return `${Math.round(hours * 60)}m`;
-  if (hours < 24) return `${hours.toFixed(1)}h`;
-  return `${(hours / 24).toFixed(1)}d`;
-}
-
-/**
- * Trend type for metric comparisons
- */
-type Trend = "up" | "down" | "same";
-
-/**
- * Calculates trend direction by comparing current to previous value
- * Returns undefined if previous data is not available
- */
-function calculateTrend(
-  current: number | null,
-  previous: number | null,
-  threshold = 0.05, // 5% threshold for "same"
-): Trend | undefined {
-  if (current === null || previous === null || previous === 0) {
-    return undefined; // Not enough data to calculate trend
-  }
-
-  const percentChange = Math.abs((current - previous) / previous);
-
-  if (percentChange < threshold) {
-    return "same";
-  }
-
-  return current > previous ? "up" : "down";
-}
-
-/**
- * Gets the previous week identifier
- * e.g., "2025-W02" -> "2025-W01"
- */
-function getPreviousWeek(week: string): string {
-  const match = week.match(/^(\d{4})-W(\d{2})$/);
-  if (!match) return week;
-
-  const year = Number.parseInt(match[1], 10);
-  const weekNum = Number.parseInt(match[2], 10);
-
-  if (weekNum === 1) {
-    // Go to last week of previous year (assume 52 weeks)
-    return `${year - 1}-W52`;
-  }
-
-  return `${year}-W${String(weekNum - 1).padStart(2, "0")}`;
-}
-
 /**
  * Dashboard Page Component
  *
  * Displays DORA metrics (Deployment Frequency, Lead Time, CFR, MTTR)
- * with week selection, trend indicators, and responsive card layout.
+ * with week and project selection, trend indicators, sparklines of the last
+ * 12 weeks, currently blocked PRs, a per-project comparison table, and
+ * responsive card layout.
+ * The selected week and project are kept in the URL so links can be shared.
  */
 export default function DashboardPage() {
-  const { selectedWeek, setSelectedWeek } = useWeekSelection();
-  const [metrics, setMetrics] = React.useState<DoraMetricsResponse | null>(
-    null,
+  // useSearchParams (URL filters) requires a Suspense boundary
+  return (
+    <React.Suspense>
+      <DoraDashboard />
+    </React.Suspense>
   );
-  const [previousMetrics, setPreviousMetrics] =
-    React.useState<DoraMetricsResponse | null>(null);
+}
+
+function DoraDashboard() {
+  const { week, project, setWeek, setProject } = useDashboardFilters();
+  const [history, setHistory] = React.useState<DoraWeekMetrics[]>([]);
+  const [projects, setProjects] = React.useState<
+    Record<string, DoraProjectMetrics>
+  >({});
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
+  const [blockedPRs, setBlockedPRs] = React.useState<BlockedPR[]>([]);
+  const [isBlockedLoading, setIsBlockedLoading] = React.useState(true);
+  const [blockedError, setBlockedError] = React.useState<string | null>(null);
+
+  // Fetch DORA metrics for the selected week and the weeks before it,
+  // and the per-project breakdown of the selected week
+  const fetchMetrics = React.useCallback(
+    async (week: string, project: string | null) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const projectQuery = project
+          ? `&project=${encodeURIComponent(project)}`
+          : "";
+
+        const [historyResponse, projectsResponse] = await Promise.all([
+          fetch(
+            `/api/metrics/dora/history?weeks=${HISTORY_WEEKS}&week=${week}${projectQuery}`,
+          ),
+          fetch(`/api/metrics/dora?week=${week}&allProjects=true`),
+        ]);
+
+        for (const response of [historyResponse, projectsResponse]) {
+          if (!response.ok) {
+            throw new Error(`Failed to fetch metrics: ${response.statusText}`);
+          }
+        }
+
+        const historyData: DoraHistoryResponse = await historyResponse.json();
+        const projectsData: DoraProjectsResponse =
+          await projectsResponse.json();
+        setHistory(historyData.weeks);
+        setProjects(projectsData.projects);
+      } catch (err) {
+        console.error("Error fetching DORA metrics:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load metrics data",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [],
+  );
 
-  // Fetch DORA metrics for current and previous week
-  const fetchMetrics = React.useCallback(async (week: string) => {
-    setIsLoading(true);
-    setError(null);
+  // Fetch the currently blocked PRs (independent of the selected week), so
+  // a failure does not hide the DORA metrics
+  const fetchBlockedPRs = React.useCallback(async (project: string | null) => {
+    setIsBlockedLoading(true);
+    setBlockedError(null);
 
     try {
-      const previousWeek = getPreviousWeek(week);
-
-      // Fetch both current and previous week in parallel
-      const [currentResponse, previousResponse] = await Promise.all([
-        fetch(`/api/metrics/dora?week=${week}`),
-        fetch(`/api/metrics/dora?week=${previousWeek}`),
-      ]);
+      const response = await fetch(
+        project
+          ? `/api/prs/blocked?project=${encodeURIComponent(project)}`
+          : "/api/prs/blocked",
+      );
 
-      if (!currentResponse.ok) {
-        throw new Error(
-          `Failed to fetch metrics: ${currentResponse.statusText}`,
-        );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch blocked PRs: ${response.statusText}`);
       }
 
-      const currentData: DoraMetricsResponse = await currentResponse.json();
-      setMetrics(currentData);
-
-      // Previous week data is optional (might not exist for first week)
-      if (previousResponse.ok) {
-        const previousData: DoraMetricsResponse = await previousResponse.json();
-        setPreviousMetrics(previousData);
-      } else {
-        setPreviousMetrics(null);
-      }
+      const data: BlockedPRsResponse = await response.json();
+      setBlockedPRs(data.prs);
     } catch (err) {
-      console.error("Error fetching DORA metrics:", err);
-      setError(
-        err instanceof Error ? err.message : "Failed to load metrics data",
+      console.error("Error fetching blocked PRs:", err);
+      setBlockedError(
+        err instanceof Error ? err.message : "Failed to load blocked PRs",
       );
     } finally {
-      setIsLoading(false);
+      setIsBlockedLoading(false);
     }
   }, []);
 
-  // Fetch metrics when week changes
+  // Fetch metrics when week or project changes
+  React.useEffect(() => {
+    fetchMetrics(week, project);
+  }, [week, project, fetchMetrics]);
+
+  // Fetch blocked PRs when project changes
   React.useEffect(() => {
-    fetchMetrics(selectedWeek);
-  }, [selectedWeek, fetchMetrics]);
+    fetchBlockedPRs(project);
+  }, [project, fetchBlockedPRs]);
 
   // Retry handler
   const handleRetry = () => {
-    fetchMetrics(selectedWeek);
+    fetchMetrics(week, project);
   };
 
+  // The history ends with the selected week
+  const metrics = history.at(-1) ?? null;
+  const previousMetrics = history.at(-2) ?? null;
+
   // Calculate trends
   const deploymentFrequencyTrend = calculateTrend(
     metrics?.deploymentFrequency.count ?? null,
@@ -213,28 +256,41 @@ export default function DashboardPage() {
   return (
     <div className="container mx-auto space-y-8 px-4 py-8">
       {/* Header */}
-      <div className="space-y-2">
-        <h1 className="text-4xl font-bold tracking-tight">
-          DORA Metrics Dashboard
-        </h1>
-        <p className="text-muted-foreground">
-          Track deployment frequency, lead time, change failure rate, and mean
-          time to recovery
-        </p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold tracking-tight">
+            DORA Metrics Dashboard
+          </h1>
+          <p className="text-muted-foreground">
+            Track deployment frequency, lead time, change failure rate, and mean
+            time to recovery
+          </p>
+        </div>
+        <Link
+          href={`/dashboard/flow?${buildDashboardQuery({ week, project })}`}
+        >
+          <Button variant="outline">Flow Metrics</Button>
+        </Link>
       </div>
 
-      {/* Week Selector */}
-      <div className="flex items-center justify-between">
-        <div className="flex-1">
+      {/* Week and Project Selectors */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+        <div>
           <label htmlFor="week-selector" className="sr-only">
             Select week to view metrics
           </label>
           <WeekSelector
-            value={selectedWeek}
-            onValueChange={setSelectedWeek}
+            value={week}
+            onValueChange={setWeek}
             ariaLabel="Select week to view DORA metrics"
           />
         </div>
+        <ProjectSelector
+          value={project}
+          projects={Object.keys(projects)}
+          onValueChange={setProject}
+          ariaLabel="Select project to view DORA metrics"
+        />
       </div>
 
       {/* DORA Metrics Cards */}
@@ -253,6 +309,7 @@ export default function DashboardPage() {
               : "critical"
           }
           trend={deploymentFrequencyTrend}
+          history={history.map((week) => week.deploymentFrequency.count)}
           isLoading={isLoading}
           error={error || undefined}
           onRetry={handleRetry}
@@ -276,6 +333,7 @@ export default function DashboardPage() {
               : "critical"
           }
           trend={leadTimeTrend}
+          history={history.map((week) => week.leadTime.p50_hours)}
           isLoading={isLoading}
           error={error || undefined}
           onRetry={handleRetry}
@@ -300,6 +358,7 @@ export default function DashboardPage() {
               : "critical"
           }
           trend={changeFailureRateTrend}
+          history={history.map((week) => week.changeFailureRate.percentage)}
           isLoading={isLoading}
           error={error || undefined}
           onRetry={handleRetry}
@@ -321,6 +380,7 @@ export default function DashboardPage() {
             metrics ? calculateMTTRStatus(metrics.mttr.p50_hours) : "critical"
           }
           trend={mttrTrend}
+          history={history.map((week) => week.mttr.p50_hours)}
           isLoading={isLoading}
           error={error || undefined}
           onRetry={handleRetry}
@@ -328,12 +388,34 @@ export default function DashboardPage() {
         />
       </div>
 
+      {/* Blocked PRs (current, independent of the selected week) */}
+      <BlockedPRsPanel
+        prs={blockedPRs}
+        isLoading={isBlockedLoading}
+        error={blockedError || undefined}
+        onRetry={() => fetchBlockedPRs(project)}
+      />
+
+      {/* Project Comparison */}
+      {!isLoading && !error && (
+        <section className="space-y-4" aria-labelledby="project-comparison">
+          <h2 id="project-comparison" className="text-2xl font-semibold">
+            Projects
+          </h2>
+          <ProjectComparisonTable
+            projects={projects}
+            selectedProject={project}
+            onSelectProject={setProject}
+          />
+        </section>
+      )}
+
       {/* Footer Info */}
       {metrics && !isLoading && !error && (
         <div className="text-sm text-muted-foreground">
           <p>
-            Showing metrics for {metrics.week} (
-            {new Date(metrics.startDate).toLocaleDateString()} -{" "}
+            Showing metrics{project ? ` for ${project}` : ""} for {metrics.week}{" "}
+            ({new Date(metrics.startDate).toLocaleDateString()} -{" "}
             {new Date(metrics.endDate).toLocaleDateString()})
           </p>
         </div>
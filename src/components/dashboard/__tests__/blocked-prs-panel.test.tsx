@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { type BlockedPR, BlockedPRsPanel } from "../blocked-prs-panel";
+
+// Cleanup after each test to prevent test pollution
+afterEach(() => {
+  cleanup();
+});
+
+describe("BlockedPRsPanel Component", () => {
+  const prs: BlockedPR[] = [
+    {
+      prNumber: 42,
+      title: "Add invoice export",
+      author: "Jane Doe",
+      projectName: "shop",
+      repoName: "billing",
+      createdAt: "2025-01-05T12:00:00.000Z",
+      ageHours: 120,
+      reason: "no-review",
+      url: "https://dev.azure.com/acme/shop/_git/billing/pullrequest/42",
+    },
+    {
+      prNumber: 43,
+      title: "Upgrade payment SDK",
+      author: "John Smith",
+      projectName: "shop",
+      repoName: "checkout",
+      createdAt: "2025-01-09T12:00:00.000Z",
+      ageHours: 24,
+      reason: "label",
+      url: "https://dev.azure.com/acme/shop/_git/checkout/pullrequest/43",
+    },
+  ];
+
+  test("should link each PR to Azure DevOps", () => {
+    render(<BlockedPRsPanel prs={prs} />);
+
+    const link = screen.getByRole("link", { name: /#42 Add invoice export/ });
+    expect(link).toHaveAttribute("href", prs[0].url);
+    expect(link).toHaveAttribute("target", "_blank");
+  });
+
+  test("should show repository, author, age and reason", () => {
+    render(<BlockedPRsPanel prs={prs} />);
+
+    expect(
+      screen.getByText(/shop\/billing · Jane Doe · open 5\.0d/),
+    ).toBeInTheDocument();
+    expect(screen.getByText("No review for 3+ days")).toBeInTheDocument();
+    expect(screen.getByText("Labelled blocked")).toBeInTheDocument();
+    expect(screen.getByLabelText("Blocked PRs: 2")).toBeInTheDocument();
+  });
+
+  test("should render an empty state", () => {
+    render(<BlockedPRsPanel prs={[]} />);
+
+    expect(screen.getByText("No blocked PRs")).toBeInTheDocument();
+    expect(screen.getByLabelText("Blocked PRs: 0")).toBeInTheDocument();
+  });
+
+  test("should render loading and error states", () => {
+    const { rerender } = render(<BlockedPRsPanel prs={[]} isLoading={true} />);
+    expect(screen.getByLabelText("Loading blocked PRs")).toBeInTheDocument();
+
+    rerender(
+      <BlockedPRsPanel prs={[]} error="Failed to load" onRetry={() => {}} />,
+    );
+    expect(screen.getByRole("alert")).toHaveTextContent("Failed to load");
+    expect(
+      screen.getByLabelText("Retry loading blocked PRs"),
+    ).toBeInTheDocument();
+  });
+});
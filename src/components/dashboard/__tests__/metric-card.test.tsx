@@ -153,6 +153,29 @@ describe("MetricCard Component", () => {
     });
   });
 
+  describe("Sparkline", () => {
+    test("should render sparkline when history is provided", () => {
+      render(<MetricCard {...defaultProps} history={[3, 5, null, 7]} />);
+      expect(
+        screen.getByRole("img", {
+          name: "Deployment Frequency over the last 4 periods",
+        }),
+      ).toBeInTheDocument();
+    });
+
+    test("should not render sparkline when history is not provided", () => {
+      render(<MetricCard {...defaultProps} />);
+      expect(screen.queryByRole("img")).not.toBeInTheDocument();
+    });
+
+    test("should not render sparkline when loading", () => {
+      render(
+        <MetricCard {...defaultProps} history={[3, 5, 7]} isLoading={true} />,
+      );
+      expect(screen.queryByRole("img")).not.toBeInTheDocument();
+    });
+  });
+
   describe("Loading State", () => {
     test("should render loading spinner when isLoading is true", () => {
       render(<MetricCard {...defaultProps} isLoading={true} />);
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import {
+  calculatePRSizeStatus,
+  type PRSizeCounts,
+  PRSizeHistogram,
+} from "../pr-size-histogram";
+
+// Cleanup after each test to prevent test pollution
+afterEach(() => {
+  cleanup();
+});
+
+describe("PRSizeHistogram Component", () => {
+  const distribution: PRSizeCounts = {
+    xs: 6,
+    s: 2,
+    m: 1,
+    l: 1,
+    xl: 0,
+    total: 10,
+    percentages: { xs: 60, s: 20, m: 10, l: 10, xl: 0 },
+  };
+
+  describe("calculatePRSizeStatus", () => {
+    test("should compare the share of small PRs to the 80% target", () => {
+      expect(calculatePRSizeStatus(80)).toBe("success");
+      expect(calculatePRSizeStatus(65)).toBe("warning");
+      expect(calculatePRSizeStatus(40)).toBe("critical");
+    });
+  });
+
+  describe("Rendering", () => {
+    test("should render one bar per size bucket", () => {
+      render(<PRSizeHistogram distribution={distribution} />);
+
+      expect(screen.getAllByRole("listitem")).toHaveLength(5);
+      expect(
+        screen.getByLabelText("XS (0-50 lines): 6 PRs"),
+      ).toBeInTheDocument();
+      expect(screen.getAllByText("1 (10%)")).toHaveLength(2);
+    });
+
+    test("should show the share of small PRs", () => {
+      render(<PRSizeHistogram distribution={distribution} />);
+
+      expect(screen.getByText("80.0% S or smaller")).toBeInTheDocument();
+    });
+
+    test("should render an empty state without merged PRs", () => {
+      render(
+        <PRSizeHistogram
+          distribution={{
+            xs: 0,
+            s: 0,
+            m: 0,
+            l: 0,
+            xl: 0,
+            total: 0,
+            percentages: { xs: 0, s: 0, m: 0, l: 0, xl: 0 },
+          }}
+        />,
+      );
+
+      expect(
+        screen.getByText("No merged PRs in this period"),
+      ).toBeInTheDocument();
+      expect(screen.queryByText("0.0% S or smaller")).not.toBeInTheDocument();
+    });
+
+    test("should render loading and error states", () => {
+      const { rerender } = render(
+        <PRSizeHistogram distribution={null} isLoading={true} />,
+      );
+      expect(screen.getByLabelText("Loading metric data")).toBeInTheDocument();
+
+      rerender(
+        <PRSizeHistogram
+          distribution={null}
+          error="Failed to load"
+          onRetry={() => {}}
+        />,
+      );
+      expect(screen.getByRole("alert")).toHaveTextContent("Failed to load");
+      expect(screen.getByLabelText("Retry loading metric")).toBeInTheDocument();
+    });
+  });
+});
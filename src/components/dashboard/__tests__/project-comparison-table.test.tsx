@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import "@testing-library/jest-dom";
+import {
+  type DoraProjectMetrics,
+  ProjectComparisonTable,
+} from "../project-comparison-table";
+
+// Cleanup after each test to prevent test pollution
+afterEach(() => {
+  cleanup();
+});
+
+function projectMetrics(
+  deployments: number,
+  leadTimeHours: number | null,
+): DoraProjectMetrics {
+  return {
+    deploymentFrequency: { count: deployments },
+    leadTime: { p50_hours: leadTimeHours, p90_hours: leadTimeHours },
+    changeFailureRate: {
+      percentage: deployments > 0 ? 25 : 0,
+      total_count: deployments,
+    },
+    mttr: { p50_hours: null, p90_hours: null },
+  };
+}
+
+describe("ProjectComparisonTable Component", () => {
+  const projects = {
+    checkout: projectMetrics(4, 30),
+    billing: projectMetrics(0, null),
+  };
+
+  test("should render one row per project sorted by name", () => {
+    render(<ProjectComparisonTable projects={projects} />);
+
+    const rows = screen.getAllByRole("row");
+    expect(rows).toHaveLength(3); // header + 2 projects
+    expect(rows[1]).toHaveTextContent("billing");
+    expect(rows[2]).toHaveTextContent("checkout");
+  });
+
+  test("should format metric values", () => {
+    render(<ProjectComparisonTable projects={projects} />);
+
+    const [, billing, checkout] = screen.getAllByRole("row");
+    expect(checkout).toHaveTextContent("1.3d");
+    expect(checkout).toHaveTextContent("25.0%");
+    expect(billing).toHaveTextContent("N/A");
+  });
+
+  test("should highlight the selected project", () => {
+    render(
+      <ProjectComparisonTable projects={projects} selectedProject="checkout" />,
+    );
+
+    const [, billing, checkout] = screen.getAllByRole("row");
+    expect(checkout).toHaveAttribute("data-state", "selected");
+    expect(billing).not.toHaveAttribute("data-state");
+  });
+
+  test("should drill down when a project is clicked", async () => {
+    const handleSelect = mock(() => {});
+    const user = userEvent.setup();
+
+    render(
+      <ProjectComparisonTable
+        projects={projects}
+        onSelectProject={handleSelect}
+      />,
+    );
+    await user.click(screen.getByLabelText("Show metrics for checkout"));
+
+    expect(handleSelect).toHaveBeenCalledWith("checkout");
+  });
+
+  test("should render an empty state without projects", () => {
+    render(<ProjectComparisonTable projects={{}} />);
+
+    expect(
+      screen.getByText("No project activity in this week"),
+    ).toBeInTheDocument();
+    expect(screen.queryByRole("table")).not.toBeInTheDocument();
+  });
+});
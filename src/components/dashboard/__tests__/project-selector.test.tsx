@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import {
+  ProjectSelector,
+  type ProjectSelectorProps,
+} from "../project-selector";
+
+// Cleanup after each test to prevent test pollution
+afterEach(() => {
+  cleanup();
+});
+
+describe("ProjectSelector Component", () => {
+  const defaultProps: ProjectSelectorProps = {
+    value: null,
+    projects: ["checkout", "billing"],
+    onValueChange: () => {},
+  };
+
+  test("should show all projects when none is selected", () => {
+    render(<ProjectSelector {...defaultProps} />);
+
+    expect(screen.getByRole("combobox")).toHaveTextContent("All projects");
+  });
+
+  test("should show the selected project", () => {
+    render(<ProjectSelector {...defaultProps} value="billing" />);
+
+    expect(screen.getByRole("combobox")).toHaveTextContent("billing");
+  });
+
+  test("should show a selected project without data", () => {
+    render(<ProjectSelector {...defaultProps} value="archived" />);
+
+    expect(screen.getByRole("combobox")).toHaveTextContent("archived");
+  });
+
+  test("should render with default and custom aria-labels", () => {
+    const { rerender } = render(<ProjectSelector {...defaultProps} />);
+    expect(
+      screen.getByLabelText("Select project to view metrics"),
+    ).toBeInTheDocument();
+
+    rerender(<ProjectSelector {...defaultProps} ariaLabel="Choose project" />);
+    expect(screen.getByLabelText("Choose project")).toBeInTheDocument();
+  });
+
+  test("should accept disabled prop", () => {
+    render(<ProjectSelector {...defaultProps} disabled={true} />);
+
+    expect(screen.getByRole("combobox")).toBeDisabled();
+  });
+});
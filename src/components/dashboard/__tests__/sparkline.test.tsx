@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { cleanup, render, screen } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { getSparklinePath, Sparkline } from "../sparkline";
+
+// Cleanup after each test to prevent test pollution
+afterEach(() => {
+  cleanup();
+});
+
+describe("Sparkline Component", () => {
+  describe("getSparklinePath", () => {
+    test("should scale values to the drawing area", () => {
+      expect(getSparklinePath([0, 5, 10])).toBe(
+        "M0.00 22.00 L50.00 12.00 L100.00 2.00",
+      );
+    });
+
+    test("should leave gaps for periods without data", () => {
+      expect(getSparklinePath([1, null, 2, 3])).toBe(
+        "M0.00 22.00 M66.67 12.00 L100.00 2.00",
+      );
+    });
+
+    test("should draw flat series through the middle", () => {
+      expect(getSparklinePath([4, 4])).toBe("M0.00 12.00 L100.00 12.00");
+    });
+
+    test("should return an empty path without data", () => {
+      expect(getSparklinePath([])).toBe("");
+      expect(getSparklinePath([null, null])).toBe("");
+    });
+  });
+
+  describe("Rendering", () => {
+    test("should render an accessible chart", () => {
+      render(<Sparkline values={[1, 2, 3]} ariaLabel="Last 3 weeks" />);
+
+      const chart = screen.getByRole("img", { name: "Last 3 weeks" });
+      expect(chart).toBeInTheDocument();
+      expect(chart.querySelector("path")).toHaveAttribute(
+        "d",
+        "M0.00 22.00 L50.00 12.00 L100.00 2.00",
+      );
+    });
+
+    test("should render nothing without data", () => {
+      render(<Sparkline values={[null, null]} ariaLabel="Last 2 weeks" />);
+
+      expect(screen.queryByRole("img")).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { getCurrentWeek } from "@/lib/utils/week";
+import {
+  buildDashboardQuery,
+  parseDashboardFilters,
+} from "../use-dashboard-filters";
+
+describe("Dashboard Filters", () => {
+  describe("parseDashboardFilters", () => {
+    test("should read week and project from the URL", () => {
+      expect(
+        parseDashboardFilters(
+          new URLSearchParams("week=2025-W02&project=billing"),
+        ),
+      ).toEqual({ week: "2025-W02", project: "billing" });
+    });
+
+    test("should default to the current week and all projects", () => {
+      expect(parseDashboardFilters(new URLSearchParams(""))).toEqual({
+        week: getCurrentWeek(),
+        project: null,
+      });
+    });
+
+    test("should ignore invalid weeks and empty projects", () => {
+      expect(
+        parseDashboardFilters(new URLSearchParams("week=2025-W99&project=")),
+      ).toEqual({ week: getCurrentWeek(), project: null });
+    });
+  });
+
+  describe("buildDashboardQuery", () => {
+    test("should include the project only when selected", () => {
+      expect(buildDashboardQuery({ week: "2025-W02", project: null })).toBe(
+        "week=2025-W02",
+      );
+      expect(
+        buildDashboardQuery({ week: "2025-W02", project: "my project" }),
+      ).toBe("week=2025-W02&project=my+project");
+    });
+
+    test("should round-trip through parseDashboardFilters", () => {
+      const filters = { week: "2020-W53", project: "billing & payments" };
+
+      expect(
+        parseDashboardFilters(
+          new URLSearchParams(buildDashboardQuery(filters)),
+        ),
+      ).toEqual(filters);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+"use client";
+
+import { AlertCircle, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatHours } from "@/lib/utils/metric-format";
+
+/**
+ * Blocked PR, as returned by /api/prs/blocked
+ */
+export interface BlockedPR {
+  prNumber: number;
+  title: string;
+  author: string;
+  projectName: string;
+  repoName: string;
+  createdAt: string;
+  ageHours: number;
+  reason: "label" | "no-review";
+  url: string;
+}
+
+export interface BlockedPRsPanelProps {
+  /**
+   * Blocked PRs, oldest first
+   */
+  prs: BlockedPR[];
+
+  /**
+   * Whether the list is currently loading
+   */
+  isLoading?: boolean;
+
+  /**
+   * Error message if the list failed to load
+   */
+  error?: string;
+
+  /**
+   * Callback for retry button when error occurs
+   */
+  onRetry?: () => void;
+}
+
+const reasonLabels: Record<BlockedPR["reason"], string> = {
+  label: "Labelled blocked",
+  "no-review": "No review for 3+ days",
+};
+
+/**
+ * BlockedPRsPanel Component
+ *
+ * Lists currently blocked PRs for the daily standup. Each PR links to its
+ * pull request page in Azure DevOps.
+ *
+ * @example
+ * ```tsx
+ * <BlockedPRsPanel prs={data.prs} isLoading={false} />
+ * ```
+ */
+export function BlockedPRsPanel({
+  prs,
+  isLoading = false,
+  error,
+  onRetry,
+}: BlockedPRsPanelProps) {
+  return (
+    <section aria-label="Blocked PRs">
+      <Card className="w-full">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <CardTitle className="text-lg">Blocked PRs</CardTitle>
+              <CardDescription className="mt-1">
+                Open PRs labelled blocked or waiting more than 3 days for a
+                review (target: 0)
+              </CardDescription>
+            </div>
+            {!isLoading && !error && (
+              <Badge
+                className={
+                  prs.length === 0
+                    ? "bg-green-500 text-white"
+                    : "bg-red-500 text-white"
+                }
+                aria-label={`Blocked PRs: ${prs.length}`}
+              >
+                {prs.length}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              {/* biome-ignore lint/a11y/useSemanticElements: Custom spinner styling requires div */}
+              <div
+                className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"
+                role="status"
+                aria-label="Loading blocked PRs"
+              />
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center space-y-4 py-8">
+              <AlertCircle
+                className="h-12 w-12 text-destructive"
+                aria-hidden="true"
+              />
+              <p className="text-sm text-muted-foreground" role="alert">
+                {error}
+              </p>
+              {onRetry && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onRetry}
+                  aria-label="Retry loading blocked PRs"
+                >
+                  Retry
+                </Button>
+              )}
+            </div>
+          ) : prs.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No blocked PRs
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {prs.map((pr) => (
+                <li
+                  key={pr.url}
+                  className="flex flex-wrap items-center justify-between gap-2 py-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <a
+                      href={pr.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 font-medium underline-offset-4 hover:underline"
+                    >
+                      #{pr.prNumber} {pr.title}
+                      <ExternalLink className="h-3 w-3" aria-hidden="true" />
+                    </a>
+                    <p className="text-sm text-muted-foreground">
+                      {pr.projectName}/{pr.repoName} · {pr.author} · open{" "}
+                      {formatHours(pr.ageHours)}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{reasonLabels[pr.reason]}</Badge>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
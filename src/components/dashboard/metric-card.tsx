@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { Sparkline } from "./sparkline";
 
 export type MetricStatus = "success" | "warning" | "critical";
 
@@ -51,6 +52,11 @@ export interface MetricCardProps {
    */
   trend?: "up" | "down" | "same";
 
+  /**
+   * Recent values for a sparkline, oldest first (null for periods without data)
+   */
+  history?: Array<number | null>;
+
   /**
    * Whether the metric is currently loading
    */
@@ -79,6 +85,7 @@ export interface MetricCardProps {
  * - Metric name and value
  * - Color-coded status badge (green/yellow/red)
  * - Trend indicator (up/down/same)
+ * - Optional sparkline of recent values
  * - Loading and error states
  * - Accessibility support
  *
@@ -101,6 +108,7 @@ export function MetricCard({
   description,
   status,
   trend,
+  history,
   isLoading = false,
   error,
   onRetry,
@@ -197,37 +205,46 @@ export function MetricCard({
             )}
           </div>
         ) : (
-          <div className="flex items-baseline justify-between">
-            <div className="flex items-baseline space-x-2">
-              {/* biome-ignore lint/a11y/useAriaPropsSupportedByRole: aria-label provides screen reader context for metric value */}
-              <span
-                className="text-4xl font-bold"
-                aria-label={`Value: ${formattedValue}${unit ? ` ${unit}` : ""}`}
-              >
-                {formattedValue}
-              </span>
-              {unit && (
-                <span className="text-lg text-muted-foreground">{unit}</span>
+          <div className="space-y-4">
+            <div className="flex items-baseline justify-between">
+              <div className="flex items-baseline space-x-2">
+                {/* biome-ignore lint/a11y/useAriaPropsSupportedByRole: aria-label provides screen reader context for metric value */}
+                <span
+                  className="text-4xl font-bold"
+                  aria-label={`Value: ${formattedValue}${unit ? ` ${unit}` : ""}`}
+                >
+                  {formattedValue}
+                </span>
+                {unit && (
+                  <span className="text-lg text-muted-foreground">{unit}</span>
+                )}
+              </div>
+
+              {TrendIcon && (
+                // biome-ignore lint/a11y/useAriaPropsSupportedByRole: aria-label provides screen reader context for trend direction
+                <div
+                  className={cn("flex items-center space-x-1", {
+                    "text-green-600": trend === "up",
+                    "text-red-600": trend === "down",
+                    "text-gray-600": trend === "same",
+                  })}
+                  aria-label={`Trend: ${trend}`}
+                >
+                  <TrendIcon className="h-5 w-5" aria-hidden="true" />
+                  <span className="sr-only">
+                    {trend === "up" && "Trending up"}
+                    {trend === "down" && "Trending down"}
+                    {trend === "same" && "No change"}
+                  </span>
+                </div>
               )}
             </div>
 
-            {TrendIcon && (
-              // biome-ignore lint/a11y/useAriaPropsSupportedByRole: aria-label provides screen reader context for trend direction
-              <div
-                className={cn("flex items-center space-x-1", {
-                  "text-green-600": trend === "up",
-                  "text-red-600": trend === "down",
-                  "text-gray-600": trend === "same",
-                })}
-                aria-label={`Trend: ${trend}`}
-              >
-                <TrendIcon className="h-5 w-5" aria-hidden="true" />
-                <span className="sr-only">
-                  {trend === "up" && "Trending up"}
-                  {trend === "down" && "Trending down"}
-                  {trend === "same" && "No change"}
-                </span>
-              </div>
+            {history && (
+              <Sparkline
+                values={history}
+                ariaLabel={`${name} over the last ${history.length} periods`}
+              />
             )}
           </div>
         )}
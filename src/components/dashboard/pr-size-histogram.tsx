@@ -0,0 +1,191 @@
+"use client";
+
+import { AlertCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { MetricStatus } from "./metric-card";
+
+/**
+ * PR counts per size bucket, as returned by /api/metrics/pr-size-distribution
+ */
+export interface PRSizeCounts {
+  xs: number;
+  s: number;
+  m: number;
+  l: number;
+  xl: number;
+  total: number;
+  percentages: {
+    xs: number;
+    s: number;
+    m: number;
+    l: number;
+    xl: number;
+  };
+}
+
+export interface PRSizeHistogramProps {
+  /**
+   * Size distribution to display (null when not loaded)
+   */
+  distribution: PRSizeCounts | null;
+
+  /**
+   * Whether the distribution is currently loading
+   */
+  isLoading?: boolean;
+
+  /**
+   * Error message if the distribution failed to load
+   */
+  error?: string;
+
+  /**
+   * Callback for retry button when error occurs
+   */
+  onRetry?: () => void;
+}
+
+const BUCKETS = [
+  { key: "xs", label: "XS", range: "0-50 lines" },
+  { key: "s", label: "S", range: "51-200 lines" },
+  { key: "m", label: "M", range: "201-500 lines" },
+  { key: "l", label: "L", range: "501-1000 lines" },
+  { key: "xl", label: "XL", range: "1000+ lines" },
+] as const;
+
+/**
+ * Status based on the share of small PRs (target: 80% S or smaller)
+ */
+export function calculatePRSizeStatus(smallPercentage: number): MetricStatus {
+  if (smallPercentage >= 80) return "success";
+  if (smallPercentage >= 60) return "warning";
+  return "critical";
+}
+
+const statusClassNames: Record<MetricStatus, string> = {
+  success: "bg-green-500",
+  warning: "bg-yellow-500",
+  critical: "bg-red-500",
+};
+
+/**
+ * PRSizeHistogram Component
+ *
+ * Displays merged PRs per size bucket (XS to XL) as horizontal bars, colored
+ * by whether the share of small PRs meets the target.
+ *
+ * @example
+ * ```tsx
+ * <PRSizeHistogram distribution={data} isLoading={false} />
+ * ```
+ */
+export function PRSizeHistogram({
+  distribution,
+  isLoading = false,
+  error,
+  onRetry,
+}: PRSizeHistogramProps) {
+  const smallPercentage = distribution
+    ? distribution.percentages.xs + distribution.percentages.s
+    : 0;
+  const status = calculatePRSizeStatus(smallPercentage);
+
+  return (
+    // biome-ignore lint/a11y/useSemanticElements: Card component requires role="article" for proper accessibility
+    <Card className="w-full" aria-label="PR size distribution" role="article">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <CardTitle className="text-lg">PR Size Distribution</CardTitle>
+            <CardDescription className="mt-1">
+              Merged PRs by lines changed (target: 80% S or smaller)
+            </CardDescription>
+          </div>
+          {!isLoading && !error && distribution && distribution.total > 0 && (
+            <Badge
+              className={cn("text-white", statusClassNames[status])}
+              aria-label={`Small PRs: ${smallPercentage.toFixed(1)}%`}
+            >
+              {smallPercentage.toFixed(1)}% S or smaller
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            {/* biome-ignore lint/a11y/useSemanticElements: Custom spinner styling requires div */}
+            <div
+              className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"
+              role="status"
+              aria-label="Loading metric data"
+            />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center space-y-4 py-8">
+            <AlertCircle
+              className="h-12 w-12 text-destructive"
+              aria-hidden="true"
+            />
+            <p className="text-sm text-muted-foreground" role="alert">
+              {error}
+            </p>
+            {onRetry && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onRetry}
+                aria-label="Retry loading metric"
+              >
+                Retry
+              </Button>
+            )}
+          </div>
+        ) : !distribution || distribution.total === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No merged PRs in this period
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {BUCKETS.map(({ key, label, range }) => (
+              <li
+                key={key}
+                className="grid grid-cols-[3rem_1fr_6rem] items-center gap-3 text-sm"
+                aria-label={`${label} (${range}): ${distribution[key]} PRs`}
+              >
+                <span className="font-medium" title={range}>
+                  {label}
+                </span>
+                <div className="h-3 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className={cn(
+                      "h-full rounded-full",
+                      key === "xs" || key === "s"
+                        ? "bg-primary"
+                        : "bg-muted-foreground",
+                    )}
+                    style={{ width: `${distribution.percentages[key]}%` }}
+                  />
+                </div>
+                <span className="text-right text-muted-foreground">
+                  {distribution[key]} (
+                  {distribution.percentages[key].toFixed(0)}%)
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatHours } from "@/lib/utils/metric-format";
+
+/**
+ * DORA metrics of one project, as returned by /api/metrics/dora?allProjects=true
+ */
+export interface DoraProjectMetrics {
+  deploymentFrequency: { count: number };
+  leadTime: { p50_hours: number | null; p90_hours: number | null };
+  changeFailureRate: { percentage: number; total_count: number };
+  mttr: { p50_hours: number | null; p90_hours: number | null };
+}
+
+export interface ProjectComparisonTableProps {
+  /**
+   * Metrics keyed by project name
+   */
+  projects: Record<string, DoraProjectMetrics>;
+
+  /**
+   * Currently selected project, highlighted in the table
+   */
+  selectedProject?: string | null;
+
+  /**
+   * Callback when a project is chosen for drill-down
+   */
+  onSelectProject?: (project: string) => void;
+}
+
+/**
+ * ProjectComparisonTable Component
+ *
+ * Compares the four DORA metrics across projects for one week. Project names
+ * are buttons that drill down into a single project.
+ *
+ * @example
+ * ```tsx
+ * <ProjectComparisonTable
+ *   projects={data.projects}
+ *   selectedProject={project}
+ *   onSelectProject={setProject}
+ * />
+ * ```
+ */
+export function ProjectComparisonTable({
+  projects,
+  selectedProject,
+  onSelectProject,
+}: ProjectComparisonTableProps) {
+  const rows = Object.entries(projects).sort(([a], [b]) => a.localeCompare(b));
+
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No project activity in this week
+      </p>
+    );
+  }
+
+  return (
+    <Table aria-label="DORA metrics by project">
+      <TableCaption>DORA metrics by project for the selected week</TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Project</TableHead>
+          <TableHead className="text-right">Deployments</TableHead>
+          <TableHead className="text-right">Lead Time (median)</TableHead>
+          <TableHead className="text-right">Change Failure Rate</TableHead>
+          <TableHead className="text-right">MTTR (median)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(([project, metrics]) => (
+          <TableRow
+            key={project}
+            data-state={project === selectedProject ? "selected" : undefined}
+            aria-selected={project === selectedProject}
+          >
+            <TableCell className="font-medium">
+              {onSelectProject ? (
+                <button
+                  type="button"
+                  className="underline-offset-4 hover:underline"
+                  onClick={() => onSelectProject(project)}
+                  aria-label={`Show metrics for ${project}`}
+                >
+                  {project}
+                </button>
+              ) : (
+                project
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {metrics.deploymentFrequency.count}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatHours(metrics.leadTime.p50_hours)}
+            </TableCell>
+            <TableCell className="text-right">
+              {metrics.changeFailureRate.total_count > 0
+                ? `${metrics.changeFailureRate.percentage.toFixed(1)}%`
+                : "N/A"}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatHours(metrics.mttr.p50_hours)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
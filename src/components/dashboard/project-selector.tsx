@@ -0,0 +1,96 @@
+"use client";
+
+import * as React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Select items cannot have an empty value, so "all projects" gets its own
+const ALL_PROJECTS = "__all__";
+
+export interface ProjectSelectorProps {
+  /**
+   * Currently selected project (null for all projects)
+   */
+  value: string | null;
+
+  /**
+   * Project names to choose from
+   */
+  projects: string[];
+
+  /**
+   * Callback when project selection changes (null for all projects)
+   */
+  onValueChange: (project: string | null) => void;
+
+  /**
+   * Whether the selector is disabled
+   */
+  disabled?: boolean;
+
+  /**
+   * Custom aria-label for accessibility
+   */
+  ariaLabel?: string;
+}
+
+/**
+ * ProjectSelector Component
+ *
+ * A dropdown selector for narrowing metrics to a single project.
+ * The first option shows organization-wide totals.
+ *
+ * @example
+ * ```tsx
+ * <ProjectSelector
+ *   value={project}
+ *   projects={["billing", "checkout"]}
+ *   onValueChange={setProject}
+ * />
+ * ```
+ */
+export function ProjectSelector({
+  value,
+  projects,
+  onValueChange,
+  disabled = false,
+  ariaLabel = "Select project to view metrics",
+}: ProjectSelectorProps) {
+  // Keep the selected project listed even when it has no data
+  const options = React.useMemo(() => {
+    const names = new Set(projects);
+    if (value) {
+      names.add(value);
+    }
+    return [...names].sort((a, b) => a.localeCompare(b));
+  }, [projects, value]);
+
+  return (
+    <Select
+      value={value ?? ALL_PROJECTS}
+      onValueChange={(selected) =>
+        onValueChange(selected === ALL_PROJECTS ? null : selected)
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-full sm:w-[260px]" aria-label={ariaLabel}>
+        <SelectValue placeholder="Select a project">
+          {value ?? "All projects"}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+        {options.map((project) => (
+          <SelectItem key={project} value={project}>
+            {project}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,98 @@
+import { cn } from "@/lib/utils";
+
+export interface SparklineProps {
+  /**
+   * Values in chronological order (null for periods without data)
+   */
+  values: Array<number | null>;
+
+  /**
+   * Accessible description of the chart
+   */
+  ariaLabel: string;
+
+  /**
+   * Additional classes for the SVG element
+   */
+  className?: string;
+}
+
+// Drawing area; the SVG scales to its container
+const WIDTH = 100;
+const HEIGHT = 24;
+const PADDING = 2;
+
+/**
+ * Builds the SVG path for a series. Periods without data leave a gap.
+ */
+export function getSparklinePath(values: Array<number | null>): string {
+  const numbers = values.filter((value): value is number => value !== null);
+  if (numbers.length === 0) {
+    return "";
+  }
+
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : 0;
+
+  const commands: string[] = [];
+  let drawing = false;
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      drawing = false;
+      return;
+    }
+
+    const x = index * step;
+    // Flat series are drawn through the middle
+    const y =
+      max === min
+        ? HEIGHT / 2
+        : PADDING + ((max - value) / (max - min)) * (HEIGHT - PADDING * 2);
+
+    commands.push(`${drawing ? "L" : "M"}${x.toFixed(2)} ${y.toFixed(2)}`);
+    drawing = true;
+  });
+
+  return commands.join(" ");
+}
+
+/**
+ * Sparkline Component
+ *
+ * Compact line chart without axes for showing a metric's recent history.
+ * Renders nothing when no period has data.
+ *
+ * @example
+ * ```tsx
+ * <Sparkline values={[3, 5, null, 7]} ariaLabel="Last 4 weeks" />
+ * ```
+ */
+export function Sparkline({ values, ariaLabel, className }: SparklineProps) {
+  const path = getSparklinePath(values);
+
+  if (!path) {
+    return null;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className={cn("h-8 w-full text-primary", className)}
+      role="img"
+      aria-label={ariaLabel}
+    >
+      <path
+        d={path}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
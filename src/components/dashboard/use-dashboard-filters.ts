@@ -0,0 +1,96 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import * as React from "react";
+import { getCurrentWeek, isValidWeekIdentifier } from "@/lib/utils/week";
+
+/**
+ * Dashboard filters shared through the page URL (?week=2025-W02&project=billing)
+ */
+export interface DashboardFilters {
+  /**
+   * Selected week (ISO 8601 format)
+   */
+  week: string;
+
+  /**
+   * Selected project (null for all projects)
+   */
+  project: string | null;
+}
+
+/**
+ * Reads dashboard filters from URL query parameters. Missing or invalid
+ * weeks fall back to the current week.
+ *
+ * @example
+ * parseDashboardFilters(new URLSearchParams("week=2025-W02&project=billing"))
+ * // Returns: { week: "2025-W02", project: "billing" }
+ */
+export function parseDashboardFilters(
+  searchParams: Pick<URLSearchParams, "get">,
+): DashboardFilters {
+  const week = searchParams.get("week");
+  const project = searchParams.get("project");
+
+  return {
+    week: week && isValidWeekIdentifier(week) ? week : getCurrentWeek(),
+    project: project || null,
+  };
+}
+
+/**
+ * Builds the URL query string for dashboard filters
+ *
+ * @example
+ * buildDashboardQuery({ week: "2025-W02", project: null }) // "week=2025-W02"
+ */
+export function buildDashboardQuery(filters: DashboardFilters): string {
+  const params = new URLSearchParams({ week: filters.week });
+  if (filters.project) {
+    params.set("project", filters.project);
+  }
+  return params.toString();
+}
+
+/**
+ * Hook to manage dashboard filters in the page URL, so a link to a specific
+ * project and week can be shared. Must be rendered inside a Suspense
+ * boundary (useSearchParams).
+ *
+ * @example
+ * ```tsx
+ * const { week, project, setWeek, setProject } = useDashboardFilters();
+ *
+ * <WeekSelector value={week} onValueChange={setWeek} />
+ * ```
+ */
+export function useDashboardFilters() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = parseDashboardFilters(searchParams);
+
+  const update = React.useCallback(
+    (changes: Partial<DashboardFilters>) => {
+      const query = buildDashboardQuery({
+        ...parseDashboardFilters(searchParams),
+        ...changes,
+      });
+      router.replace(`${pathname}?${query}`, { scroll: false });
+    },
+    [router, pathname, searchParams],
+  );
+
+  const setWeek = React.useCallback(
+    (week: string) => update({ week }),
+    [update],
+  );
+  const setProject = React.useCallback(
+    (project: string | null) => update({ project }),
+    [update],
+  );
+
+  return { ...filters, setWeek, setProject };
+}
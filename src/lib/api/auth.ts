@@ -0,0 +1,71 @@
+import type { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "./responses";
+
+/**
+ * API Key Authentication
+ *
+ * Write endpoints authenticate with a bearer token
+ * (Authorization: Bearer <key>). There are two keys:
+ * - DEPLOYMENT_API_KEY: events sent by pipelines and incident tooling
+ *   (/api/deployments, /api/incidents)
+ * - ADMIN_API_KEY: administration of teams and identities (/api/teams,
+ *   /api/identities)
+ *
+ * Keeping them apart means a pipeline holding the deployment key cannot
+ * change how metrics are attributed.
+ */
+
+export type ApiKeyName = "DEPLOYMENT_API_KEY" | "ADMIN_API_KEY";
+
+/**
+ * Validates the bearer token of a request against an API key
+ */
+function hasValidApiKey(request: NextRequest, keyName: ApiKeyName): boolean {
+  const authHeader = request.headers.get("authorization");
+
+  if (!authHeader) {
+    return false;
+  }
+
+  // Expected format: "Bearer <api_key>"
+  const [scheme, token] = authHeader.split(" ");
+
+  if (scheme !== "Bearer" || !token) {
+    return false;
+  }
+
+  const expectedKey = process.env[keyName];
+
+  if (!expectedKey) {
+    console.error(`[API] ${keyName} not configured in environment variables`);
+    return false;
+  }
+
+  return token === expectedKey;
+}
+
+/**
+ * Requires a valid API key on a request
+ *
+ * @param request - Incoming request
+ * @param keyName - Environment variable holding the expected key
+ * @returns A 401 response when the key is missing or invalid, otherwise null
+ *
+ * @example
+ * const unauthorized = requireApiKey(request, "ADMIN_API_KEY");
+ * if (unauthorized) return unauthorized;
+ */
+export function requireApiKey(
+  request: NextRequest,
+  keyName: ApiKeyName = "DEPLOYMENT_API_KEY",
+): NextResponse | null {
+  if (hasValidApiKey(request, keyName)) {
+    return null;
+  }
+
+  return errorResponse(
+    401,
+    "Unauthorized",
+    "Valid API key required. Provide Authorization: Bearer <key> header",
+  );
+}
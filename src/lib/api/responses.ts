@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Error response of the write endpoints:
+ * { success: false, error, message }
+ *
+ * @param status - HTTP status code
+ * @param error - Short error category (e.g., "Validation error")
+ * @param message - Human-readable explanation
+ */
+export function errorResponse(status: number, error: string, message: string) {
+  return NextResponse.json({ success: false, error, message }, { status });
+}
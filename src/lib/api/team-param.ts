@@ -0,0 +1,54 @@
+import type { Team } from "@/lib/db/schema";
+import { findTeam } from "@/lib/teams/teams";
+
+/**
+ * Resolved `team` query parameter of a metrics request
+ */
+export interface TeamParam {
+  team: Team | undefined; // undefined when no team was requested
+}
+
+/**
+ * 404 response body for an unknown team
+ */
+export interface TeamParamError {
+  error: string;
+  details: string;
+  received: string;
+}
+
+/**
+ * Resolves the `team` query parameter of a metrics request to its team
+ *
+ * @param searchParams - Request query parameters
+ * @returns The team (if requested), or the 404 response body when no team
+ *   has that name
+ *
+ * @example
+ * const teamFilter = await resolveTeamParam(searchParams);
+ * if ("error" in teamFilter) {
+ *   return NextResponse.json(teamFilter, { status: 404 });
+ * }
+ * const teamId = teamFilter.team?.id;
+ */
+export async function resolveTeamParam(
+  searchParams: URLSearchParams,
+): Promise<TeamParam | TeamParamError> {
+  const name = searchParams.get("team");
+
+  if (!name) {
+    return { team: undefined };
+  }
+
+  const team = await findTeam(name);
+
+  if (!team) {
+    return {
+      error: "Team not found",
+      details: "Team must be the name of a team managed through /api/teams.",
+      received: name,
+    };
+  }
+
+  return { team };
+}
@@ -7,6 +7,7 @@ import {
   serial,
   text,
   timestamp,
+  uniqueIndex,
   varchar,
 } from "drizzle-orm/pg-core";
 
@@ -20,6 +21,8 @@ import {
  * - mergedAt ← closedDate when status="completed" (approximation)
  * - firstReviewAt ← NOT AVAILABLE in basic API (null for now, enrichment planned in US2.1b)
  * - approvedAt ← NOT AVAILABLE in basic API (null for now, enrichment planned in US2.1b)
+ * - sourceCommitSha ← lastMergeSourceCommit.commitId (head of the source branch)
+ * - mergeCommitSha ← lastMergeCommit.commitId when status="completed"
  *
  * KNOWN LIMITATIONS:
  * - Review timestamps require Pull Request Threads API (future enrichment)
@@ -65,6 +68,19 @@ export const pullRequests = pgTable(
     baseBranch: varchar("base_branch", { length: 255 }).default("main"),
     headBranch: varchar("head_branch", { length: 255 }),
 
+    // Latest commit of the source branch; used to link CI runs to PRs
+    sourceCommitSha: varchar("source_commit_sha", { length: 40 }),
+    // Commit that landed on the target branch (merged PRs only); used to
+    // link deployments and post-merge CI runs to the PRs they ship
+    mergeCommitSha: varchar("merge_commit_sha", { length: 40 }),
+
+    // Authored by a bot or service account (see identities); bot PRs are
+    // excluded from the flow metrics
+    isBot: boolean("is_bot").notNull().default(false),
+
+    // Ingestion source; determines the web URL of the PR
+    source: varchar("source", { length: 50 }).notNull().default("azure-devops"), // azure-devops, github
+
     // System timestamps
     ingestedAt: timestamp("ingested_at").defaultNow(),
   },
@@ -74,6 +90,56 @@ export const pullRequests = pgTable(
     projectNameIdx: index("project_name_idx").on(table.projectName),
     mergedAtIdx: index("merged_at_idx").on(table.mergedAt),
     createdAtIdx: index("created_at_idx").on(table.createdAt),
+    sourceCommitShaIdx: index("source_commit_sha_idx").on(
+      table.sourceCommitSha,
+    ),
+    mergeCommitShaIdx: index("merge_commit_sha_idx").on(table.mergeCommitSha),
+  }),
+);
+
+/**
+ * PR Reviews table
+ * Reviewers of each pull request and when they first responded, for the
+ * reviewer SLA and reviewer load metrics. A PR's rows are replaced whenever
+ * its reviews are enriched, so removed reviewers disappear.
+ *
+ * SOURCE MAPPING:
+ * - Azure DevOps: reviewers API (vote), comment threads (firstCommentAt);
+ *   vote timestamps are not exposed, so votedAt is null
+ * - GitHub: submitted reviews (votedAt ← first APPROVED or CHANGES_REQUESTED
+ *   review, firstCommentAt ← first COMMENTED review)
+ */
+export const prReviews = pgTable(
+  "pr_reviews",
+  {
+    id: serial("id").primaryKey(),
+    // Pull request key (see pull_requests)
+    prNumber: integer("pr_number").notNull(),
+    repoName: varchar("repo_name", { length: 255 }).notNull(),
+    orgName: varchar("org_name", { length: 255 }).notNull(),
+    projectName: varchar("project_name", { length: 255 }).notNull(),
+
+    // Reviewer identity name (see identities); bots are excluded from the
+    // reviewer metrics
+    reviewer: varchar("reviewer", { length: 255 }).notNull(),
+    isBot: boolean("is_bot").notNull().default(false),
+
+    // Latest vote: approved, changes_requested, none
+    vote: varchar("vote", { length: 50 }).notNull().default("none"),
+    votedAt: timestamp("voted_at"),
+    firstCommentAt: timestamp("first_comment_at"),
+
+    // System timestamps
+    ingestedAt: timestamp("ingested_at").defaultNow(),
+  },
+  (table) => ({
+    prReviewIdx: uniqueIndex("pr_review_idx").on(
+      table.projectName,
+      table.repoName,
+      table.prNumber,
+      table.reviewer,
+    ),
+    prReviewReviewerIdx: index("pr_review_reviewer_idx").on(table.reviewer),
   }),
 );
 
@@ -109,20 +175,22 @@ export const ciRuns = pgTable(
     conclusion: varchar("conclusion", { length: 50 }), // success, failure, cancelled, skipped, etc.
 
     // Timestamps
+    queuedAt: timestamp("queued_at"), // Queue time = startedAt - queuedAt
     startedAt: timestamp("started_at").notNull(),
     completedAt: timestamp("completed_at"),
 
     // Failure tracking
     isFlaky: boolean("is_flaky").default(false),
     flakyTestCount: integer("flaky_test_count").default(0), // Number of flaky tests detected in this run
-    failureReason: text("failure_reason"),
+    failureReason: text("failure_reason"), // First failed task's error (from the timeline)
 
-    // Additional metadata
+    // Additional metadata (from the stage/job timeline, see ci_run_timeline)
     jobsCount: integer("jobs_count").default(0),
     failedJobsCount: integer("failed_jobs_count").default(0),
 
     // System timestamps
     ingestedAt: timestamp("ingested_at").defaultNow(),
+    enrichedAt: timestamp("enriched_at"), // Test results and timeline fetched (null until then)
   },
   (table) => ({
     runIdIdx: index("run_id_idx").on(table.runId),
@@ -135,6 +203,116 @@ export const ciRuns = pgTable(
   }),
 );
 
+/**
+ * CI Run Timeline table
+ * Stores the stages and jobs of each CI run (child rows of ci_runs) so stage
+ * failure rates and durations can be analyzed. A run's timeline is replaced
+ * whenever the run is re-ingested after completing.
+ *
+ * AZURE DEVOPS API MAPPING (Build Timeline API):
+ * - recordType ← type ("Stage" → stage, "Job" → job; phases, tasks and
+ *   checkpoints are not stored)
+ * - stageName ← name of the job's enclosing Stage record (null for classic
+ *   pipelines, which have no stages)
+ * - result ← result (TaskResult, e.g. Failed → failed, SucceededWithIssues →
+ *   succeeded_with_issues); null while the record is still running
+ *
+ * Derived ci_runs columns: jobsCount, failedJobsCount and failureReason (first
+ * failed task's error issues).
+ */
+export const ciRunTimeline = pgTable(
+  "ci_run_timeline",
+  {
+    id: serial("id").primaryKey(),
+
+    // Record identifiers
+    recordId: varchar("record_id", { length: 255 }).notNull().unique(), // <runId>-<timelineRecordId>
+    runId: varchar("run_id", { length: 255 }).notNull(), // ci_runs.run_id
+
+    // Repository context
+    workflowName: varchar("workflow_name", { length: 255 }).notNull(),
+    repoName: varchar("repo_name", { length: 255 }).notNull(),
+    orgName: varchar("org_name", { length: 255 }).notNull(),
+    projectName: varchar("project_name", { length: 255 }).notNull(),
+
+    // Record details
+    recordType: varchar("record_type", { length: 20 }).notNull(), // stage, job
+    name: varchar("name", { length: 255 }).notNull(),
+    stageName: varchar("stage_name", { length: 255 }), // Enclosing stage of a job
+    result: varchar("result", { length: 50 }), // succeeded, succeeded_with_issues, failed, canceled, skipped, abandoned
+    attempt: integer("attempt").default(1),
+
+    // Timestamps
+    startedAt: timestamp("started_at"), // Null for records that never started (e.g., skipped)
+    completedAt: timestamp("completed_at"),
+    durationMs: integer("duration_ms"),
+
+    // System timestamps
+    ingestedAt: timestamp("ingested_at").defaultNow(),
+  },
+  (table) => ({
+    runIdIdx: index("timeline_run_id_idx").on(table.runId),
+    projectNameIdx: index("timeline_project_name_idx").on(table.projectName),
+    nameIdx: index("timeline_name_idx").on(table.name),
+    startedAtIdx: index("timeline_started_at_idx").on(table.startedAt),
+  }),
+);
+
+/**
+ * Test Results table
+ * Stores individual automated test outcomes per CI run for test-level flaky
+ * detection. Results are immutable once published, so rows are only inserted.
+ *
+ * AZURE DEVOPS API MAPPING (Test Results API, results by build):
+ * - testName ← automatedTestName (falls back to testCaseTitle)
+ * - testSuite ← automatedTestStorage (test assembly/file)
+ * - outcome ← outcome ("Passed" → passed; "Failed", "Timeout", "Aborted" → failed)
+ * - commitSha, startedAt ← copied from the CI run for commit grouping and time windows
+ *
+ * FLAKY DETECTION:
+ * - A test is flaky on a commit if it both passed and failed on that commit
+ *   (across re-runs or within one run's retries); its rows get isFlaky=true
+ * - ci_runs.flakyTestCount is the number of distinct flaky tests in the run
+ */
+export const testResults = pgTable(
+  "test_results",
+  {
+    id: serial("id").primaryKey(),
+
+    // Result identifiers
+    resultId: varchar("result_id", { length: 255 }).notNull().unique(), // <runId>-<testRunId>-<resultId>
+    runId: varchar("run_id", { length: 255 }).notNull(), // ci_runs.run_id
+
+    // Repository context
+    repoName: varchar("repo_name", { length: 255 }).notNull(),
+    orgName: varchar("org_name", { length: 255 }).notNull(),
+    projectName: varchar("project_name", { length: 255 }).notNull(),
+    commitSha: varchar("commit_sha", { length: 255 }),
+
+    // Test details
+    testName: text("test_name").notNull(),
+    testSuite: text("test_suite"),
+    outcome: varchar("outcome", { length: 50 }).notNull(), // passed, failed
+    durationMs: integer("duration_ms"),
+
+    // Timestamps
+    startedAt: timestamp("started_at").notNull(), // CI run start
+
+    // Flaky detection
+    isFlaky: boolean("is_flaky").notNull().default(false),
+
+    // System timestamps
+    ingestedAt: timestamp("ingested_at").defaultNow(),
+  },
+  (table) => ({
+    runIdIdx: index("test_run_id_idx").on(table.runId),
+    commitShaIdx: index("test_commit_sha_idx").on(table.commitSha),
+    testNameIdx: index("test_name_idx").on(table.testName),
+    startedAtIdx: index("test_started_at_idx").on(table.startedAt),
+    isFlakyIdx: index("test_is_flaky_idx").on(table.isFlaky),
+  }),
+);
+
 /**
  * Deployments table
  * Stores deployment events for DORA metrics (deployment frequency, change failure rate, MTTR)
@@ -196,12 +374,297 @@ export const deployments = pgTable(
   }),
 );
 
+/**
+ * Incidents table
+ * Stores production incidents for incident-based MTTR (open → resolve).
+ * Incidents are recorded through POST /api/incidents as open, mitigate and
+ * resolve events, typically forwarded from an incident management tool.
+ *
+ * LIFECYCLE:
+ * - open → status "open", openedAt set
+ * - mitigate → status "mitigated", mitigatedAt set (optional step)
+ * - resolve → status "resolved", resolvedAt set
+ *
+ * deploymentId optionally links the incident to the deployment that caused
+ * it (deployments.deployment_id).
+ */
+export const incidents = pgTable(
+  "incidents",
+  {
+    id: serial("id").primaryKey(),
+
+    // Incident identifiers
+    incidentId: varchar("incident_id", { length: 255 }).notNull().unique(), // ID in the incident management tool
+    title: varchar("title", { length: 500 }).notNull(),
+    severity: varchar("severity", { length: 20 }).notNull(), // sev1 (critical) - sev4 (minor)
+    status: varchar("status", { length: 20 }).notNull(), // open, mitigated, resolved
+
+    // Project context
+    orgName: varchar("org_name", { length: 255 }).notNull(),
+    projectName: varchar("project_name", { length: 255 }).notNull(),
+
+    // Cause (optional)
+    deploymentId: varchar("deployment_id", { length: 255 }), // deployments.deployment_id
+    notes: text("notes"),
+
+    // Lifecycle timestamps (MTTR = resolvedAt - openedAt)
+    openedAt: timestamp("opened_at").notNull(),
+    mitigatedAt: timestamp("mitigated_at"),
+    resolvedAt: timestamp("resolved_at"),
+
+    // System timestamps
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    projectNameIdx: index("incident_project_name_idx").on(table.projectName),
+    statusIdx: index("incident_status_idx").on(table.status),
+    openedAtIdx: index("incident_opened_at_idx").on(table.openedAt),
+    deploymentIdIdx: index("incident_deployment_id_idx").on(table.deploymentId),
+  }),
+);
+
+/**
+ * Sync State table
+ * Stores per-repository ingestion watermarks so scheduled runs only fetch
+ * data that changed since the previous successful sync.
+ *
+ * A watermark is the start time of the last sync that completed without
+ * errors for that repository. It only advances on success, so a failed run
+ * is retried from the same point next time.
+ *
+ * SOURCE MAPPING:
+ * - Azure DevOps: one row per repository within each project
+ * - GitHub: one row per repository (projectName = repoName)
+ */
+export const syncState = pgTable(
+  "sync_state",
+  {
+    id: serial("id").primaryKey(),
+
+    // Sync scope
+    source: varchar("source", { length: 50 }).notNull(), // azure-devops, github
+    entity: varchar("entity", { length: 50 }).notNull(), // pull_requests
+    orgName: varchar("org_name", { length: 255 }).notNull(),
+    projectName: varchar("project_name", { length: 255 }).notNull(),
+    repoName: varchar("repo_name", { length: 255 }).notNull(),
+
+    // Cursor: data updated before this time has already been ingested
+    watermark: timestamp("watermark").notNull(),
+
+    // System timestamps
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    scopeIdx: uniqueIndex("sync_state_scope_idx").on(
+      table.source,
+      table.entity,
+      table.orgName,
+      table.projectName,
+      table.repoName,
+    ),
+  }),
+);
+
+/**
+ * Backfill Jobs table
+ * Tracks resumable historical backfills that ingest data older than the
+ * regular 90-day window.
+ *
+ * A job walks its date range backwards from rangeEnd in chunks of
+ * chunkDays. `cursor` is the start of the last completed chunk, so
+ * [cursor, rangeEnd) is done and the next invocation continues below it.
+ * `lockedUntil` is a short lease that stops overlapping invocations from
+ * processing the same job.
+ */
+export const backfillJobs = pgTable(
+  "backfill_jobs",
+  {
+    id: serial("id").primaryKey(),
+
+    // What to backfill
+    source: varchar("source", { length: 50 }).notNull(), // azure-devops, github
+    entity: varchar("entity", { length: 50 }).notNull(), // pull_requests, ci_runs
+    rangeStart: timestamp("range_start").notNull(),
+    rangeEnd: timestamp("range_end").notNull(),
+    chunkDays: integer("chunk_days").notNull().default(7),
+
+    // Progress
+    status: varchar("status", { length: 50 }).notNull().default("pending"), // pending, running, completed
+    cursor: timestamp("cursor").notNull(),
+    chunksCompleted: integer("chunks_completed").notNull().default(0),
+    itemsIngested: integer("items_ingested").notNull().default(0),
+    itemsUpdated: integer("items_updated").notNull().default(0),
+    errorCount: integer("error_count").notNull().default(0),
+    lastError: text("last_error"),
+    lockedUntil: timestamp("locked_until"),
+
+    // System timestamps
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    statusIdx: index("backfill_status_idx").on(table.status),
+  }),
+);
+
+/**
+ * Teams table
+ * Teams that own repositories and whose members author PRs; every metric
+ * can be filtered to a team (?team=<name>).
+ *
+ * A team's repositories are listed in team_repositories and its members in
+ * team_members.
+ */
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+
+  // Team identifier (used in the team filter and admin API URLs)
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  description: text("description"),
+
+  // System timestamps
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/**
+ * Team Members table
+ * Maps people to teams. memberName is the PR author as ingested (identity
+ * name, else Azure DevOps display name or GitHub login). A person may belong
+ * to several teams.
+ */
+export const teamMembers = pgTable(
+  "team_members",
+  {
+    id: serial("id").primaryKey(),
+    teamId: integer("team_id").notNull(), // references teams.id
+    memberName: varchar("member_name", { length: 255 }).notNull(),
+
+    // System timestamps
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    teamMemberIdx: uniqueIndex("team_member_idx").on(
+      table.teamId,
+      table.memberName,
+    ),
+    memberNameIdx: index("team_member_name_idx").on(table.memberName),
+  }),
+);
+
+/**
+ * Team Repositories table
+ * Maps the repositories (services) a team owns. A repository may be shared
+ * by several teams.
+ */
+export const teamRepositories = pgTable(
+  "team_repositories",
+  {
+    id: serial("id").primaryKey(),
+    teamId: integer("team_id").notNull(), // references teams.id
+    projectName: varchar("project_name", { length: 255 }).notNull(),
+    repoName: varchar("repo_name", { length: 255 }).notNull(),
+
+    // System timestamps
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    teamRepositoryIdx: uniqueIndex("team_repository_idx").on(
+      table.teamId,
+      table.projectName,
+      table.repoName,
+    ),
+    repositoryIdx: index("team_repository_repo_idx").on(
+      table.projectName,
+      table.repoName,
+    ),
+  }),
+);
+
+/**
+ * Identities table
+ * One row per person or bot account. Ingestion rewrites PR authors and
+ * deployers matching any alias (display name, unique name, email, login)
+ * to the identity name, so the same person is counted once across sources.
+ */
+export const identities = pgTable("identities", {
+  id: serial("id").primaryKey(),
+
+  // Canonical name stored on pull_requests.author and deployments.deployedBy
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  // Bots and service accounts (dependabot, renovate, build agents); their
+  // PRs are excluded from the flow metrics
+  isBot: boolean("is_bot").notNull().default(false),
+
+  // System timestamps
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/**
+ * Identity Aliases table
+ * Names an identity appears under in the sources. Aliases are stored
+ * lowercased and matched case-insensitively; each alias belongs to exactly
+ * one identity.
+ */
+export const identityAliases = pgTable(
+  "identity_aliases",
+  {
+    id: serial("id").primaryKey(),
+    identityId: integer("identity_id").notNull(), // references identities.id
+    alias: varchar("alias", { length: 255 }).notNull().unique(),
+
+    // System timestamps
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    identityAliasIdentityIdx: index("identity_alias_identity_idx").on(
+      table.identityId,
+    ),
+  }),
+);
+
 // Type exports for TypeScript
 export type PullRequest = typeof pullRequests.$inferSelect;
 export type NewPullRequest = typeof pullRequests.$inferInsert;
 
+export type PRReview = typeof prReviews.$inferSelect;
+export type NewPRReview = typeof prReviews.$inferInsert;
+
 export type CIRun = typeof ciRuns.$inferSelect;
 export type NewCIRun = typeof ciRuns.$inferInsert;
 
+export type CIRunTimelineRecord = typeof ciRunTimeline.$inferSelect;
+export type NewCIRunTimelineRecord = typeof ciRunTimeline.$inferInsert;
+
+export type TestResult = typeof testResults.$inferSelect;
+export type NewTestResult = typeof testResults.$inferInsert;
+
 export type Deployment = typeof deployments.$inferSelect;
 export type NewDeployment = typeof deployments.$inferInsert;
+
+export type Incident = typeof incidents.$inferSelect;
+export type NewIncident = typeof incidents.$inferInsert;
+
+export type SyncState = typeof syncState.$inferSelect;
+export type NewSyncState = typeof syncState.$inferInsert;
+
+export type BackfillJob = typeof backfillJobs.$inferSelect;
+export type NewBackfillJob = typeof backfillJobs.$inferInsert;
+
+export type Team = typeof teams.$inferSelect;
+export type NewTeam = typeof teams.$inferInsert;
+
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type NewTeamMember = typeof teamMembers.$inferInsert;
+
+export type TeamRepository = typeof teamRepositories.$inferSelect;
+export type NewTeamRepository = typeof teamRepositories.$inferInsert;
+
+export type Identity = typeof identities.$inferSelect;
+export type NewIdentity = typeof identities.$inferInsert;
+
+export type IdentityAlias = typeof identityAliases.$inferSelect;
+export type NewIdentityAlias = typeof identityAliases.$inferInsert;
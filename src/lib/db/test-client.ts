@@ -173,6 +173,220 @@ export async function initializeTestSchema() {
 			ALTER TABLE "deployments" ADD COLUMN "notes" text;
 		`);
 
+    // Migration 0003: Create sync_state table for incremental ingestion
+    await client.exec(`
+			CREATE TABLE "sync_state" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"source" varchar(50) NOT NULL,
+				"entity" varchar(50) NOT NULL,
+				"org_name" varchar(255) NOT NULL,
+				"project_name" varchar(255) NOT NULL,
+				"repo_name" varchar(255) NOT NULL,
+				"watermark" timestamp NOT NULL,
+				"updated_at" timestamp DEFAULT now()
+			);
+			CREATE UNIQUE INDEX "sync_state_scope_idx" ON "sync_state" USING btree ("source","entity","org_name","project_name","repo_name");
+		`);
+
+    // Migration 0004: Create backfill_jobs table for historical backfill
+    await client.exec(`
+			CREATE TABLE "backfill_jobs" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"source" varchar(50) NOT NULL,
+				"entity" varchar(50) NOT NULL,
+				"range_start" timestamp NOT NULL,
+				"range_end" timestamp NOT NULL,
+				"chunk_days" integer DEFAULT 7 NOT NULL,
+				"status" varchar(50) DEFAULT 'pending' NOT NULL,
+				"cursor" timestamp NOT NULL,
+				"chunks_completed" integer DEFAULT 0 NOT NULL,
+				"items_ingested" integer DEFAULT 0 NOT NULL,
+				"items_updated" integer DEFAULT 0 NOT NULL,
+				"error_count" integer DEFAULT 0 NOT NULL,
+				"last_error" text,
+				"locked_until" timestamp,
+				"created_at" timestamp DEFAULT now(),
+				"updated_at" timestamp DEFAULT now(),
+				"completed_at" timestamp
+			);
+			CREATE INDEX "backfill_status_idx" ON "backfill_jobs" USING btree ("status");
+		`);
+
+    // Migration 0005: Add merge_commit_sha to pull_requests for deployment PR linking
+    await client.exec(`
+			ALTER TABLE "pull_requests" ADD COLUMN "merge_commit_sha" varchar(40);
+			CREATE INDEX "merge_commit_sha_idx" ON "pull_requests" USING btree ("merge_commit_sha");
+		`);
+
+    // Migration 0006: Add source_commit_sha to pull_requests for CI run PR linking
+    await client.exec(`
+			ALTER TABLE "pull_requests" ADD COLUMN "source_commit_sha" varchar(40);
+			CREATE INDEX "source_commit_sha_idx" ON "pull_requests" USING btree ("source_commit_sha");
+		`);
+
+    // Migration 0007: Create test_results table for test-level flaky detection
+    await client.exec(`
+			CREATE TABLE "test_results" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"result_id" varchar(255) NOT NULL,
+				"run_id" varchar(255) NOT NULL,
+				"repo_name" varchar(255) NOT NULL,
+				"org_name" varchar(255) NOT NULL,
+				"project_name" varchar(255) NOT NULL,
+				"commit_sha" varchar(255),
+				"test_name" text NOT NULL,
+				"test_suite" text,
+				"outcome" varchar(50) NOT NULL,
+				"duration_ms" integer,
+				"started_at" timestamp NOT NULL,
+				"is_flaky" boolean DEFAULT false NOT NULL,
+				"ingested_at" timestamp DEFAULT now(),
+				CONSTRAINT "test_results_result_id_unique" UNIQUE("result_id")
+			);
+			CREATE INDEX "test_run_id_idx" ON "test_results" USING btree ("run_id");
+			CREATE INDEX "test_commit_sha_idx" ON "test_results" USING btree ("commit_sha");
+			CREATE INDEX "test_name_idx" ON "test_results" USING btree ("test_name");
+			CREATE INDEX "test_started_at_idx" ON "test_results" USING btree ("started_at");
+			CREATE INDEX "test_is_flaky_idx" ON "test_results" USING btree ("is_flaky");
+		`);
+
+    // Migration 0008: Create ci_run_timeline table for stage/job timelines
+    await client.exec(`
+			CREATE TABLE "ci_run_timeline" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"record_id" varchar(255) NOT NULL,
+				"run_id" varchar(255) NOT NULL,
+				"workflow_name" varchar(255) NOT NULL,
+				"repo_name" varchar(255) NOT NULL,
+				"org_name" varchar(255) NOT NULL,
+				"project_name" varchar(255) NOT NULL,
+				"record_type" varchar(20) NOT NULL,
+				"name" varchar(255) NOT NULL,
+				"stage_name" varchar(255),
+				"result" varchar(50),
+				"attempt" integer DEFAULT 1,
+				"started_at" timestamp,
+				"completed_at" timestamp,
+				"duration_ms" integer,
+				"ingested_at" timestamp DEFAULT now(),
+				CONSTRAINT "ci_run_timeline_record_id_unique" UNIQUE("record_id")
+			);
+			CREATE INDEX "timeline_run_id_idx" ON "ci_run_timeline" USING btree ("run_id");
+			CREATE INDEX "timeline_project_name_idx" ON "ci_run_timeline" USING btree ("project_name");
+			CREATE INDEX "timeline_name_idx" ON "ci_run_timeline" USING btree ("name");
+			CREATE INDEX "timeline_started_at_idx" ON "ci_run_timeline" USING btree ("started_at");
+		`);
+
+    // Migration 0009: Add queued_at to ci_runs for queue time metrics
+    await client.exec(`
+			ALTER TABLE "ci_runs" ADD COLUMN "queued_at" timestamp;
+		`);
+
+    // Migration 0010: Create incidents table for incident-based MTTR
+    await client.exec(`
+			CREATE TABLE "incidents" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"incident_id" varchar(255) NOT NULL,
+				"title" varchar(500) NOT NULL,
+				"severity" varchar(20) NOT NULL,
+				"status" varchar(20) NOT NULL,
+				"org_name" varchar(255) NOT NULL,
+				"project_name" varchar(255) NOT NULL,
+				"deployment_id" varchar(255),
+				"notes" text,
+				"opened_at" timestamp NOT NULL,
+				"mitigated_at" timestamp,
+				"resolved_at" timestamp,
+				"created_at" timestamp DEFAULT now(),
+				"updated_at" timestamp DEFAULT now(),
+				CONSTRAINT "incidents_incident_id_unique" UNIQUE("incident_id")
+			);
+			CREATE INDEX "incident_project_name_idx" ON "incidents" USING btree ("project_name");
+			CREATE INDEX "incident_status_idx" ON "incidents" USING btree ("status");
+			CREATE INDEX "incident_opened_at_idx" ON "incidents" USING btree ("opened_at");
+			CREATE INDEX "incident_deployment_id_idx" ON "incidents" USING btree ("deployment_id");
+		`);
+
+    // Migration 0011: Create teams, team_members and team_repositories tables
+    await client.exec(`
+			CREATE TABLE "team_members" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"team_id" integer NOT NULL,
+				"member_name" varchar(255) NOT NULL,
+				"created_at" timestamp DEFAULT now()
+			);
+			CREATE TABLE "team_repositories" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"team_id" integer NOT NULL,
+				"project_name" varchar(255) NOT NULL,
+				"repo_name" varchar(255) NOT NULL,
+				"created_at" timestamp DEFAULT now()
+			);
+			CREATE TABLE "teams" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"name" varchar(255) NOT NULL,
+				"description" text,
+				"created_at" timestamp DEFAULT now(),
+				"updated_at" timestamp DEFAULT now(),
+				CONSTRAINT "teams_name_unique" UNIQUE("name")
+			);
+			CREATE UNIQUE INDEX "team_member_idx" ON "team_members" USING btree ("team_id","member_name");
+			CREATE INDEX "team_member_name_idx" ON "team_members" USING btree ("member_name");
+			CREATE UNIQUE INDEX "team_repository_idx" ON "team_repositories" USING btree ("team_id","project_name","repo_name");
+			CREATE INDEX "team_repository_repo_idx" ON "team_repositories" USING btree ("project_name","repo_name");
+		`);
+
+    // Migration 0012: Create identities and identity_aliases tables, flag bot PRs
+    await client.exec(`
+			CREATE TABLE "identities" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"name" varchar(255) NOT NULL,
+				"is_bot" boolean DEFAULT false NOT NULL,
+				"created_at" timestamp DEFAULT now(),
+				"updated_at" timestamp DEFAULT now(),
+				CONSTRAINT "identities_name_unique" UNIQUE("name")
+			);
+			CREATE TABLE "identity_aliases" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"identity_id" integer NOT NULL,
+				"alias" varchar(255) NOT NULL,
+				"created_at" timestamp DEFAULT now(),
+				CONSTRAINT "identity_aliases_alias_unique" UNIQUE("alias")
+			);
+			ALTER TABLE "pull_requests" ADD COLUMN "is_bot" boolean DEFAULT false NOT NULL;
+			CREATE INDEX "identity_alias_identity_idx" ON "identity_aliases" USING btree ("identity_id");
+		`);
+
+    // Migration 0013: Create pr_reviews table
+    await client.exec(`
+			CREATE TABLE "pr_reviews" (
+				"id" serial PRIMARY KEY NOT NULL,
+				"pr_number" integer NOT NULL,
+				"repo_name" varchar(255) NOT NULL,
+				"org_name" varchar(255) NOT NULL,
+				"project_name" varchar(255) NOT NULL,
+				"reviewer" varchar(255) NOT NULL,
+				"is_bot" boolean DEFAULT false NOT NULL,
+				"vote" varchar(50) DEFAULT 'none' NOT NULL,
+				"voted_at" timestamp,
+				"first_comment_at" timestamp,
+				"ingested_at" timestamp DEFAULT now()
+			);
+			CREATE UNIQUE INDEX "pr_review_idx" ON "pr_reviews" USING btree ("project_name","repo_name","pr_number","reviewer");
+			CREATE INDEX "pr_review_reviewer_idx" ON "pr_reviews" USING btree ("reviewer");
+		`);
+
+    // Migration 0014: Add source to pull_requests for PR web URLs
+    await client.exec(`
+			ALTER TABLE "pull_requests" ADD COLUMN "source" varchar(50) DEFAULT 'azure-devops' NOT NULL;
+		`);
+
+    // Migration 0015: Add enriched_at to ci_runs to retry failed enrichment
+    await client.exec(`
+			ALTER TABLE "ci_runs" ADD COLUMN "enriched_at" timestamp;
+			UPDATE "ci_runs" SET "enriched_at" = "ingested_at" WHERE "status" = 'completed';
+		`);
+
     // Verify connection and tables
     const result = (await client.query("SELECT 1 as test")) as {
       rows: Array<{ test: number }>;
@@ -0,0 +1,433 @@
+import { and, asc, eq, exists, inArray, lt, ne, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { db } from "@/lib/db/client";
+import {
+  deployments,
+  type Identity,
+  identities,
+  identityAliases,
+  prReviews,
+  pullRequests,
+  teamMembers,
+} from "@/lib/db/schema";
+import {
+  createIdentityResolver,
+  type IdentityResolver,
+  isBotName,
+  normalizeAlias,
+  type ResolvedIdentity,
+} from "./resolver";
+
+/**
+ * Identity Management
+ *
+ * Reconciles the names people and bots appear under (display names, unique
+ * names, emails, logins) into one identity. Used by the admin API
+ * (/api/identities) and by ingestion, which stores the identity name on
+ * pull_requests.author, pr_reviews.reviewer and deployments.deployedBy (see
+ * resolver.ts).
+ */
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+// Validation schema for an identity (POST /api/identities)
+export const identitySchema = z.object({
+  // Canonical name stored on ingested PRs and deployments
+  name: z
+    .string()
+    .trim()
+    .min(1, "name is required")
+    .max(255, "name must be 255 characters or less"),
+  isBot: z.boolean().optional(),
+  // Display names, unique names, emails or logins (matched case-insensitively)
+  aliases: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, "aliases must not be empty")
+        .max(255, "aliases must be 255 characters or less"),
+    )
+    .max(100, "an identity can have at most 100 aliases")
+    .optional(),
+});
+
+// Validation schema for an identity update (PATCH /api/identities/:id)
+export const identityUpdateSchema = identitySchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one of name, isBot or aliases is required",
+  });
+
+export type IdentityRequest = z.infer<typeof identitySchema>;
+export type IdentityUpdateRequest = z.infer<typeof identityUpdateSchema>;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * An identity with its aliases
+ */
+export interface IdentityDetails {
+  id: number;
+  name: string;
+  isBot: boolean;
+  aliases: string[];
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Why an identity could not be saved
+ */
+export type IdentityConflict =
+  | { conflict: "name"; name: string }
+  | { conflict: "aliases"; aliases: string[] };
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Load aliases for a list of identities
+ */
+async function withAliases(rows: Identity[]): Promise<IdentityDetails[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const aliases = await db
+    .select()
+    .from(identityAliases)
+    .where(
+      inArray(
+        identityAliases.identityId,
+        rows.map((identity) => identity.id),
+      ),
+    )
+    .orderBy(asc(identityAliases.alias));
+
+  return rows.map((identity) => ({
+    id: identity.id,
+    name: identity.name,
+    isBot: identity.isBot,
+    aliases: aliases
+      .filter((alias) => alias.identityId === identity.id)
+      .map((alias) => alias.alias),
+    createdAt: identity.createdAt,
+    updatedAt: identity.updatedAt,
+  }));
+}
+
+/**
+ * List all identities with their aliases, ordered by name
+ */
+export async function listIdentities(): Promise<IdentityDetails[]> {
+  const rows = await db.select().from(identities).orderBy(asc(identities.name));
+  return withAliases(rows);
+}
+
+/**
+ * Find an identity by ID
+ *
+ * @returns The identity, or undefined if there is no identity with that ID
+ */
+export async function findIdentity(id: number): Promise<Identity | undefined> {
+  const [identity] = await db
+    .select()
+    .from(identities)
+    .where(eq(identities.id, id))
+    .limit(1);
+
+  return identity;
+}
+
+/**
+ * Get an identity with its aliases
+ *
+ * @returns The identity, or undefined if there is no identity with that ID
+ */
+export async function getIdentity(
+  id: number,
+): Promise<IdentityDetails | undefined> {
+  const identity = await findIdentity(id);
+  if (!identity) {
+    return undefined;
+  }
+
+  const [details] = await withAliases([identity]);
+  return details;
+}
+
+/**
+ * Load every identity into a resolver for an ingestion run
+ */
+export async function loadIdentityResolver(): Promise<IdentityResolver> {
+  return createIdentityResolver(await listIdentities());
+}
+
+/**
+ * Resolve a single name (manual deployment events)
+ *
+ * @returns The matching identity, or the trimmed name with bot detection
+ */
+export async function resolveIdentity(name: string): Promise<ResolvedIdentity> {
+  const alias = normalizeAlias(name);
+
+  const [match] = await db
+    .select({ name: identities.name, isBot: identities.isBot })
+    .from(identities)
+    .leftJoin(identityAliases, eq(identityAliases.identityId, identities.id))
+    .where(
+      or(
+        eq(sql`lower(${identities.name})`, alias),
+        eq(identityAliases.alias, alias),
+      ),
+    )
+    .limit(1);
+
+  return match ?? { name: name.trim(), isBot: isBotName(name) };
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Lowercase, deduplicate and drop aliases equal to the identity name
+ */
+function normalizeAliases(name: string, aliases: string[]): string[] {
+  const normalizedName = normalizeAlias(name);
+
+  return [...new Set(aliases.map(normalizeAlias))].filter(
+    (alias) => alias !== normalizedName,
+  );
+}
+
+/**
+ * Check that a name and aliases are not used by another identity
+ */
+async function findConflict(
+  name: string,
+  aliases: string[],
+  excludeId?: number,
+): Promise<IdentityConflict | undefined> {
+  const [sameName] = await db
+    .select({ id: identities.id })
+    .from(identities)
+    .where(
+      and(
+        eq(identities.name, name),
+        excludeId !== undefined ? ne(identities.id, excludeId) : undefined,
+      ),
+    )
+    .limit(1);
+
+  if (sameName) {
+    return { conflict: "name", name };
+  }
+
+  if (aliases.length === 0) {
+    return undefined;
+  }
+
+  const taken = await db
+    .select({ alias: identityAliases.alias })
+    .from(identityAliases)
+    .where(
+      and(
+        inArray(identityAliases.alias, aliases),
+        excludeId !== undefined
+          ? ne(identityAliases.identityId, excludeId)
+          : undefined,
+      ),
+    );
+
+  return taken.length > 0
+    ? { conflict: "aliases", aliases: taken.map((row) => row.alias) }
+    : undefined;
+}
+
+async function replaceAliases(identityId: number, aliases: string[]) {
+  await db
+    .delete(identityAliases)
+    .where(eq(identityAliases.identityId, identityId));
+
+  if (aliases.length > 0) {
+    await db
+      .insert(identityAliases)
+      .values(aliases.map((alias) => ({ identityId, alias })));
+  }
+}
+
+/**
+ * Rewrite already ingested PR authors, reviewers and deployers, and team
+ * members matching the identity
+ *
+ * Ingestion only normalizes new records; this brings history in line when an
+ * identity is created or changed. PRs and reviews also take over the bot flag.
+ * Team members are rewritten too, since team filters match them against PR
+ * authors.
+ */
+async function reconcileIdentity(identity: Identity, aliases: string[]) {
+  const names = [normalizeAlias(identity.name), ...aliases];
+
+  await db
+    .update(pullRequests)
+    .set({ author: identity.name, isBot: identity.isBot })
+    .where(inArray(sql`lower(${pullRequests.author})`, names));
+
+  // A PR has one review per reviewer: when several aliases reviewed the same
+  // PR, only the first stored review is kept
+  const otherReview = alias(prReviews, "other_review");
+  await db.delete(prReviews).where(
+    and(
+      inArray(sql`lower(${prReviews.reviewer})`, names),
+      exists(
+        db
+          .select({ id: otherReview.id })
+          .from(otherReview)
+          .where(
+            and(
+              eq(otherReview.projectName, prReviews.projectName),
+              eq(otherReview.repoName, prReviews.repoName),
+              eq(otherReview.prNumber, prReviews.prNumber),
+              lt(otherReview.id, prReviews.id),
+              inArray(sql`lower(${otherReview.reviewer})`, names),
+            ),
+          ),
+      ),
+    ),
+  );
+
+  await db
+    .update(prReviews)
+    .set({ reviewer: identity.name, isBot: identity.isBot })
+    .where(inArray(sql`lower(${prReviews.reviewer})`, names));
+
+  await db
+    .update(deployments)
+    .set({ deployedBy: identity.name })
+    .where(inArray(sql`lower(${deployments.deployedBy})`, names));
+
+  // A team lists each member once: when several aliases are members of the
+  // same team, only the first is kept
+  const otherMember = alias(teamMembers, "other_member");
+  await db.delete(teamMembers).where(
+    and(
+      inArray(sql`lower(${teamMembers.memberName})`, names),
+      exists(
+        db
+          .select({ id: otherMember.id })
+          .from(otherMember)
+          .where(
+            and(
+              eq(otherMember.teamId, teamMembers.teamId),
+              lt(otherMember.id, teamMembers.id),
+              inArray(sql`lower(${otherMember.memberName})`, names),
+            ),
+          ),
+      ),
+    ),
+  );
+
+  await db
+    .update(teamMembers)
+    .set({ memberName: identity.name })
+    .where(inArray(sql`lower(${teamMembers.memberName})`, names));
+}
+
+/**
+ * Create an identity and reconcile existing PRs and deployments
+ *
+ * @param input - Identity validated against identitySchema
+ * @returns The created identity, or the conflict if the name or an alias is
+ *   already taken
+ */
+export async function createIdentity(
+  input: IdentityRequest,
+): Promise<{ identity: IdentityDetails } | IdentityConflict> {
+  const aliases = normalizeAliases(input.name, input.aliases ?? []);
+
+  const conflict = await findConflict(input.name, aliases);
+  if (conflict) {
+    return conflict;
+  }
+
+  const [identity] = await db
+    .insert(identities)
+    .values({ name: input.name, isBot: input.isBot ?? false })
+    .returning();
+
+  await replaceAliases(identity.id, aliases);
+  await reconcileIdentity(identity, aliases);
+
+  console.log(`[Identities] Identity created: ${identity.name}`);
+
+  const [details] = await withAliases([identity]);
+  return { identity: details };
+}
+
+/**
+ * Update an identity and reconcile existing PRs and deployments
+ *
+ * @param identity - Identity to update
+ * @param input - Fields to change, validated against identityUpdateSchema;
+ *   omitted fields are kept, aliases replace the list
+ * @returns The updated identity, or the conflict if the name or an alias is
+ *   used by another identity
+ */
+export async function updateIdentity(
+  identity: Identity,
+  input: IdentityUpdateRequest,
+): Promise<{ identity: IdentityDetails } | IdentityConflict> {
+  const [current] = await withAliases([identity]);
+  const name = input.name ?? identity.name;
+  const aliases = normalizeAliases(
+    name,
+    // Keep the previous name as an alias so records stored under it still
+    // resolve after a rename
+    input.aliases ?? [...current.aliases, identity.name],
+  );
+
+  const conflict = await findConflict(name, aliases, identity.id);
+  if (conflict) {
+    return conflict;
+  }
+
+  const [updated] = await db
+    .update(identities)
+    .set({
+      name,
+      ...(input.isBot !== undefined && { isBot: input.isBot }),
+      updatedAt: new Date(),
+    })
+    .where(eq(identities.id, identity.id))
+    .returning();
+
+  await replaceAliases(identity.id, aliases);
+  await reconcileIdentity(updated, aliases);
+
+  console.log(`[Identities] Identity updated: ${updated.name}`);
+
+  const [details] = await withAliases([updated]);
+  return { identity: details };
+}
+
+/**
+ * Delete an identity with its aliases
+ *
+ * Already ingested PRs and deployments keep the identity name.
+ */
+export async function deleteIdentity(identity: Identity): Promise<void> {
+  await db
+    .delete(identityAliases)
+    .where(eq(identityAliases.identityId, identity.id));
+  await db.delete(identities).where(eq(identities.id, identity.id));
+
+  console.log(`[Identities] Identity deleted: ${identity.name}`);
+}
@@ -0,0 +1,116 @@
+/**
+ * Identity Resolution
+ *
+ * Maps the names a person appears under in the sources (Azure DevOps display
+ * and unique names, GitHub logins, deployer emails) to one canonical identity
+ * name, and flags bots and service accounts. Pure functions without database
+ * access so the transformers can use them; identities.ts loads the table.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * An identity with the aliases it is known under
+ */
+export interface IdentityRecord {
+  name: string;
+  isBot: boolean;
+  aliases: string[];
+}
+
+/**
+ * Canonical name and bot flag of a resolved person or account
+ */
+export interface ResolvedIdentity {
+  name: string;
+  isBot: boolean;
+}
+
+/**
+ * Resolve the names one person or account appears under in a source record
+ *
+ * Names are tried in order; the first one matching an identity wins. When
+ * none matches, the first non-empty name is kept as-is.
+ *
+ * @returns The resolved identity, or null when no name was provided
+ */
+export type IdentityResolver = (
+  names: Array<string | null | undefined>,
+) => ResolvedIdentity | null;
+
+// ============================================================================
+// Bot Detection
+// ============================================================================
+
+// Well-known automation accounts that are bots without an identity entry
+const BOT_NAME_PATTERNS = [
+  /\[bot\]$/i, // GitHub Apps (dependabot[bot], renovate[bot])
+  /^dependabot\b/i,
+  /^renovate\b/i,
+  /\bbuild service\b/i, // Azure DevOps "Project Collection Build Service"
+];
+
+/**
+ * Check whether a name belongs to a well-known bot account
+ */
+export function isBotName(name: string): boolean {
+  return BOT_NAME_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Normalize a name for alias matching (trimmed, lowercase)
+ */
+export function normalizeAlias(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Create a resolver over a set of identities
+ *
+ * Every identity matches its own name and each of its aliases,
+ * case-insensitively. Names without a matching identity keep their source
+ * spelling and are flagged as bots only when isBotName recognizes them.
+ *
+ * @param identities - Identities with their aliases (empty: bot detection only)
+ */
+export function createIdentityResolver(
+  identities: IdentityRecord[],
+): IdentityResolver {
+  const byAlias = new Map<string, ResolvedIdentity>();
+
+  for (const identity of identities) {
+    const resolved = { name: identity.name, isBot: identity.isBot };
+    for (const alias of [identity.name, ...identity.aliases]) {
+      byAlias.set(normalizeAlias(alias), resolved);
+    }
+  }
+
+  return (names) => {
+    const candidates = names
+      .filter((name): name is string => typeof name === "string")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    for (const candidate of candidates) {
+      const match = byAlias.get(normalizeAlias(candidate));
+      if (match) {
+        return match;
+      }
+    }
+
+    return {
+      name: candidates[0],
+      isBot: candidates.some(isBotName),
+    };
+  };
+}
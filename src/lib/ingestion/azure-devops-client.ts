@@ -10,10 +10,11 @@
  */
 
 import * as azdev from "azure-devops-node-api";
+import type { ClientApiBase } from "azure-devops-node-api/ClientApiBases";
 import type { TeamProjectReference } from "azure-devops-node-api/interfaces/CoreInterfaces";
 import pRetry, { AbortError } from "p-retry";
 import { z } from "zod";
-import type { AzureDevOpsConfig } from "./types";
+import type { AzureDevOpsConfig, RetryConfig } from "./types";
 
 // ============================================================================
 // Environment Validation Schema
@@ -118,15 +119,20 @@ class RateLimiter {
   }
 }
 
-// Singleton rate limiter instance (initialized lazily)
-let rateLimiter: RateLimiter | null = null;
+// Rate limiter instances, one per source API (initialized lazily)
+const rateLimiters = new Map<string, RateLimiter>();
 
 /**
- * Get or initialize the rate limiter
+ * Get or initialize the rate limiter for a source API
+ *
+ * Each source (Azure DevOps, GitHub) has its own quota, so they must not
+ * share a token bucket.
  */
-function getRateLimiter(config: AzureDevOpsConfig): RateLimiter {
+function getRateLimiter(config: RetryConfig, key: string): RateLimiter {
+  let rateLimiter = rateLimiters.get(key);
   if (!rateLimiter) {
     rateLimiter = new RateLimiter(config.rateLimitPerMinute);
+    rateLimiters.set(key, rateLimiter);
   }
   return rateLimiter;
 }
@@ -245,15 +251,13 @@ function isRetryableError(error: unknown): boolean {
 
     // Check for HTTP status codes in error message
     if (message.includes("429") || message.includes("rate limit")) {
-      console.warn("[Azure DevOps] Rate limit hit, will retry with backoff");
+      console.warn("[Retry] Rate limit hit, will retry with backoff");
       return true;
     }
 
     // Server errors (5xx)
     if (message.match(/\b5\d{2}\b/)) {
-      console.warn(
-        `[Azure DevOps] Server error detected: ${message}, will retry`,
-      );
+      console.warn(`[Retry] Server error detected: ${message}, will retry`);
       return true;
     }
 
@@ -282,19 +286,21 @@ function isRetryableError(error: unknown): boolean {
  * - Configurable retry attempts
  *
  * @param operation - Async function to execute
- * @param config - Azure DevOps configuration
+ * @param config - Retry and rate limit configuration of the source API
  * @param operationName - Name of operation (for logging)
+ * @param rateLimitKey - Source API whose rate limit applies (default: "azure-devops")
  * @returns Result of the operation
  * @throws {AbortError} For non-retryable errors
  * @throws {Error} After all retry attempts exhausted
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
-  config: AzureDevOpsConfig,
+  config: RetryConfig,
   operationName = "operation",
+  rateLimitKey = "azure-devops",
 ): Promise<T> {
   // Acquire rate limit token before attempting operation
-  await getRateLimiter(config).acquire();
+  await getRateLimiter(config, rateLimitKey).acquire();
 
   return pRetry(
     async () => {
@@ -321,7 +327,7 @@ export async function withRetry<T>(
       randomize: true, // Add jitter to prevent thundering herd
       onFailedAttempt: (failedAttempt) => {
         console.warn(
-          `[Azure DevOps] ${operationName} failed (attempt ${failedAttempt.attemptNumber}/${config.maxRetries + 1})`,
+          `[${rateLimitKey}] ${operationName} failed (attempt ${failedAttempt.attemptNumber}/${config.maxRetries + 1})`,
         );
       },
     },
@@ -351,6 +357,104 @@ export async function withTimeout<T>(
   return Promise.race([operation(), timeoutPromise]);
 }
 
+// ============================================================================
+// Continuation Token Paging
+// ============================================================================
+
+/**
+ * REST resource of a paged Azure DevOps API (as called by the SDK method)
+ */
+export interface ContinuationResource {
+  apiVersion: string;
+  area: string;
+  locationId: string;
+  responseType?: unknown; // SDK TypeInfo used to deserialize dates and enums
+}
+
+/**
+ * A page of results with the token of the next page (undefined on the last page)
+ */
+export interface ContinuationPage<T> {
+  items: T[];
+  continuationToken: string | undefined;
+}
+
+/**
+ * Fetch one page of a paged Azure DevOps API
+ *
+ * The SDK methods of these APIs are typed as returning a PagedList, but only
+ * return the response body: the continuation token is sent in the
+ * x-ms-continuationtoken response header and is dropped. This issues the same
+ * request as the SDK method through the client's REST client so the header
+ * can be read.
+ *
+ * @param api - SDK client of the API (e.g. from connection.getReleaseApi())
+ * @param resource - Resource the SDK method requests
+ * @param routeValues - Route values of the SDK method (e.g. { project })
+ * @param queryValues - Query values of the SDK method, including the token
+ * @returns Page items and the continuation token of the next page
+ */
+export async function getContinuationPage<T>(
+  api: Pick<
+    ClientApiBase,
+    "vsoClient" | "rest" | "createRequestOptions" | "formatResponse"
+  >,
+  resource: ContinuationResource,
+  routeValues: Record<string, unknown>,
+  queryValues: Record<string, unknown>,
+): Promise<ContinuationPage<T>> {
+  const verData = await api.vsoClient.getVersioningData(
+    resource.apiVersion,
+    resource.area,
+    resource.locationId,
+    routeValues,
+    queryValues,
+  );
+  const response = await api.rest.get<T[]>(
+    verData.requestUrl as string,
+    api.createRequestOptions("application/json", verData.apiVersion),
+  );
+
+  const items: T[] = response.result
+    ? api.formatResponse(response.result, resource.responseType, true)
+    : [];
+  const headers = response.headers as Record<
+    string,
+    string | string[] | undefined
+  >;
+  const token = headers["x-ms-continuationtoken"];
+
+  return {
+    items,
+    continuationToken: (Array.isArray(token) ? token[0] : token) || undefined,
+  };
+}
+
+/**
+ * Fetch all pages of a paged Azure DevOps API
+ *
+ * @param fetchPage - Fetches the page for a continuation token (undefined for the first page)
+ * @param shouldStop - Optional predicate to stop early (e.g. past a date cutoff)
+ * @returns Items of all fetched pages
+ */
+export async function fetchAllContinuationPages<T>(
+  fetchPage: (continuationToken?: string) => Promise<ContinuationPage<T>>,
+  shouldStop?: (items: T[]) => boolean,
+): Promise<T[]> {
+  const items: T[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await fetchPage(continuationToken);
+    items.push(...page.items);
+
+    if (shouldStop?.(page.items)) break;
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+
+  return items;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -0,0 +1,371 @@
+import { and, asc, eq, isNull, lt, ne, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db/client";
+import { type BackfillJob, backfillJobs } from "@/lib/db/schema";
+import { ingestCIRunRange } from "./ci-runs";
+import { createSourceProvider } from "./providers";
+import { ingestPullRequestRange } from "./pull-requests";
+import { getStepMetrics, resetStepMetrics, trackStep } from "./step-tracking";
+import type {
+  BackfillEntity,
+  BackfillResult,
+  SourceName,
+  SourceProject,
+  SourceProvider,
+} from "./types";
+
+/**
+ * Historical Backfill Module
+ *
+ * Ingests PRs or CI runs older than the regular 90-day window:
+ * - A backfill job covers an arbitrary date range, split into chunks
+ * - Chunks are processed newest first, so recent history lands first
+ * - Progress is stored in backfill_jobs after every chunk, so a job spans
+ *   as many serverless invocations as it needs
+ * - Each chunk is recorded as a StepMetric with its counts as metadata
+ *
+ * Backfill reuses the regular ingestion pipeline (providers, smart-merge
+ * upserts) but never touches incremental sync watermarks.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Default chunk size in days */
+export const DEFAULT_CHUNK_DAYS = 7;
+
+/** Default wall-clock budget per invocation (leaves headroom under a 300s function limit) */
+export const DEFAULT_TIME_BUDGET_MS = 240000;
+
+// Lease long enough to cover a slow final chunk started near the end of the budget
+const LEASE_MS = 15 * 60 * 1000;
+
+// ============================================================================
+// Chunk Planning
+// ============================================================================
+
+/**
+ * Date window of a single backfill chunk
+ */
+export interface BackfillChunk {
+  since: Date;
+  until: Date;
+}
+
+/**
+ * Next chunk to process, walking backwards from the cursor
+ *
+ * @returns The chunk, or null when the job's range is fully covered
+ */
+export function getNextChunk(
+  job: Pick<BackfillJob, "rangeStart" | "cursor" | "chunkDays">,
+): BackfillChunk | null {
+  if (job.cursor.getTime() <= job.rangeStart.getTime()) {
+    return null;
+  }
+
+  const since = new Date(
+    Math.max(
+      job.rangeStart.getTime(),
+      job.cursor.getTime() - job.chunkDays * DAY_MS,
+    ),
+  );
+
+  return { since, until: job.cursor };
+}
+
+/**
+ * Number of chunks left before the job is complete
+ */
+export function countRemainingChunks(
+  job: Pick<BackfillJob, "rangeStart" | "cursor" | "chunkDays">,
+): number {
+  const remainingMs = job.cursor.getTime() - job.rangeStart.getTime();
+  return remainingMs > 0
+    ? Math.ceil(remainingMs / (job.chunkDays * DAY_MS))
+    : 0;
+}
+
+// ============================================================================
+// Job Persistence
+// ============================================================================
+
+/**
+ * Parameters for a new backfill job
+ */
+export interface BackfillJobInput {
+  source: SourceName;
+  entity: BackfillEntity;
+  /** Inclusive start of the range */
+  rangeStart: Date;
+  /** Exclusive end of the range */
+  rangeEnd: Date;
+  /** Chunk size in days (default: 7) */
+  chunkDays?: number;
+}
+
+/**
+ * Create a pending backfill job
+ *
+ * @throws {Error} If the range is empty
+ */
+export async function createBackfillJob(
+  input: BackfillJobInput,
+): Promise<BackfillJob> {
+  if (input.rangeStart.getTime() >= input.rangeEnd.getTime()) {
+    throw new Error("Backfill range start must be before range end");
+  }
+
+  const [job] = await db
+    .insert(backfillJobs)
+    .values({
+      source: input.source,
+      entity: input.entity,
+      rangeStart: input.rangeStart,
+      rangeEnd: input.rangeEnd,
+      chunkDays: input.chunkDays ?? DEFAULT_CHUNK_DAYS,
+      cursor: input.rangeEnd,
+    })
+    .returning();
+
+  console.log(
+    `[Backfill] Created job ${job.id}: ${job.entity} from ${job.source}, ${job.rangeStart.toISOString()} → ${job.rangeEnd.toISOString()} (${job.chunkDays}-day chunks)`,
+  );
+
+  return job;
+}
+
+/**
+ * Lease an unfinished job for this invocation
+ *
+ * The lease is taken with a conditional update, so two overlapping
+ * invocations can never process the same job.
+ *
+ * @param jobId - Job to lease; omit to take the oldest unfinished job
+ * @returns The leased job, or null if none is available
+ */
+export async function claimBackfillJob(
+  jobId?: number,
+): Promise<BackfillJob | null> {
+  const now = new Date();
+  const available = and(
+    ne(backfillJobs.status, "completed"),
+    or(isNull(backfillJobs.lockedUntil), lt(backfillJobs.lockedUntil, now)),
+  );
+
+  let targetId = jobId;
+
+  if (targetId === undefined) {
+    const [candidate] = await db
+      .select({ id: backfillJobs.id })
+      .from(backfillJobs)
+      .where(available)
+      .orderBy(asc(backfillJobs.createdAt), asc(backfillJobs.id))
+      .limit(1);
+
+    if (!candidate) {
+      return null;
+    }
+
+    targetId = candidate.id;
+  }
+
+  const [claimed] = await db
+    .update(backfillJobs)
+    .set({
+      status: "running",
+      lockedUntil: new Date(now.getTime() + LEASE_MS),
+      updatedAt: now,
+    })
+    .where(and(eq(backfillJobs.id, targetId), available))
+    .returning();
+
+  return claimed ?? null;
+}
+
+// ============================================================================
+// Chunk Execution
+// ============================================================================
+
+async function ingestChunk(
+  provider: SourceProvider,
+  projects: SourceProject[],
+  entity: BackfillEntity,
+  chunk: BackfillChunk,
+) {
+  if (entity === "pull_requests") {
+    const result = await ingestPullRequestRange(
+      provider,
+      projects,
+      chunk.since,
+      chunk.until,
+    );
+    return {
+      ingested: result.prsIngested,
+      updated: result.prsUpdated,
+      errors: result.errors,
+    };
+  }
+
+  const result = await ingestCIRunRange(
+    provider,
+    projects,
+    chunk.since,
+    chunk.until,
+  );
+  return {
+    ingested: result.runsIngested,
+    updated: result.runsUpdated,
+    errors: result.errors,
+  };
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// ============================================================================
+// Main Backfill Entry Point
+// ============================================================================
+
+/**
+ * Options for a backfill invocation
+ */
+export interface RunBackfillOptions {
+  /** Job to advance; omit to take the oldest unfinished job */
+  jobId?: number;
+  /** Stop starting new chunks after this many milliseconds (default: 240000) */
+  timeBudgetMs?: number;
+}
+
+/**
+ * Advance a backfill job by as many chunks as fit in the time budget
+ *
+ * Chunks with per-project errors still advance the cursor (the errors are
+ * counted on the job and upserts are idempotent, so the range can be
+ * re-run). A fatal error (configuration, discovery) leaves the cursor where
+ * it was so the next invocation retries the same chunk.
+ *
+ * @returns Progress for this invocation, or null if no job was available
+ */
+export async function runBackfill(
+  options: RunBackfillOptions = {},
+): Promise<BackfillResult | null> {
+  const startTime = Date.now();
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+
+  // Clear metrics from previous run
+  resetStepMetrics();
+
+  const job = await claimBackfillJob(options.jobId);
+
+  if (!job) {
+    console.log("[Backfill] No backfill jobs available");
+    return null;
+  }
+
+  const entity = job.entity as BackfillEntity;
+  const result: BackfillResult = {
+    success: true,
+    jobId: job.id,
+    source: job.source as SourceName,
+    entity,
+    status: "running",
+    rangeStart: job.rangeStart,
+    rangeEnd: job.rangeEnd,
+    cursor: job.cursor,
+    chunksProcessed: 0,
+    chunksRemaining: countRemainingChunks(job),
+    itemsIngested: 0,
+    itemsUpdated: 0,
+    errors: [],
+    metrics: [],
+  };
+
+  console.log(
+    `[Backfill] Job ${job.id}: resuming ${entity} backfill at ${job.cursor.toISOString()} (${result.chunksRemaining} chunks remaining)`,
+  );
+
+  let cursor = job.cursor;
+
+  try {
+    const provider = await createSourceProvider(result.source);
+    const projects = await provider.discoverProjects();
+
+    let chunk = getNextChunk({ ...job, cursor });
+
+    while (chunk && Date.now() - startTime < timeBudgetMs) {
+      const currentChunk = chunk;
+      const chunkResult = await trackStep(
+        `backfill-${entity}-${formatDay(currentChunk.since)}-${formatDay(currentChunk.until)}`,
+        () => ingestChunk(provider, projects, entity, currentChunk),
+        undefined,
+        (r) => ({
+          since: currentChunk.since.toISOString(),
+          until: currentChunk.until.toISOString(),
+          ingested: r.ingested,
+          updated: r.updated,
+          errors: r.errors.length,
+        }),
+      );
+
+      cursor = currentChunk.since;
+      result.chunksProcessed++;
+      result.itemsIngested += chunkResult.ingested;
+      result.itemsUpdated += chunkResult.updated;
+      result.errors.push(...chunkResult.errors);
+
+      await db
+        .update(backfillJobs)
+        .set({
+          cursor,
+          chunksCompleted: sql`${backfillJobs.chunksCompleted} + 1`,
+          itemsIngested: sql`${backfillJobs.itemsIngested} + ${chunkResult.ingested}`,
+          itemsUpdated: sql`${backfillJobs.itemsUpdated} + ${chunkResult.updated}`,
+          errorCount: sql`${backfillJobs.errorCount} + ${chunkResult.errors.length}`,
+          lastError: chunkResult.errors[0]?.message ?? job.lastError,
+          updatedAt: new Date(),
+        })
+        .where(eq(backfillJobs.id, job.id));
+
+      chunk = getNextChunk({ ...job, cursor });
+    }
+
+    result.status = chunk ? "running" : "completed";
+  } catch (error) {
+    result.errors.push({
+      message: "Fatal error during backfill",
+      error,
+    });
+    console.error(`[Backfill] Job ${job.id}: fatal error:`, error);
+
+    await db
+      .update(backfillJobs)
+      .set({
+        errorCount: sql`${backfillJobs.errorCount} + 1`,
+        lastError: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(backfillJobs.id, job.id));
+  }
+
+  // Release the lease so the next invocation can continue
+  await db
+    .update(backfillJobs)
+    .set({
+      status: result.status,
+      lockedUntil: null,
+      updatedAt: new Date(),
+      completedAt: result.status === "completed" ? new Date() : null,
+    })
+    .where(eq(backfillJobs.id, job.id));
+
+  result.success = result.errors.length === 0;
+  result.cursor = cursor;
+  result.chunksRemaining = countRemainingChunks({ ...job, cursor });
+  result.metrics = getStepMetrics();
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+  console.log(
+    `[Backfill] Job ${job.id}: ${result.status} in ${duration}s: ${result.chunksProcessed} chunks, ${result.itemsIngested} inserted, ${result.itemsUpdated} updated, ${result.chunksRemaining} chunks remaining, ${result.errors.length} errors`,
+  );
+
+  return result;
+}
@@ -0,0 +1,702 @@
+import { and, eq, gte, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db/client";
+import { ciRuns, pullRequests, testResults } from "@/lib/db/schema";
+import {
+  insertTestResults,
+  markCIRunEnriched,
+  replaceCIRunTimeline,
+  upsertCIRun,
+} from "./persistence";
+import { createSourceProvider } from "./providers";
+import { getStepMetrics, resetStepMetrics, trackStep } from "./step-tracking";
+import type {
+  CIIngestionResult,
+  CIRunQuery,
+  ProjectCIIngestionResult,
+  SourceName,
+  SourceProject,
+  SourceProvider,
+} from "./types";
+
+// Re-export CIIngestionResult for backward compatibility
+export type { CIIngestionResult };
+
+/**
+ * CI Run Ingestion Module
+ *
+ * Implements US2.2: Ingest CI run data with flaky test detection
+ * - Autodiscovers all projects through the configured source provider
+ * - Fetches pipeline run data with pagination and rate limit handling (provider)
+ * - Fetches per-test results and stage/job timelines of completed runs
+ *   (providers that support them)
+ * - Post-ingestion batch analysis for flaky detection at pipeline and test level
+ * - Post-ingestion PR linking via PR source/merge commit SHAs
+ *
+ * Source-specific fetching lives in providers/ (see SourceProvider in
+ * types.ts); this module owns orchestration, persistence, step tracking
+ * and the source-agnostic post-ingestion analysis.
+ */
+
+// Only fetch builds from last 90 days to limit data volume
+const LOOKBACK_DAYS = 90;
+
+// ============================================================================
+// Project-Level Ingestion
+// ============================================================================
+
+async function ingestProjectCIRuns(
+  provider: SourceProvider,
+  project: SourceProject,
+  query: CIRunQuery,
+): Promise<ProjectCIIngestionResult> {
+  const projectName = project.name;
+  const result: ProjectCIIngestionResult = {
+    projectName,
+    runsIngested: 0,
+    runsUpdated: 0,
+    testResultsIngested: 0,
+    timelinesIngested: 0,
+    errors: [],
+  };
+
+  try {
+    console.log(`[${projectName}] Starting CI run ingestion...`);
+
+    // Fetch all CI runs for this project
+    const runs = await provider.listCIRuns(project, query);
+
+    console.log(`[${projectName}] Processing ${runs.length} CI runs...`);
+
+    // Completed runs whose enrichment failed or never ran
+    const unenrichedRunIds = new Set(
+      (
+        await db
+          .select({ runId: ciRuns.runId })
+          .from(ciRuns)
+          .where(
+            and(
+              eq(ciRuns.projectName, projectName),
+              eq(ciRuns.status, "completed"),
+              isNull(ciRuns.enrichedAt),
+            ),
+          )
+      ).map((run) => run.runId),
+    );
+
+    // Process each run
+    for (const runData of runs) {
+      try {
+        // Upsert to database
+        const action = await upsertCIRun(runData);
+
+        if (action === "inserted") {
+          result.runsIngested++;
+        } else if (action === "updated") {
+          result.runsUpdated++;
+        }
+
+        // Test results and timelines are final once a run completes; skipped
+        // runs were already completed last time and are only enriched again
+        // when that failed
+        if (
+          runData.status === "completed" &&
+          (action !== "skipped" || unenrichedRunIds.has(runData.runId))
+        ) {
+          if (provider.listTestResults) {
+            const results = await provider.listTestResults(project, runData);
+            result.testResultsIngested += await insertTestResults(results);
+          }
+
+          // Updates reset the run's job counters, so always refill them
+          if (provider.getRunTimeline) {
+            const timeline = await provider.getRunTimeline(project, runData);
+            if (timeline) {
+              await replaceCIRunTimeline(runData.runId, timeline);
+              result.timelinesIngested++;
+            }
+          }
+
+          await markCIRunEnriched(runData.runId);
+        }
+      } catch (error) {
+        result.errors.push({
+          message: `Failed to process CI run ${runData.runId}`,
+          error,
+        });
+      }
+    }
+
+    console.log(
+      `[${projectName}] Completed: ${result.runsIngested} inserted, ${result.runsUpdated} updated, ${result.testResultsIngested} test results, ${result.timelinesIngested} timelines, ${result.errors.length} errors`,
+    );
+  } catch (error) {
+    result.errors.push({
+      message: `Failed to fetch CI runs for project ${projectName}`,
+      error,
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Flaky Test Detection (Post-Ingestion Batch Analysis)
+// ============================================================================
+
+/**
+ * Detect flaky CI runs using pattern:
+ * - Group by commitSha
+ * - Within 24-hour window from first run
+ * - If any runs failed AND any runs passed -> mark all as flaky
+ *
+ * This implements pipeline-level flaky detection as agreed in plan.
+ * The analysis only reads ci_runs, so it covers runs from every source.
+ * flakyTestCount is left to test-level detection (detectFlakyTests).
+ */
+export async function detectFlakyRuns(): Promise<number> {
+  console.log("[Flaky Detection] Starting batch analysis...");
+
+  const startTime = Date.now();
+  const MAX_DURATION_MS = 120000; // 120 seconds timeout protection
+  const BATCH_SIZE = 500; // Process runs in batches to avoid memory exhaustion
+  const NINETY_DAYS_AGO = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+
+  try {
+    let offset = 0;
+    let totalFlakyCount = 0;
+    let totalProcessed = 0;
+    let batchNumber = 1;
+
+    while (true) {
+      // Check timeout
+      if (Date.now() - startTime > MAX_DURATION_MS) {
+        console.warn(
+          `[Flaky Detection] Timeout reached after processing ${totalProcessed} runs. Stopping early.`,
+        );
+        break;
+      }
+
+      // Fetch batch of CI runs with time window filter (last 90 days)
+      const batchRuns = await db
+        .select()
+        .from(ciRuns)
+        .where(
+          and(
+            eq(ciRuns.isFlaky, false), // Only check runs not already marked as flaky
+            gte(ciRuns.startedAt, NINETY_DAYS_AGO), // Only last 90 days
+          ),
+        )
+        .limit(BATCH_SIZE)
+        .offset(offset);
+
+      if (batchRuns.length === 0) {
+        console.log(
+          `[Flaky Detection] Batch ${batchNumber}: No more runs to analyze`,
+        );
+        break;
+      }
+
+      totalProcessed += batchRuns.length;
+      console.log(
+        `[Flaky Detection] Batch ${batchNumber}: Processing ${batchRuns.length} runs (offset: ${offset})`,
+      );
+
+      // Group by commitSha
+      const runsByCommit = new Map<string, typeof batchRuns>();
+
+      for (const run of batchRuns) {
+        if (!run.commitSha) continue;
+
+        if (!runsByCommit.has(run.commitSha)) {
+          runsByCommit.set(run.commitSha, []);
+        }
+
+        runsByCommit.get(run.commitSha)?.push(run);
+      }
+
+      console.log(
+        `[Flaky Detection] Batch ${batchNumber}: Analyzing ${runsByCommit.size} unique commits`,
+      );
+
+      // Collect all IDs to update in this batch
+      const idsToMarkFlaky: number[] = [];
+
+      // Analyze each commit's runs
+      for (const [commitSha, runs] of runsByCommit.entries()) {
+        // Need at least 2 runs to detect flaky behavior
+        if (runs.length < 2) continue;
+
+        // Sort by startedAt to find time window
+        const sortedRuns = runs.sort(
+          (a, b) => a.startedAt.getTime() - b.startedAt.getTime(),
+        );
+
+        const firstRunTime = sortedRuns[0].startedAt.getTime();
+
+        // Filter runs within 24-hour window from first run
+        const TWENTY_FOUR_HOURS = 24 * 60 * 60 * 1000;
+        const runsInWindow = sortedRuns.filter(
+          (run) => run.startedAt.getTime() - firstRunTime <= TWENTY_FOUR_HOURS,
+        );
+
+        if (runsInWindow.length < 2) continue;
+
+        // Check for mixed success/failure
+        const hasSuccess = runsInWindow.some(
+          (run) => run.conclusion === "success",
+        );
+        const hasFailure = runsInWindow.some(
+          (run) =>
+            run.conclusion === "failure" ||
+            run.conclusion === "partially_succeeded",
+        );
+
+        if (hasSuccess && hasFailure) {
+          // Flaky pattern detected! Collect IDs to mark
+          console.log(
+            `[Flaky Detection] Flaky pattern detected for commit ${commitSha.substring(0, 8)} (${runsInWindow.length} runs in window)`,
+          );
+
+          for (const run of runsInWindow) {
+            idsToMarkFlaky.push(run.id);
+          }
+        }
+      }
+
+      // Batch update all flaky runs in this batch (single query instead of N queries)
+      if (idsToMarkFlaky.length > 0) {
+        await db
+          .update(ciRuns)
+          .set({ isFlaky: true })
+          .where(inArray(ciRuns.id, idsToMarkFlaky));
+
+        totalFlakyCount += idsToMarkFlaky.length;
+        console.log(
+          `[Flaky Detection] Batch ${batchNumber}: Marked ${idsToMarkFlaky.length} runs as flaky`,
+        );
+      }
+
+      offset += BATCH_SIZE;
+      batchNumber++;
+    }
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(
+      `[Flaky Detection] Complete: Processed ${totalProcessed} runs, marked ${totalFlakyCount} as flaky (${duration}s)`,
+    );
+    return totalFlakyCount;
+  } catch (error) {
+    console.error("[Flaky Detection] Error during analysis:", error);
+    throw error;
+  }
+}
+
+/**
+ * Detect flaky tests from ingested test results:
+ * - Group results by project, repository, test name and commit
+ * - If a test both passed and failed on the same commit -> mark all of its
+ *   results on that commit as flaky
+ * - Set ci_runs.flakyTestCount to the number of distinct flaky tests in
+ *   each run (and flag the run as flaky)
+ *
+ * Only the last 90 days are analyzed, matching pipeline-level detection.
+ *
+ * @returns Number of test results newly marked as flaky
+ */
+export async function detectFlakyTests(): Promise<number> {
+  console.log("[Flaky Tests] Starting test-level analysis...");
+
+  const NINETY_DAYS_AGO = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+
+  try {
+    // Tests with mixed outcomes on the same commit
+    const flakyGroups = db
+      .select({
+        projectName: testResults.projectName,
+        repoName: testResults.repoName,
+        testName: testResults.testName,
+        commitSha: testResults.commitSha,
+      })
+      .from(testResults)
+      .where(
+        and(
+          gte(testResults.startedAt, NINETY_DAYS_AGO),
+          isNotNull(testResults.commitSha),
+        ),
+      )
+      .groupBy(
+        testResults.projectName,
+        testResults.repoName,
+        testResults.testName,
+        testResults.commitSha,
+      )
+      .having(
+        sql`bool_or(${testResults.outcome} = 'passed') and bool_or(${testResults.outcome} = 'failed')`,
+      );
+
+    const marked = await db
+      .update(testResults)
+      .set({ isFlaky: true })
+      .where(
+        and(
+          eq(testResults.isFlaky, false),
+          gte(testResults.startedAt, NINETY_DAYS_AGO),
+          sql`(${testResults.projectName}, ${testResults.repoName}, ${testResults.testName}, ${testResults.commitSha}) in ${flakyGroups}`,
+        ),
+      )
+      .returning();
+
+    // Recount every run with flaky tests (re-ingested runs are reset to 0)
+    const counts = await db
+      .select({
+        runId: testResults.runId,
+        flakyTestCount: sql<number>`cast(count(distinct ${testResults.testName}) as integer)`,
+      })
+      .from(testResults)
+      .where(
+        and(
+          eq(testResults.isFlaky, true),
+          gte(testResults.startedAt, NINETY_DAYS_AGO),
+        ),
+      )
+      .groupBy(testResults.runId);
+
+    // Group run IDs by count so each distinct count needs a single update
+    const runIdsByCount = new Map<number, string[]>();
+    for (const { runId, flakyTestCount } of counts) {
+      runIdsByCount.set(flakyTestCount, [
+        ...(runIdsByCount.get(flakyTestCount) ?? []),
+        runId,
+      ]);
+    }
+
+    for (const [flakyTestCount, runIds] of runIdsByCount) {
+      await db
+        .update(ciRuns)
+        .set({ isFlaky: true, flakyTestCount })
+        .where(inArray(ciRuns.runId, runIds));
+    }
+
+    console.log(
+      `[Flaky Tests] Complete: marked ${marked.length} test results as flaky across ${counts.length} runs`,
+    );
+    return marked.length;
+  } catch (error) {
+    console.error("[Flaky Tests] Error during analysis:", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// PR Linking Enrichment (Separate Function)
+// ============================================================================
+
+/**
+ * Enrich CI runs with PR numbers by matching commitSha to pull_requests
+ *
+ * PR-triggered runs already carry their PR number from build metadata
+ * (refs/pull/{id}/merge, trigger info, GitHub's pull_requests list). The
+ * remaining runs are matched within the same project and repository:
+ * - commitSha = mergeCommitSha: the run built the commit a PR merged
+ *   (preferred, so post-merge CI on the target branch counts toward the PR)
+ * - commitSha = sourceCommitSha: the run built the PR's latest source commit
+ *
+ * This is a separate enrichment step that can be called independently.
+ */
+export async function enrichCIRunsWithPRLinks(): Promise<{
+  enriched: number;
+  errors: number;
+}> {
+  console.log("[PR Linking] Starting enrichment...");
+
+  const result = { enriched: 0, errors: 0 };
+  const SHA_BATCH_SIZE = 500; // Keep IN lists bounded
+  const NINETY_DAYS_AGO = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+
+  try {
+    // Fetch recent CI runs without PR links but with commitSha
+    const runsWithoutPR = await db
+      .select({
+        id: ciRuns.id,
+        commitSha: ciRuns.commitSha,
+        repoName: ciRuns.repoName,
+        projectName: ciRuns.projectName,
+      })
+      .from(ciRuns)
+      .where(
+        and(
+          isNull(ciRuns.prNumber),
+          isNotNull(ciRuns.commitSha),
+          gte(ciRuns.startedAt, NINETY_DAYS_AGO),
+        ),
+      );
+
+    console.log(
+      `[PR Linking] Found ${runsWithoutPR.length} runs without PR links`,
+    );
+
+    const commitShas = [
+      ...new Set(
+        runsWithoutPR
+          .map((run) => run.commitSha)
+          .filter((sha): sha is string => sha !== null),
+      ),
+    ];
+
+    // Map "project/repo/sha" to the PR that owns the commit
+    const prByCommit = new Map<string, number>();
+    const commitKey = (projectName: string, repoName: string, sha: string) =>
+      `${projectName}/${repoName}/${sha}`;
+
+    for (let i = 0; i < commitShas.length; i += SHA_BATCH_SIZE) {
+      const batch = commitShas.slice(i, i + SHA_BATCH_SIZE);
+
+      const prs = await db
+        .select({
+          prNumber: pullRequests.prNumber,
+          repoName: pullRequests.repoName,
+          projectName: pullRequests.projectName,
+          sourceCommitSha: pullRequests.sourceCommitSha,
+          mergeCommitSha: pullRequests.mergeCommitSha,
+        })
+        .from(pullRequests)
+        .where(
+          or(
+            inArray(pullRequests.sourceCommitSha, batch),
+            inArray(pullRequests.mergeCommitSha, batch),
+          ),
+        );
+
+      // Source commits first so merge commits take precedence
+      for (const pr of prs) {
+        if (pr.sourceCommitSha) {
+          prByCommit.set(
+            commitKey(pr.projectName, pr.repoName, pr.sourceCommitSha),
+            pr.prNumber,
+          );
+        }
+      }
+      for (const pr of prs) {
+        if (pr.mergeCommitSha) {
+          prByCommit.set(
+            commitKey(pr.projectName, pr.repoName, pr.mergeCommitSha),
+            pr.prNumber,
+          );
+        }
+      }
+    }
+
+    // Group run IDs by PR so each PR needs a single update
+    const runIdsByPR = new Map<number, number[]>();
+    for (const run of runsWithoutPR) {
+      if (!run.commitSha) continue;
+
+      const prNumber = prByCommit.get(
+        commitKey(run.projectName, run.repoName, run.commitSha),
+      );
+      if (prNumber === undefined) continue;
+
+      runIdsByPR.set(prNumber, [...(runIdsByPR.get(prNumber) ?? []), run.id]);
+    }
+
+    for (const [prNumber, runIds] of runIdsByPR) {
+      try {
+        await db
+          .update(ciRuns)
+          .set({ prNumber })
+          .where(inArray(ciRuns.id, runIds));
+        result.enriched += runIds.length;
+      } catch (error) {
+        result.errors += runIds.length;
+        console.error(
+          `[PR Linking] Error linking ${runIds.length} runs to PR ${prNumber}:`,
+          error,
+        );
+      }
+    }
+
+    console.log(
+      `[PR Linking] Enriched ${result.enriched} runs, ${result.errors} errors`,
+    );
+  } catch (error) {
+    console.error("[PR Linking] Fatal error during enrichment:", error);
+    throw error;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Multi-Project Ingestion
+// ============================================================================
+
+function createEmptyResult(): CIIngestionResult {
+  return {
+    success: true,
+    projectsProcessed: 0,
+    runsIngested: 0,
+    runsUpdated: 0,
+    flakyRunsDetected: 0,
+    testResultsIngested: 0,
+    flakyTestResultsDetected: 0,
+    timelinesIngested: 0,
+    runsLinkedToPRs: 0,
+    errors: [],
+  };
+}
+
+/**
+ * Ingest CI runs for a list of projects, accumulating into `result`
+ */
+async function ingestProjects(
+  provider: SourceProvider,
+  projects: SourceProject[],
+  query: CIRunQuery,
+  result: CIIngestionResult,
+): Promise<void> {
+  // Process projects in parallel (3 at a time) for better performance
+  const PROJECT_CONCURRENCY = 3;
+
+  // Process projects in batches
+  for (let i = 0; i < projects.length; i += PROJECT_CONCURRENCY) {
+    const batch = projects.slice(i, i + PROJECT_CONCURRENCY);
+
+    const batchPromises = batch.map(async (project) => {
+      try {
+        // Wrap entire project processing with 5-minute timeout
+        const projectResult = await trackStep(
+          `ingest-project-${project.name}`,
+          () => ingestProjectCIRuns(provider, project, query),
+          300000, // 5 minute timeout per project
+        );
+
+        result.projectsProcessed++;
+        result.runsIngested += projectResult.runsIngested;
+        result.runsUpdated += projectResult.runsUpdated;
+        result.testResultsIngested += projectResult.testResultsIngested;
+        result.timelinesIngested += projectResult.timelinesIngested;
+
+        // Add project-specific errors to overall errors
+        for (const error of projectResult.errors) {
+          result.errors.push({
+            project: projectResult.projectName,
+            ...error,
+          });
+        }
+      } catch (error) {
+        const isTimeout =
+          error instanceof Error && error.message.includes("timed out");
+
+        result.errors.push({
+          project: project.name,
+          message: isTimeout
+            ? "Project ingestion timed out after 5 minutes"
+            : "Failed to ingest project CI runs",
+          error,
+        });
+        console.warn(
+          `[${project.name}] Skipping project and continuing with others`,
+        );
+        // Continue processing other projects even if this one fails/times out
+      }
+    });
+
+    // Wait for current batch to complete before starting next batch
+    await Promise.allSettled(batchPromises);
+  }
+}
+
+/**
+ * Ingest CI runs started in a historical window (used by backfill)
+ *
+ * Skips flaky detection (it only analyzes the last 90 days) and does not
+ * reset step metrics, so the caller can collect metrics across chunks.
+ *
+ * @param provider - Connected source provider
+ * @param projects - Projects to ingest
+ * @param since - Inclusive lower bound on run start time
+ * @param until - Exclusive upper bound on run start time
+ */
+export async function ingestCIRunRange(
+  provider: SourceProvider,
+  projects: SourceProject[],
+  since: Date,
+  until: Date,
+): Promise<CIIngestionResult> {
+  const result = createEmptyResult();
+  await ingestProjects(provider, projects, { since, until }, result);
+  result.success = result.errors.length === 0;
+  return result;
+}
+
+// ============================================================================
+// Main Ingestion Entry Point
+// ============================================================================
+
+/**
+ * Ingest CI runs from a source, then run flaky detection
+ *
+ * @param source - Source to ingest from; defaults to INGESTION_SOURCE
+ *   (Azure DevOps when unset)
+ */
+export async function ingestCIRuns(
+  source?: SourceName,
+): Promise<CIIngestionResult> {
+  const startTime = Date.now();
+
+  // Clear metrics from previous run
+  resetStepMetrics();
+
+  const result = createEmptyResult();
+
+  try {
+    // Create the source provider (validates configuration and connects)
+    const provider = await createSourceProvider(source);
+    console.log(
+      `[CI Ingestion] Starting ${provider.displayName} CI run ingestion...`,
+    );
+
+    // Discover projects
+    const projects = await provider.discoverProjects();
+
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    await ingestProjects(provider, projects, { since }, result);
+
+    // POST-INGESTION: Run flaky detection batch analysis
+    console.log(
+      "[CI Ingestion] CI run ingestion complete, starting flaky detection...",
+    );
+    result.flakyRunsDetected = await detectFlakyRuns();
+    result.flakyTestResultsDetected = await detectFlakyTests();
+
+    // POST-INGESTION: Link CI runs of branch builds to PRs via commit SHAs
+    const linking = await enrichCIRunsWithPRLinks();
+    result.runsLinkedToPRs = linking.enriched;
+    if (linking.errors > 0) {
+      result.errors.push({
+        message: `Failed to link ${linking.errors} CI runs to PRs`,
+      });
+    }
+
+    // Determine overall success
+    result.success = result.errors.length === 0;
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(
+      `[CI Ingestion] Completed in ${duration}s: ${result.projectsProcessed} projects, ${result.runsIngested} inserted, ${result.runsUpdated} updated, ${result.flakyRunsDetected} flaky runs detected, ${result.testResultsIngested} test results (${result.flakyTestResultsDetected} flaky), ${result.timelinesIngested} timelines, ${result.runsLinkedToPRs} runs linked to PRs, ${result.errors.length} errors`,
+    );
+  } catch (error) {
+    result.success = false;
+    result.errors.push({
+      message: "Fatal error during CI ingestion",
+      error,
+    });
+    console.error("[CI Ingestion] Fatal error:", error);
+  }
+
+  // Attach metrics to result for observability
+  result.metrics = getStepMetrics();
+
+  return result;
+}
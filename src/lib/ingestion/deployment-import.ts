@@ -0,0 +1,367 @@
+import { createHash } from "node:crypto";
+import { parseCSV } from "@/lib/utils/csv";
+import {
+  checkDeployment,
+  type DeploymentRequest,
+  deploymentSchema,
+  recordDeployment,
+} from "./manual-deployments";
+
+/**
+ * Bulk Deployment Import
+ *
+ * Loads historical deployments (e.g. exported from spreadsheets when
+ * onboarding a team) through POST /api/deployments/import:
+ * - Accepts a JSON array, JSON Lines or CSV (header row with the
+ *   deploymentSchema field names)
+ * - Validates every row with deploymentSchema and reports per-row errors
+ *   without aborting the batch
+ * - Records rows oldest first so PR linking and recovery stamping see the
+ *   deployments in the order they happened
+ * - Rows without a deploymentId get a deterministic one, so re-importing the
+ *   same file returns the existing records instead of duplicating them
+ * - Dry run: checks every row without writing anything
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type DeploymentImportFormat = "json" | "jsonl" | "csv";
+
+/**
+ * One row of an import before validation
+ */
+export interface RawImportRow {
+  /** 1-based position of the row in the input (excluding the CSV header) */
+  row: number;
+  /** Parsed row, if it could be read */
+  value?: unknown;
+  /** Why the row could not be read */
+  error?: string;
+}
+
+/**
+ * Result of one imported row
+ *
+ * - created: recorded
+ * - existing: already recorded under its deployment ID; nothing was written
+ * - valid: dry run only - the row would be created
+ * - error: the row was rejected (see errors)
+ */
+export interface DeploymentImportRowResult {
+  row: number;
+  status: "created" | "existing" | "valid" | "error";
+  deploymentId?: string;
+  errors?: string[];
+}
+
+/**
+ * Result of a bulk deployment import
+ */
+export interface DeploymentImportResult {
+  /** Whether every row was imported (or would be, in a dry run) */
+  success: boolean;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  existing: number;
+  valid: number;
+  failed: number;
+  /** Per-row results ordered by row number */
+  results: DeploymentImportRowResult[];
+}
+
+/** Largest number of rows accepted in one import */
+export const MAX_IMPORT_ROWS = 5000;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Detect the import format from a Content-Type header
+ *
+ * @returns The format, or null if the content type is not supported
+ */
+export function detectImportFormat(
+  contentType: string | null,
+): DeploymentImportFormat | null {
+  const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+
+  switch (mediaType) {
+    case "application/json":
+      return "json";
+    case "application/x-ndjson":
+    case "application/jsonl":
+    case "application/x-jsonlines":
+      return "jsonl";
+    case "text/csv":
+      return "csv";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert a CSV cell to the type deploymentSchema expects
+ *
+ * Empty cells are omitted; isRollback accepts true/false, yes/no and 1/0.
+ */
+function parseCSVCell(column: string, cell: string): unknown {
+  const value = cell.trim();
+
+  if (column === "isRollback") {
+    const normalized = value.toLowerCase();
+    if (["true", "yes", "1"].includes(normalized)) return true;
+    if (["false", "no", "0"].includes(normalized)) return false;
+  }
+
+  return value;
+}
+
+function parseCSVRows(body: string): RawImportRow[] {
+  const [header, ...records] = parseCSV(body);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+
+  return records.map((cells, index) => {
+    const row = index + 1;
+
+    if (cells.length !== columns.length) {
+      return {
+        row,
+        error: `Expected ${columns.length} columns, found ${cells.length}`,
+      };
+    }
+
+    const value: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      if (cells[i].trim() !== "") {
+        value[column] = parseCSVCell(column, cells[i]);
+      }
+    });
+
+    return { row, value };
+  });
+}
+
+function parseJSONLinesRows(body: string): RawImportRow[] {
+  return body
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line, index) => {
+      try {
+        return { row: index + 1, value: JSON.parse(line) };
+      } catch {
+        return { row: index + 1, error: "Line is not valid JSON" };
+      }
+    });
+}
+
+/**
+ * Split an import body into rows
+ *
+ * Blank JSON Lines and CSV lines are skipped and do not count as rows.
+ *
+ * @param body - Raw request body
+ * @param format - Body format
+ * @returns Rows in input order
+ * @throws Error if the body as a whole cannot be read (invalid JSON, a JSON
+ *   value that is not an array, or an unterminated quoted CSV field)
+ */
+export function parseDeploymentImport(
+  body: string,
+  format: DeploymentImportFormat,
+): RawImportRow[] {
+  switch (format) {
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        throw new Error("Request body must be valid JSON");
+      }
+      if (!Array.isArray(parsed)) {
+        throw new Error("JSON imports must be an array of deployments");
+      }
+      return parsed.map((value, index) => ({ row: index + 1, value }));
+    }
+    case "jsonl":
+      return parseJSONLinesRows(body);
+    case "csv":
+      return parseCSVRows(body);
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Deterministic deployment ID for rows without one
+ * Format: import_<hash of project, environment, commit and time>
+ */
+function importDeploymentId(data: DeploymentRequest): string {
+  const hash = createHash("sha256")
+    .update(
+      [
+        data.projectName,
+        data.environment,
+        data.commitSha.toLowerCase(),
+        new Date(data.deployedAt).toISOString(),
+      ].join("|"),
+    )
+    .digest("hex");
+
+  return `import_${hash.substring(0, 24)}`;
+}
+
+function formatIssues(
+  issues: { path: PropertyKey[]; message: string }[],
+): string[] {
+  return issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.map(String).join(".")}: ${issue.message}`
+      : issue.message,
+  );
+}
+
+/**
+ * Import a batch of deployment rows
+ *
+ * Dry runs check each row against the deployments already recorded; a
+ * rollbackOf that references another row of the same batch is only
+ * resolved in a real import.
+ *
+ * @param rows - Rows from parseDeploymentImport
+ * @param options.dryRun - Check every row without writing anything
+ * @returns Summary counts and per-row results
+ */
+export async function importDeployments(
+  rows: RawImportRow[],
+  options: { dryRun?: boolean } = {},
+): Promise<DeploymentImportResult> {
+  const dryRun = options.dryRun ?? false;
+  const results: DeploymentImportRowResult[] = [];
+  const validRows: { row: number; data: DeploymentRequest }[] = [];
+
+  // 1. Validate every row
+  for (const { row, value, error } of rows) {
+    if (error) {
+      results.push({ row, status: "error", errors: [error] });
+      continue;
+    }
+
+    const validation = deploymentSchema.safeParse(value);
+    if (!validation.success) {
+      results.push({
+        row,
+        status: "error",
+        errors: formatIssues(validation.error.issues),
+      });
+      continue;
+    }
+
+    const data = validation.data;
+    validRows.push({
+      row,
+      data: {
+        ...data,
+        deploymentId: data.deploymentId ?? importDeploymentId(data),
+      },
+    });
+  }
+
+  // 2. Record valid rows oldest first
+  validRows.sort(
+    (a, b) =>
+      new Date(a.data.deployedAt).getTime() -
+        new Date(b.data.deployedAt).getTime() || a.row - b.row,
+  );
+
+  // Rows checked so far in a dry run, so duplicates within the batch are
+  // reported the way a real import would record them
+  const seenInDryRun = new Map<string, DeploymentRequest>();
+
+  for (const { row, data } of validRows) {
+    const deploymentId = data.deploymentId as string;
+
+    try {
+      if (dryRun) {
+        const previous = seenInDryRun.get(deploymentId);
+        if (previous) {
+          const sameDeployment =
+            previous.commitSha.toLowerCase() === data.commitSha.toLowerCase() &&
+            previous.projectName === data.projectName &&
+            previous.environment === data.environment;
+          results.push(
+            sameDeployment
+              ? { row, status: "existing", deploymentId }
+              : {
+                  row,
+                  status: "error",
+                  deploymentId,
+                  errors: [
+                    `Deployment ${deploymentId} appears earlier in the batch for a different commit, project or environment`,
+                  ],
+                },
+          );
+          continue;
+        }
+        seenInDryRun.set(deploymentId, data);
+
+        const check = await checkDeployment(data);
+        results.push(
+          "message" in check
+            ? { row, status: "error", deploymentId, errors: [check.message] }
+            : { row, status: check.outcome, deploymentId },
+        );
+        continue;
+      }
+
+      const recorded = await recordDeployment(data);
+      results.push(
+        "message" in recorded
+          ? { row, status: "error", deploymentId, errors: [recorded.message] }
+          : { row, status: recorded.outcome, deploymentId },
+      );
+    } catch (error) {
+      console.error(
+        `[Deployment Import] Error importing row ${row} (${deploymentId}):`,
+        error,
+      );
+      results.push({
+        row,
+        status: "error",
+        deploymentId,
+        errors: [error instanceof Error ? error.message : String(error)],
+      });
+    }
+  }
+
+  results.sort((a, b) => a.row - b.row);
+
+  const count = (status: DeploymentImportRowResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+
+  const summary: DeploymentImportResult = {
+    success: count("error") === 0,
+    dryRun,
+    total: rows.length,
+    created: count("created"),
+    existing: count("existing"),
+    valid: count("valid"),
+    failed: count("error"),
+    results,
+  };
+
+  console.log(
+    `[Deployment Import] ${dryRun ? "Dry run" : "Import"} of ${summary.total} rows: ${summary.created} created, ${summary.existing} existing, ${summary.valid} valid, ${summary.failed} failed`,
+  );
+
+  return summary;
+}
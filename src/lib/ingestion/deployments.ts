@@ -0,0 +1,479 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+  sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@/lib/db/client";
+import { type Deployment, deployments, pullRequests } from "@/lib/db/schema";
+import { loadIdentityResolver } from "@/lib/identities/identities";
+import { upsertDeployment } from "./persistence";
+import { createSourceProvider } from "./providers";
+import { getStepMetrics, resetStepMetrics, trackStep } from "./step-tracking";
+import type {
+  DeploymentIngestionResult,
+  DeploymentQuery,
+  SourceName,
+  SourceProject,
+  SourceProvider,
+} from "./types";
+
+/**
+ * Deployment Ingestion Module
+ *
+ * Populates the deployments table from the source's deployment records
+ * (Azure Pipelines environments and classic Releases) so DORA metrics no
+ * longer depend on manual POST /api/deployments calls:
+ * - Autodiscovers all projects through the configured source provider
+ * - Resolves commit SHA and related PRs from the deployed build (provider)
+ * - Identity normalization: deployers are stored under their identity name
+ * - Smart merge: only rewrites deployments whose status, completion time or
+ *   related PRs changed, preserving manually recorded recovery data
+ * - PR linking: fills relatedPRs of deployments that have none from the
+ *   merge commit SHAs captured on pull_requests
+ * - Recovery tracking: stamps recoveredAt on failed deployments once a later
+ *   successful deployment (fix-forward or rollback) lands
+ *
+ * Source-specific fetching lives in providers/ (see
+ * SourceProvider.listDeployments in types.ts); this module owns orchestration
+ * and persistence only.
+ */
+
+// Only fetch deployments from last 90 days to limit data volume
+const LOOKBACK_DAYS = 90;
+
+// ============================================================================
+// Project-Level Ingestion
+// ============================================================================
+
+async function ingestProjectDeployments(
+  listDeployments: NonNullable<SourceProvider["listDeployments"]>,
+  project: SourceProject,
+  query: DeploymentQuery,
+  result: DeploymentIngestionResult,
+): Promise<void> {
+  const projectName = project.name;
+
+  console.log(`[${projectName}] Starting deployment ingestion...`);
+
+  const deployments = await listDeployments(project, query);
+  const identities = await loadIdentityResolver();
+
+  console.log(
+    `[${projectName}] Processing ${deployments.length} deployments...`,
+  );
+
+  let inserted = 0;
+  let updated = 0;
+
+  for (const deployment of deployments) {
+    try {
+      deployment.deployedBy = identities([deployment.deployedBy])?.name ?? null;
+
+      const action = await upsertDeployment(deployment);
+
+      if (action === "inserted") {
+        inserted++;
+      } else if (action === "updated") {
+        updated++;
+      } else {
+        result.deploymentsSkipped++;
+      }
+    } catch (error) {
+      result.errors.push({
+        project: projectName,
+        message: `Failed to process deployment ${deployment.deploymentId}`,
+        error,
+      });
+    }
+  }
+
+  result.deploymentsIngested += inserted;
+  result.deploymentsUpdated += updated;
+
+  console.log(
+    `[${projectName}] Completed: ${inserted} inserted, ${updated} updated`,
+  );
+}
+
+// ============================================================================
+// PR Linking Enrichment
+// ============================================================================
+
+/**
+ * Get the merge time of the PR whose merge commit is `commitSha`
+ */
+async function findMergeTime(
+  deployment: Deployment,
+  commitSha: string,
+): Promise<Date | null> {
+  const [pr] = await db
+    .select({ mergedAt: pullRequests.mergedAt })
+    .from(pullRequests)
+    .where(
+      and(
+        eq(pullRequests.projectName, deployment.projectName),
+        eq(pullRequests.mergeCommitSha, commitSha),
+        deployment.repoName
+          ? eq(pullRequests.repoName, deployment.repoName)
+          : undefined,
+      ),
+    )
+    .limit(1);
+
+  return pr?.mergedAt ?? null;
+}
+
+/**
+ * Resolve the PRs a deployment shipped
+ *
+ * The deployment ships every PR merged after the commit of the previous
+ * successful deployment to the same project/environment (and repository,
+ * when known), up to and including its own commit:
+ * - Upper bound: merge time of the PR whose merge commit is the deployed
+ *   commit, falling back to the deployment start time
+ * - Lower bound (exclusive): merge time of the PR whose merge commit was
+ *   previously deployed, falling back to the previous deployment start time
+ *
+ * Without a previous deployment the history is unknown, so only the PR whose
+ * merge commit was deployed is linked. Redeploying the previous commit ships
+ * nothing new.
+ *
+ * @param deployment - Deployment to resolve PRs for
+ * @returns PR numbers ordered by merge time
+ */
+export async function resolveDeploymentPRs(
+  deployment: Deployment,
+): Promise<number[]> {
+  const [previous] = await db
+    .select()
+    .from(deployments)
+    .where(
+      and(
+        eq(deployments.projectName, deployment.projectName),
+        eq(deployments.environment, deployment.environment),
+        deployment.repoName
+          ? eq(deployments.repoName, deployment.repoName)
+          : undefined,
+        eq(deployments.status, "success"),
+        lt(deployments.startedAt, deployment.startedAt),
+        ne(deployments.id, deployment.id),
+      ),
+    )
+    .orderBy(desc(deployments.startedAt))
+    .limit(1);
+
+  if (previous && previous.commitSha === deployment.commitSha) {
+    return [];
+  }
+
+  const deployedMergeTime = await findMergeTime(
+    deployment,
+    deployment.commitSha,
+  );
+  const upperBound = deployedMergeTime ?? deployment.startedAt;
+
+  let lowerBound: Date | null = null;
+  if (previous) {
+    lowerBound =
+      (await findMergeTime(deployment, previous.commitSha)) ??
+      previous.startedAt;
+  } else if (!deployedMergeTime) {
+    return [];
+  }
+
+  const prs = await db
+    .select({ prNumber: pullRequests.prNumber })
+    .from(pullRequests)
+    .where(
+      and(
+        eq(pullRequests.projectName, deployment.projectName),
+        deployment.repoName
+          ? eq(pullRequests.repoName, deployment.repoName)
+          : undefined,
+        eq(pullRequests.state, "merged"),
+        // Without a previous deployment, only the deployed PR itself
+        lowerBound
+          ? gt(pullRequests.mergedAt, lowerBound)
+          : eq(pullRequests.mergeCommitSha, deployment.commitSha),
+        lte(pullRequests.mergedAt, upperBound),
+      ),
+    )
+    .orderBy(asc(pullRequests.mergedAt));
+
+  return [...new Set(prs.map((pr) => pr.prNumber))];
+}
+
+/**
+ * Fill relatedPRs of a single deployment if it has none
+ *
+ * @param deployment - Deployment to link
+ * @returns The deployment with relatedPRs filled in (unchanged if no PRs
+ *   were resolved or it already listed PRs)
+ */
+export async function linkDeploymentToPRs(
+  deployment: Deployment,
+): Promise<Deployment> {
+  const existingPRs = (deployment.relatedPRs as number[] | null) ?? [];
+  if (existingPRs.length > 0) {
+    return deployment;
+  }
+
+  const relatedPRs = await resolveDeploymentPRs(deployment);
+  if (relatedPRs.length === 0) {
+    return deployment;
+  }
+
+  const [updated] = await db
+    .update(deployments)
+    .set({ relatedPRs })
+    .where(eq(deployments.id, deployment.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Enrich deployments from the lookback window that list no PRs
+ *
+ * Deployments are linked oldest first. This is a separate enrichment step
+ * that can be called independently; it only reads deployments and
+ * pull_requests, so it covers ingested and manually recorded deployments.
+ */
+export async function enrichDeploymentsWithPRLinks(): Promise<{
+  enriched: number;
+  errors: number;
+}> {
+  console.log("[Deployment Linking] Starting enrichment...");
+
+  const result = { enriched: 0, errors: 0 };
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const unlinked = await db
+    .select()
+    .from(deployments)
+    .where(
+      and(
+        sql`coalesce(${deployments.relatedPRs}, '[]'::jsonb) = '[]'::jsonb`,
+        gte(deployments.startedAt, since),
+      ),
+    )
+    .orderBy(asc(deployments.startedAt));
+
+  console.log(
+    `[Deployment Linking] Found ${unlinked.length} deployments without PR links`,
+  );
+
+  for (const deployment of unlinked) {
+    try {
+      const linked = await linkDeploymentToPRs(deployment);
+      if (linked !== deployment) {
+        result.enriched++;
+      }
+    } catch (error) {
+      result.errors++;
+      console.error(
+        `[Deployment Linking] Error linking deployment ${deployment.deploymentId}:`,
+        error,
+      );
+    }
+  }
+
+  console.log(
+    `[Deployment Linking] Enriched ${result.enriched} deployments, ${result.errors} errors`,
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Recovery Tracking
+// ============================================================================
+
+/**
+ * Stamp recoveredAt on failed deployments that a later deployment recovered
+ *
+ * A failed deployment is recovered when the first successful, non-failed
+ * deployment to the same project/environment completes after it - either a
+ * fix-forward or a rollback. Failures that already have recoveredAt (e.g.
+ * set through PATCH /api/deployments/:id) are left untouched.
+ *
+ * @param scope - Optional project/environment to limit the update to
+ * @returns Number of deployments marked as recovered
+ */
+export async function stampDeploymentRecoveries(scope?: {
+  projectName: string;
+  environment: string;
+}): Promise<number> {
+  const recovery = alias(deployments, "recovery");
+
+  const firstRecovery = db
+    .select({ completedAt: sql`min(${recovery.completedAt})` })
+    .from(recovery)
+    .where(
+      and(
+        eq(recovery.projectName, deployments.projectName),
+        eq(recovery.environment, deployments.environment),
+        eq(recovery.status, "success"),
+        sql`coalesce(${recovery.isFailed}, false) = false`,
+        gt(recovery.completedAt, deployments.completedAt),
+      ),
+    );
+
+  const recovered = await db
+    .update(deployments)
+    .set({ recoveredAt: sql`${firstRecovery}` })
+    .where(
+      and(
+        eq(deployments.isFailed, true),
+        isNull(deployments.recoveredAt),
+        isNotNull(deployments.completedAt),
+        sql`${firstRecovery} is not null`,
+        scope ? eq(deployments.projectName, scope.projectName) : undefined,
+        scope ? eq(deployments.environment, scope.environment) : undefined,
+      ),
+    )
+    .returning();
+
+  if (recovered.length > 0) {
+    console.log(
+      `[Deployment Recovery] Marked ${recovered.length} failed deployments as recovered`,
+    );
+  }
+
+  return recovered.length;
+}
+
+// ============================================================================
+// Main Ingestion Entry Point
+// ============================================================================
+
+/**
+ * Ingest deployments from a source
+ *
+ * @param source - Source to ingest from; defaults to INGESTION_SOURCE
+ *   (Azure DevOps when unset)
+ */
+export async function ingestDeployments(
+  source?: SourceName,
+): Promise<DeploymentIngestionResult> {
+  const startTime = Date.now();
+
+  // Clear metrics from previous run
+  resetStepMetrics();
+
+  const result: DeploymentIngestionResult = {
+    success: true,
+    projectsProcessed: 0,
+    deploymentsIngested: 0,
+    deploymentsUpdated: 0,
+    deploymentsSkipped: 0,
+    deploymentsLinked: 0,
+    deploymentsRecovered: 0,
+    errors: [],
+  };
+
+  try {
+    // Create the source provider (validates configuration and connects)
+    const provider = await createSourceProvider(source);
+    const listDeployments = provider.listDeployments?.bind(provider);
+
+    if (!listDeployments) {
+      throw new Error(
+        `${provider.displayName} does not provide deployment records; record deployments with POST /api/deployments`,
+      );
+    }
+
+    console.log(
+      `[Deployment Ingestion] Starting ${provider.displayName} deployment ingestion...`,
+    );
+
+    // Discover projects
+    const projects = await provider.discoverProjects();
+
+    const query: DeploymentQuery = {
+      since: new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+    };
+
+    // Process projects in parallel (3 at a time) for better performance
+    const PROJECT_CONCURRENCY = 3;
+
+    for (let i = 0; i < projects.length; i += PROJECT_CONCURRENCY) {
+      const batch = projects.slice(i, i + PROJECT_CONCURRENCY);
+
+      const batchPromises = batch.map(async (project) => {
+        try {
+          // Wrap entire project processing with 5-minute timeout
+          await trackStep(
+            `ingest-deployments-${project.name}`,
+            () =>
+              ingestProjectDeployments(listDeployments, project, query, result),
+            300000, // 5 minute timeout per project
+          );
+          result.projectsProcessed++;
+        } catch (error) {
+          const isTimeout =
+            error instanceof Error && error.message.includes("timed out");
+
+          result.errors.push({
+            project: project.name,
+            message: isTimeout
+              ? "Project deployment ingestion timed out after 5 minutes"
+              : `Failed to fetch deployments for project ${project.name}`,
+            error,
+          });
+          // Continue processing other projects even if this one fails/times out
+        }
+      });
+
+      // Wait for current batch to complete before starting next batch
+      await Promise.allSettled(batchPromises);
+    }
+
+    // POST-INGESTION: Link deployments without PRs via merge commits
+    const linking = await trackStep("link-deployments-to-prs", () =>
+      enrichDeploymentsWithPRLinks(),
+    );
+    result.deploymentsLinked = linking.enriched;
+    if (linking.errors > 0) {
+      result.errors.push({
+        message: `Failed to link ${linking.errors} deployments to PRs`,
+      });
+    }
+
+    // POST-INGESTION: Stamp recoveredAt on failures a later deployment fixed
+    result.deploymentsRecovered = await trackStep(
+      "stamp-deployment-recoveries",
+      () => stampDeploymentRecoveries(),
+    );
+
+    // Determine overall success
+    result.success = result.errors.length === 0;
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    console.log(
+      `[Deployment Ingestion] Completed in ${duration}s: ${result.projectsProcessed} projects, ${result.deploymentsIngested} inserted, ${result.deploymentsUpdated} updated, ${result.deploymentsSkipped} unchanged, ${result.deploymentsLinked} linked to PRs, ${result.deploymentsRecovered} recovered, ${result.errors.length} errors`,
+    );
+  } catch (error) {
+    result.success = false;
+    result.errors.push({
+      message: "Fatal error during deployment ingestion",
+      error,
+    });
+    console.error("[Deployment Ingestion] Fatal error:", error);
+  }
+
+  // Attach metrics to result for observability
+  result.metrics = getStepMetrics();
+
+  return result;
+}
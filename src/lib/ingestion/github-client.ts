@@ -0,0 +1,258 @@
+/**
+ * GitHub API Client
+ *
+ * Shared utilities for GitHub REST API interactions with:
+ * - Environment validation (zod)
+ * - Retry logic and rate limiting (reused from azure-devops-client.ts)
+ * - Page-number pagination
+ * - Repository discovery
+ *
+ * Uses plain fetch instead of an SDK: ingestion only needs a handful of
+ * read-only list endpoints.
+ */
+
+import { z } from "zod";
+import { withRetry, withTimeout } from "./azure-devops-client";
+import type { GitHubConfig, GitHubRepository } from "./types";
+
+// ============================================================================
+// Environment Validation Schema
+// ============================================================================
+
+const GitHubEnvSchema = z.object({
+  GITHUB_TOKEN: z
+    .string()
+    .min(1, "GITHUB_TOKEN environment variable is required"),
+  GITHUB_ORG: z.string().min(1, "GITHUB_ORG environment variable is required"),
+  GITHUB_API_URL: z
+    .string()
+    .url("GITHUB_API_URL must be a valid URL")
+    .optional()
+    .default("https://api.github.com"),
+  GITHUB_EXCLUDE_REPOS: z.string().optional().default(""),
+  GITHUB_REQUEST_TIMEOUT: z
+    .string()
+    .optional()
+    .default("30000")
+    .transform((val) => Number.parseInt(val, 10))
+    .refine((val) => val > 0 && val <= 300000, {
+      message: "Request timeout must be between 1ms and 300000ms (5 minutes)",
+    }),
+  GITHUB_MAX_RETRIES: z
+    .string()
+    .optional()
+    .default("3")
+    .transform((val) => Number.parseInt(val, 10))
+    .refine((val) => val >= 0 && val <= 10, {
+      message: "Max retries must be between 0 and 10",
+    }),
+  GITHUB_RATE_LIMIT_PER_MIN: z
+    .string()
+    .optional()
+    .default("80")
+    .transform((val) => Number.parseInt(val, 10))
+    .refine((val) => val > 0 && val <= 1000, {
+      message: "Rate limit must be between 1 and 1000 requests per minute",
+    }),
+});
+
+/** Page size for list endpoints (GitHub maximum) */
+export const GITHUB_PER_PAGE = 100;
+
+// ============================================================================
+// Configuration & Validation
+// ============================================================================
+
+/**
+ * Check whether GitHub ingestion is set up (GITHUB_TOKEN and GITHUB_ORG)
+ *
+ * The GitHub crons run on every deployment; the ingest routes use this to
+ * skip them where only Azure DevOps is configured.
+ */
+export function isGitHubConfigured(): boolean {
+  return Boolean(process.env.GITHUB_TOKEN && process.env.GITHUB_ORG);
+}
+
+/**
+ * Get and validate GitHub configuration from environment variables
+ *
+ * @throws {z.ZodError} If environment variables are invalid
+ * @returns Validated configuration object
+ */
+export function getGitHubConfig(): GitHubConfig {
+  const env = GitHubEnvSchema.parse(process.env);
+
+  const excludeRepos = env.GITHUB_EXCLUDE_REPOS
+    ? env.GITHUB_EXCLUDE_REPOS.split(",").map((r) => r.trim())
+    : [];
+
+  return {
+    token: env.GITHUB_TOKEN,
+    org: env.GITHUB_ORG,
+    apiUrl: env.GITHUB_API_URL.replace(/\/$/, ""),
+    excludeRepos,
+    requestTimeout: env.GITHUB_REQUEST_TIMEOUT,
+    maxRetries: env.GITHUB_MAX_RETRIES,
+    rateLimitPerMinute: env.GITHUB_RATE_LIMIT_PER_MIN,
+  };
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Perform an authenticated GET request against the GitHub REST API
+ *
+ * Non-2xx responses are thrown as errors whose message carries the HTTP
+ * status, so the shared retry classifier can tell retryable failures
+ * (429, 5xx, exhausted rate limit) from permanent ones (401, 404).
+ *
+ * @param config - GitHub configuration
+ * @param path - API path starting with "/" (e.g., "/orgs/acme/repos")
+ * @param params - Optional query string parameters
+ * @returns Parsed JSON response body
+ */
+export async function githubRequest<T>(
+  config: GitHubConfig,
+  path: string,
+  params: Record<string, string | number> = {},
+): Promise<T> {
+  const query = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)]),
+  ).toString();
+  const url = `${config.apiUrl}${path}${query ? `?${query}` : ""}`;
+
+  return withRetry(
+    () =>
+      withTimeout(
+        async () => {
+          const response = await fetch(url, {
+            headers: {
+              Accept: "application/vnd.github+json",
+              Authorization: `Bearer ${config.token}`,
+              "X-GitHub-Api-Version": "2022-11-28",
+            },
+          });
+
+          if (!response.ok) {
+            // GitHub signals an exhausted primary rate limit with 403
+            const rateLimited =
+              response.headers.get("x-ratelimit-remaining") === "0";
+            throw new Error(
+              `GitHub API ${response.status} ${response.statusText}${rateLimited ? " (rate limit exceeded)" : ""}: GET ${path}`,
+            );
+          }
+
+          return (await response.json()) as T;
+        },
+        config.requestTimeout,
+        `GET ${path}`,
+      ),
+    config,
+    `GET ${path}`,
+    "github",
+  );
+}
+
+/**
+ * Fetch pages of a list endpoint until a short page is returned or
+ * `shouldStop` reports that the remaining pages are not needed.
+ *
+ * @param fetchPage - Fetches one page (1-based) and returns its items
+ * @param shouldStop - Optional early-exit check evaluated after each page
+ * @returns All items across the fetched pages
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  shouldStop?: (items: T[]) => boolean,
+): Promise<T[]> {
+  const allItems: T[] = [];
+  let page = 1;
+
+  while (true) {
+    const items = await fetchPage(page);
+    allItems.push(...items);
+
+    if (items.length < GITHUB_PER_PAGE || shouldStop?.(items)) {
+      break;
+    }
+
+    page++;
+  }
+
+  return allItems;
+}
+
+/**
+ * Find the first page of a list endpoint that satisfies `isReached`
+ *
+ * The list must be ordered so that every page after the first satisfying
+ * page satisfies it too (e.g. PRs sorted newest first, reached once a page
+ * goes back past a date); empty pages past the end must satisfy it. Pages
+ * 1, 2, 4, 8, ... are probed and the range is then bisected, so skipping N
+ * pages takes O(log N) requests instead of N.
+ *
+ * @param fetchPage - Fetches one page (1-based) and returns its items
+ * @param isReached - Whether a page is at or past the wanted position
+ * @returns First page satisfying isReached
+ */
+export async function findFirstPage<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  isReached: (items: T[]) => boolean,
+): Promise<number> {
+  let low = 0; // Last page known not to satisfy isReached (0 = none)
+  let high = 1;
+
+  while (!isReached(await fetchPage(high))) {
+    low = high;
+    high *= 2;
+  }
+
+  // low does not satisfy isReached and high does: bisect in between
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (isReached(await fetchPage(middle))) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+
+  return high;
+}
+
+// ============================================================================
+// Repository Discovery
+// ============================================================================
+
+/**
+ * Discover all active repositories in a GitHub organization
+ *
+ * Archived repositories and repositories listed in GITHUB_EXCLUDE_REPOS
+ * are filtered out.
+ *
+ * @param config - GitHub configuration
+ * @returns Array of repositories
+ */
+export async function discoverRepositories(
+  config: GitHubConfig,
+): Promise<GitHubRepository[]> {
+  const allRepos = await fetchAllPages((page) =>
+    githubRequest<GitHubRepository[]>(config, `/orgs/${config.org}/repos`, {
+      type: "all",
+      per_page: GITHUB_PER_PAGE,
+      page,
+    }),
+  );
+
+  const filteredRepos = allRepos.filter(
+    (repo) => !repo.archived && !config.excludeRepos.includes(repo.name),
+  );
+
+  console.log(
+    `[GitHub] Discovered ${filteredRepos.length} repositories (excluded ${allRepos.length - filteredRepos.length})`,
+  );
+
+  return filteredRepos;
+}
@@ -0,0 +1,388 @@
+import { and, desc, eq, lt } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db/client";
+import {
+  type Deployment,
+  deployments,
+  type NewDeployment,
+} from "@/lib/db/schema";
+import { resolveIdentity } from "@/lib/identities/identities";
+import {
+  getEnvironmentRegistry,
+  isKnownEnvironment,
+} from "@/lib/utils/environments";
+import { linkDeploymentToPRs, stampDeploymentRecoveries } from "./deployments";
+
+/**
+ * Manual Deployment Recording
+ *
+ * Records deployment events sent to the deployments API, one at a time
+ * (POST /api/deployments) or in bulk (POST /api/deployments/import):
+ * - Validation shared by both endpoints (deploymentSchema)
+ * - Idempotency: a deployment ID that is already recorded returns the
+ *   existing record instead of inserting a duplicate
+ * - Rollbacks: marks the rolled-back deployment as failed
+ * - Recovery: a successful deployment stamps recoveredAt on earlier failures
+ * - PR linking: resolves relatedPRs from PR merge commit SHAs (best effort)
+ * - Identity normalization: deployedBy is stored under the identity name
+ */
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+// Validation schema for a deployment event
+export const deploymentSchema = z.object({
+  deploymentId: z
+    .string()
+    .min(1, "deploymentId must not be empty")
+    .max(255, "deploymentId must be 255 characters or less")
+    .optional(),
+  // Registered environments (see DEPLOYMENT_ENVIRONMENTS), stored lowercase
+  environment: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .superRefine((environment, ctx) => {
+      if (!isKnownEnvironment(environment)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `environment must be one of: ${getEnvironmentRegistry().environments.join(", ")}`,
+        });
+      }
+    }),
+  commitSha: z
+    .string()
+    .length(40, "commitSha must be exactly 40 characters (Git SHA-1 hash)")
+    .regex(/^[a-f0-9]+$/i, "commitSha must be a valid hexadecimal hash"),
+  deployedAt: z
+    .string()
+    .datetime({ message: "deployedAt must be a valid ISO 8601 timestamp" }),
+  projectName: z
+    .string()
+    .min(1, "projectName is required")
+    .max(255, "projectName must be 255 characters or less"),
+  orgName: z
+    .string()
+    .min(1, "orgName is required")
+    .max(255, "orgName must be 255 characters or less"),
+  status: z
+    .enum(["success", "failure"], {
+      message: "status must be either: success, failure",
+    })
+    .default("success"),
+  deployedBy: z
+    .string()
+    .max(255, "deployedBy must be 255 characters or less")
+    .optional(),
+  notes: z.string().optional(),
+  repoName: z
+    .string()
+    .max(255, "repoName must be 255 characters or less")
+    .optional(),
+  isRollback: z.boolean().default(false),
+  rollbackOf: z
+    .string()
+    .min(1, "rollbackOf must not be empty")
+    .max(255, "rollbackOf must be 255 characters or less")
+    .optional(),
+});
+
+export type DeploymentRequest = z.infer<typeof deploymentSchema>;
+
+/**
+ * Event that cannot be recorded
+ *
+ * - invalid: the event references an unknown or mismatched deployment
+ * - conflict: the deployment ID was already used for a different deployment
+ */
+export interface DeploymentRejection {
+  outcome: "invalid" | "conflict";
+  message: string;
+}
+
+/**
+ * Outcome of recording one deployment event
+ *
+ * - created: inserted
+ * - existing: the deployment ID was already recorded for the same
+ *   commit/project/environment; nothing was written
+ */
+export type RecordDeploymentResult =
+  | { outcome: "created" | "existing"; deployment: Deployment }
+  | DeploymentRejection;
+
+/**
+ * Outcome of checking a deployment event without recording it (dry run)
+ *
+ * - valid: the event would be created under deploymentId
+ */
+export type CheckDeploymentResult =
+  | { outcome: "valid"; deploymentId: string }
+  | { outcome: "existing"; deployment: Deployment }
+  | DeploymentRejection;
+
+/**
+ * Deployment event that passed all checks and can be inserted
+ */
+interface PreparedDeployment {
+  outcome: "ready";
+  deploymentId: string;
+  rolledBack: Deployment | null;
+  record: NewDeployment;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Generates a unique deployment ID
+ * Format: deploy_<timestamp>_<short_sha>
+ */
+function generateDeploymentId(commitSha: string): string {
+  const timestamp = Date.now();
+  const shortSha = commitSha.substring(0, 8);
+  return `deploy_${timestamp}_${shortSha}`;
+}
+
+async function findDeployment(
+  deploymentId: string,
+): Promise<Deployment | undefined> {
+  const [deployment] = await db
+    .select()
+    .from(deployments)
+    .where(eq(deployments.deploymentId, deploymentId))
+    .limit(1);
+
+  return deployment;
+}
+
+/**
+ * Compare a retried event with the deployment recorded under its ID
+ */
+function replayExisting(
+  existing: Deployment,
+  data: DeploymentRequest,
+): { outcome: "existing"; deployment: Deployment } | DeploymentRejection {
+  if (
+    existing.commitSha.toLowerCase() !== data.commitSha.toLowerCase() ||
+    existing.projectName !== data.projectName ||
+    existing.environment !== data.environment
+  ) {
+    return {
+      outcome: "conflict",
+      message: `Deployment ${existing.deploymentId} was already recorded for a different commit, project or environment`,
+    };
+  }
+
+  console.log(
+    `[Deployments] Deployment ${existing.deploymentId} already recorded, returning existing record`,
+  );
+
+  return { outcome: "existing", deployment: existing };
+}
+
+/**
+ * Find the deployment a rollback rolls back
+ *
+ * With rollbackOf, the referenced deployment must exist, target the same
+ * project/environment and precede the rollback. Without it, the latest
+ * failed deployment to the same project/environment is assumed.
+ *
+ * @returns The rolled-back deployment (null if none was found), or an error
+ *   message for an invalid rollbackOf
+ */
+async function findRolledBackDeployment(
+  data: DeploymentRequest,
+  deployedAt: Date,
+): Promise<Deployment | null | string> {
+  if (!data.rollbackOf) {
+    const [latestFailure] = await db
+      .select()
+      .from(deployments)
+      .where(
+        and(
+          eq(deployments.projectName, data.projectName),
+          eq(deployments.environment, data.environment),
+          eq(deployments.isFailed, true),
+          lt(deployments.startedAt, deployedAt),
+        ),
+      )
+      .orderBy(desc(deployments.startedAt))
+      .limit(1);
+
+    return latestFailure ?? null;
+  }
+
+  const target = await findDeployment(data.rollbackOf);
+
+  if (!target) {
+    return `Unknown rollbackOf deployment: ${data.rollbackOf}`;
+  }
+
+  if (
+    target.projectName !== data.projectName ||
+    target.environment !== data.environment
+  ) {
+    return "rollbackOf must reference a deployment to the same project and environment";
+  }
+
+  if ((target.completedAt ?? target.startedAt) >= deployedAt) {
+    return `A rollback must be deployed after the deployment it rolls back (${target.deploymentId})`;
+  }
+
+  return target;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Run the idempotency and rollback checks for an event and build its record
+ */
+async function prepareDeployment(
+  data: DeploymentRequest,
+): Promise<
+  | PreparedDeployment
+  | { outcome: "existing"; deployment: Deployment }
+  | DeploymentRejection
+> {
+  // Return the existing record when a known deployment ID is retried
+  if (data.deploymentId) {
+    const existing = await findDeployment(data.deploymentId);
+    if (existing) {
+      return replayExisting(existing, data);
+    }
+  }
+
+  const deploymentId =
+    data.deploymentId ?? generateDeploymentId(data.commitSha);
+  const deployedAt = new Date(data.deployedAt);
+  const isFailed = data.status === "failure";
+  const isRollback = data.isRollback || data.rollbackOf !== undefined;
+
+  let rolledBack: Deployment | null = null;
+  if (isRollback) {
+    const target = await findRolledBackDeployment(data, deployedAt);
+    if (typeof target === "string") {
+      return { outcome: "invalid", message: target };
+    }
+    rolledBack = target;
+  }
+
+  return {
+    outcome: "ready",
+    deploymentId,
+    rolledBack,
+    record: {
+      deploymentId,
+      environment: data.environment,
+      repoName: data.repoName ?? null,
+      orgName: data.orgName,
+      projectName: data.projectName,
+      commitSha: data.commitSha,
+      deployedBy: data.deployedBy
+        ? (await resolveIdentity(data.deployedBy)).name
+        : null,
+      notes: data.notes ?? null,
+      status: data.status,
+      startedAt: deployedAt,
+      completedAt: deployedAt, // For manual deployments, started and completed are the same
+      isFailed,
+      failureReason: isFailed ? (data.notes ?? null) : null,
+      isRollback,
+      rollbackOf: rolledBack?.id ?? null,
+      recoveredAt: null,
+      relatedPRs: [],
+    },
+  };
+}
+
+/**
+ * Check a validated deployment event without writing anything (dry run)
+ *
+ * @param data - Event validated against deploymentSchema
+ * @returns Whether the event would be created, is already recorded, or
+ *   would be rejected
+ */
+export async function checkDeployment(
+  data: DeploymentRequest,
+): Promise<CheckDeploymentResult> {
+  const prepared = await prepareDeployment(data);
+
+  return prepared.outcome === "ready"
+    ? { outcome: "valid", deploymentId: prepared.deploymentId }
+    : prepared;
+}
+
+/**
+ * Record a validated deployment event
+ *
+ * @param data - Event validated against deploymentSchema; data.deploymentId
+ *   is the idempotency key (generated when omitted)
+ * @returns Outcome of the event (see RecordDeploymentResult)
+ */
+export async function recordDeployment(
+  data: DeploymentRequest,
+): Promise<RecordDeploymentResult> {
+  const prepared = await prepareDeployment(data);
+  if (prepared.outcome !== "ready") {
+    return prepared;
+  }
+
+  const { deploymentId, rolledBack, record } = prepared;
+
+  // Insert into database (a concurrent retry may have won the race)
+  const [createdDeployment] = await db
+    .insert(deployments)
+    .values(record)
+    .onConflictDoNothing({ target: deployments.deploymentId })
+    .returning();
+
+  if (!createdDeployment) {
+    const existing = await findDeployment(deploymentId);
+    if (existing) {
+      return replayExisting(existing, data);
+    }
+    throw new Error(`Deployment ${deploymentId} could not be recorded`);
+  }
+
+  console.log(
+    `[Deployments] Deployment recorded: ${deploymentId} (${data.environment}, ${data.projectName}, ${data.status}${record.isRollback ? ", rollback" : ""})`,
+  );
+
+  // A rollback means the rolled-back deployment failed
+  if (rolledBack && !rolledBack.isFailed) {
+    await db
+      .update(deployments)
+      .set({
+        isFailed: true,
+        failureReason:
+          rolledBack.failureReason ?? `Rolled back by ${deploymentId}`,
+      })
+      .where(eq(deployments.id, rolledBack.id));
+  }
+
+  // A successful deployment or rollback recovers earlier failures
+  if (!record.isFailed) {
+    await stampDeploymentRecoveries({
+      projectName: data.projectName,
+      environment: data.environment,
+    });
+  }
+
+  // Link the PRs this deployment shipped (best effort - the deployment is
+  // already recorded and the ingestion cron retries unlinked rows)
+  try {
+    const deployment = await linkDeploymentToPRs(createdDeployment);
+    return { outcome: "created", deployment };
+  } catch (error) {
+    console.warn(
+      `[Deployments] Could not link deployment ${deploymentId} to PRs:`,
+      error,
+    );
+    return { outcome: "created", deployment: createdDeployment };
+  }
+}
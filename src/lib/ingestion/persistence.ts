@@ -0,0 +1,418 @@
+/**
+ * Ingestion Persistence
+ *
+ * Smart-merge upserts shared by every ingestion source (Azure DevOps, GitHub).
+ * Each source transforms its API payloads into the Transformed* shapes and
+ * hands them to these functions, so insert/update/skip semantics stay identical
+ * regardless of where the data came from.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db/client";
+import {
+  ciRuns,
+  ciRunTimeline,
+  deployments,
+  prReviews,
+  pullRequests,
+  testResults,
+} from "@/lib/db/schema";
+import type { TransformedCIRun } from "./transformers/transform-ci-run";
+import type { TransformedDeployment } from "./transformers/transform-deployment";
+import type {
+  TransformedPRReview,
+  TransformedPullRequest,
+} from "./transformers/transform-pr";
+import type { TransformedTestResult } from "./transformers/transform-test-result";
+import type { TransformedCITimeline } from "./transformers/transform-timeline";
+
+/**
+ * Outcome of a smart-merge upsert
+ */
+export type UpsertAction = "inserted" | "updated" | "skipped";
+
+// ============================================================================
+// Pull Requests
+// ============================================================================
+
+/**
+ * Insert a PR, or update it only if the source data is newer or adds
+ * review timestamps that were previously missing.
+ *
+ * PRs are identified by (prNumber, repoName, projectName).
+ *
+ * @param prData - Transformed PR ready for persistence
+ * @returns Whether the row was inserted, updated or skipped
+ */
+export async function upsertPullRequest(
+  prData: TransformedPullRequest,
+): Promise<UpsertAction> {
+  try {
+    // Check if PR already exists
+    const existing = await db
+      .select()
+      .from(pullRequests)
+      .where(
+        and(
+          eq(pullRequests.prNumber, prData.prNumber),
+          eq(pullRequests.repoName, prData.repoName),
+          eq(pullRequests.projectName, prData.projectName),
+        ),
+      )
+      .limit(1);
+
+    if (existing.length === 0) {
+      // Insert new PR
+      await db.insert(pullRequests).values(prData);
+      return "inserted";
+    }
+
+    // PR exists - check if we should update
+    const existingPR = existing[0];
+
+    // Smart merge: update if:
+    // 1. Source data is newer (updatedAt timestamp changed), OR
+    // 2. We're enriching with new review timestamps or a merge commit that
+    //    were previously null (e.g., rows ingested before the column existed), OR
+    // 3. New commits were pushed to the source branch (Azure DevOps does not
+    //    bump updatedAt for active PRs), OR
+    // 4. The row was ingested before its source was recorded
+    const hasNewEnrichmentData =
+      (prData.firstReviewAt !== null && existingPR.firstReviewAt === null) ||
+      (prData.approvedAt !== null && existingPR.approvedAt === null) ||
+      (prData.mergeCommitSha !== null && existingPR.mergeCommitSha === null);
+    const hasNewSourceCommit =
+      prData.sourceCommitSha !== null &&
+      prData.sourceCommitSha !== existingPR.sourceCommitSha;
+
+    if (
+      prData.updatedAt > existingPR.updatedAt ||
+      hasNewEnrichmentData ||
+      hasNewSourceCommit ||
+      prData.source !== existingPR.source
+    ) {
+      await db
+        .update(pullRequests)
+        .set(prData)
+        .where(
+          and(
+            eq(pullRequests.prNumber, prData.prNumber),
+            eq(pullRequests.repoName, prData.repoName),
+            eq(pullRequests.projectName, prData.projectName),
+          ),
+        );
+      return "updated";
+    }
+
+    return "skipped";
+  } catch (error) {
+    console.error(
+      `[Upsert] Error upserting PR ${prData.prNumber} in ${prData.projectName}/${prData.repoName}:`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Replace the reviews of a PR with the latest enrichment result, so
+ * reviewers removed from the PR are dropped. A reviewer listed twice (two
+ * source accounts of one identity) is stored once.
+ *
+ * @param prData - PR the reviews belong to
+ * @param reviews - Reviews from enrichment
+ * @returns Number of reviews stored
+ */
+export async function replacePullRequestReviews(
+  prData: Pick<
+    TransformedPullRequest,
+    "prNumber" | "repoName" | "orgName" | "projectName"
+  >,
+  reviews: TransformedPRReview[],
+): Promise<number> {
+  try {
+    await db
+      .delete(prReviews)
+      .where(
+        and(
+          eq(prReviews.prNumber, prData.prNumber),
+          eq(prReviews.repoName, prData.repoName),
+          eq(prReviews.projectName, prData.projectName),
+        ),
+      );
+
+    if (reviews.length === 0) {
+      return 0;
+    }
+
+    const inserted = await db
+      .insert(prReviews)
+      .values(
+        reviews.map((review) => ({
+          prNumber: prData.prNumber,
+          repoName: prData.repoName,
+          orgName: prData.orgName,
+          projectName: prData.projectName,
+          ...review,
+        })),
+      )
+      .onConflictDoNothing()
+      .returning();
+
+    return inserted.length;
+  } catch (error) {
+    console.error(
+      `[Upsert] Error replacing reviews of PR ${prData.prNumber} in ${prData.projectName}/${prData.repoName}:`,
+      error,
+    );
+    throw error;
+  }
+}
+
+// ============================================================================
+// CI Runs
+// ============================================================================
+
+/**
+ * Insert a CI run, or update it only when its status or PR link changed
+ * since the last ingestion.
+ *
+ * CI runs are identified by their unique runId. isFlaky and flakyTestCount
+ * belong to post-ingestion flaky detection: the transformer defaults are
+ * only stored for new runs and never overwrite detected flags. Updated runs
+ * are marked as not enriched, so their test results and timeline are fetched
+ * again (see markCIRunEnriched).
+ *
+ * @param runData - Transformed CI run ready for persistence
+ * @returns Whether the row was inserted, updated or skipped
+ */
+export async function upsertCIRun(
+  runData: TransformedCIRun,
+): Promise<UpsertAction> {
+  try {
+    // Check if CI run already exists (by unique runId)
+    const existing = await db
+      .select()
+      .from(ciRuns)
+      .where(eq(ciRuns.runId, runData.runId))
+      .limit(1);
+
+    if (existing.length === 0) {
+      // Insert new CI run
+      await db.insert(ciRuns).values(runData);
+      return "inserted";
+    }
+
+    // CI run exists - check if we should update
+    const existingRun = existing[0];
+
+    // Smart merge: update if:
+    // 1. Status changed (in_progress -> completed), OR
+    // 2. PR enrichment added prNumber
+    const shouldUpdate =
+      runData.status !== existingRun.status ||
+      (runData.prNumber !== null && existingRun.prNumber === null);
+
+    if (shouldUpdate) {
+      await db
+        .update(ciRuns)
+        .set({
+          ...runData,
+          isFlaky: existingRun.isFlaky,
+          flakyTestCount: existingRun.flakyTestCount,
+          enrichedAt: null,
+        })
+        .where(eq(ciRuns.runId, runData.runId));
+      return "updated";
+    }
+
+    return "skipped";
+  } catch (error) {
+    console.error(`[Upsert] Error upserting CI run ${runData.runId}:`, error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Test Results
+// ============================================================================
+
+/**
+ * Insert the test results of a CI run, skipping results already stored.
+ *
+ * Published test results never change, so there is nothing to merge:
+ * re-ingesting a run only inserts results that are new (e.g., a stage that
+ * finished after the previous ingestion). Results are identified by their
+ * unique resultId.
+ *
+ * @param results - Transformed test results of one CI run
+ * @returns Number of results newly inserted
+ */
+export async function insertTestResults(
+  results: TransformedTestResult[],
+): Promise<number> {
+  const BATCH_SIZE = 500; // Keep statements small for large test suites
+  let inserted = 0;
+
+  try {
+    for (let i = 0; i < results.length; i += BATCH_SIZE) {
+      const rows = await db
+        .insert(testResults)
+        .values(results.slice(i, i + BATCH_SIZE))
+        .onConflictDoNothing({ target: testResults.resultId })
+        .returning();
+      inserted += rows.length;
+    }
+
+    return inserted;
+  } catch (error) {
+    console.error(
+      `[Upsert] Error inserting test results for CI run ${results[0]?.runId}:`,
+      error,
+    );
+    throw error;
+  }
+}
+
+// ============================================================================
+// CI Run Timelines
+// ============================================================================
+
+/**
+ * Replace the stored stage/job timeline of a CI run and update the run's
+ * derived counters (jobsCount, failedJobsCount, failureReason).
+ *
+ * Timelines change when failed jobs are retried, so existing rows are
+ * replaced rather than merged.
+ *
+ * @param runId - runId of the CI run the timeline belongs to
+ * @param timeline - Transformed timeline of the run
+ */
+export async function replaceCIRunTimeline(
+  runId: string,
+  timeline: TransformedCITimeline,
+): Promise<void> {
+  try {
+    await db.delete(ciRunTimeline).where(eq(ciRunTimeline.runId, runId));
+
+    if (timeline.records.length > 0) {
+      await db.insert(ciRunTimeline).values(timeline.records);
+    }
+
+    await db
+      .update(ciRuns)
+      .set({
+        jobsCount: timeline.jobsCount,
+        failedJobsCount: timeline.failedJobsCount,
+        failureReason: timeline.failureReason,
+      })
+      .where(eq(ciRuns.runId, runId));
+  } catch (error) {
+    console.error(
+      `[Upsert] Error replacing timeline of CI run ${runId}:`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Record that the test results and timeline of a completed CI run were
+ * stored. Runs without it are enriched again on the next ingestion, so a
+ * failed fetch is retried instead of leaving the run without tests and steps.
+ *
+ * @param runId - runId of the enriched CI run
+ */
+export async function markCIRunEnriched(runId: string): Promise<void> {
+  await db
+    .update(ciRuns)
+    .set({ enrichedAt: new Date() })
+    .where(eq(ciRuns.runId, runId));
+}
+
+// ============================================================================
+// Deployments
+// ============================================================================
+
+/**
+ * Insert a deployment, or update it when its status, timestamps, commit or
+ * related PRs changed since the last ingestion.
+ *
+ * Deployments are identified by their unique deploymentId. Updates only
+ * touch fields owned by ingestion (status, timestamps and commit), so details
+ * recorded through the deployments API (isFailed, failureReason, isRollback,
+ * rollbackOf, recoveredAt, notes) are preserved. A deployment is only marked
+ * failed when ingestion sees its status change to failure. relatedPRs are
+ * only written when the build resolved any, so PRs linked by deployment
+ * linking are kept.
+ *
+ * @param deploymentData - Transformed deployment ready for persistence
+ * @returns Whether the row was inserted, updated or skipped
+ */
+export async function upsertDeployment(
+  deploymentData: TransformedDeployment,
+): Promise<UpsertAction> {
+  try {
+    const existing = await db
+      .select()
+      .from(deployments)
+      .where(eq(deployments.deploymentId, deploymentData.deploymentId))
+      .limit(1);
+
+    if (existing.length === 0) {
+      await db.insert(deployments).values(deploymentData);
+      return "inserted";
+    }
+
+    const existingDeployment = existing[0];
+    const existingPRs =
+      (existingDeployment.relatedPRs as number[] | null) ?? [];
+
+    const statusChanged = deploymentData.status !== existingDeployment.status;
+    const relatedPRsChanged =
+      deploymentData.relatedPRs.length > 0 &&
+      deploymentData.relatedPRs.join(",") !== existingPRs.join(",");
+
+    // Smart merge: update if:
+    // 1. Status changed (in_progress -> success/failure), OR
+    // 2. Timestamps or commit changed (redeployment of the same release), OR
+    // 3. The build resolved different related PRs
+    const shouldUpdate =
+      statusChanged ||
+      deploymentData.startedAt.getTime() !==
+        existingDeployment.startedAt.getTime() ||
+      deploymentData.completedAt?.getTime() !==
+        existingDeployment.completedAt?.getTime() ||
+      deploymentData.commitSha !== existingDeployment.commitSha ||
+      relatedPRsChanged;
+
+    if (shouldUpdate) {
+      await db
+        .update(deployments)
+        .set({
+          status: deploymentData.status,
+          startedAt: deploymentData.startedAt,
+          completedAt: deploymentData.completedAt,
+          commitSha: deploymentData.commitSha,
+          ...(relatedPRsChanged && { relatedPRs: deploymentData.relatedPRs }),
+          ...(statusChanged &&
+            deploymentData.isFailed && {
+              isFailed: true,
+              failureReason:
+                existingDeployment.failureReason ??
+                deploymentData.failureReason,
+            }),
+        })
+        .where(eq(deployments.deploymentId, deploymentData.deploymentId));
+      return "updated";
+    }
+
+    return "skipped";
+  } catch (error) {
+    console.error(
+      `[Upsert] Error upserting deployment ${deploymentData.deploymentId}:`,
+      error,
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,758 @@
+import type * as azdev from "azure-devops-node-api";
+import {
+  type Build,
+  TypeInfo as BuildTypeInfo,
+  type Timeline,
+} from "azure-devops-node-api/interfaces/BuildInterfaces";
+import type {
+  GitPullRequest,
+  GitPullRequestSearchCriteria,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
+import {
+  PullRequestStatus,
+  PullRequestTimeRangeType,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
+import {
+  type Deployment,
+  ReleaseQueryOrder,
+  TypeInfo as ReleaseTypeInfo,
+} from "azure-devops-node-api/interfaces/ReleaseInterfaces";
+import {
+  type EnvironmentDeploymentExecutionRecord,
+  type EnvironmentInstance,
+  TypeInfo as TaskAgentTypeInfo,
+} from "azure-devops-node-api/interfaces/TaskAgentInterfaces";
+import {
+  type ShallowTestCaseResult,
+  TestOutcome,
+} from "azure-devops-node-api/interfaces/TestInterfaces";
+import { loadIdentityResolver } from "@/lib/identities/identities";
+import type { IdentityResolver } from "@/lib/identities/resolver";
+import {
+  type ContinuationResource,
+  createAzureDevOpsConnection,
+  discoverProjects,
+  fetchAllContinuationPages,
+  getAzureDevOpsConfig,
+  getContinuationPage,
+} from "../azure-devops-client";
+import { trackStep } from "../step-tracking";
+import {
+  getBuildIdFromRunId,
+  transformCIRun,
+} from "../transformers/transform-ci-run";
+import {
+  createDeploymentBuildContext,
+  type DeploymentBuildContext,
+  getReleaseBuildId,
+  type TransformedDeployment,
+  transformEnvironmentDeployment,
+  transformReleaseDeployment,
+} from "../transformers/transform-deployment";
+import {
+  enrichPRReviewTimestamps,
+  transformPullRequest,
+} from "../transformers/transform-pr";
+import {
+  type TransformedTestResult,
+  transformTestResult,
+} from "../transformers/transform-test-result";
+import { transformTimeline } from "../transformers/transform-timeline";
+import type {
+  CIRunQuery,
+  DeploymentQuery,
+  PullRequestQuery,
+  SourceProject,
+  SourceProvider,
+} from "../types";
+
+/**
+ * Azure DevOps Source Provider
+ *
+ * Fetches pull requests (Azure Repos), CI runs (Azure Pipelines builds),
+ * their test results (Azure Test Plans results by build) and stage/job
+ * timelines, and deployments
+ * (pipeline environments and classic releases) for every project in the
+ * configured organization.
+ *
+ * Uses shared utilities from:
+ * - azure-devops-client.ts: Connection, config, retry logic, rate limiting
+ * - transformers/transform-pr.ts: PR transformation and review enrichment
+ * - transformers/transform-ci-run.ts: CI run transformation
+ * - transformers/transform-test-result.ts: Test result transformation
+ * - transformers/transform-timeline.ts: Stage/job timeline transformation
+ * - transformers/transform-deployment.ts: Deployment transformation
+ */
+
+// ============================================================================
+// PR Fetching with Pagination
+// ============================================================================
+
+type GitApi = Awaited<ReturnType<azdev.WebApi["getGitApi"]>>;
+
+async function fetchPRPages(
+  gitApi: GitApi,
+  repoId: string,
+  projectName: string,
+  criteria: GitPullRequestSearchCriteria,
+): Promise<GitPullRequest[]> {
+  const prs: GitPullRequest[] = [];
+
+  // Azure DevOps uses $top and $skip for pagination
+  let skip = 0;
+  const top = 100; // Fetch 100 PRs at a time
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await gitApi.getPullRequests(
+      repoId,
+      criteria,
+      projectName,
+      top,
+      skip,
+    );
+
+    if (page.length === 0) {
+      hasMore = false;
+    } else {
+      prs.push(...page);
+      skip += top;
+    }
+  }
+
+  return prs;
+}
+
+/**
+ * Fetch the PRs of one repository
+ *
+ * The PR search API can only filter by creation or close time, so an
+ * incremental fetch since a watermark is the union of:
+ * - PRs created since the watermark
+ * - PRs closed (completed or abandoned) since the watermark
+ * - All active PRs (they may have gained reviews, approvals or edits)
+ */
+async function fetchPRsForRepo(
+  gitApi: GitApi,
+  repoId: string,
+  projectName: string,
+  query: PullRequestQuery,
+  watermark: Date | undefined,
+): Promise<GitPullRequest[]> {
+  if (!watermark) {
+    return fetchPRPages(gitApi, repoId, projectName, {
+      // Fetch all PRs (completed, active, abandoned)
+      // PullRequestStatus.All (4) includes all statuses
+      status: PullRequestStatus.All,
+      // Only fetch PRs created within the lookback (or backfill) window
+      minTime: query.since,
+      maxTime: query.until,
+      queryTimeRangeType: PullRequestTimeRangeType.Created,
+    });
+  }
+
+  const [created, closed, active] = await Promise.all([
+    fetchPRPages(gitApi, repoId, projectName, {
+      status: PullRequestStatus.All,
+      minTime: watermark,
+      queryTimeRangeType: PullRequestTimeRangeType.Created,
+    }),
+    fetchPRPages(gitApi, repoId, projectName, {
+      status: PullRequestStatus.All,
+      minTime: watermark,
+      queryTimeRangeType: PullRequestTimeRangeType.Closed,
+    }),
+    fetchPRPages(gitApi, repoId, projectName, {
+      status: PullRequestStatus.Active,
+    }),
+  ]);
+
+  // The three queries overlap (e.g., created and closed since the watermark)
+  const byId = new Map<number, GitPullRequest>();
+  for (const pr of [...created, ...closed, ...active]) {
+    if (pr.pullRequestId !== undefined) {
+      byId.set(pr.pullRequestId, pr);
+    }
+  }
+
+  return [...byId.values()];
+}
+
+async function fetchAllPRsForProject(
+  connection: azdev.WebApi,
+  projectName: string,
+  query: PullRequestQuery,
+): Promise<{ prs: GitPullRequest[]; syncedRepos: string[] }> {
+  const gitApi = await connection.getGitApi();
+  const allPRs: GitPullRequest[] = [];
+  const syncedRepos: string[] = [];
+
+  try {
+    // Get all repositories in the project
+    const repos = await gitApi.getRepositories(projectName);
+    console.log(
+      `[${projectName}] Found ${repos.length} repositories to process (${query.watermarks.size} with watermarks)`,
+    );
+    console.log(
+      `[${projectName}] Fetching PRs created since ${query.since.toISOString().split("T")[0]} for repositories without a watermark`,
+    );
+
+    // Process repositories in parallel (10 at a time) to speed up large projects
+    const REPO_CONCURRENCY = 10;
+
+    for (let i = 0; i < repos.length; i += REPO_CONCURRENCY) {
+      const repoBatch = repos.slice(i, i + REPO_CONCURRENCY);
+
+      await Promise.all(
+        repoBatch.map(async (repo) => {
+          if (!repo.id || !repo.name) return;
+
+          const watermark = query.watermarks.get(repo.name);
+
+          try {
+            const prs = await fetchPRsForRepo(
+              gitApi,
+              repo.id,
+              projectName,
+              query,
+              watermark,
+            );
+
+            allPRs.push(...prs);
+            syncedRepos.push(repo.name);
+
+            console.log(
+              `[${projectName}/${repo.name}] Fetched ${prs.length} PRs${watermark ? ` changed since ${watermark.toISOString()}` : ""}`,
+            );
+          } catch (error) {
+            console.error(
+              `[${projectName}/${repo.name}] Error fetching PRs:`,
+              error,
+            );
+            // Continue processing other repos even if one fails
+            // (its watermark is not advanced, so it is retried next run)
+          }
+        }),
+      );
+    }
+  } catch (error) {
+    console.error(`[${projectName}] Error fetching repositories:`, error);
+    throw error;
+  }
+
+  return { prs: allPRs, syncedRepos };
+}
+
+// ============================================================================
+// CI Run Fetching with Pagination
+// ============================================================================
+
+// Resource of getBuilds (see getContinuationPage)
+const BUILDS_RESOURCE: ContinuationResource = {
+  apiVersion: "7.2-preview.7",
+  area: "build",
+  locationId: "0cd358e1-9217-4d94-8269-1c1ee6f93dcf",
+  responseType: BuildTypeInfo.Build,
+};
+
+/**
+ * Fetch the builds of a project started within the query window
+ *
+ * Exported for testing.
+ */
+export async function fetchAllCIRunsForProject(
+  connection: azdev.WebApi,
+  projectName: string,
+  query: CIRunQuery,
+): Promise<Build[]> {
+  const buildApi = await connection.getBuildApi();
+  const top = 100; // Fetch 100 builds at a time
+  let batchNum = 1;
+
+  console.log(
+    `[${projectName}] Fetching builds since ${query.since.toISOString().split("T")[0]}${query.until ? ` until ${query.until.toISOString().split("T")[0]}` : ""}`,
+  );
+
+  try {
+    const allBuilds = await fetchAllContinuationPages(
+      async (continuationToken) => {
+        const batch = batchNum++;
+        const page = await trackStep(
+          `fetch-builds-${projectName}-batch-${batch}`,
+          () =>
+            getContinuationPage<Build>(
+              buildApi,
+              BUILDS_RESOURCE,
+              { project: projectName },
+              {
+                minTime: query.since, // only fetch builds on or after the cutoff
+                maxTime: query.until, // set by historical backfill
+                $top: top,
+                continuationToken,
+              },
+            ),
+          60000, // 60 second timeout per API call
+        );
+        console.log(
+          `[${projectName}] Progress: Fetched batch ${batch} (+${page.items.length} builds)`,
+        );
+        return page;
+      },
+    );
+
+    console.log(`[${projectName}] ✓ Fetched ${allBuilds.length} CI runs total`);
+    return allBuilds;
+  } catch (error) {
+    console.error(`[${projectName}] ✗ Error fetching CI runs:`, error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Test Result Fetching with Pagination
+// ============================================================================
+
+// Resource of getTestResultsByBuild (see getContinuationPage)
+const TEST_RESULTS_BY_BUILD_RESOURCE: ContinuationResource = {
+  apiVersion: "7.2-preview.1",
+  area: "testresults",
+  locationId: "f48cc885-dbc4-4efc-ab19-ae8c19d1e02a",
+};
+
+/**
+ * Fetch the results flaky detection can use of a build
+ *
+ * Exported for testing.
+ */
+export async function fetchTestResultsForBuild(
+  connection: azdev.WebApi,
+  projectName: string,
+  buildId: number,
+): Promise<ShallowTestCaseResult[]> {
+  const testResultsApi = await connection.getTestResultsApi();
+  const top = 1000;
+  let batchNum = 1;
+
+  return fetchAllContinuationPages((continuationToken) =>
+    trackStep(
+      `fetch-test-results-${projectName}-build-${buildId}-batch-${batchNum++}`,
+      () =>
+        getContinuationPage<ShallowTestCaseResult>(
+          testResultsApi,
+          TEST_RESULTS_BY_BUILD_RESOURCE,
+          { project: projectName },
+          {
+            buildId,
+            // Only outcomes flaky detection can use
+            outcomes: [
+              TestOutcome.Passed,
+              TestOutcome.Failed,
+              TestOutcome.Timeout,
+              TestOutcome.Aborted,
+            ].join(","),
+            $top: top,
+            continuationToken,
+          },
+        ),
+      60000, // 60 second timeout per API call
+    ),
+  );
+}
+
+// ============================================================================
+// Timeline Fetching
+// ============================================================================
+
+async function fetchBuildTimeline(
+  connection: azdev.WebApi,
+  projectName: string,
+  buildId: number,
+): Promise<Timeline | null> {
+  const buildApi = await connection.getBuildApi();
+
+  const timeline = await trackStep(
+    `fetch-timeline-${projectName}-build-${buildId}`,
+    () => buildApi.getBuildTimeline(projectName, buildId),
+    60000, // 60 second timeout per API call
+  );
+
+  // Builds that never started (e.g., YAML errors) have no timeline
+  return timeline ?? null;
+}
+
+// ============================================================================
+// Deployment Fetching
+// ============================================================================
+
+type BuildApi = Awaited<ReturnType<azdev.WebApi["getBuildApi"]>>;
+
+// Resources of the paged SDK methods (see getContinuationPage)
+const ENVIRONMENTS_RESOURCE: ContinuationResource = {
+  apiVersion: "7.2-preview.1",
+  area: "distributedtask",
+  locationId: "8572b1fc-2482-47fa-8f74-7e3ed53ee54b",
+  responseType: TaskAgentTypeInfo.EnvironmentInstance,
+};
+
+const ENVIRONMENT_DEPLOYMENT_RECORDS_RESOURCE: ContinuationResource = {
+  apiVersion: "7.2-preview.1",
+  area: "distributedtask",
+  locationId: "51bb5d21-4305-4ea6-9dbb-b7488af73334",
+  responseType: TaskAgentTypeInfo.EnvironmentDeploymentExecutionRecord,
+};
+
+const RELEASE_DEPLOYMENTS_RESOURCE: ContinuationResource = {
+  apiVersion: "7.2-preview.2",
+  area: "Release",
+  locationId: "b005ef73-cddc-448e-9ba2-5193bf36b19f",
+  responseType: ReleaseTypeInfo.Deployment,
+};
+
+type BuildContextCache = Map<number, Promise<DeploymentBuildContext | null>>;
+
+/**
+ * Resolve the commit, repository and related PRs of the build behind a
+ * deployment
+ *
+ * A build is typically deployed to several environments, so contexts are
+ * cached per build id for the duration of a project fetch. Builds removed by
+ * retention policies resolve to null (the deployment is then skipped).
+ */
+function getBuildContext(
+  buildApi: BuildApi,
+  projectName: string,
+  buildId: number,
+  cache: BuildContextCache,
+): Promise<DeploymentBuildContext | null> {
+  let context = cache.get(buildId);
+
+  if (!context) {
+    context = (async () => {
+      try {
+        const [build, changes] = await Promise.all([
+          buildApi.getBuild(projectName, buildId),
+          buildApi.getBuildChanges(projectName, buildId, undefined, 100),
+        ]);
+        return build
+          ? createDeploymentBuildContext(build, changes ?? [])
+          : null;
+      } catch (error) {
+        console.warn(
+          `[${projectName}] Could not resolve build ${buildId} for deployment:`,
+          error,
+        );
+        return null;
+      }
+    })();
+    cache.set(buildId, context);
+  }
+
+  return context;
+}
+
+/**
+ * Fetch deployments recorded on the project's pipeline environments
+ *
+ * Execution records are returned newest first, so paging stops at the first
+ * page that reaches past the lookback cutoff.
+ */
+async function fetchEnvironmentDeployments(
+  connection: azdev.WebApi,
+  buildApi: BuildApi,
+  project: SourceProject,
+  query: DeploymentQuery,
+  cache: BuildContextCache,
+): Promise<TransformedDeployment[]> {
+  const projectName = project.name;
+  const taskAgentApi = await connection.getTaskAgentApi();
+  const top = 100;
+  const deployments: TransformedDeployment[] = [];
+
+  let environmentBatch = 1;
+  const environments = await fetchAllContinuationPages((continuationToken) =>
+    trackStep(
+      `fetch-environments-${projectName}-batch-${environmentBatch++}`,
+      () =>
+        getContinuationPage<EnvironmentInstance>(
+          taskAgentApi,
+          ENVIRONMENTS_RESOURCE,
+          { project: projectName },
+          { continuationToken, $top: top },
+        ),
+      60000, // 60 second timeout per API call
+    ),
+  );
+  console.log(
+    `[${projectName}] Found ${environments.length} pipeline environments`,
+  );
+
+  for (const environment of environments) {
+    if (environment.id === undefined || !environment.name) continue;
+
+    let batchNum = 1;
+    const isRecent = (record: EnvironmentDeploymentExecutionRecord) => {
+      const startedAt = record.startTime ?? record.queueTime;
+      return startedAt !== undefined && new Date(startedAt) >= query.since;
+    };
+
+    const fetchedRecords = await fetchAllContinuationPages(
+      (continuationToken) =>
+        trackStep(
+          `fetch-environment-deployments-${projectName}-${environment.name}-batch-${batchNum++}`,
+          () =>
+            getContinuationPage<EnvironmentDeploymentExecutionRecord>(
+              taskAgentApi,
+              ENVIRONMENT_DEPLOYMENT_RECORDS_RESOURCE,
+              { project: projectName, environmentId: environment.id },
+              { continuationToken, top },
+            ),
+          60000, // 60 second timeout per API call
+        ),
+      // Reached records older than the cutoff - nothing newer remains
+      (page) => !page.every(isRecent),
+    );
+    const records = fetchedRecords.filter(isRecent);
+
+    // Fold the records of each pipeline run (one per deployment job)
+    const recordsByRun = new Map<
+      number,
+      EnvironmentDeploymentExecutionRecord[]
+    >();
+    for (const record of records) {
+      const runId = record.owner?.id;
+      if (runId === undefined) continue;
+      recordsByRun.set(runId, [...(recordsByRun.get(runId) ?? []), record]);
+    }
+
+    for (const [runId, runRecords] of recordsByRun) {
+      const context = await getBuildContext(
+        buildApi,
+        projectName,
+        runId,
+        cache,
+      );
+      const deployment = transformEnvironmentDeployment(
+        runRecords,
+        environment.name,
+        context,
+        projectName,
+        project.orgName,
+      );
+
+      if (deployment) {
+        deployments.push(deployment);
+      } else {
+        console.warn(
+          `[${projectName}/${environment.name}] Skipping run ${runId}: commit SHA unavailable`,
+        );
+      }
+    }
+  }
+
+  return deployments;
+}
+
+/**
+ * Fetch classic Release deployments started within the lookback window
+ *
+ * Only the latest attempt per release environment is requested, matching
+ * the one-row-per-release-environment deployment id.
+ */
+async function fetchReleaseDeployments(
+  connection: azdev.WebApi,
+  buildApi: BuildApi,
+  project: SourceProject,
+  query: DeploymentQuery,
+  cache: BuildContextCache,
+): Promise<TransformedDeployment[]> {
+  const projectName = project.name;
+  const releaseApi = await connection.getReleaseApi();
+  const top = 100;
+  let batchNum = 1;
+
+  const releaseDeployments = await fetchAllContinuationPages(
+    (continuationToken) =>
+      trackStep(
+        `fetch-release-deployments-${projectName}-batch-${batchNum++}`,
+        () =>
+          getContinuationPage<Deployment>(
+            releaseApi,
+            RELEASE_DEPLOYMENTS_RESOURCE,
+            { project: projectName },
+            {
+              latestAttemptsOnly: true,
+              queryOrder: ReleaseQueryOrder.Descending,
+              $top: top,
+              continuationToken,
+              minStartedTime: query.since,
+            },
+          ),
+        60000, // 60 second timeout per API call
+      ),
+  );
+
+  const deployments: TransformedDeployment[] = [];
+
+  for (const releaseDeployment of releaseDeployments) {
+    const buildId = getReleaseBuildId(releaseDeployment);
+    const context =
+      buildId !== null
+        ? await getBuildContext(buildApi, projectName, buildId, cache)
+        : null;
+    const deployment = transformReleaseDeployment(
+      releaseDeployment,
+      context,
+      projectName,
+      project.orgName,
+    );
+
+    if (deployment) {
+      deployments.push(deployment);
+    } else {
+      console.warn(
+        `[${projectName}] Skipping release deployment ${releaseDeployment.id}: commit SHA unavailable`,
+      );
+    }
+  }
+
+  return deployments;
+}
+
+// ============================================================================
+// Provider Factory
+// ============================================================================
+
+/**
+ * Create the Azure DevOps provider
+ *
+ * Validates configuration and opens the connection up front so
+ * misconfiguration fails the ingestion run before any project is processed.
+ *
+ * @throws {z.ZodError} If environment variables are invalid
+ */
+export async function createAzureDevOpsProvider(): Promise<
+  SourceProvider<GitPullRequest>
+> {
+  const { pat, org, excludeProjects } = getAzureDevOpsConfig();
+  console.log(`[Azure DevOps] Organization: ${org}`);
+  console.log(
+    `[Azure DevOps] Excluded projects: ${excludeProjects.join(", ") || "none"}`,
+  );
+
+  const connection = await createAzureDevOpsConnection(org, pat);
+  console.log("[Azure DevOps] Connected to Azure DevOps");
+
+  // Loaded once per run for reviewer names (PR listings load their own)
+  let reviewerIdentities: Promise<IdentityResolver> | undefined;
+
+  return {
+    name: "azure-devops",
+    displayName: "Azure DevOps",
+
+    async discoverProjects(): Promise<SourceProject[]> {
+      const projects = await discoverProjects(connection, excludeProjects);
+      return projects.map((project) => ({
+        name: project.name || "Unknown",
+        orgName: org,
+      }));
+    },
+
+    async listPullRequests(project, query) {
+      const { prs, syncedRepos } = await fetchAllPRsForProject(
+        connection,
+        project.name,
+        query,
+      );
+      const identities = await loadIdentityResolver();
+      return {
+        pullRequests: prs.map((pr) => ({
+          data: transformPullRequest(
+            pr,
+            project.name,
+            project.orgName,
+            identities,
+          ),
+          raw: pr,
+        })),
+        syncedRepos,
+      };
+    },
+
+    async enrichReviews(project, pr) {
+      reviewerIdentities ??= loadIdentityResolver();
+      return enrichPRReviewTimestamps(
+        connection,
+        pr.raw,
+        project.name,
+        await reviewerIdentities,
+      );
+    },
+
+    async listCIRuns(project, query) {
+      const builds = await fetchAllCIRunsForProject(
+        connection,
+        project.name,
+        query,
+      );
+      return builds.map((build) =>
+        transformCIRun(build, project.name, project.orgName),
+      );
+    },
+
+    async listTestResults(project, run) {
+      const buildId = getBuildIdFromRunId(run.runId);
+      if (buildId === null) {
+        return [];
+      }
+
+      const results = await fetchTestResultsForBuild(
+        connection,
+        project.name,
+        buildId,
+      );
+      return results
+        .map((result) => transformTestResult(result, run))
+        .filter((result): result is TransformedTestResult => result !== null);
+    },
+
+    async getRunTimeline(project, run) {
+      const buildId = getBuildIdFromRunId(run.runId);
+      if (buildId === null) {
+        return null;
+      }
+
+      const timeline = await fetchBuildTimeline(
+        connection,
+        project.name,
+        buildId,
+      );
+      return timeline ? transformTimeline(timeline, run) : null;
+    },
+
+    async listDeployments(project, query) {
+      const buildApi = await connection.getBuildApi();
+      const buildContexts: BuildContextCache = new Map();
+
+      const environmentDeployments = await fetchEnvironmentDeployments(
+        connection,
+        buildApi,
+        project,
+        query,
+        buildContexts,
+      );
+      const releaseDeployments = await fetchReleaseDeployments(
+        connection,
+        buildApi,
+        project,
+        query,
+        buildContexts,
+      );
+
+      console.log(
+        `[${project.name}] ✓ Fetched ${environmentDeployments.length} environment and ${releaseDeployments.length} release deployments`,
+      );
+
+      return [...environmentDeployments, ...releaseDeployments];
+    },
+  };
+}
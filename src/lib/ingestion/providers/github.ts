@@ -0,0 +1,207 @@
+import { loadIdentityResolver } from "@/lib/identities/identities";
+import type { IdentityResolver } from "@/lib/identities/resolver";
+import {
+  discoverRepositories,
+  fetchAllPages,
+  findFirstPage,
+  GITHUB_PER_PAGE,
+  getGitHubConfig,
+  githubRequest,
+} from "../github-client";
+import {
+  calculateGitHubReviewTimestamps,
+  transformGitHubPullRequest,
+  transformWorkflowRun,
+} from "../transformers/transform-github";
+import type {
+  CIRunQuery,
+  GitHubConfig,
+  GitHubPullRequest,
+  GitHubReview,
+  GitHubWorkflowRun,
+  PullRequestQuery,
+  SourceProject,
+  SourceProvider,
+} from "../types";
+
+/**
+ * GitHub Source Provider
+ *
+ * Fetches pull requests (with review timestamps from the reviews API) and
+ * GitHub Actions workflow runs for every repository in the configured
+ * organization.
+ *
+ * Each repository is treated as a project (projectName = repository name,
+ * orgName = repository owner).
+ */
+
+// ============================================================================
+// Fetching with Pagination
+// ============================================================================
+
+async function fetchPullRequestsForRepo(
+  config: GitHubConfig,
+  repo: SourceProject,
+  query: PullRequestQuery,
+): Promise<GitHubPullRequest[]> {
+  // With a watermark, sort by last update so paging stops at the first PR
+  // that has not changed since; otherwise walk back by creation date
+  const watermark = query.watermarks.get(repo.name);
+  const field = watermark ? "updated_at" : "created_at";
+  const cutoff = watermark ?? query.since;
+  const { until } = query;
+
+  // Sort newest first so we can stop paging once we pass the cutoff
+  const fetchPage = (page: number) =>
+    githubRequest<GitHubPullRequest[]>(
+      config,
+      `/repos/${repo.orgName}/${repo.name}/pulls`,
+      {
+        state: "all",
+        sort: watermark ? "updated" : "created",
+        direction: "desc",
+        per_page: GITHUB_PER_PAGE,
+        page,
+      },
+    );
+
+  // Backfill chunks end in the past: skip the pages of newer PRs instead of
+  // downloading every page since the newest PR for each chunk
+  const firstPage =
+    until && !watermark
+      ? await findFirstPage(
+          fetchPage,
+          (page) =>
+            page.length === 0 ||
+            new Date(page[page.length - 1].created_at) < until,
+        )
+      : 1;
+
+  const prs = await fetchAllPages(
+    (page) => fetchPage(firstPage + page - 1),
+    (page) => new Date(page[page.length - 1][field]) < cutoff,
+  );
+
+  return prs.filter(
+    (pr) =>
+      new Date(pr[field]) >= cutoff &&
+      (until === undefined || new Date(pr.created_at) < until),
+  );
+}
+
+async function fetchReviewsForPR(
+  config: GitHubConfig,
+  repo: SourceProject,
+  prNumber: number,
+): Promise<GitHubReview[]> {
+  return fetchAllPages((page) =>
+    githubRequest<GitHubReview[]>(
+      config,
+      `/repos/${repo.orgName}/${repo.name}/pulls/${prNumber}/reviews`,
+      { per_page: GITHUB_PER_PAGE, page },
+    ),
+  );
+}
+
+async function fetchWorkflowRunsForRepo(
+  config: GitHubConfig,
+  repo: SourceProject,
+  query: CIRunQuery,
+): Promise<GitHubWorkflowRun[]> {
+  const { since, until } = query;
+
+  // The created qualifier accepts an inclusive range of ISO 8601 timestamps
+  const created = until
+    ? `${toQualifierTime(since)}..${toQualifierTime(until)}`
+    : `>=${since.toISOString().split("T")[0]}`;
+
+  const runs = await fetchAllPages(async (page) => {
+    const response = await githubRequest<{
+      total_count: number;
+      workflow_runs: GitHubWorkflowRun[];
+    }>(config, `/repos/${repo.orgName}/${repo.name}/actions/runs`, {
+      created,
+      per_page: GITHUB_PER_PAGE,
+      page,
+    });
+    return response.workflow_runs;
+  });
+
+  // Range ends are inclusive on GitHub; keep the upper bound exclusive
+  return until ? runs.filter((run) => new Date(run.created_at) < until) : runs;
+}
+
+function toQualifierTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// ============================================================================
+// Provider Factory
+// ============================================================================
+
+/**
+ * Create the GitHub provider
+ *
+ * @throws {z.ZodError} If environment variables are invalid
+ */
+export async function createGitHubProvider(): Promise<
+  SourceProvider<GitHubPullRequest>
+> {
+  const config = getGitHubConfig();
+  console.log(`[GitHub] Organization: ${config.org}`);
+  console.log(
+    `[GitHub] Excluded repositories: ${config.excludeRepos.join(", ") || "none"}`,
+  );
+
+  // Loaded once per run for reviewer names (PR listings load their own)
+  let reviewerIdentities: Promise<IdentityResolver> | undefined;
+
+  return {
+    name: "github",
+    displayName: "GitHub",
+
+    async discoverProjects(): Promise<SourceProject[]> {
+      const repos = await discoverRepositories(config);
+      return repos.map((repo) => ({
+        name: repo.name,
+        orgName: repo.owner.login,
+      }));
+    },
+
+    async listPullRequests(repo, query) {
+      const prs = await fetchPullRequestsForRepo(config, repo, query);
+      const identities = await loadIdentityResolver();
+      return {
+        pullRequests: prs.map((pr) => ({
+          data: transformGitHubPullRequest(
+            pr,
+            repo.orgName,
+            repo.name,
+            identities,
+          ),
+          raw: pr,
+        })),
+        // A repository is fetched in one go, so reaching here means complete
+        syncedRepos: [repo.name],
+      };
+    },
+
+    async enrichReviews(repo, pr) {
+      const reviews = await fetchReviewsForPR(config, repo, pr.raw.number);
+      reviewerIdentities ??= loadIdentityResolver();
+      return calculateGitHubReviewTimestamps(
+        reviews,
+        pr.raw.user?.login ?? null,
+        await reviewerIdentities,
+        pr.raw.requested_reviewers,
+      );
+    },
+
+    async listCIRuns(repo, query) {
+      const runs = await fetchWorkflowRunsForRepo(config, repo, query);
+      return runs.map((run) =>
+        transformWorkflowRun(run, repo.orgName, repo.name),
+      );
+    },
+  };
+}
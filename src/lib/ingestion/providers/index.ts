@@ -0,0 +1,64 @@
+import type { SourceName, SourceProvider } from "../types";
+import { createAzureDevOpsProvider } from "./azure-devops";
+import { createGitHubProvider } from "./github";
+
+/**
+ * Source Provider Registry
+ *
+ * Maps source names to provider factories and resolves the configured
+ * default source (INGESTION_SOURCE, falling back to Azure DevOps).
+ *
+ * To add a source: implement SourceProvider in providers/<source>.ts,
+ * add its name to SourceName in types.ts and register the factory below.
+ */
+
+const PROVIDER_FACTORIES: Record<SourceName, () => Promise<SourceProvider>> = {
+  "azure-devops": createAzureDevOpsProvider,
+  github: createGitHubProvider,
+};
+
+/** All registered source names */
+export const SOURCE_NAMES = Object.keys(PROVIDER_FACTORIES) as SourceName[];
+
+/** Source used when neither the request nor INGESTION_SOURCE specifies one */
+export const DEFAULT_SOURCE: SourceName = "azure-devops";
+
+/**
+ * Type guard for source names received from query parameters or env vars
+ */
+export function isSourceName(value: string): value is SourceName {
+  return (SOURCE_NAMES as string[]).includes(value);
+}
+
+/**
+ * Resolve the configured default source from INGESTION_SOURCE
+ *
+ * @throws {Error} If INGESTION_SOURCE names an unknown source
+ */
+export function getConfiguredSource(): SourceName {
+  const configured = process.env.INGESTION_SOURCE?.trim();
+
+  if (!configured) {
+    return DEFAULT_SOURCE;
+  }
+
+  if (!isSourceName(configured)) {
+    throw new Error(
+      `INGESTION_SOURCE must be one of: ${SOURCE_NAMES.join(", ")} (received "${configured}")`,
+    );
+  }
+
+  return configured;
+}
+
+/**
+ * Create the provider for a source (defaults to the configured source)
+ *
+ * @param source - Source to create; omit to use INGESTION_SOURCE
+ * @returns Connected source provider
+ */
+export function createSourceProvider(
+  source: SourceName = getConfiguredSource(),
+): Promise<SourceProvider> {
+  return PROVIDER_FACTORIES[source]();
+}
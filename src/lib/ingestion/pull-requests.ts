@@ -0,0 +1,366 @@
+import { replacePullRequestReviews, upsertPullRequest } from "./persistence";
+import { createSourceProvider } from "./providers";
+import { getWatermarks, type SyncScope, saveWatermark } from "./sync-state";
+import type { TransformedPRReview } from "./transformers/transform-pr";
+import type {
+  IngestionResult,
+  ProjectIngestionResult,
+  SourceName,
+  SourceProject,
+  SourceProvider,
+} from "./types";
+
+// Re-export IngestionResult for backward compatibility
+export type { IngestionResult };
+
+/**
+ * PR Ingestion Module
+ *
+ * Implements US2.1: Ingest PR metadata into Postgres
+ * - Autodiscovers all projects through the configured source provider
+ * - Fetches PR data with pagination and rate limit handling (provider)
+ * - Enriches PRs with review timestamps and reviewers (provider); reviewers
+ *   are stored in pr_reviews
+ * - Smart merge: updates existing PRs only if source data is newer
+ * - Incremental: per-repository watermarks (sync_state) limit each run to
+ *   PRs changed since the last successful sync; fullResync ignores them
+ *
+ * Source-specific fetching lives in providers/ (see SourceProvider in
+ * types.ts); this module owns orchestration and persistence only.
+ */
+
+// Only fetch PRs from last 90 days to limit data volume
+// (first sync of a repository, or full resync)
+const LOOKBACK_DAYS = 90;
+
+/**
+ * How a run treats watermarks:
+ * - incremental: read watermarks and advance them (scheduled runs)
+ * - full: ignore watermarks, refetch the lookback window, then advance them
+ * - backfill: fetch an explicit historical window, never touch watermarks
+ */
+type SyncMode = "incremental" | "full" | "backfill";
+
+/**
+ * Creation-time window for PRs of repositories without a watermark
+ */
+interface PRWindow {
+  since: Date;
+  until?: Date;
+}
+
+/**
+ * Options for a PR ingestion run
+ */
+export interface PullRequestIngestionOptions {
+  /** Source to ingest from; defaults to INGESTION_SOURCE (Azure DevOps when unset) */
+  source?: SourceName;
+  /** Ignore watermarks and refetch the whole lookback window */
+  fullResync?: boolean;
+}
+
+// ============================================================================
+// Project-Level Ingestion
+// ============================================================================
+
+async function ingestProjectPRs(
+  provider: SourceProvider,
+  project: SourceProject,
+  window: PRWindow,
+  mode: SyncMode,
+): Promise<ProjectIngestionResult> {
+  const projectName = project.name;
+  const result: ProjectIngestionResult = {
+    projectName,
+    prsIngested: 0,
+    prsUpdated: 0,
+    prsEnriched: 0,
+    prsWithReviews: 0,
+    prsWithApprovals: 0,
+    enrichmentErrors: 0,
+    reposSynced: 0,
+    errors: [],
+  };
+
+  const scope: SyncScope = {
+    source: provider.name,
+    entity: "pull_requests",
+    orgName: project.orgName,
+    projectName,
+  };
+
+  // Captured before fetching so changes made during the run are picked up next time
+  const syncStartedAt = new Date();
+
+  // Repositories with any failure keep their previous watermark
+  const failedRepos = new Set<string>();
+
+  try {
+    console.log(`[${projectName}] Starting ${mode} PR ingestion...`);
+
+    const watermarks =
+      mode === "incremental"
+        ? await getWatermarks(scope)
+        : new Map<string, Date>();
+
+    // Fetch PRs for this project (only changed PRs where a watermark exists)
+    const { pullRequests: prs, syncedRepos } = await provider.listPullRequests(
+      project,
+      { ...window, watermarks },
+    );
+
+    console.log(`[${projectName}] Processing ${prs.length} PRs...`);
+
+    // Process each PR
+    for (const pr of prs) {
+      const prData = pr.data;
+
+      // Reviewers, when enrichment returned them
+      let reviews: TransformedPRReview[] | null = null;
+
+      try {
+        // Enrich with review timestamps
+        try {
+          const reviewTimestamps = await provider.enrichReviews(project, pr);
+
+          prData.firstReviewAt = reviewTimestamps.firstReviewAt;
+          prData.approvedAt = reviewTimestamps.approvedAt;
+          reviews = reviewTimestamps.reviews;
+
+          // Track enrichment statistics
+          if (
+            reviewTimestamps.firstReviewAt !== null ||
+            reviewTimestamps.approvedAt !== null
+          ) {
+            result.prsEnriched++;
+          }
+
+          if (reviewTimestamps.firstReviewAt !== null) {
+            result.prsWithReviews++;
+          }
+
+          if (reviewTimestamps.approvedAt !== null) {
+            result.prsWithApprovals++;
+          }
+        } catch (error) {
+          // Log warning but continue - enrichment failure shouldn't block ingestion
+          result.enrichmentErrors++;
+          failedRepos.add(prData.repoName);
+          console.warn(
+            `[${projectName}] Failed to enrich PR ${prData.prNumber}:`,
+            error instanceof Error ? error.message : error,
+          );
+          // Keep timestamps as null (already set by the transformer)
+        }
+
+        // Upsert to database
+        const action = await upsertPullRequest(prData);
+
+        if (action === "inserted") {
+          result.prsIngested++;
+        } else if (action === "updated") {
+          result.prsUpdated++;
+        }
+
+        // Reviews change without the PR being updated (e.g. new votes on
+        // active Azure DevOps PRs), so they are replaced on every run
+        if (reviews !== null) {
+          await replacePullRequestReviews(prData, reviews);
+        }
+      } catch (error) {
+        failedRepos.add(prData.repoName);
+        result.errors.push({
+          message: `Failed to process PR ${prData.prNumber}`,
+          error,
+        });
+      }
+    }
+
+    // Advance watermarks for repositories ingested without errors
+    // (a backfill covers old data only, so it must not move them)
+    for (const repoName of mode === "backfill" ? [] : syncedRepos) {
+      if (failedRepos.has(repoName)) continue;
+
+      await saveWatermark(scope, repoName, syncStartedAt);
+      result.reposSynced++;
+    }
+
+    console.log(
+      `[${projectName}] Completed: ${result.prsIngested} inserted, ${result.prsUpdated} updated, ${result.prsEnriched} enriched (${result.prsWithReviews} with reviews, ${result.prsWithApprovals} with approvals), ${result.enrichmentErrors} enrichment errors, ${result.reposSynced} repos synced, ${result.errors.length} errors`,
+    );
+  } catch (error) {
+    result.errors.push({
+      message: `Failed to fetch PRs for project ${projectName}`,
+      error,
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Multi-Project Ingestion
+// ============================================================================
+
+function createEmptyResult(fullResync: boolean): IngestionResult {
+  return {
+    success: true,
+    projectsProcessed: 0,
+    prsIngested: 0,
+    prsUpdated: 0,
+    prsEnriched: 0,
+    prsWithReviews: 0,
+    prsWithApprovals: 0,
+    enrichmentErrors: 0,
+    fullResync,
+    reposSynced: 0,
+    errors: [],
+  };
+}
+
+/**
+ * Ingest PRs for a list of projects, accumulating into `result`
+ */
+async function ingestProjects(
+  provider: SourceProvider,
+  projects: SourceProject[],
+  window: PRWindow,
+  mode: SyncMode,
+  result: IngestionResult,
+): Promise<void> {
+  // Process projects in parallel (3 at a time) for better performance
+  // This provides ~3x speedup while respecting source API rate limits
+  const PROJECT_CONCURRENCY = 3;
+
+  // Process projects in batches
+  for (let i = 0; i < projects.length; i += PROJECT_CONCURRENCY) {
+    const batch = projects.slice(i, i + PROJECT_CONCURRENCY);
+
+    const batchPromises = batch.map(async (project) => {
+      try {
+        const projectResult = await ingestProjectPRs(
+          provider,
+          project,
+          window,
+          mode,
+        );
+
+        result.projectsProcessed++;
+        result.prsIngested += projectResult.prsIngested;
+        result.prsUpdated += projectResult.prsUpdated;
+        result.prsEnriched += projectResult.prsEnriched;
+        result.prsWithReviews += projectResult.prsWithReviews;
+        result.prsWithApprovals += projectResult.prsWithApprovals;
+        result.enrichmentErrors += projectResult.enrichmentErrors;
+        result.reposSynced += projectResult.reposSynced;
+
+        // Add project-specific errors to overall errors
+        for (const error of projectResult.errors) {
+          result.errors.push({
+            project: projectResult.projectName,
+            ...error,
+          });
+        }
+      } catch (error) {
+        result.errors.push({
+          project: project.name,
+          message: "Failed to ingest project",
+          error,
+        });
+        // Continue processing other projects
+      }
+    });
+
+    // Wait for current batch to complete before starting next batch
+    await Promise.allSettled(batchPromises);
+  }
+
+  // Determine overall success
+  result.success = result.errors.length === 0;
+}
+
+/**
+ * Ingest PRs created in a historical window (used by backfill)
+ *
+ * Watermarks are neither read nor advanced. The caller owns the provider
+ * and project list so they can be reused across chunks.
+ *
+ * @param provider - Connected source provider
+ * @param projects - Projects to ingest
+ * @param since - Inclusive lower bound on PR creation time
+ * @param until - Exclusive upper bound on PR creation time
+ */
+export async function ingestPullRequestRange(
+  provider: SourceProvider,
+  projects: SourceProject[],
+  since: Date,
+  until: Date,
+): Promise<IngestionResult> {
+  const result = createEmptyResult(false);
+  await ingestProjects(
+    provider,
+    projects,
+    { since, until },
+    "backfill",
+    result,
+  );
+  return result;
+}
+
+// ============================================================================
+// Main Ingestion Entry Point
+// ============================================================================
+
+/**
+ * Ingest pull requests from a source
+ *
+ * @param options - Source and resync options (see PullRequestIngestionOptions)
+ */
+export async function ingestPullRequests(
+  options: PullRequestIngestionOptions = {},
+): Promise<IngestionResult> {
+  const { source, fullResync = false } = options;
+  const startTime = Date.now();
+
+  const result = createEmptyResult(fullResync);
+
+  try {
+    // Create the source provider (validates configuration and connects)
+    const provider = await createSourceProvider(source);
+    console.log(`[Ingestion] Starting ${provider.displayName} PR ingestion...`);
+
+    // Discover projects
+    const projects = await provider.discoverProjects();
+
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    await ingestProjects(
+      provider,
+      projects,
+      { since },
+      fullResync ? "full" : "incremental",
+      result,
+    );
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    const enrichmentRate =
+      result.prsIngested + result.prsUpdated > 0
+        ? (
+            (result.prsEnriched / (result.prsIngested + result.prsUpdated)) *
+            100
+          ).toFixed(1)
+        : "0.0";
+    console.log(
+      `[Ingestion] Completed in ${duration}s: ${result.projectsProcessed} projects, ${result.prsIngested} inserted, ${result.prsUpdated} updated, ${result.prsEnriched} enriched (${enrichmentRate}% - ${result.prsWithReviews} with reviews, ${result.prsWithApprovals} with approvals), ${result.enrichmentErrors} enrichment errors, ${result.reposSynced} repos synced, ${result.errors.length} errors`,
+    );
+  } catch (error) {
+    result.success = false;
+    result.errors.push({
+      message: "Fatal error during ingestion",
+      error,
+    });
+    console.error("[Ingestion] Fatal error:", error);
+  }
+
+  return result;
+}
@@ -0,0 +1,130 @@
+/**
+ * Step Tracking & Observability (WDK-compatible pattern)
+ *
+ * Records per-step timing and status for ingestion workflows. Shared by every
+ * source provider so step metrics look the same regardless of where the data
+ * comes from.
+ *
+ * This pattern maps 1:1 to Vercel Workflow DevKit's step.run() for future migration.
+ */
+
+import type { StepMetric } from "./types";
+
+// Global metrics collection (reset per ingestion run)
+const stepMetrics: StepMetric[] = [];
+
+/**
+ * Clear metrics from a previous ingestion run
+ */
+export function resetStepMetrics(): void {
+  stepMetrics.length = 0;
+}
+
+/**
+ * Snapshot of the metrics recorded since the last reset
+ */
+export function getStepMetrics(): StepMetric[] {
+  return [...stepMetrics];
+}
+
+/**
+ * Wrap a promise with a timeout
+ * Throws a clear timeout error if the promise doesn't resolve in time
+ */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  timeoutError: string,
+): Promise<T> {
+  let timeoutHandle: NodeJS.Timeout | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutHandle = setTimeout(() => {
+      reject(new Error(timeoutError));
+    }, timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([promise, timeoutPromise]);
+    if (timeoutHandle) clearTimeout(timeoutHandle);
+    return result;
+  } catch (error) {
+    if (timeoutHandle) clearTimeout(timeoutHandle);
+    throw error;
+  }
+}
+
+/**
+ * Track a step with metrics and optional timeout protection
+ * Pattern matches Vercel Workflow DevKit's step.run() for future migration
+ *
+ * @param name - Unique step name (e.g., "fetch-builds-Data-Layer-batch-1")
+ * @param fn - Async function to execute
+ * @param timeoutMs - Optional timeout in milliseconds (default: no timeout)
+ * @param describeResult - Optional summary of a successful result, recorded
+ *   as the step's metadata (e.g., counts per backfill chunk)
+ * @returns Result of the step function
+ */
+export async function trackStep<T>(
+  name: string,
+  fn: () => Promise<T>,
+  timeoutMs?: number,
+  describeResult?: (result: T) => Record<string, unknown>,
+): Promise<T> {
+  const startTime = Date.now();
+
+  try {
+    console.log(`[Step: ${name}] Starting...`);
+
+    // Execute with or without timeout
+    const result = timeoutMs
+      ? await withTimeout(
+          fn(),
+          timeoutMs,
+          `Step "${name}" timed out after ${timeoutMs}ms`,
+        )
+      : await fn();
+
+    const duration = Date.now() - startTime;
+
+    // Log slow steps as warnings
+    if (duration > 10000) {
+      console.warn(
+        `[Step: ${name}] ⚠️  Completed slowly in ${(duration / 1000).toFixed(2)}s`,
+      );
+    } else {
+      console.log(`[Step: ${name}] ✓ Completed in ${duration}ms`);
+    }
+
+    stepMetrics.push({
+      stepName: name,
+      startTime,
+      duration,
+      status: "success",
+      metadata: describeResult?.(result),
+    });
+
+    return result;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const isTimeout =
+      error instanceof Error && error.message.includes("timed out");
+
+    console.error(
+      `[Step: ${name}] ✗ Failed after ${duration}ms:`,
+      error instanceof Error ? error.message : String(error),
+    );
+
+    stepMetrics.push({
+      stepName: name,
+      startTime,
+      duration,
+      status: isTimeout ? "timeout" : "error",
+      metadata: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Ingestion Sync State
+ *
+ * Reads and writes per-repository watermarks in the sync_state table.
+ * Ingestion passes the watermarks to the source provider so scheduled runs
+ * only fetch data that changed since the last successful sync, and advances
+ * a watermark only after that repository was ingested without errors.
+ */
+
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db/client";
+import { syncState } from "@/lib/db/schema";
+import type { SourceName } from "./types";
+
+/**
+ * Kind of data a watermark tracks
+ */
+export type SyncEntity = "pull_requests";
+
+/**
+ * Identifies the set of watermarks for one project of one source
+ */
+export interface SyncScope {
+  source: SourceName;
+  entity: SyncEntity;
+  orgName: string;
+  projectName: string;
+}
+
+/**
+ * Load the watermarks for every repository in a project
+ *
+ * @param scope - Source, entity and project to load
+ * @returns Watermarks keyed by repository name (empty if never synced)
+ */
+export async function getWatermarks(
+  scope: SyncScope,
+): Promise<Map<string, Date>> {
+  const rows = await db
+    .select({ repoName: syncState.repoName, watermark: syncState.watermark })
+    .from(syncState)
+    .where(
+      and(
+        eq(syncState.source, scope.source),
+        eq(syncState.entity, scope.entity),
+        eq(syncState.orgName, scope.orgName),
+        eq(syncState.projectName, scope.projectName),
+      ),
+    );
+
+  return new Map(rows.map((row) => [row.repoName, row.watermark]));
+}
+
+/**
+ * Record a successful sync of one repository
+ *
+ * @param scope - Source, entity and project the repository belongs to
+ * @param repoName - Repository that was synced
+ * @param watermark - Start time of the sync (data updated after it will be
+ *   fetched next time)
+ */
+export async function saveWatermark(
+  scope: SyncScope,
+  repoName: string,
+  watermark: Date,
+): Promise<void> {
+  await db
+    .insert(syncState)
+    .values({ ...scope, repoName, watermark })
+    .onConflictDoUpdate({
+      target: [
+        syncState.source,
+        syncState.entity,
+        syncState.orgName,
+        syncState.projectName,
+        syncState.repoName,
+      ],
+      set: { watermark, updatedAt: sql`now()` },
+    });
+}
@@ -24,6 +24,7 @@ export interface TransformedCIRun {
   prNumber: number | null;
   status: string;
   conclusion: string | null;
+  queuedAt: Date | null;
   startedAt: Date;
   completedAt: Date | null;
   isFlaky: boolean;
@@ -33,6 +34,51 @@ export interface TransformedCIRun {
   failedJobsCount: number;
 }
 
+// ============================================================================
+// Build Metadata
+// ============================================================================
+
+/** Source branch of a PR validation build */
+const PR_MERGE_REF_PATTERN = /^refs\/pull\/(\d+)\/merge$/;
+
+/**
+ * Get the PR a build ran for, from the build's own metadata
+ *
+ * - PR validation builds run on refs/pull/{id}/merge
+ * - PR-triggered builds also carry triggerInfo["pr.number"]
+ *
+ * CI builds of a branch return null; they are linked after ingestion by
+ * matching their commit against PR commit SHAs (enrichCIRunsWithPRLinks).
+ *
+ * @param build - Azure Pipelines build object
+ * @returns PR number, or null if the build was not triggered by a PR
+ */
+export function extractBuildPRNumber(build: Build): number | null {
+  const mergeRef = build.sourceBranch?.match(PR_MERGE_REF_PATTERN);
+  if (mergeRef) {
+    return Number.parseInt(mergeRef[1], 10);
+  }
+
+  const triggerPR = build.triggerInfo?.["pr.number"];
+  if (triggerPR && /^\d+$/.test(triggerPR)) {
+    return Number.parseInt(triggerPR, 10);
+  }
+
+  return null;
+}
+
+/**
+ * Get the Azure Pipelines build id back from a transformed runId
+ * ("<projectName>-<buildId>")
+ *
+ * @param runId - runId produced by transformCIRun
+ * @returns Build id, or null if the runId has no numeric suffix
+ */
+export function getBuildIdFromRunId(runId: string): number | null {
+  const match = runId.match(/-(\d+)$/);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
+
 // ============================================================================
 // Data Transformation
 // ============================================================================
@@ -74,8 +120,9 @@ export function transformCIRun(
   // Extract commit SHA
   const commitSha = build.sourceVersion || null;
 
-  // PR number is not directly available in Build API - will be enriched separately
-  const prNumber = null;
+  // PR number is only known for PR-triggered builds; CI builds of merged
+  // commits are linked separately (enrichCIRunsWithPRLinks)
+  const prNumber = extractBuildPRNumber(build);
 
   // Map Build status to our schema
   // BuildStatus: None=0, InProgress=1, Completed=2, Cancelling=4, Postponed=8, NotStarted=32, All=47
@@ -102,13 +149,13 @@ export function transformCIRun(
   }
 
   // Extract timestamps
+  const queuedAt = build.queueTime ? new Date(build.queueTime) : null;
   const startedAt = build.startTime ? new Date(build.startTime) : new Date();
   const completedAt = build.finishTime ? new Date(build.finishTime) : null;
 
-  // Failure reason (not available in basic API, could be enriched from logs)
+  // Failure reason and job counts are not in the Build API; they are filled
+  // from the build timeline after ingestion (replaceCIRunTimeline)
   const failureReason: string | null = null;
-
-  // Job counts (not available in basic Build API, would need Timeline API)
   const jobsCount = 0;
   const failedJobsCount = 0;
 
@@ -139,6 +186,7 @@ export function transformCIRun(
     prNumber,
     status,
     conclusion,
+    queuedAt,
     startedAt,
     completedAt,
     isFlaky,
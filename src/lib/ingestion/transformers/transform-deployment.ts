@@ -0,0 +1,375 @@
+/**
+ * Deployment Transformer
+ *
+ * Transforms Azure Pipelines deployment data into database schema format:
+ * - Environment deployment execution records (YAML pipelines targeting an
+ *   environment)
+ * - Classic Release deployments
+ *
+ * Commit SHAs and related PRs come from the build that produced the deployed
+ * artifact (see DeploymentBuildContext).
+ */
+
+import type {
+  Build,
+  Change,
+} from "azure-devops-node-api/interfaces/BuildInterfaces";
+import type { Deployment } from "azure-devops-node-api/interfaces/ReleaseInterfaces";
+import type { EnvironmentDeploymentExecutionRecord } from "azure-devops-node-api/interfaces/TaskAgentInterfaces";
+import { isKnownEnvironment } from "@/lib/utils/environments";
+import { extractBuildPRNumber } from "./transform-ci-run";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Transformed deployment data ready for database insertion
+ */
+export interface TransformedDeployment {
+  deploymentId: string;
+  environment: string;
+  repoName: string | null;
+  orgName: string;
+  projectName: string;
+  commitSha: string;
+  deployedBy: string | null;
+  status: string;
+  startedAt: Date;
+  completedAt: Date | null;
+  isFailed: boolean;
+  failureReason: string | null;
+  relatedPRs: number[];
+}
+
+/**
+ * Source context of a deployment, resolved from the build (pipeline run)
+ * that produced the deployed artifact
+ */
+export interface DeploymentBuildContext {
+  repoName: string | null;
+  commitSha: string | null;
+  requestedFor: string | null;
+  /** PR numbers whose changes shipped with this build */
+  relatedPRs: number[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Full 40-character git commit SHA (the deployments.commit_sha column) */
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+/** Default merge commit message of a completed Azure Repos PR */
+const MERGED_PR_MESSAGE_PATTERN = /^Merged PR (\d+):/;
+
+/**
+ * Normalize an Azure DevOps environment or stage name
+ *
+ * Environment names are free text ("Prod", "PRD-WestEurope", "Staging"), but
+ * DORA metrics filter on the production tiers of the environment registry.
+ * Names registered there (DEPLOYMENT_ENVIRONMENTS, PRODUCTION_ENVIRONMENTS)
+ * are kept as-is, lowercased. Other names are split into words and matched
+ * on their prefixes; anything unrecognized is lowercased unchanged.
+ * Pre-production keywords win, so "preprod" and "prod-staging" are not
+ * mistaken for production.
+ *
+ * @param name - Environment or stage name from Azure DevOps
+ * @returns The registered name, production, staging, development or the
+ *   lowercased name
+ */
+export function normalizeEnvironmentName(name: string): string {
+  const normalized = name.trim().toLowerCase();
+  if (isKnownEnvironment(normalized)) {
+    return normalized;
+  }
+
+  const words = normalized.split(/[^a-z0-9]+/).filter(Boolean);
+  const hasWord = (...prefixes: string[]) =>
+    words.some((word) => prefixes.some((prefix) => word.startsWith(prefix)));
+
+  if (/pre[^a-z0-9]*prod/.test(normalized) || hasWord("stag", "uat")) {
+    return "staging";
+  }
+  if (hasWord("prod", "prd", "live")) {
+    return "production";
+  }
+  if (hasWord("dev", "test", "qa")) {
+    return "development";
+  }
+
+  return normalized;
+}
+
+/**
+ * Extract the PR numbers associated with a build
+ *
+ * Sources, in order:
+ * - PR-triggered builds: the build's own PR (see extractBuildPRNumber)
+ * - CI builds: commits whose message is the default Azure Repos merge
+ *   message ("Merged PR {id}: ...")
+ *
+ * @param build - Build that produced the deployed artifact
+ * @param changes - Changes (commits) associated with the build
+ * @returns Unique PR numbers in discovery order
+ */
+export function extractRelatedPRs(build: Build, changes: Change[]): number[] {
+  const prNumbers = new Set<number>();
+
+  const buildPR = extractBuildPRNumber(build);
+  if (buildPR !== null) {
+    prNumbers.add(buildPR);
+  }
+
+  for (const change of changes) {
+    const merged = change.message?.match(MERGED_PR_MESSAGE_PATTERN);
+    if (merged) {
+      prNumbers.add(Number.parseInt(merged[1], 10));
+    }
+  }
+
+  return [...prNumbers];
+}
+
+/**
+ * Build the deployment context for a build and its changes
+ *
+ * @param build - Build that produced the deployed artifact
+ * @param changes - Changes (commits) associated with the build
+ * @returns Repository, commit, requester and related PRs of the build
+ */
+export function createDeploymentBuildContext(
+  build: Build,
+  changes: Change[],
+): DeploymentBuildContext {
+  return {
+    repoName: build.repository?.name || null,
+    commitSha: build.sourceVersion || null,
+    requestedFor: build.requestedFor?.displayName || null,
+    relatedPRs: extractRelatedPRs(build, changes),
+  };
+}
+
+function toCommitSha(value: string | null | undefined): string | null {
+  return value && COMMIT_SHA_PATTERN.test(value) ? value.toLowerCase() : null;
+}
+
+// ============================================================================
+// Environment Deployments (YAML pipelines)
+// ============================================================================
+
+/**
+ * Map a deployment job result to a deployment status
+ *
+ * TaskResult: Succeeded=0, SucceededWithIssues=1, Failed=2, Canceled=3,
+ * Skipped=4, Abandoned=5
+ */
+function mapTaskResult(
+  result: number | undefined,
+  finishTime: Date | undefined,
+): string {
+  if (result === undefined || !finishTime) {
+    return "in_progress";
+  }
+  if (result === 0 || result === 1) {
+    return "success";
+  }
+  if (result === 2) {
+    return "failure";
+  }
+  return "cancelled";
+}
+
+/**
+ * Transform the environment deployment records of one pipeline run into a
+ * deployment
+ *
+ * A run records one execution per deployment job that targets the
+ * environment, so all records of the same run and environment are folded
+ * into a single deployment:
+ * - startedAt: earliest job start
+ * - completedAt: latest job finish (null while any job is still running)
+ * - status: failure if any job failed, in_progress if any job is running,
+ *   cancelled if any job was cancelled or skipped, otherwise success
+ *
+ * @param records - Execution records sharing environmentId and owner (run) id
+ * @param environmentName - Name of the Azure DevOps environment
+ * @param context - Context of the run that deployed (null if unavailable)
+ * @param projectName - Name of the project containing the environment
+ * @param orgName - Name of the Azure DevOps organization
+ * @returns Transformed deployment, or null if no commit SHA is known
+ */
+export function transformEnvironmentDeployment(
+  records: EnvironmentDeploymentExecutionRecord[],
+  environmentName: string,
+  context: DeploymentBuildContext | null,
+  projectName: string,
+  orgName: string,
+): TransformedDeployment | null {
+  const commitSha = toCommitSha(context?.commitSha);
+  if (records.length === 0 || !commitSha) {
+    return null;
+  }
+
+  const first = records[0];
+  const statuses = records.map((record) =>
+    mapTaskResult(record.result, record.finishTime),
+  );
+
+  let status = "success";
+  if (statuses.includes("failure")) {
+    status = "failure";
+  } else if (statuses.includes("in_progress")) {
+    status = "in_progress";
+  } else if (statuses.includes("cancelled")) {
+    status = "cancelled";
+  }
+
+  const startTimes = records
+    .map((record) => record.startTime ?? record.queueTime)
+    .filter((time): time is Date => time !== undefined)
+    .map((time) => new Date(time).getTime());
+  const finishTimes = records
+    .map((record) => record.finishTime)
+    .filter((time): time is Date => time !== undefined)
+    .map((time) => new Date(time).getTime());
+
+  const startedAt =
+    startTimes.length > 0 ? new Date(Math.min(...startTimes)) : new Date();
+  const completedAt =
+    status !== "in_progress" && finishTimes.length > 0
+      ? new Date(Math.max(...finishTimes))
+      : null;
+
+  const failedJobs = records
+    .filter((record) => record.result === 2)
+    .map(
+      (record) => `${record.stageName ?? "stage"}/${record.jobName ?? "job"}`,
+    );
+
+  return {
+    deploymentId: `ado-env-${orgName}-${projectName}-${first.environmentId}-${first.owner?.id}`,
+    environment: normalizeEnvironmentName(environmentName),
+    repoName: context?.repoName ?? null,
+    orgName,
+    projectName,
+    commitSha,
+    deployedBy: context?.requestedFor ?? null,
+    status,
+    startedAt,
+    completedAt,
+    isFailed: status === "failure",
+    failureReason:
+      failedJobs.length > 0
+        ? `Deployment job failed: ${failedJobs.join(", ")}`
+        : null,
+    relatedPRs: context?.relatedPRs ?? [],
+  };
+}
+
+// ============================================================================
+// Classic Release Deployments
+// ============================================================================
+
+/**
+ * Map a classic release deployment status
+ *
+ * DeploymentStatus: Undefined=0, NotDeployed=1, InProgress=2, Succeeded=4,
+ * PartiallySucceeded=8, Failed=16
+ */
+function mapReleaseDeploymentStatus(status: number | undefined): string {
+  if (status === 4) {
+    return "success";
+  }
+  if (status === 8 || status === 16) {
+    return "failure";
+  }
+  if (status === 2) {
+    return "in_progress";
+  }
+  return "cancelled";
+}
+
+/**
+ * Get the id of the build behind a release's primary Build artifact
+ *
+ * @param deployment - Classic release deployment
+ * @returns Build id, or null if the release has no Build artifact
+ */
+export function getReleaseBuildId(deployment: Deployment): number | null {
+  const artifacts = deployment.release?.artifacts ?? [];
+  const artifact =
+    artifacts.find((a) => a.isPrimary && a.type === "Build") ??
+    artifacts.find((a) => a.type === "Build");
+  const buildId = artifact?.definitionReference?.version?.id;
+
+  return buildId && /^\d+$/.test(buildId) ? Number.parseInt(buildId, 10) : null;
+}
+
+/**
+ * Transform a classic release deployment into a deployment
+ *
+ * The commit SHA comes from the primary artifact's sourceVersion, falling
+ * back to the build context. Only the latest attempt of each release
+ * environment should be passed in; the deployment id is per release
+ * environment, so redeploying the same release updates the existing row.
+ *
+ * @param deployment - Classic release deployment
+ * @param context - Context of the artifact's build (null if unavailable)
+ * @param projectName - Name of the project containing the release
+ * @param orgName - Name of the Azure DevOps organization
+ * @returns Transformed deployment, or null if no commit SHA is known
+ */
+export function transformReleaseDeployment(
+  deployment: Deployment,
+  context: DeploymentBuildContext | null,
+  projectName: string,
+  orgName: string,
+): TransformedDeployment | null {
+  const artifacts = deployment.release?.artifacts ?? [];
+  const primary = artifacts.find((a) => a.isPrimary) ?? artifacts[0];
+  const commitSha =
+    toCommitSha(primary?.definitionReference?.sourceVersion?.id) ??
+    toCommitSha(context?.commitSha);
+
+  if (!commitSha) {
+    return null;
+  }
+
+  const status = mapReleaseDeploymentStatus(deployment.deploymentStatus);
+  const startedAt = new Date(
+    deployment.startedOn ?? deployment.queuedOn ?? Date.now(),
+  );
+  const completedAt =
+    status !== "in_progress" && deployment.completedOn
+      ? new Date(deployment.completedOn)
+      : null;
+
+  return {
+    deploymentId: `ado-release-${orgName}-${projectName}-${deployment.release?.id}-${deployment.releaseEnvironment?.id}`,
+    environment: normalizeEnvironmentName(
+      deployment.releaseEnvironment?.name ?? "unknown",
+    ),
+    repoName:
+      context?.repoName ??
+      primary?.definitionReference?.repository?.name ??
+      null,
+    orgName,
+    projectName,
+    commitSha,
+    deployedBy:
+      deployment.requestedFor?.displayName ??
+      deployment.requestedBy?.displayName ??
+      null,
+    status,
+    startedAt,
+    completedAt,
+    isFailed: status === "failure",
+    failureReason:
+      status === "failure"
+        ? `Release ${deployment.release?.name ?? deployment.release?.id} failed in ${deployment.releaseEnvironment?.name}`
+        : null,
+    relatedPRs: context?.relatedPRs ?? [],
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * GitHub Transformer
+ *
+ * Transforms GitHub REST API responses (pull requests, reviews, workflow runs)
+ * into the same database schema format used for Azure DevOps, so both sources
+ * share one set of tables and metric queries.
+ *
+ * Mapping conventions:
+ * - orgName ← repository owner (GitHub organization)
+ * - projectName ← repository name (GitHub has no project level; each
+ *   repository is treated as its own project)
+ */
+
+import {
+  createIdentityResolver,
+  type IdentityResolver,
+} from "@/lib/identities/resolver";
+import type {
+  GitHubPullRequest,
+  GitHubReview,
+  GitHubUser,
+  GitHubWorkflowRun,
+} from "../types";
+import type { TransformedCIRun } from "./transform-ci-run";
+import type {
+  ReviewTimestamps,
+  ReviewVote,
+  TransformedPRReview,
+  TransformedPullRequest,
+} from "./transform-pr";
+
+// ============================================================================
+// Review Timestamp Calculation
+// ============================================================================
+
+/**
+ * Calculate review timestamps from GitHub PR reviews
+ *
+ * Unlike Azure DevOps, the reviews API exposes explicit submission times and
+ * approval states, so no approximation is needed:
+ * - firstReviewAt: earliest submitted review (any state) by someone other
+ *   than the PR author
+ * - approvedAt: earliest APPROVED review
+ * - reviews: one per reviewer (see calculateGitHubReviews), including
+ *   requested reviewers who have not reviewed yet
+ *
+ * Pending (unsubmitted) reviews are ignored.
+ *
+ * @param reviews - Reviews returned by the reviews API
+ * @param authorLogin - Login of the PR author (self-reviews are ignored)
+ * @param identities - Identity resolver for reviewer logins (default: bot detection only)
+ * @param requestedReviewers - requested_reviewers of the PR (default: none)
+ * @returns Review timestamps (null when not available)
+ */
+export function calculateGitHubReviewTimestamps(
+  reviews: GitHubReview[],
+  authorLogin: string | null,
+  identities: IdentityResolver = createIdentityResolver([]),
+  requestedReviewers: GitHubUser[] = [],
+): ReviewTimestamps {
+  const submitted = reviews
+    .filter(
+      (review) =>
+        review.state !== "PENDING" &&
+        review.submitted_at &&
+        review.user?.login !== authorLogin,
+    )
+    .map((review) => ({
+      user: review.user,
+      state: review.state,
+      submittedAt: new Date(review.submitted_at as string),
+    }))
+    .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+
+  const firstReviewAt = submitted.length > 0 ? submitted[0].submittedAt : null;
+  const approvedAt =
+    submitted.find((review) => review.state === "APPROVED")?.submittedAt ??
+    null;
+
+  return {
+    firstReviewAt,
+    approvedAt,
+    reviews: calculateGitHubReviews(
+      submitted,
+      requestedReviewers.filter((user) => user.login !== authorLogin),
+      identities,
+    ),
+  };
+}
+
+// Review states that set or clear a reviewer's vote
+const githubReviewVotes: Record<string, ReviewVote> = {
+  APPROVED: "approved",
+  CHANGES_REQUESTED: "changes_requested",
+  DISMISSED: "none",
+};
+
+/**
+ * Group submitted reviews (oldest first) by reviewer:
+ * - vote: state of the latest APPROVED, CHANGES_REQUESTED or DISMISSED review
+ * - votedAt: earliest APPROVED or CHANGES_REQUESTED review
+ * - firstCommentAt: earliest COMMENTED review
+ *
+ * Requested reviewers without a submitted review are added unanswered, so
+ * reviewer SLA counts requests that were never answered. GitHub App accounts
+ * (type "Bot") are always flagged as bots.
+ */
+function calculateGitHubReviews(
+  submitted: Array<{
+    user: GitHubReview["user"];
+    state: string;
+    submittedAt: Date;
+  }>,
+  requestedReviewers: GitHubUser[],
+  identities: IdentityResolver,
+): TransformedPRReview[] {
+  const byReviewer = new Map<string, TransformedPRReview>();
+
+  const getReview = (user: GitHubUser): TransformedPRReview => {
+    let review = byReviewer.get(user.login);
+    if (!review) {
+      const identity = identities([user.login]) ?? {
+        name: user.login,
+        isBot: false,
+      };
+      review = {
+        reviewer: identity.name,
+        isBot: identity.isBot || user.type === "Bot",
+        vote: "none",
+        votedAt: null,
+        firstCommentAt: null,
+      };
+      byReviewer.set(user.login, review);
+    }
+    return review;
+  };
+
+  for (const { user, state, submittedAt } of submitted) {
+    if (!user?.login) continue;
+
+    const review = getReview(user);
+    const vote = githubReviewVotes[state];
+    if (vote !== undefined) {
+      review.vote = vote;
+      if (vote !== "none" && review.votedAt === null) {
+        review.votedAt = submittedAt;
+      }
+    }
+    if (state === "COMMENTED" && review.firstCommentAt === null) {
+      review.firstCommentAt = submittedAt;
+    }
+  }
+
+  for (const user of requestedReviewers) {
+    getReview(user);
+  }
+
+  return [...byReviewer.values()];
+}
+
+// ============================================================================
+// Pull Request Transformation
+// ============================================================================
+
+/**
+ * Transform a GitHub pull request into database schema format
+ *
+ * State mapping:
+ * - closed with merged_at → "merged"
+ * - closed without merged_at → "closed"
+ * - open → "open"
+ *
+ * Note: The list endpoint does not return additions/deletions, so size
+ * metrics default to 0 (same as Azure DevOps). Review timestamps are null
+ * until calculateGitHubReviewTimestamps is applied. The author login is
+ * resolved to its identity name; GitHub App accounts (type "Bot") are
+ * always flagged as bots.
+ *
+ * @param pr - GitHub pull request object
+ * @param orgName - GitHub organization that owns the repository
+ * @param repoName - Repository name (also used as projectName)
+ * @param identities - Identity resolver (default: bot detection only)
+ * @returns Transformed PR data ready for database insertion
+ */
+export function transformGitHubPullRequest(
+  pr: GitHubPullRequest,
+  orgName: string,
+  repoName: string,
+  identities: IdentityResolver = createIdentityResolver([]),
+): TransformedPullRequest {
+  let state = "open";
+  if (pr.merged_at) {
+    state = "merged";
+  } else if (pr.state === "closed") {
+    state = "closed";
+  }
+
+  const author = identities([pr.user?.login]) ?? {
+    name: "Unknown",
+    isBot: false,
+  };
+
+  return {
+    prNumber: pr.number,
+    repoName,
+    orgName,
+    projectName: repoName,
+    title: pr.title || "Untitled PR",
+    author: author.name,
+    state,
+    createdAt: new Date(pr.created_at),
+    updatedAt: new Date(pr.updated_at),
+    closedAt: pr.closed_at ? new Date(pr.closed_at) : null,
+    mergedAt: pr.merged_at ? new Date(pr.merged_at) : null,
+    firstReviewAt: null,
+    approvedAt: null,
+    additions: 0,
+    deletions: 0,
+    changedFiles: 0,
+    labels: pr.labels.map((label) => label.name),
+    isDraft: pr.draft ?? false,
+    baseBranch: pr.base.ref,
+    headBranch: pr.head.ref || null,
+    sourceCommitSha: pr.head.sha || null,
+    // Open PRs report a preview merge commit; only merged PRs have a real one
+    mergeCommitSha: pr.merged_at ? (pr.merge_commit_sha ?? null) : null,
+    isBot: author.isBot || pr.user?.type === "Bot",
+    source: "github",
+  };
+}
+
+// ============================================================================
+// Workflow Run Transformation
+// ============================================================================
+
+/**
+ * Transform a GitHub Actions workflow run into database schema format
+ *
+ * Status mapping (to the Azure Pipelines vocabulary used in ci_runs):
+ * - completed → "completed"
+ * - in_progress → "in_progress"
+ * - queued, waiting, requested, pending → "queued"
+ *
+ * Conclusion mapping:
+ * - success, failure, cancelled, skipped → unchanged
+ * - timed_out, startup_failure → "failure"
+ * - anything else (neutral, action_required, stale) → passed through
+ *
+ * runId is prefixed with "github" and the owner so it can never collide
+ * with Azure Pipelines run IDs ("<project>-<buildId>").
+ *
+ * @param run - GitHub workflow run object
+ * @param orgName - GitHub organization that owns the repository
+ * @param repoName - Repository name (also used as projectName)
+ * @returns Transformed CI run data ready for database insertion
+ */
+export function transformWorkflowRun(
+  run: GitHubWorkflowRun,
+  orgName: string,
+  repoName: string,
+): TransformedCIRun {
+  let status = "queued";
+  if (run.status === "completed") {
+    status = "completed";
+  } else if (run.status === "in_progress") {
+    status = "in_progress";
+  }
+
+  let conclusion: string | null = run.conclusion;
+  if (conclusion === "timed_out" || conclusion === "startup_failure") {
+    conclusion = "failure";
+  }
+
+  // A run is queued when it is created and starts when a runner picks it up
+  const queuedAt = new Date(run.created_at);
+  const startedAt = new Date(run.run_started_at || run.created_at);
+  const completedAt =
+    run.status === "completed" ? new Date(run.updated_at) : null;
+
+  return {
+    runId: `github-${orgName}-${repoName}-${run.id}`,
+    workflowName: run.name || "unknown-workflow",
+    repoName,
+    orgName,
+    projectName: repoName,
+    branch: run.head_branch,
+    commitSha: run.head_sha || null,
+    // GitHub links PR-triggered runs directly
+    prNumber: run.pull_requests[0]?.number ?? null,
+    status,
+    conclusion,
+    queuedAt,
+    startedAt,
+    completedAt,
+    isFlaky: false,
+    flakyTestCount: 0,
+    failureReason: null,
+    jobsCount: 0,
+    failedJobsCount: 0,
+  };
+}
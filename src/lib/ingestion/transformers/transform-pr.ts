@@ -2,7 +2,7 @@
  * Pull Request Transformer
  *
  * Transforms Azure DevOps PR API responses into database schema format.
- * Includes review timestamp enrichment logic.
+ * Includes review timestamp and reviewer enrichment logic.
  */
 
 import type * as azdev from "azure-devops-node-api";
@@ -11,6 +11,11 @@ import type {
   GitPullRequestCommentThread,
   IdentityRefWithVote,
 } from "azure-devops-node-api/interfaces/GitInterfaces";
+import {
+  createIdentityResolver,
+  type IdentityResolver,
+} from "@/lib/identities/resolver";
+import type { SourceName } from "../types";
 
 // ============================================================================
 // Type Definitions
@@ -40,6 +45,27 @@ export interface TransformedPullRequest {
   isDraft: boolean;
   baseBranch: string;
   headBranch: string | null;
+  sourceCommitSha: string | null;
+  mergeCommitSha: string | null;
+  isBot: boolean;
+  source: SourceName;
+}
+
+/**
+ * Latest vote of a reviewer, normalized across sources
+ */
+export type ReviewVote = "approved" | "changes_requested" | "none";
+
+/**
+ * Reviewer of a PR and their first responses, ready for pr_reviews
+ * (the PR key is added on persistence)
+ */
+export interface TransformedPRReview {
+  reviewer: string;
+  isBot: boolean;
+  vote: ReviewVote;
+  votedAt: Date | null;
+  firstCommentAt: Date | null;
 }
 
 /**
@@ -48,6 +74,8 @@ export interface TransformedPullRequest {
 export interface ReviewTimestamps {
   firstReviewAt: Date | null;
   approvedAt: Date | null;
+  /** Reviewers of the PR (null when they could not be fetched) */
+  reviews: TransformedPRReview[] | null;
 }
 
 // ============================================================================
@@ -107,37 +135,10 @@ export function calculateApprovedAt(
     return null;
   }
 
-  // Find threads created by approvers
-  const approverThreads: Date[] = [];
-
-  for (const approver of approvers) {
-    for (const thread of threads) {
-      // Skip deleted threads or threads without comments
-      if (
-        thread.isDeleted ||
-        !thread.comments ||
-        thread.comments.length === 0
-      ) {
-        continue;
-      }
-
-      // Check if any comment in this thread is from the approver
-      const hasApproverComment = thread.comments.some((comment) => {
-        if (!comment.author) return false;
-
-        // Match by display name or unique name
-        return (
-          comment.author.displayName === approver.displayName ||
-          comment.author.uniqueName === approver.uniqueName ||
-          comment.author.id === approver.id
-        );
-      });
-
-      if (hasApproverComment && thread.publishedDate) {
-        approverThreads.push(thread.publishedDate);
-      }
-    }
-  }
+  // Find the earliest thread of each approver
+  const approverThreads = approvers
+    .map((approver) => calculateFirstCommentAt(approver, threads))
+    .filter((date): date is Date => date !== null);
 
   // Return earliest thread from an approver
   if (approverThreads.length === 0) {
@@ -147,20 +148,123 @@ export function calculateApprovedAt(
   return approverThreads.sort((a, b) => a.getTime() - b.getTime())[0];
 }
 
+/**
+ * Calculate the first comment timestamp of one reviewer
+ *
+ * Returns the earliest publishedDate of non-deleted threads with a comment
+ * by the reviewer (matched by display name, unique name or id).
+ *
+ * @param reviewer - PR reviewer
+ * @param threads - Array of PR comment threads
+ * @returns Earliest thread timestamp or null if the reviewer never commented
+ */
+export function calculateFirstCommentAt(
+  reviewer: IdentityRefWithVote,
+  threads: GitPullRequestCommentThread[],
+): Date | null {
+  const reviewerThreads: Date[] = [];
+
+  for (const thread of threads) {
+    // Skip deleted threads or threads without comments
+    if (thread.isDeleted || !thread.comments || thread.comments.length === 0) {
+      continue;
+    }
+
+    // Check if any comment in this thread is from the reviewer
+    const hasReviewerComment = thread.comments.some((comment) => {
+      if (!comment.author) return false;
+
+      // Match by display name or unique name
+      return (
+        comment.author.displayName === reviewer.displayName ||
+        comment.author.uniqueName === reviewer.uniqueName ||
+        comment.author.id === reviewer.id
+      );
+    });
+
+    if (hasReviewerComment && thread.publishedDate) {
+      reviewerThreads.push(thread.publishedDate);
+    }
+  }
+
+  if (reviewerThreads.length === 0) {
+    return null;
+  }
+
+  return reviewerThreads.sort((a, b) => a.getTime() - b.getTime())[0];
+}
+
+/**
+ * Map an Azure DevOps vote to a review vote
+ *
+ * Votes: 10=approved, 5=approved with suggestions, 0=no vote,
+ * -5=waiting for author, -10=rejected
+ */
+function mapAzureVote(vote: number | undefined): ReviewVote {
+  if (vote === undefined || vote === 0) return "none";
+  return vote > 0 ? "approved" : "changes_requested";
+}
+
+/**
+ * Calculate the reviews of a PR from its reviewers and threads
+ *
+ * Group reviewers (teams added as required reviewers) and the PR author are
+ * skipped. Azure DevOps does not expose vote timestamps, so votedAt is null
+ * and firstCommentAt is the only response time.
+ *
+ * @param reviewers - Array of PR reviewers with votes
+ * @param threads - Array of PR comment threads
+ * @param authorId - Identity id of the PR creator
+ * @param identities - Identity resolver (default: bot detection only)
+ * @returns One review per reviewer
+ */
+export function calculatePRReviews(
+  reviewers: IdentityRefWithVote[],
+  threads: GitPullRequestCommentThread[],
+  authorId?: string,
+  identities: IdentityResolver = createIdentityResolver([]),
+): TransformedPRReview[] {
+  const reviews: TransformedPRReview[] = [];
+
+  for (const reviewer of reviewers) {
+    if (reviewer.isContainer || (authorId && reviewer.id === authorId)) {
+      continue;
+    }
+
+    const identity = identities([reviewer.displayName, reviewer.uniqueName]);
+    if (!identity) {
+      continue;
+    }
+
+    reviews.push({
+      reviewer: identity.name,
+      isBot: identity.isBot,
+      vote: mapAzureVote(reviewer.vote),
+      votedAt: null,
+      firstCommentAt: calculateFirstCommentAt(reviewer, threads),
+    });
+  }
+
+  return reviews;
+}
+
 /**
  * Enrich PR with review timestamps by querying Azure DevOps APIs
  *
- * Fetches comment threads and reviewers to calculate firstReviewAt and approvedAt.
+ * Fetches comment threads and reviewers to calculate firstReviewAt, approvedAt
+ * and the reviews of each reviewer.
  *
  * @param connection - Azure DevOps WebApi connection
  * @param pr - Pull request to enrich
  * @param projectName - Name of the project containing the PR
- * @returns Review timestamps (may be null if not available)
+ * @param identities - Identity resolver for reviewer names (default: bot detection only)
+ * @returns Review timestamps and reviews (may be null if not available)
  */
 export async function enrichPRReviewTimestamps(
   connection: azdev.WebApi,
   pr: GitPullRequest,
   projectName: string,
+  identities: IdentityResolver = createIdentityResolver([]),
 ): Promise<ReviewTimestamps> {
   try {
     // Validate required fields
@@ -168,7 +272,7 @@ export async function enrichPRReviewTimestamps(
       console.warn(
         `[Enrichment] Missing repository ID or PR ID for PR ${pr.pullRequestId}`,
       );
-      return { firstReviewAt: null, approvedAt: null };
+      return { firstReviewAt: null, approvedAt: null, reviews: null };
     }
 
     const gitApi = await connection.getGitApi();
@@ -186,15 +290,21 @@ export async function enrichPRReviewTimestamps(
     // Calculate timestamps
     const firstReviewAt = calculateFirstReviewAt(threads);
     const approvedAt = calculateApprovedAt(reviewers, threads);
+    const reviews = calculatePRReviews(
+      reviewers,
+      threads,
+      pr.createdBy?.id,
+      identities,
+    );
 
-    return { firstReviewAt, approvedAt };
+    return { firstReviewAt, approvedAt, reviews };
   } catch (error) {
     // Log error but don't throw - gracefully handle enrichment failures
     console.warn(
       `[Enrichment] Failed to enrich PR ${pr.pullRequestId} in ${projectName}:`,
       error instanceof Error ? error.message : error,
     );
-    return { firstReviewAt: null, approvedAt: null };
+    return { firstReviewAt: null, approvedAt: null, reviews: null };
   }
 }
 
@@ -209,15 +319,20 @@ export async function enrichPRReviewTimestamps(
  * Note: This does not include review timestamp enrichment - call enrichPRReviewTimestamps
  * separately to populate firstReviewAt and approvedAt.
  *
+ * The author is resolved from the creator's display and unique name, so it
+ * is stored under the identity name and flagged when it is a bot.
+ *
  * @param pr - Azure DevOps pull request object
  * @param projectName - Name of the project containing the PR
  * @param orgName - Name of the Azure DevOps organization
+ * @param identities - Identity resolver (default: bot detection only)
  * @returns Transformed PR data ready for database insertion
  */
 export function transformPullRequest(
   pr: GitPullRequest,
   projectName: string,
   orgName: string,
+  identities: IdentityResolver = createIdentityResolver([]),
 ): TransformedPullRequest {
   // Extract repository name from repository object
   const repoName = pr.repository?.name || "unknown";
@@ -278,17 +393,30 @@ export function transformPullRequest(
   const mergedAt =
     pr.status === 3 && pr.closedDate ? new Date(pr.closedDate) : null;
 
+  // Head of the source branch at the last merge attempt
+  const sourceCommitSha = pr.lastMergeSourceCommit?.commitId || null;
+
+  // For completed PRs the last merge commit is the commit on the target
+  // branch; for active PRs it is only a preview merge, so it is ignored
+  const mergeCommitSha =
+    pr.status === 3 ? pr.lastMergeCommit?.commitId || null : null;
+
   // Review timestamps not available in basic API (deferred to enrichment)
   const firstReviewAt = null;
   const approvedAt = null;
 
+  const author = identities([
+    pr.createdBy?.displayName,
+    pr.createdBy?.uniqueName,
+  ]) ?? { name: "Unknown", isBot: false };
+
   return {
     prNumber: pr.pullRequestId || 0,
     repoName,
     orgName,
     projectName,
     title: pr.title || "Untitled PR",
-    author: pr.createdBy?.displayName || "Unknown",
+    author: author.name,
     state,
     createdAt,
     updatedAt,
@@ -303,5 +431,9 @@ export function transformPullRequest(
     isDraft,
     baseBranch,
     headBranch,
+    sourceCommitSha,
+    mergeCommitSha,
+    isBot: author.isBot,
+    source: "azure-devops",
   };
 }
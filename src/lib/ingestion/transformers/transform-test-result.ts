@@ -0,0 +1,96 @@
+/**
+ * Test Result Transformer
+ *
+ * Transforms Azure Test Results API responses (results by build) into
+ * database schema format. Results inherit commit and start time from the
+ * CI run that produced them so flaky detection can group by commit.
+ */
+
+import type { ShallowTestCaseResult } from "azure-devops-node-api/interfaces/TestInterfaces";
+import type { TransformedCIRun } from "./transform-ci-run";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Transformed test result data ready for database insertion
+ */
+export interface TransformedTestResult {
+  resultId: string;
+  runId: string;
+  repoName: string;
+  orgName: string;
+  projectName: string;
+  commitSha: string | null;
+  testName: string;
+  testSuite: string | null;
+  outcome: string;
+  durationMs: number | null;
+  startedAt: Date;
+}
+
+// ============================================================================
+// Data Transformation
+// ============================================================================
+
+/**
+ * Normalize a test outcome
+ *
+ * Passed → passed; Failed, Timeout and Aborted → failed; anything else is
+ * lowercased (e.g., notexecuted, inconclusive) and ignored by flaky detection.
+ *
+ * @param outcome - Outcome string from the Test Results API
+ * @returns Normalized outcome
+ */
+export function normalizeTestOutcome(outcome: string | undefined): string {
+  const normalized = (outcome ?? "unspecified").toLowerCase();
+
+  if (normalized === "passed") {
+    return "passed";
+  }
+  if (
+    normalized === "failed" ||
+    normalized === "timeout" ||
+    normalized === "aborted"
+  ) {
+    return "failed";
+  }
+
+  return normalized;
+}
+
+/**
+ * Transform an Azure test result into database schema format
+ *
+ * @param result - Shallow test case result from the results-by-build API
+ * @param run - CI run that published the result
+ * @returns Transformed test result, or null if the result cannot be identified
+ */
+export function transformTestResult(
+  result: ShallowTestCaseResult,
+  run: Pick<
+    TransformedCIRun,
+    "runId" | "repoName" | "orgName" | "projectName" | "commitSha" | "startedAt"
+  >,
+): TransformedTestResult | null {
+  const testName = result.automatedTestName || result.testCaseTitle;
+
+  if (result.id === undefined || result.runId === undefined || !testName) {
+    return null;
+  }
+
+  return {
+    resultId: `${run.runId}-${result.runId}-${result.id}`,
+    runId: run.runId,
+    repoName: run.repoName,
+    orgName: run.orgName,
+    projectName: run.projectName,
+    commitSha: run.commitSha,
+    testName,
+    testSuite: result.automatedTestStorage || null,
+    outcome: normalizeTestOutcome(result.outcome),
+    durationMs: result.durationInMs ?? null,
+    startedAt: run.startedAt,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * CI Timeline Transformer
+ *
+ * Transforms Azure Pipelines Build Timeline API responses into stage/job rows
+ * for the ci_run_timeline table, and derives the job counters and failure
+ * reason stored on the CI run itself.
+ */
+
+import type {
+  Timeline,
+  TimelineRecord,
+} from "azure-devops-node-api/interfaces/BuildInterfaces";
+import type { TransformedCIRun } from "./transform-ci-run";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Transformed timeline record (stage or job) ready for database insertion
+ */
+export interface TransformedTimelineRecord {
+  recordId: string;
+  runId: string;
+  workflowName: string;
+  repoName: string;
+  orgName: string;
+  projectName: string;
+  recordType: "stage" | "job";
+  name: string;
+  stageName: string | null;
+  result: string | null;
+  attempt: number;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  durationMs: number | null;
+}
+
+/**
+ * Transformed timeline of one CI run
+ */
+export interface TransformedCITimeline {
+  records: TransformedTimelineRecord[];
+  jobsCount: number;
+  failedJobsCount: number;
+  failureReason: string | null;
+}
+
+// ============================================================================
+// Data Transformation
+// ============================================================================
+
+/** Longest failure reason kept on a CI run */
+const MAX_FAILURE_REASON_LENGTH = 1000;
+
+/**
+ * Map a timeline record result to our schema
+ *
+ * TaskResult: Succeeded=0, SucceededWithIssues=1, Failed=2, Canceled=3,
+ * Skipped=4, Abandoned=5
+ *
+ * @param result - TaskResult of the record (undefined while running)
+ * @returns Normalized result, or null if the record has not finished
+ */
+export function mapTimelineResult(result: number | undefined): string | null {
+  switch (result) {
+    case 0:
+      return "succeeded";
+    case 1:
+      return "succeeded_with_issues";
+    case 2:
+      return "failed";
+    case 3:
+      return "canceled";
+    case 4:
+      return "skipped";
+    case 5:
+      return "abandoned";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find the name of the Stage record enclosing a timeline record
+ *
+ * Jobs hang off a Phase, which hangs off a Stage in YAML pipelines. Classic
+ * pipelines have no stages.
+ */
+function findStageName(
+  record: TimelineRecord,
+  recordsById: Map<string, TimelineRecord>,
+): string | null {
+  let parent = record.parentId ? recordsById.get(record.parentId) : undefined;
+
+  while (parent) {
+    if (parent.type === "Stage") {
+      return parent.name ?? null;
+    }
+    parent = parent.parentId ? recordsById.get(parent.parentId) : undefined;
+  }
+
+  return null;
+}
+
+/**
+ * Derive a failure reason from the first failed task's error issues
+ *
+ * Format: "<task name>: <first error message>", or "<task name> failed" when
+ * the task reported no error issues.
+ *
+ * @param records - All records of the timeline
+ * @returns Failure reason, or null if no task failed
+ */
+export function extractFailureReason(records: TimelineRecord[]): string | null {
+  const failedTasks = records
+    .filter((record) => record.type === "Task" && record.result === 2)
+    .sort(
+      (a, b) =>
+        (a.finishTime ? new Date(a.finishTime).getTime() : Infinity) -
+          (b.finishTime ? new Date(b.finishTime).getTime() : Infinity) ||
+        (a.order ?? 0) - (b.order ?? 0),
+    );
+
+  const task = failedTasks[0];
+  if (!task) {
+    return null;
+  }
+
+  const taskName = task.name || "Unknown task";
+  // IssueType: Error=1, Warning=2
+  const error = task.issues?.find((issue) => issue.type === 1 && issue.message);
+  const reason = error ? `${taskName}: ${error.message}` : `${taskName} failed`;
+
+  return reason.slice(0, MAX_FAILURE_REASON_LENGTH);
+}
+
+/**
+ * Transform an Azure Pipelines build timeline into database schema format
+ *
+ * Only Stage and Job records are stored; Task records are used to derive the
+ * run's failure reason. Counters cover jobs only.
+ *
+ * @param timeline - Build timeline from the Timeline API
+ * @param run - CI run the timeline belongs to
+ * @returns Stage/job rows plus the run's derived counters
+ */
+export function transformTimeline(
+  timeline: Timeline,
+  run: Pick<
+    TransformedCIRun,
+    "runId" | "workflowName" | "repoName" | "orgName" | "projectName"
+  >,
+): TransformedCITimeline {
+  const allRecords = timeline.records ?? [];
+  const recordsById = new Map(
+    allRecords
+      .filter((record) => record.id)
+      .map((record) => [record.id as string, record]),
+  );
+
+  const records: TransformedTimelineRecord[] = [];
+
+  for (const record of allRecords) {
+    if (!record.id || (record.type !== "Stage" && record.type !== "Job")) {
+      continue;
+    }
+
+    const startedAt = record.startTime ? new Date(record.startTime) : null;
+    const completedAt = record.finishTime ? new Date(record.finishTime) : null;
+
+    records.push({
+      recordId: `${run.runId}-${record.id}`,
+      runId: run.runId,
+      workflowName: run.workflowName,
+      repoName: run.repoName,
+      orgName: run.orgName,
+      projectName: run.projectName,
+      recordType: record.type === "Stage" ? "stage" : "job",
+      name: record.name || record.identifier || "unknown",
+      stageName:
+        record.type === "Job" ? findStageName(record, recordsById) : null,
+      result: mapTimelineResult(record.result),
+      attempt: record.attempt ?? 1,
+      startedAt,
+      completedAt,
+      durationMs:
+        startedAt && completedAt
+          ? completedAt.getTime() - startedAt.getTime()
+          : null,
+    });
+  }
+
+  const jobs = records.filter((record) => record.recordType === "job");
+
+  return {
+    records,
+    jobsCount: jobs.length,
+    failedJobsCount: jobs.filter((job) => job.result === "failed").length,
+    failureReason: extractFailureReason(allRecords),
+  };
+}
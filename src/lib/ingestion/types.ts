@@ -1,10 +1,19 @@
 /**
- * Shared Type Definitions for Azure DevOps Ingestion
+ * Shared Type Definitions for Ingestion
  *
- * This module contains common types used across PR and CI run ingestion modules.
+ * This module contains common types used across PR and CI run ingestion modules
+ * for every supported source (Azure DevOps, GitHub).
  */
 
 import type { TeamProjectReference } from "azure-devops-node-api/interfaces/CoreInterfaces";
+import type { TransformedCIRun } from "./transformers/transform-ci-run";
+import type { TransformedDeployment } from "./transformers/transform-deployment";
+import type {
+  ReviewTimestamps,
+  TransformedPullRequest,
+} from "./transformers/transform-pr";
+import type { TransformedTestResult } from "./transformers/transform-test-result";
+import type { TransformedCITimeline } from "./transformers/transform-timeline";
 
 // ============================================================================
 // Configuration Types
@@ -28,6 +37,34 @@ export interface AzureDevOpsConfig {
   rateLimitPerMinute: number;
 }
 
+/**
+ * GitHub configuration extracted from environment variables
+ */
+export interface GitHubConfig {
+  /** Personal access token (or GitHub App installation token) */
+  token: string;
+  /** Organization (or user) that owns the repositories */
+  org: string;
+  /** Base URL of the REST API (default: https://api.github.com) */
+  apiUrl: string;
+  /** List of repository names to exclude from ingestion */
+  excludeRepos: string[];
+  /** Request timeout in milliseconds (default: 30000) */
+  requestTimeout: number;
+  /** Maximum number of retry attempts (default: 3) */
+  maxRetries: number;
+  /** Rate limit threshold in requests per minute (default: 80) */
+  rateLimitPerMinute: number;
+}
+
+/**
+ * Retry and rate limit settings shared by every source API client
+ */
+export type RetryConfig = Pick<
+  AzureDevOpsConfig,
+  "maxRetries" | "rateLimitPerMinute"
+>;
+
 // ============================================================================
 // Ingestion Result Types
 // ============================================================================
@@ -72,6 +109,10 @@ export interface IngestionResult extends BaseIngestionResult {
   prsWithApprovals: number;
   /** Number of errors during enrichment */
   enrichmentErrors: number;
+  /** Whether watermarks were ignored and the full lookback window refetched */
+  fullResync: boolean;
+  /** Number of repositories whose watermark advanced */
+  reposSynced: number;
 }
 
 /**
@@ -100,10 +141,75 @@ export interface CIIngestionResult extends BaseIngestionResult {
   runsUpdated: number;
   /** Number of runs identified as flaky */
   flakyRunsDetected: number;
+  /** Number of test results newly inserted */
+  testResultsIngested: number;
+  /** Number of test results identified as flaky (test-level detection) */
+  flakyTestResultsDetected: number;
+  /** Number of CI runs whose stage/job timeline was stored */
+  timelinesIngested: number;
+  /** Number of runs linked to a PR by commit SHA after ingestion */
+  runsLinkedToPRs: number;
   /** Step-by-step metrics for performance tracking */
   metrics?: StepMetric[];
 }
 
+/**
+ * Result of deployment ingestion operation
+ */
+export interface DeploymentIngestionResult extends BaseIngestionResult {
+  /** Number of deployments newly inserted */
+  deploymentsIngested: number;
+  /** Number of deployments updated with newer data */
+  deploymentsUpdated: number;
+  /** Number of deployments unchanged since the last ingestion */
+  deploymentsSkipped: number;
+  /** Number of deployments whose related PRs were resolved from merge commits */
+  deploymentsLinked: number;
+  /** Number of failed deployments marked as recovered by a later deployment */
+  deploymentsRecovered: number;
+  /** Step-by-step metrics for performance tracking */
+  metrics?: StepMetric[];
+}
+
+/**
+ * Kind of data a historical backfill ingests
+ */
+export type BackfillEntity = "pull_requests" | "ci_runs";
+
+/**
+ * Result of one backfill invocation (a slice of a resumable job)
+ */
+export interface BackfillResult {
+  /** Whether every chunk in this invocation completed without errors */
+  success: boolean;
+  /** Backfill job that was advanced */
+  jobId: number;
+  /** Source the job ingests from */
+  source: SourceName;
+  /** Kind of data the job ingests */
+  entity: BackfillEntity;
+  /** Job status after this invocation */
+  status: "pending" | "running" | "completed";
+  /** Inclusive start of the job's date range */
+  rangeStart: Date;
+  /** Exclusive end of the job's date range */
+  rangeEnd: Date;
+  /** Everything in [cursor, rangeEnd) has been ingested */
+  cursor: Date;
+  /** Chunks completed in this invocation */
+  chunksProcessed: number;
+  /** Chunks still to process (0 when completed) */
+  chunksRemaining: number;
+  /** Rows newly inserted in this invocation */
+  itemsIngested: number;
+  /** Rows updated in this invocation */
+  itemsUpdated: number;
+  /** Errors encountered in this invocation */
+  errors: IngestionError[];
+  /** One step per chunk (plus nested project steps for CI runs) */
+  metrics: StepMetric[];
+}
+
 /**
  * Result of PR ingestion for a single project
  */
@@ -122,6 +228,8 @@ export interface ProjectIngestionResult {
   prsWithApprovals: number;
   /** Number of errors during enrichment */
   enrichmentErrors: number;
+  /** Number of repositories whose watermark advanced */
+  reposSynced: number;
   /** Errors encountered during project ingestion */
   errors: IngestionError[];
 }
@@ -136,10 +244,145 @@ export interface ProjectCIIngestionResult {
   runsIngested: number;
   /** Number of CI runs updated with newer data */
   runsUpdated: number;
+  /** Number of test results newly inserted */
+  testResultsIngested: number;
+  /** Number of CI runs whose stage/job timeline was stored */
+  timelinesIngested: number;
   /** Errors encountered during project ingestion */
   errors: IngestionError[];
 }
 
+// ============================================================================
+// Source Provider Types
+// ============================================================================
+
+/**
+ * Identifier of a supported ingestion source
+ */
+export type SourceName = "azure-devops" | "github";
+
+/**
+ * A unit of discovery within a source (Azure DevOps project, GitHub repository)
+ */
+export interface SourceProject {
+  /** Project name stored on ingested rows (projectName column) */
+  name: string;
+  /** Organization that owns the project (orgName column) */
+  orgName: string;
+}
+
+/**
+ * A pull request listed by a provider
+ *
+ * Carries the source-native payload alongside the transformed row so the
+ * provider can enrich review timestamps without refetching the PR.
+ */
+export interface SourcePullRequest<TRaw = unknown> {
+  /** Transformed row (review timestamps not yet populated) */
+  data: TransformedPullRequest;
+  /** Source-native pull request payload */
+  raw: TRaw;
+}
+
+/**
+ * What a provider should fetch when listing pull requests
+ */
+export interface PullRequestQuery {
+  /** Lookback cutoff (by creation time) for repositories without a watermark */
+  since: Date;
+  /** Exclusive upper bound on creation time (historical backfill only) */
+  until?: Date;
+  /**
+   * Watermarks keyed by repository name. For a repository with a watermark,
+   * only PRs created, closed or otherwise updated after it are needed.
+   * Empty on the first run and on a full resync.
+   */
+  watermarks: Map<string, Date>;
+}
+
+/**
+ * What a provider should fetch when listing CI runs
+ */
+export interface CIRunQuery {
+  /** Only runs started on or after this time */
+  since: Date;
+  /** Exclusive upper bound on start time (historical backfill only) */
+  until?: Date;
+}
+
+/**
+ * What a provider should fetch when listing deployments
+ */
+export interface DeploymentQuery {
+  /** Only deployments started on or after this time */
+  since: Date;
+}
+
+/**
+ * Pull requests listed for one project
+ */
+export interface PullRequestListing<TRaw = unknown> {
+  pullRequests: SourcePullRequest<TRaw>[];
+  /** Repositories that were fetched completely (safe to advance watermarks) */
+  syncedRepos: string[];
+}
+
+/**
+ * Source system that PR, CI run and deployment ingestion can read from
+ *
+ * Providers only fetch and transform. Persistence, concurrency, error
+ * aggregation, step tracking and flaky detection are handled by the shared
+ * ingestion modules (pull-requests.ts, ci-runs.ts, deployments.ts), so adding a source means
+ * implementing this interface and registering it in providers/index.ts.
+ */
+export interface SourceProvider<TRawPullRequest = unknown> {
+  /** Source identifier (matches the `source` query parameter) */
+  readonly name: SourceName;
+  /** Human-readable name used in logs */
+  readonly displayName: string;
+  /** Discover all projects to ingest (exclusions already applied) */
+  discoverProjects(): Promise<SourceProject[]>;
+  /** List pull requests to ingest (see PullRequestQuery) */
+  listPullRequests(
+    project: SourceProject,
+    query: PullRequestQuery,
+  ): Promise<PullRequestListing<TRawPullRequest>>;
+  /** Fetch review timestamps for a single pull request */
+  enrichReviews(
+    project: SourceProject,
+    pr: SourcePullRequest<TRawPullRequest>,
+  ): Promise<ReviewTimestamps>;
+  /** List CI runs started within the query window */
+  listCIRuns(
+    project: SourceProject,
+    query: CIRunQuery,
+  ): Promise<TransformedCIRun[]>;
+  /**
+   * List the test results a completed CI run published. Optional: sources
+   * without test result APIs only get pipeline-level flaky detection.
+   */
+  listTestResults?(
+    project: SourceProject,
+    run: TransformedCIRun,
+  ): Promise<TransformedTestResult[]>;
+  /**
+   * Get the stage/job timeline of a completed CI run, or null if the run has
+   * none. Optional: sources without timelines keep job counters at 0.
+   */
+  getRunTimeline?(
+    project: SourceProject,
+    run: TransformedCIRun,
+  ): Promise<TransformedCITimeline | null>;
+  /**
+   * List deployments started within the query window. Optional: sources
+   * without deployment records rely on POST /api/deployments instead.
+   */
+  listDeployments?(
+    project: SourceProject,
+    query: DeploymentQuery,
+  ): Promise<TransformedDeployment[]>;
+}
+
 // ============================================================================
 // Azure DevOps API Types
 // ============================================================================
@@ -157,3 +400,83 @@ export function isValidProject(
 ): project is TeamProjectReference {
   return project !== undefined && typeof project.name === "string";
 }
+
+// ============================================================================
+// GitHub API Types
+// ============================================================================
+// Only the fields DevSignals reads are declared. See
+// https://docs.github.com/en/rest for the complete payloads.
+
+/**
+ * GitHub user or bot account
+ */
+export interface GitHubUser {
+  login: string;
+  /** "User", "Bot" or "Organization" */
+  type?: string;
+}
+
+/**
+ * Repository returned by GET /orgs/{org}/repos
+ */
+export interface GitHubRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  archived?: boolean;
+  owner: GitHubUser;
+}
+
+/**
+ * Pull request returned by GET /repos/{owner}/{repo}/pulls
+ */
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  /** "open" or "closed" (merged PRs are closed with merged_at set) */
+  state: string;
+  draft?: boolean;
+  user: GitHubUser | null;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  labels: Array<{ name: string }>;
+  base: { ref: string };
+  head: { ref: string; sha: string };
+  merge_commit_sha?: string | null;
+  /** Reviewers whose review is still requested (removed once they review) */
+  requested_reviewers?: GitHubUser[];
+}
+
+/**
+ * Review returned by GET /repos/{owner}/{repo}/pulls/{number}/reviews
+ */
+export interface GitHubReview {
+  id: number;
+  user: GitHubUser | null;
+  /** APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED or PENDING */
+  state: string;
+  /** Absent for PENDING reviews */
+  submitted_at?: string | null;
+}
+
+/**
+ * Workflow run returned by GET /repos/{owner}/{repo}/actions/runs
+ */
+export interface GitHubWorkflowRun {
+  id: number;
+  name: string | null;
+  head_branch: string | null;
+  head_sha: string;
+  /** queued, in_progress, completed, waiting, requested or pending */
+  status: string | null;
+  /** success, failure, cancelled, skipped, timed_out, neutral, action_required, stale */
+  conclusion: string | null;
+  event: string;
+  run_attempt?: number;
+  created_at: string;
+  updated_at: string;
+  run_started_at?: string;
+  pull_requests: Array<{ number: number }>;
+}
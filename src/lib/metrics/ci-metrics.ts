@@ -0,0 +1,256 @@
+/**
+ * CI Pipeline Metrics Calculation
+ * Calculates pipeline duration and queue time using p50 and p90 aggregations.
+ *
+ * Metrics:
+ * - Pipeline Duration: Time from run start to completion (completedAt - startedAt)
+ * - Queue Time: Time a run waited for an agent/runner (startedAt - queuedAt)
+ *
+ * All metrics cover completed, non-cancelled runs started within the time
+ * window and return results in minutes (pipelines are measured in minutes,
+ * not hours like the PR and DORA metrics).
+ */
+
+import { and, eq, gte, isNull, lte, ne, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db/client";
+import { ciRuns } from "@/lib/db/schema";
+import { inTeamRepositories } from "./team-filters";
+
+export interface CIPercentileMetric {
+  p50_minutes: number | null;
+  p90_minutes: number | null;
+  count: number;
+}
+
+export interface CIDurationMetrics {
+  duration: CIPercentileMetric;
+  queueTime: CIPercentileMetric;
+}
+
+export interface WorkflowCIDurationMetrics extends CIDurationMetrics {
+  projectName: string;
+  workflowName: string;
+}
+
+// Null when the timestamp is missing, so percentile_cont and count skip the run
+const durationMs = sql`extract(epoch from (${ciRuns.completedAt} - ${ciRuns.startedAt})) * 1000`;
+const queueMs = sql`extract(epoch from (${ciRuns.startedAt} - ${ciRuns.queuedAt})) * 1000`;
+
+const percentileColumns = {
+  duration_p50_ms: sql<
+    number | null
+  >`percentile_cont(0.5) within group (order by ${durationMs})`,
+  duration_p90_ms: sql<
+    number | null
+  >`percentile_cont(0.9) within group (order by ${durationMs})`,
+  duration_count: sql<number>`cast(count(${durationMs}) as integer)`,
+  queue_p50_ms: sql<
+    number | null
+  >`percentile_cont(0.5) within group (order by ${queueMs})`,
+  queue_p90_ms: sql<
+    number | null
+  >`percentile_cont(0.9) within group (order by ${queueMs})`,
+  queue_count: sql<number>`cast(count(${queueMs}) as integer)`,
+};
+
+interface PercentileRow {
+  duration_p50_ms: number | null;
+  duration_p90_ms: number | null;
+  duration_count: number;
+  queue_p50_ms: number | null;
+  queue_p90_ms: number | null;
+  queue_count: number;
+}
+
+function windowConditions(startDate: Date, endDate: Date) {
+  return [
+    gte(ciRuns.startedAt, startDate),
+    lte(ciRuns.startedAt, endDate),
+    eq(ciRuns.status, "completed"),
+    // Cancelled runs stop early and would understate durations
+    or(isNull(ciRuns.conclusion), ne(ciRuns.conclusion, "cancelled")),
+  ];
+}
+
+function toMinutes(ms: number | null): number | null {
+  return ms !== null ? ms / (1000 * 60) : null;
+}
+
+function toDurationMetrics(row: PercentileRow): CIDurationMetrics {
+  return {
+    duration: {
+      p50_minutes: toMinutes(row.duration_p50_ms),
+      p90_minutes: toMinutes(row.duration_p90_ms),
+      count: row.duration_count,
+    },
+    queueTime: {
+      p50_minutes: toMinutes(row.queue_p50_ms),
+      p90_minutes: toMinutes(row.queue_p90_ms),
+      count: row.queue_count,
+    },
+  };
+}
+
+/**
+ * Calculates pipeline duration and queue time (p50 and p90) for CI runs
+ * started within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics in minutes
+ *
+ * @example
+ * const metrics = await calculateCIDuration(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z"),
+ *   "my-project"
+ * );
+ * // Returns: {
+ * //   duration: { p50_minutes: 8.5, p90_minutes: 21.0, count: 120 },
+ * //   queueTime: { p50_minutes: 0.4, p90_minutes: 3.2, count: 118 }
+ * // }
+ */
+export async function calculateCIDuration(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<CIDurationMetrics> {
+  try {
+    const conditions = windowConditions(startDate, endDate);
+
+    if (projectName) {
+      conditions.push(eq(ciRuns.projectName, projectName));
+    }
+
+    const result = await db
+      .select(percentileColumns)
+      .from(ciRuns)
+      .where(
+        and(
+          ...conditions,
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
+      );
+
+    const metrics = toDurationMetrics(result[0]);
+
+    console.log(
+      `[CI Metrics] Duration ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): p50=${metrics.duration.p50_minutes?.toFixed(1)}m, p90=${metrics.duration.p90_minutes?.toFixed(1)}m, queue p50=${metrics.queueTime.p50_minutes?.toFixed(1)}m, count=${metrics.duration.count}`,
+    );
+
+    return metrics;
+  } catch (error) {
+    console.error("[CI Metrics] Error calculating CI duration:", error);
+    throw error;
+  }
+}
+
+/**
+ * Calculates pipeline duration and queue time by project for all projects
+ * within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Map of project names to percentile metrics
+ */
+export async function calculateCIDurationByProject(
+  startDate: Date,
+  endDate: Date,
+  teamId?: number,
+): Promise<Map<string, CIDurationMetrics>> {
+  try {
+    const result = await db
+      .select({ projectName: ciRuns.projectName, ...percentileColumns })
+      .from(ciRuns)
+      .where(
+        and(
+          ...windowConditions(startDate, endDate),
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
+      )
+      .groupBy(ciRuns.projectName);
+
+    const metrics = new Map<string, CIDurationMetrics>();
+
+    for (const row of result) {
+      metrics.set(row.projectName, toDurationMetrics(row));
+    }
+
+    console.log(
+      `[CI Metrics] Calculated CI duration for ${metrics.size} projects`,
+    );
+
+    return metrics;
+  } catch (error) {
+    console.error(
+      "[CI Metrics] Error calculating CI duration by project:",
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Calculates pipeline duration and queue time per workflow (pipeline
+ * definition) within a time window, slowest p90 duration first.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics in minutes for each workflow
+ */
+export async function calculateCIDurationByWorkflow(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<WorkflowCIDurationMetrics[]> {
+  try {
+    const conditions = windowConditions(startDate, endDate);
+
+    if (projectName) {
+      conditions.push(eq(ciRuns.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        projectName: ciRuns.projectName,
+        workflowName: ciRuns.workflowName,
+        ...percentileColumns,
+      })
+      .from(ciRuns)
+      .where(
+        and(
+          ...conditions,
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
+      )
+      .groupBy(ciRuns.projectName, ciRuns.workflowName)
+      .orderBy(
+        sql`${percentileColumns.duration_p90_ms} desc nulls last`,
+        ciRuns.projectName,
+        ciRuns.workflowName,
+      );
+
+    console.log(
+      `[CI Metrics] Calculated CI duration for ${result.length} workflows`,
+    );
+
+    return result.map((row) => ({
+      projectName: row.projectName,
+      workflowName: row.workflowName,
+      ...toDurationMetrics(row),
+    }));
+  } catch (error) {
+    console.error(
+      "[CI Metrics] Error calculating CI duration by workflow:",
+      error,
+    );
+    throw error;
+  }
+}
@@ -6,17 +6,30 @@
  * - Deployment Frequency: Count of successful production deployments per time window
  * - Lead Time for Changes: Time from first commit (PR creation) to production deployment
  * - Change Failure Rate: Percentage of deployments that fail or require rollback
- * - Mean Time to Recovery (MTTR): Time to restore service after failed deployment
+ * - Mean Time to Recovery (MTTR): Time to restore service, from incidents
+ *   (open → resolve) or, without resolved incidents, failed deployments
+ *
+ * Production deployments are those to a production tier of the environment
+ * registry (PRODUCTION_ENVIRONMENTS, default "production").
+ *
+ * Metrics aggregate by project (Azure DevOps project or GitHub repository).
+ * Projects hosting several independently deployed services can be broken down
+ * by repository (deployments.repoName) with the repoName filters and the
+ * ...ByRepo functions, and every metric can be restricted to the repositories
+ * of a team (teamId).
  *
  * All percentile metrics use p50 and p90 aggregations and return results in hours.
  */
 
-import { and, eq, gte, isNotNull, lte, sql } from "drizzle-orm";
+import { and, eq, gte, inArray, isNotNull, lte, sql } from "drizzle-orm";
 import { db } from "@/lib/db/client";
-import { deployments, pullRequests } from "@/lib/db/schema";
+import { deployments, incidents, pullRequests } from "@/lib/db/schema";
+import { getProductionEnvironments } from "@/lib/utils/environments";
+import type { PercentileMetric } from "./pr-metrics";
+import { teamDeploymentFilter, teamIncidentFilter } from "./team-filters";
 
 // Re-export PercentileMetric from pr-metrics for consistency
-export type { PercentileMetric } from "./pr-metrics";
+export type { PercentileMetric };
 
 export interface DeploymentFrequency {
   count: number;
@@ -28,12 +41,70 @@ export interface ChangeFailureRate {
   total_count: number;
 }
 
+export interface MTTRMetric extends PercentileMetric {
+  source: "incidents" | "deployments"; // Data the percentiles were computed from
+}
+
+/**
+ * A metric for one repository (service) of a project.
+ * repoName is null for deployments recorded without a repository.
+ */
+export type RepoMetric<T> = T & {
+  projectName: string;
+  repoName: string | null;
+};
+
+// Deployments to any production tier of the environment registry
+function isProductionDeployment() {
+  return inArray(deployments.environment, getProductionEnvironments());
+}
+
+// Deployments counted as failed changes: failed deployments, and rollbacks
+// of deployments that were not recorded. A rollback with rollbackOf marks the
+// rolled-back deployment failed, so it is counted there only once.
+const isFailedChange = sql`(${deployments.isFailed} = true or (${deployments.isRollback} = true and ${deployments.rollbackOf} is null))`;
+
+/**
+ * Key identifying the project/repository of a RepoMetric, for combining the
+ * per-repository results of several metrics.
+ */
+export function repoMetricKey(metric: {
+  projectName: string;
+  repoName: string | null;
+}): string {
+  return JSON.stringify([metric.projectName, metric.repoName]);
+}
+
+/**
+ * Orders RepoMetrics by project, then repository (deployments without a
+ * repository last), matching the order of the ...ByRepo queries.
+ */
+export function compareRepoMetrics(
+  a: { projectName: string; repoName: string | null },
+  b: { projectName: string; repoName: string | null },
+): number {
+  if (a.projectName !== b.projectName) {
+    return a.projectName < b.projectName ? -1 : 1;
+  }
+  if (a.repoName === b.repoName) return 0;
+  if (a.repoName === null) return 1;
+  if (b.repoName === null) return -1;
+  return a.repoName < b.repoName ? -1 : 1;
+}
+
+// Log label for a project/repository scope
+function scopeLabel(projectName?: string, repoName?: string): string {
+  return [projectName, repoName].filter(Boolean).join("/") || "Organization";
+}
+
 /**
  * Calculates deployment frequency (count of successful production deployments) within a time window.
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
  * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Deployment count
  *
  * @example
@@ -48,12 +119,14 @@ export async function calculateDeploymentFrequency(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  repoName?: string,
+  teamId?: number,
 ): Promise<DeploymentFrequency> {
   try {
     const conditions = [
       gte(deployments.startedAt, startDate),
       lte(deployments.startedAt, endDate),
-      eq(deployments.environment, "production"),
+      isProductionDeployment(),
       eq(deployments.status, "success"),
     ];
 
@@ -61,17 +134,21 @@ export async function calculateDeploymentFrequency(
       conditions.push(eq(deployments.projectName, projectName));
     }
 
+    if (repoName) {
+      conditions.push(eq(deployments.repoName, repoName));
+    }
+
     const result = await db
       .select({
         count: sql<number>`cast(count(*) as integer)`,
       })
       .from(deployments)
-      .where(and(...conditions));
+      .where(and(...conditions, teamDeploymentFilter(teamId)));
 
     const row = result[0];
 
     console.log(
-      `[DORA Metrics] Deployment Frequency ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): count=${row.count}`,
+      `[DORA Metrics] Deployment Frequency ${scopeLabel(projectName, repoName)} (${startDate.toISOString()} to ${endDate.toISOString()}): count=${row.count}`,
     );
 
     return {
@@ -91,6 +168,7 @@ export async function calculateDeploymentFrequency(
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to deployment counts
  *
  * @example
@@ -106,6 +184,7 @@ export async function calculateDeploymentFrequency(
 export async function calculateDeploymentFrequencyByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<Map<string, DeploymentFrequency>> {
   try {
     const result = await db
@@ -118,8 +197,9 @@ export async function calculateDeploymentFrequencyByProject(
         and(
           gte(deployments.startedAt, startDate),
           lte(deployments.startedAt, endDate),
-          eq(deployments.environment, "production"),
+          isProductionDeployment(),
           eq(deployments.status, "success"),
+          teamDeploymentFilter(teamId),
         ),
       )
       .groupBy(deployments.projectName);
@@ -146,16 +226,82 @@ export async function calculateDeploymentFrequencyByProject(
   }
 }
 
+/**
+ * Calculates deployment frequency by repository (service) within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Deployment counts per project and repository
+ *
+ * @example
+ * const frequencies = await calculateDeploymentFrequencyByRepo(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z"),
+ *   "platform"
+ * );
+ * // Returns: [
+ * //   { projectName: "platform", repoName: "billing-api", count: 7 },
+ * //   { projectName: "platform", repoName: "web-app", count: 3 }
+ * // ]
+ */
+export async function calculateDeploymentFrequencyByRepo(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<RepoMetric<DeploymentFrequency>[]> {
+  try {
+    const conditions = [
+      gte(deployments.startedAt, startDate),
+      lte(deployments.startedAt, endDate),
+      isProductionDeployment(),
+      eq(deployments.status, "success"),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(deployments.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        projectName: deployments.projectName,
+        repoName: deployments.repoName,
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(deployments)
+      .where(and(...conditions, teamDeploymentFilter(teamId)))
+      .groupBy(deployments.projectName, deployments.repoName)
+      .orderBy(deployments.projectName, deployments.repoName);
+
+    console.log(
+      `[DORA Metrics] Calculated deployment frequency for ${result.length} repositories`,
+    );
+
+    return result;
+  } catch (error) {
+    console.error(
+      "[DORA Metrics] Error calculating deployment frequency by repository:",
+      error,
+    );
+    throw error;
+  }
+}
+
 /**
  * Calculates change failure rate (percentage of deployments that fail or require rollback).
  *
  * NOTE: This metric counts both failed deployments (isFailed=true) and rollback deployments
  * (isRollback=true) as failures, following DORA guidelines that any deployment requiring
- * remediation should be counted as a failure.
+ * remediation should be counted as a failure. Rollbacks of a recorded deployment (rollbackOf)
+ * are not counted again: recording them marks the rolled-back deployment as failed.
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
  * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Change failure rate with counts
  *
  * @example
@@ -170,25 +316,31 @@ export async function calculateChangeFailureRate(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  repoName?: string,
+  teamId?: number,
 ): Promise<ChangeFailureRate> {
   try {
     const conditions = [
       gte(deployments.startedAt, startDate),
       lte(deployments.startedAt, endDate),
-      eq(deployments.environment, "production"),
+      isProductionDeployment(),
     ];
 
     if (projectName) {
       conditions.push(eq(deployments.projectName, projectName));
     }
 
+    if (repoName) {
+      conditions.push(eq(deployments.repoName, repoName));
+    }
+
     const result = await db
       .select({
-        failed_count: sql<number>`cast(coalesce(sum(case when ${deployments.isFailed} = true OR ${deployments.isRollback} = true then 1 else 0 end), 0) as integer)`,
+        failed_count: sql<number>`cast(coalesce(sum(case when ${isFailedChange} then 1 else 0 end), 0) as integer)`,
         total_count: sql<number>`cast(count(*) as integer)`,
       })
       .from(deployments)
-      .where(and(...conditions));
+      .where(and(...conditions, teamDeploymentFilter(teamId)));
 
     const row = result[0];
 
@@ -197,7 +349,7 @@ export async function calculateChangeFailureRate(
       row.total_count > 0 ? (row.failed_count / row.total_count) * 100 : 0;
 
     console.log(
-      `[DORA Metrics] Change Failure Rate ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): ${percentage.toFixed(2)}% (${row.failed_count}/${row.total_count})`,
+      `[DORA Metrics] Change Failure Rate ${scopeLabel(projectName, repoName)} (${startDate.toISOString()} to ${endDate.toISOString()}): ${percentage.toFixed(2)}% (${row.failed_count}/${row.total_count})`,
     );
 
     return {
@@ -219,6 +371,7 @@ export async function calculateChangeFailureRate(
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to change failure rates
  *
  * @example
@@ -234,12 +387,13 @@ export async function calculateChangeFailureRate(
 export async function calculateChangeFailureRateByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<Map<string, ChangeFailureRate>> {
   try {
     const result = await db
       .select({
         projectName: deployments.projectName,
-        failed_count: sql<number>`cast(coalesce(sum(case when ${deployments.isFailed} = true OR ${deployments.isRollback} = true then 1 else 0 end), 0) as integer)`,
+        failed_count: sql<number>`cast(coalesce(sum(case when ${isFailedChange} then 1 else 0 end), 0) as integer)`,
         total_count: sql<number>`cast(count(*) as integer)`,
       })
       .from(deployments)
@@ -247,7 +401,8 @@ export async function calculateChangeFailureRateByProject(
         and(
           gte(deployments.startedAt, startDate),
           lte(deployments.startedAt, endDate),
-          eq(deployments.environment, "production"),
+          isProductionDeployment(),
+          teamDeploymentFilter(teamId),
         ),
       )
       .groupBy(deployments.projectName);
@@ -280,6 +435,66 @@ export async function calculateChangeFailureRateByProject(
   }
 }
 
+/**
+ * Calculates change failure rate by repository (service) within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Change failure rates per project and repository
+ */
+export async function calculateChangeFailureRateByRepo(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<RepoMetric<ChangeFailureRate>[]> {
+  try {
+    const conditions = [
+      gte(deployments.startedAt, startDate),
+      lte(deployments.startedAt, endDate),
+      isProductionDeployment(),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(deployments.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        projectName: deployments.projectName,
+        repoName: deployments.repoName,
+        failed_count: sql<number>`cast(coalesce(sum(case when ${isFailedChange} then 1 else 0 end), 0) as integer)`,
+        total_count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(deployments)
+      .where(and(...conditions, teamDeploymentFilter(teamId)))
+      .groupBy(deployments.projectName, deployments.repoName)
+      .orderBy(deployments.projectName, deployments.repoName);
+
+    console.log(
+      `[DORA Metrics] Calculated change failure rate for ${result.length} repositories`,
+    );
+
+    return result.map((row) => ({
+      projectName: row.projectName,
+      repoName: row.repoName,
+      // Calculate percentage (handle division by zero)
+      percentage:
+        row.total_count > 0 ? (row.failed_count / row.total_count) * 100 : 0,
+      failed_count: row.failed_count,
+      total_count: row.total_count,
+    }));
+  } catch (error) {
+    console.error(
+      "[DORA Metrics] Error calculating change failure rate by repository:",
+      error,
+    );
+    throw error;
+  }
+}
+
 /**
  * Calculates lead time for changes (time from PR creation to production deployment).
  *
@@ -293,6 +508,8 @@ export async function calculateChangeFailureRateByProject(
  * @param startDate - Start of time window (inclusive, filters by deployment startedAt)
  * @param endDate - End of time window (inclusive, filters by deployment startedAt)
  * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Percentile metrics in hours
  *
  * @example
@@ -307,6 +524,8 @@ export async function calculateLeadTimeForChanges(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  repoName?: string,
+  teamId?: number,
 ): Promise<{
   p50_hours: number | null;
   p90_hours: number | null;
@@ -316,7 +535,7 @@ export async function calculateLeadTimeForChanges(
     const conditions = [
       gte(deployments.startedAt, startDate),
       lte(deployments.startedAt, endDate),
-      eq(deployments.environment, "production"),
+      isProductionDeployment(),
       eq(deployments.status, "success"),
       // Only deployments with related PRs
       sql`jsonb_array_length(${deployments.relatedPRs}::jsonb) > 0`,
@@ -326,6 +545,10 @@ export async function calculateLeadTimeForChanges(
       conditions.push(eq(deployments.projectName, projectName));
     }
 
+    if (repoName) {
+      conditions.push(eq(deployments.repoName, repoName));
+    }
+
     // Use CROSS JOIN LATERAL to unnest the JSONB array and join with pull_requests
     const result = await db
       .select({
@@ -338,7 +561,7 @@ export async function calculateLeadTimeForChanges(
         count: sql<number>`cast(count(*) as integer)`,
       })
       .from(deployments)
-      .where(and(...conditions))
+      .where(and(...conditions, teamDeploymentFilter(teamId)))
       // Lateral join to unnest relatedPRs JSONB array
       .innerJoin(
         sql`LATERAL jsonb_array_elements_text(${deployments.relatedPRs}::jsonb) AS pr_num(value)`,
@@ -357,7 +580,7 @@ export async function calculateLeadTimeForChanges(
     const p90_hours = row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null;
 
     console.log(
-      `[DORA Metrics] Lead Time for Changes ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): p50=${p50_hours?.toFixed(2)}h, p90=${p90_hours?.toFixed(2)}h, count=${row.count}`,
+      `[DORA Metrics] Lead Time for Changes ${scopeLabel(projectName, repoName)} (${startDate.toISOString()} to ${endDate.toISOString()}): p50=${p50_hours?.toFixed(2)}h, p90=${p90_hours?.toFixed(2)}h, count=${row.count}`,
     );
 
     return {
@@ -379,6 +602,7 @@ export async function calculateLeadTimeForChanges(
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to percentile metrics
  *
  * @example
@@ -394,6 +618,7 @@ export async function calculateLeadTimeForChanges(
 export async function calculateLeadTimeForChangesByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<
   Map<
     string,
@@ -417,9 +642,10 @@ export async function calculateLeadTimeForChangesByProject(
         and(
           gte(deployments.startedAt, startDate),
           lte(deployments.startedAt, endDate),
-          eq(deployments.environment, "production"),
+          isProductionDeployment(),
           eq(deployments.status, "success"),
           sql`jsonb_array_length(${deployments.relatedPRs}::jsonb) > 0`,
+          teamDeploymentFilter(teamId),
         ),
       )
       // Lateral join to unnest relatedPRs JSONB array
@@ -465,31 +691,108 @@ export async function calculateLeadTimeForChangesByProject(
 }
 
 /**
- * Calculates Mean Time to Recovery (MTTR) for failed deployments.
+ * Calculates lead time for changes by repository (service) within a time window.
  *
- * MTTR measures the time from when a deployment fails to when service is restored
- * (via recovery or rollback). This requires the recoveredAt field to be populated.
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics per project and repository
+ */
+export async function calculateLeadTimeForChangesByRepo(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<RepoMetric<PercentileMetric>[]> {
+  try {
+    const conditions = [
+      gte(deployments.startedAt, startDate),
+      lte(deployments.startedAt, endDate),
+      isProductionDeployment(),
+      eq(deployments.status, "success"),
+      sql`jsonb_array_length(${deployments.relatedPRs}::jsonb) > 0`,
+    ];
+
+    if (projectName) {
+      conditions.push(eq(deployments.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        projectName: deployments.projectName,
+        repoName: deployments.repoName,
+        p50_ms: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by extract(epoch from (${deployments.completedAt} - ${pullRequests.createdAt})) * 1000)`,
+        p90_ms: sql<
+          number | null
+        >`percentile_cont(0.9) within group (order by extract(epoch from (${deployments.completedAt} - ${pullRequests.createdAt})) * 1000)`,
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(deployments)
+      .where(and(...conditions, teamDeploymentFilter(teamId)))
+      // Lateral join to unnest relatedPRs JSONB array
+      .innerJoin(
+        sql`LATERAL jsonb_array_elements_text(${deployments.relatedPRs}::jsonb) AS pr_num(value)`,
+        sql`true`,
+      )
+      // Join with pull_requests table on prNumber
+      .innerJoin(
+        pullRequests,
+        sql`${pullRequests.prNumber}::text = pr_num.value AND ${pullRequests.projectName} = ${deployments.projectName}`,
+      )
+      .groupBy(deployments.projectName, deployments.repoName)
+      .orderBy(deployments.projectName, deployments.repoName);
+
+    console.log(
+      `[DORA Metrics] Calculated lead time for changes for ${result.length} repositories`,
+    );
+
+    return result.map((row) => ({
+      projectName: row.projectName,
+      repoName: row.repoName,
+      p50_hours: row.p50_ms ? row.p50_ms / (1000 * 60 * 60) : null,
+      p90_hours: row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null,
+      count: row.count,
+    }));
+  } catch (error) {
+    console.error(
+      "[DORA Metrics] Error calculating lead time for changes by repository:",
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Calculates deployment-based Mean Time to Recovery for failed deployments.
  *
- * NOTE: This metric is in early stages and requires incident management workflow to
- * populate recoveredAt timestamps. Until then, expect low counts or null results.
+ * Measures the time from when a deployment fails to when service is restored
+ * (via recovery or rollback). This requires the recoveredAt field to be populated.
+ * Used by calculateMTTR as the fallback when no incidents were resolved.
  *
  * @param startDate - Start of time window (inclusive, filters by deployment startedAt)
  * @param endDate - End of time window (inclusive, filters by deployment startedAt)
  * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Percentile metrics in hours
  *
  * @example
- * const mttr = await calculateMTTR(
+ * const mttr = await calculateDeploymentMTTR(
  *   new Date("2025-01-06T00:00:00Z"),
  *   new Date("2025-01-12T23:59:59Z"),
  *   "my-project"
  * );
  * // Returns: { p50_hours: 2.5, p90_hours: 6.0, count: 3 }
  */
-export async function calculateMTTR(
+export async function calculateDeploymentMTTR(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  repoName?: string,
+  teamId?: number,
 ): Promise<{
   p50_hours: number | null;
   p90_hours: number | null;
@@ -499,7 +802,7 @@ export async function calculateMTTR(
     const conditions = [
       gte(deployments.startedAt, startDate),
       lte(deployments.startedAt, endDate),
-      eq(deployments.environment, "production"),
+      isProductionDeployment(),
       eq(deployments.isFailed, true),
       isNotNull(deployments.recoveredAt),
       isNotNull(deployments.completedAt),
@@ -509,6 +812,10 @@ export async function calculateMTTR(
       conditions.push(eq(deployments.projectName, projectName));
     }
 
+    if (repoName) {
+      conditions.push(eq(deployments.repoName, repoName));
+    }
+
     const result = await db
       .select({
         p50_ms: sql<
@@ -520,7 +827,7 @@ export async function calculateMTTR(
         count: sql<number>`cast(count(*) as integer)`,
       })
       .from(deployments)
-      .where(and(...conditions));
+      .where(and(...conditions, teamDeploymentFilter(teamId)));
 
     const row = result[0];
 
@@ -529,7 +836,7 @@ export async function calculateMTTR(
     const p90_hours = row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null;
 
     console.log(
-      `[DORA Metrics] MTTR ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): p50=${p50_hours?.toFixed(2)}h, p90=${p90_hours?.toFixed(2)}h, count=${row.count}`,
+      `[DORA Metrics] MTTR ${scopeLabel(projectName, repoName)} (${startDate.toISOString()} to ${endDate.toISOString()}): p50=${p50_hours?.toFixed(2)}h, p90=${p90_hours?.toFixed(2)}h, count=${row.count}`,
     );
 
     return {
@@ -544,14 +851,15 @@ export async function calculateMTTR(
 }
 
 /**
- * Calculates MTTR by project for all projects within a time window.
+ * Calculates deployment-based MTTR by project for all projects within a time window.
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to percentile metrics
  *
  * @example
- * const mttrs = await calculateMTTRByProject(
+ * const mttrs = await calculateDeploymentMTTRByProject(
  *   new Date("2025-01-06T00:00:00Z"),
  *   new Date("2025-01-12T23:59:59Z")
  * );
@@ -560,9 +868,10 @@ export async function calculateMTTR(
  * //   "project-b" => { p50_hours: 3.0, p90_hours: 8.0, count: 1 }
  * // }
  */
-export async function calculateMTTRByProject(
+export async function calculateDeploymentMTTRByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<
   Map<
     string,
@@ -586,10 +895,11 @@ export async function calculateMTTRByProject(
         and(
           gte(deployments.startedAt, startDate),
           lte(deployments.startedAt, endDate),
-          eq(deployments.environment, "production"),
+          isProductionDeployment(),
           eq(deployments.isFailed, true),
           isNotNull(deployments.recoveredAt),
           isNotNull(deployments.completedAt),
+          teamDeploymentFilter(teamId),
         ),
       )
       .groupBy(deployments.projectName);
@@ -620,3 +930,476 @@ export async function calculateMTTRByProject(
     throw error;
   }
 }
+
+/**
+ * Calculates deployment-based MTTR by repository (service) within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics per project and repository
+ */
+export async function calculateDeploymentMTTRByRepo(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<RepoMetric<PercentileMetric>[]> {
+  try {
+    const conditions = [
+      gte(deployments.startedAt, startDate),
+      lte(deployments.startedAt, endDate),
+      isProductionDeployment(),
+      eq(deployments.isFailed, true),
+      isNotNull(deployments.recoveredAt),
+      isNotNull(deployments.completedAt),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(deployments.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        projectName: deployments.projectName,
+        repoName: deployments.repoName,
+        p50_ms: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by extract(epoch from (${deployments.recoveredAt} - ${deployments.completedAt})) * 1000)`,
+        p90_ms: sql<
+          number | null
+        >`percentile_cont(0.9) within group (order by extract(epoch from (${deployments.recoveredAt} - ${deployments.completedAt})) * 1000)`,
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(deployments)
+      .where(and(...conditions, teamDeploymentFilter(teamId)))
+      .groupBy(deployments.projectName, deployments.repoName)
+      .orderBy(deployments.projectName, deployments.repoName);
+
+    console.log(
+      `[DORA Metrics] Calculated MTTR for ${result.length} repositories`,
+    );
+
+    return result.map((row) => ({
+      projectName: row.projectName,
+      repoName: row.repoName,
+      p50_hours: row.p50_ms ? row.p50_ms / (1000 * 60 * 60) : null,
+      p90_hours: row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null,
+      count: row.count,
+    }));
+  } catch (error) {
+    console.error(
+      "[DORA Metrics] Error calculating MTTR by repository:",
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Calculates incident-based Mean Time to Recovery for resolved incidents.
+ *
+ * Measures the time from when an incident is opened to when it is resolved.
+ * Incidents still open (or only mitigated) are excluded.
+ *
+ * @param startDate - Start of time window (inclusive, filters by incident openedAt)
+ * @param endDate - End of time window (inclusive, filters by incident openedAt)
+ * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics in hours
+ *
+ * @example
+ * const mttr = await calculateIncidentMTTR(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z"),
+ *   "my-project"
+ * );
+ * // Returns: { p50_hours: 1.5, p90_hours: 4.0, count: 4 }
+ */
+export async function calculateIncidentMTTR(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  repoName?: string,
+  teamId?: number,
+): Promise<PercentileMetric> {
+  try {
+    const conditions = [
+      gte(incidents.openedAt, startDate),
+      lte(incidents.openedAt, endDate),
+      isNotNull(incidents.resolvedAt),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(incidents.projectName, projectName));
+    }
+
+    // Incidents are attributed to a repository through their causing deployment
+    if (repoName) {
+      conditions.push(
+        inArray(
+          incidents.deploymentId,
+          db
+            .select({ deploymentId: deployments.deploymentId })
+            .from(deployments)
+            .where(eq(deployments.repoName, repoName)),
+        ),
+      );
+    }
+
+    const result = await db
+      .select({
+        p50_ms: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by extract(epoch from (${incidents.resolvedAt} - ${incidents.openedAt})) * 1000)`,
+        p90_ms: sql<
+          number | null
+        >`percentile_cont(0.9) within group (order by extract(epoch from (${incidents.resolvedAt} - ${incidents.openedAt})) * 1000)`,
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(incidents)
+      .where(and(...conditions, teamIncidentFilter(teamId)));
+
+    const row = result[0];
+
+    // Convert milliseconds to hours
+    const p50_hours = row.p50_ms ? row.p50_ms / (1000 * 60 * 60) : null;
+    const p90_hours = row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null;
+
+    console.log(
+      `[DORA Metrics] Incident MTTR ${scopeLabel(projectName, repoName)} (${startDate.toISOString()} to ${endDate.toISOString()}): p50=${p50_hours?.toFixed(2)}h, p90=${p90_hours?.toFixed(2)}h, count=${row.count}`,
+    );
+
+    return {
+      p50_hours,
+      p90_hours,
+      count: row.count,
+    };
+  } catch (error) {
+    console.error("[DORA Metrics] Error calculating incident MTTR:", error);
+    throw error;
+  }
+}
+
+/**
+ * Calculates incident-based MTTR by project for all projects within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Map of project names to percentile metrics
+ */
+export async function calculateIncidentMTTRByProject(
+  startDate: Date,
+  endDate: Date,
+  teamId?: number,
+): Promise<Map<string, PercentileMetric>> {
+  try {
+    const result = await db
+      .select({
+        projectName: incidents.projectName,
+        p50_ms: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by extract(epoch from (${incidents.resolvedAt} - ${incidents.openedAt})) * 1000)`,
+        p90_ms: sql<
+          number | null
+        >`percentile_cont(0.9) within group (order by extract(epoch from (${incidents.resolvedAt} - ${incidents.openedAt})) * 1000)`,
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(incidents)
+      .where(
+        and(
+          gte(incidents.openedAt, startDate),
+          lte(incidents.openedAt, endDate),
+          isNotNull(incidents.resolvedAt),
+          teamIncidentFilter(teamId),
+        ),
+      )
+      .groupBy(incidents.projectName);
+
+    const mttrs = new Map<string, PercentileMetric>();
+
+    for (const row of result) {
+      const p50_hours = row.p50_ms ? row.p50_ms / (1000 * 60 * 60) : null;
+      const p90_hours = row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null;
+
+      mttrs.set(row.projectName, {
+        p50_hours,
+        p90_hours,
+        count: row.count,
+      });
+    }
+
+    console.log(
+      `[DORA Metrics] Calculated incident MTTR for ${mttrs.size} projects`,
+    );
+
+    return mttrs;
+  } catch (error) {
+    console.error(
+      "[DORA Metrics] Error calculating incident MTTR by project:",
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Calculates incident-based MTTR by repository (service) within a time window.
+ *
+ * Incidents are attributed to the repository of the deployment that caused
+ * them; incidents without a (known) deploymentId are not included.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics per project and repository
+ */
+export async function calculateIncidentMTTRByRepo(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<RepoMetric<PercentileMetric>[]> {
+  try {
+    const conditions = [
+      gte(incidents.openedAt, startDate),
+      lte(incidents.openedAt, endDate),
+      isNotNull(incidents.resolvedAt),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(incidents.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        projectName: incidents.projectName,
+        repoName: deployments.repoName,
+        p50_ms: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by extract(epoch from (${incidents.resolvedAt} - ${incidents.openedAt})) * 1000)`,
+        p90_ms: sql<
+          number | null
+        >`percentile_cont(0.9) within group (order by extract(epoch from (${incidents.resolvedAt} - ${incidents.openedAt})) * 1000)`,
+        count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(incidents)
+      .innerJoin(
+        deployments,
+        eq(incidents.deploymentId, deployments.deploymentId),
+      )
+      .where(and(...conditions, teamIncidentFilter(teamId)))
+      .groupBy(incidents.projectName, deployments.repoName)
+      .orderBy(incidents.projectName, deployments.repoName);
+
+    console.log(
+      `[DORA Metrics] Calculated incident MTTR for ${result.length} repositories`,
+    );
+
+    return result.map((row) => ({
+      projectName: row.projectName,
+      repoName: row.repoName,
+      p50_hours: row.p50_ms ? row.p50_ms / (1000 * 60 * 60) : null,
+      p90_hours: row.p90_ms ? row.p90_ms / (1000 * 60 * 60) : null,
+      count: row.count,
+    }));
+  } catch (error) {
+    console.error(
+      "[DORA Metrics] Error calculating incident MTTR by repository:",
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Calculates Mean Time to Recovery (MTTR).
+ *
+ * Uses incident open → resolve times when any incident in the window was
+ * resolved, and falls back to deployment-based MTTR (failed deployment →
+ * recoveredAt) otherwise. `source` reports which one was used.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics in hours with their source
+ *
+ * @example
+ * const mttr = await calculateMTTR(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z"),
+ *   "my-project"
+ * );
+ * // Returns: { p50_hours: 1.5, p90_hours: 4.0, count: 4, source: "incidents" }
+ */
+export async function calculateMTTR(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  repoName?: string,
+  teamId?: number,
+): Promise<MTTRMetric> {
+  const incidentMTTR = await calculateIncidentMTTR(
+    startDate,
+    endDate,
+    projectName,
+    repoName,
+    teamId,
+  );
+
+  if (incidentMTTR.count > 0) {
+    return { ...incidentMTTR, source: "incidents" };
+  }
+
+  const deploymentMTTR = await calculateDeploymentMTTR(
+    startDate,
+    endDate,
+    projectName,
+    repoName,
+    teamId,
+  );
+
+  return { ...deploymentMTTR, source: "deployments" };
+}
+
+/**
+ * Calculates MTTR by project for all projects within a time window.
+ *
+ * Each project uses incident-based MTTR when it has resolved incidents in the
+ * window, and deployment-based MTTR otherwise.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Map of project names to percentile metrics with their source
+ *
+ * @example
+ * const mttrs = await calculateMTTRByProject(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z")
+ * );
+ * // Returns: Map {
+ * //   "project-a" => { p50_hours: 1.5, p90_hours: 4.0, count: 2, source: "incidents" },
+ * //   "project-b" => { p50_hours: 3.0, p90_hours: 8.0, count: 1, source: "deployments" }
+ * // }
+ */
+export async function calculateMTTRByProject(
+  startDate: Date,
+  endDate: Date,
+  teamId?: number,
+): Promise<Map<string, MTTRMetric>> {
+  const [incidentMTTRs, deploymentMTTRs] = await Promise.all([
+    calculateIncidentMTTRByProject(startDate, endDate, teamId),
+    calculateDeploymentMTTRByProject(startDate, endDate, teamId),
+  ]);
+
+  const mttrs = new Map<string, MTTRMetric>();
+
+  for (const [projectName, metric] of deploymentMTTRs) {
+    mttrs.set(projectName, { ...metric, source: "deployments" });
+  }
+
+  // Incident-based MTTR takes precedence wherever it exists
+  for (const [projectName, metric] of incidentMTTRs) {
+    mttrs.set(projectName, { ...metric, source: "incidents" });
+  }
+
+  return mttrs;
+}
+
+/**
+ * Calculates MTTR by repository (service) within a time window.
+ *
+ * Each repository uses incident-based MTTR when incidents caused by its
+ * deployments were resolved in the window, and deployment-based MTTR otherwise.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Percentile metrics with their source per project and repository
+ */
+export async function calculateMTTRByRepo(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<RepoMetric<MTTRMetric>[]> {
+  const [incidentMTTRs, deploymentMTTRs] = await Promise.all([
+    calculateIncidentMTTRByRepo(startDate, endDate, projectName, teamId),
+    calculateDeploymentMTTRByRepo(startDate, endDate, projectName, teamId),
+  ]);
+
+  const mttrs = new Map<string, RepoMetric<MTTRMetric>>();
+
+  for (const metric of deploymentMTTRs) {
+    mttrs.set(repoMetricKey(metric), { ...metric, source: "deployments" });
+  }
+
+  // Incident-based MTTR takes precedence wherever it exists
+  for (const metric of incidentMTTRs) {
+    mttrs.set(repoMetricKey(metric), { ...metric, source: "incidents" });
+  }
+
+  return [...mttrs.values()].sort(compareRepoMetrics);
+}
+
+export interface DORAMetrics {
+  deploymentFrequency: DeploymentFrequency;
+  leadTime: PercentileMetric;
+  changeFailureRate: ChangeFailureRate;
+  mttr: MTTRMetric;
+}
+
+/**
+ * Calculates all four DORA metrics for a project/repository or the whole
+ * organization within a time window.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param repoName - Optional repository (service) filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Deployment frequency, lead time, change failure rate and MTTR
+ */
+export async function calculateDORAMetrics(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  repoName?: string,
+  teamId?: number,
+): Promise<DORAMetrics> {
+  const [deploymentFrequency, leadTime, changeFailureRate, mttr] =
+    await Promise.all([
+      calculateDeploymentFrequency(
+        startDate,
+        endDate,
+        projectName,
+        repoName,
+        teamId,
+      ),
+      calculateLeadTimeForChanges(
+        startDate,
+        endDate,
+        projectName,
+        repoName,
+        teamId,
+      ),
+      calculateChangeFailureRate(
+        startDate,
+        endDate,
+        projectName,
+        repoName,
+        teamId,
+      ),
+      calculateMTTR(startDate, endDate, projectName, repoName, teamId),
+    ]);
+
+  return { deploymentFrequency, leadTime, changeFailureRate, mttr };
+}
@@ -1,17 +1,37 @@
-import { and, eq, gte, lte, sql } from "drizzle-orm";
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
 import { db } from "@/lib/db/client";
-import { ciRuns } from "@/lib/db/schema";
+import { ciRuns, testResults } from "@/lib/db/schema";
+import { inTeamRepositories } from "./team-filters";
 
 /**
  * Flaky Test Metrics Calculation Module
  *
  * Calculates flaky test rate metrics from CI run data
  * - Flaky Test Rate: percentage of CI runs flagged as flaky
+ * - Top Flaky Tests: individual tests ranked by runs in which they flaked
  * - Supports time window filtering
  * - Supports per-project or organization-wide aggregation
  * - Uses medians and percentiles per CLAUDE.md guidelines
  */
 
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A test that both passed and failed on the same commit
+ */
+export interface FlakyTest {
+  testName: string;
+  testSuite: string | null;
+  projectName: string;
+  repoName: string;
+  flakyRuns: number; // Runs in which the test was flagged flaky
+  failedCount: number; // Failed results in the window
+  totalRuns: number; // Runs that executed the test in the window
+  flakeRate: number; // flakyRuns / totalRuns as percentage (0-100)
+}
+
 // ============================================================================
 // Flaky Test Rate Calculation
 // ============================================================================
@@ -23,12 +43,14 @@ import { ciRuns } from "@/lib/db/schema";
  * @param startDate - Start of time window
  * @param endDate - End of time window
  * @param projectName - Optional project filter (omit for organization-wide)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Flaky test rate as percentage (0-100)
  */
 export async function calculateFlakyTestRate(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  teamId?: number,
 ): Promise<number> {
   try {
     // Build where conditions
@@ -49,7 +71,12 @@ export async function calculateFlakyTestRate(
         flakyRuns: sql<number>`cast(sum(case when ${ciRuns.isFlaky} = true then 1 else 0 end) as integer)`,
       })
       .from(ciRuns)
-      .where(and(...conditions));
+      .where(
+        and(
+          ...conditions,
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
+      );
 
     if (!result || result.length === 0 || result[0].totalRuns === 0) {
       return 0;
@@ -77,11 +104,13 @@ export async function calculateFlakyTestRate(
  *
  * @param startDate - Start of time window
  * @param endDate - End of time window
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to flaky test rates
  */
 export async function calculateFlakyTestRateByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<Map<string, number>> {
   try {
     // Query for runs grouped by project
@@ -93,7 +122,11 @@ export async function calculateFlakyTestRateByProject(
       })
       .from(ciRuns)
       .where(
-        and(gte(ciRuns.startedAt, startDate), lte(ciRuns.startedAt, endDate)),
+        and(
+          gte(ciRuns.startedAt, startDate),
+          lte(ciRuns.startedAt, endDate),
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
       )
       .groupBy(ciRuns.projectName);
 
@@ -128,12 +161,14 @@ export async function calculateFlakyTestRateByProject(
  * @param startDate - Start of time window
  * @param endDate - End of time window
  * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Number of flaky runs
  */
 export async function getFlakyRunCount(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  teamId?: number,
 ): Promise<number> {
   try {
     const conditions = [
@@ -151,7 +186,12 @@ export async function getFlakyRunCount(
         count: sql<number>`cast(count(*) as integer)`,
       })
       .from(ciRuns)
-      .where(and(...conditions));
+      .where(
+        and(
+          ...conditions,
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
+      );
 
     return result[0]?.count || 0;
   } catch (error) {
@@ -166,12 +206,14 @@ export async function getFlakyRunCount(
  * @param startDate - Start of time window
  * @param endDate - End of time window
  * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns CI success rate as percentage (0-100)
  */
 export async function getCISuccessRate(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  teamId?: number,
 ): Promise<number> {
   try {
     const conditions = [
@@ -189,7 +231,12 @@ export async function getCISuccessRate(
         successRuns: sql<number>`cast(sum(case when ${ciRuns.conclusion} = 'success' then 1 else 0 end) as integer)`,
       })
       .from(ciRuns)
-      .where(and(...conditions));
+      .where(
+        and(
+          ...conditions,
+          inTeamRepositories(teamId, ciRuns.projectName, ciRuns.repoName),
+        ),
+      );
 
     if (!result || result.length === 0 || result[0].totalRuns === 0) {
       return 0;
@@ -204,3 +251,90 @@ export async function getCISuccessRate(
     throw error;
   }
 }
+
+// ============================================================================
+// Top Flaky Tests
+// ============================================================================
+
+/**
+ * Rank individual tests by the number of runs in which they were flaky
+ *
+ * Only tests flagged by test-level detection (detectFlakyTests) are
+ * returned. Ties are broken by flake rate, then test name.
+ *
+ * @param startDate - Start of time window
+ * @param endDate - End of time window
+ * @param projectName - Optional project filter (omit for organization-wide)
+ * @param limit - Maximum number of tests to return (default: 10)
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Flaky tests, most frequently flaky first
+ */
+export async function getTopFlakyTests(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  limit = 10,
+  teamId?: number,
+): Promise<FlakyTest[]> {
+  try {
+    const conditions = [
+      gte(testResults.startedAt, startDate),
+      lte(testResults.startedAt, endDate),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(testResults.projectName, projectName));
+    }
+
+    const flakyRuns = sql<number>`cast(count(distinct ${testResults.runId}) filter (where ${testResults.isFlaky} = true) as integer)`;
+    const totalRuns = sql<number>`cast(count(distinct ${testResults.runId}) as integer)`;
+
+    const result = await db
+      .select({
+        testName: testResults.testName,
+        testSuite: sql<string | null>`max(${testResults.testSuite})`,
+        projectName: testResults.projectName,
+        repoName: testResults.repoName,
+        flakyRuns,
+        failedCount: sql<number>`cast(count(*) filter (where ${testResults.outcome} = 'failed') as integer)`,
+        totalRuns,
+      })
+      .from(testResults)
+      .where(
+        and(
+          ...conditions,
+          inTeamRepositories(
+            teamId,
+            testResults.projectName,
+            testResults.repoName,
+          ),
+        ),
+      )
+      .groupBy(
+        testResults.testName,
+        testResults.projectName,
+        testResults.repoName,
+      )
+      .having(sql`bool_or(${testResults.isFlaky})`)
+      .orderBy(
+        desc(flakyRuns),
+        desc(sql`${flakyRuns}::float / ${totalRuns}`),
+        testResults.testName,
+      )
+      .limit(limit);
+
+    const tests = result.map((row) => ({
+      ...row,
+      flakeRate: Math.round((row.flakyRuns / row.totalRuns) * 10000) / 100,
+    }));
+
+    console.log(
+      `[Flaky Metrics] ${projectName || "Organization"}: ${tests.length} flaky tests ranked`,
+    );
+
+    return tests;
+  } catch (error) {
+    console.error(`[Flaky Metrics] Error getting top flaky tests:`, error);
+    throw error;
+  }
+}
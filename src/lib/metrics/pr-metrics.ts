@@ -5,13 +5,31 @@
  * Metrics:
  * - PR Cycle Time: Time from PR creation to merge (mergedAt - createdAt)
  * - PR Review Wait Time: Time from PR creation to first review (firstReviewAt - createdAt)
+ * - Merged by Midweek: % of PRs opened Monday-Tuesday merged by Wednesday EOD
+ *   (cut-off day configurable)
+ * - Blocked PRs: open PRs labelled as blocked or waiting for a first review for
+ *   more than 3 days (a list, not an aggregate)
  *
- * All metrics exclude draft PRs and return results in hours.
+ * All metrics exclude draft PRs and bot PRs (pull_requests.isBot, see
+ * identities) and return results in hours.
  */
 
-import { and, eq, gte, isNotNull, lte, sql } from "drizzle-orm";
+import {
+  and,
+  asc,
+  eq,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm";
 import { db } from "@/lib/db/client";
 import { pullRequests } from "@/lib/db/schema";
+import { getWeekBoundaries } from "@/lib/utils/week";
+import { teamPullRequestFilter } from "./team-filters";
 
 export interface PercentileMetric {
   p50_hours: number | null;
@@ -42,6 +60,7 @@ export interface PRSizeDistribution {
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
  * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Percentile metrics in hours
  *
  * @example
@@ -56,6 +75,7 @@ export async function calculatePRCycleTime(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  teamId?: number,
 ): Promise<PercentileMetric> {
   try {
     const conditions = [
@@ -63,6 +83,7 @@ export async function calculatePRCycleTime(
       lte(pullRequests.createdAt, endDate),
       isNotNull(pullRequests.mergedAt),
       eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
     ];
 
     if (projectName) {
@@ -80,7 +101,7 @@ export async function calculatePRCycleTime(
         count: sql<number>`cast(count(*) as integer)`,
       })
       .from(pullRequests)
-      .where(and(...conditions));
+      .where(and(...conditions, teamPullRequestFilter(teamId)));
 
     const row = result[0];
 
@@ -113,6 +134,7 @@ export async function calculatePRCycleTime(
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
  * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Percentile metrics in hours
  *
  * @example
@@ -126,6 +148,7 @@ export async function calculatePRReviewWaitTime(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  teamId?: number,
 ): Promise<PercentileMetric> {
   try {
     const conditions = [
@@ -133,6 +156,7 @@ export async function calculatePRReviewWaitTime(
       lte(pullRequests.createdAt, endDate),
       isNotNull(pullRequests.firstReviewAt),
       eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
     ];
 
     if (projectName) {
@@ -150,7 +174,7 @@ export async function calculatePRReviewWaitTime(
         count: sql<number>`cast(count(*) as integer)`,
       })
       .from(pullRequests)
-      .where(and(...conditions));
+      .where(and(...conditions, teamPullRequestFilter(teamId)));
 
     const row = result[0];
 
@@ -178,6 +202,7 @@ export async function calculatePRReviewWaitTime(
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to percentile metrics
  *
  * @example
@@ -193,6 +218,7 @@ export async function calculatePRReviewWaitTime(
 export async function calculatePRCycleTimeByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<Map<string, PercentileMetric>> {
   try {
     const result = await db
@@ -213,6 +239,8 @@ export async function calculatePRCycleTimeByProject(
           lte(pullRequests.createdAt, endDate),
           isNotNull(pullRequests.mergedAt),
           eq(pullRequests.isDraft, false),
+          eq(pullRequests.isBot, false),
+          teamPullRequestFilter(teamId),
         ),
       )
       .groupBy(pullRequests.projectName);
@@ -249,6 +277,7 @@ export async function calculatePRCycleTimeByProject(
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to percentile metrics
  *
  * @example
@@ -264,6 +293,7 @@ export async function calculatePRCycleTimeByProject(
 export async function calculatePRReviewWaitTimeByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<Map<string, PercentileMetric>> {
   try {
     const result = await db
@@ -284,6 +314,8 @@ export async function calculatePRReviewWaitTimeByProject(
           lte(pullRequests.createdAt, endDate),
           isNotNull(pullRequests.firstReviewAt),
           eq(pullRequests.isDraft, false),
+          eq(pullRequests.isBot, false),
+          teamPullRequestFilter(teamId),
         ),
       )
       .groupBy(pullRequests.projectName);
@@ -323,6 +355,7 @@ export async function calculatePRReviewWaitTimeByProject(
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
  * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Distribution with counts and percentages for each bucket
  *
  * @example
@@ -340,6 +373,7 @@ export async function calculatePRSizeDistribution(
   startDate: Date,
   endDate: Date,
   projectName?: string,
+  teamId?: number,
 ): Promise<PRSizeDistribution> {
   try {
     const conditions = [
@@ -347,6 +381,7 @@ export async function calculatePRSizeDistribution(
       lte(pullRequests.createdAt, endDate),
       isNotNull(pullRequests.mergedAt),
       eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
     ];
 
     if (projectName) {
@@ -363,7 +398,7 @@ export async function calculatePRSizeDistribution(
         total: sql<number>`cast(count(*) as integer)`,
       })
       .from(pullRequests)
-      .where(and(...conditions));
+      .where(and(...conditions, teamPullRequestFilter(teamId)));
 
     const row = result[0];
 
@@ -403,6 +438,7 @@ export async function calculatePRSizeDistribution(
  *
  * @param startDate - Start of time window (inclusive)
  * @param endDate - End of time window (inclusive)
+ * @param teamId - Optional team filter (see team-filters.ts)
  * @returns Map of project names to size distributions
  *
  * @example
@@ -418,6 +454,7 @@ export async function calculatePRSizeDistribution(
 export async function calculatePRSizeDistributionByProject(
   startDate: Date,
   endDate: Date,
+  teamId?: number,
 ): Promise<Map<string, PRSizeDistribution>> {
   try {
     const result = await db
@@ -437,6 +474,8 @@ export async function calculatePRSizeDistributionByProject(
           lte(pullRequests.createdAt, endDate),
           isNotNull(pullRequests.mergedAt),
           eq(pullRequests.isDraft, false),
+          eq(pullRequests.isBot, false),
+          teamPullRequestFilter(teamId),
         ),
       )
       .groupBy(pullRequests.projectName);
@@ -477,3 +516,244 @@ export async function calculatePRSizeDistributionByProject(
     throw error;
   }
 }
+
+// ============================================================================
+// Merged by midweek
+// ============================================================================
+
+export const WEEKDAYS = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Default cut-off day of the "merged by Wednesday" metric
+ */
+export const DEFAULT_MIDWEEK_CUTOFF_DAY: Weekday = "wednesday";
+
+export interface MergedByMidweekMetric {
+  percentage: number | null; // null when no PRs were opened before the cut-off day
+  merged_count: number;
+  opened_count: number;
+  cutoffDay: Weekday;
+  cutoffDate: Date; // End of the cut-off day (UTC)
+}
+
+/**
+ * Calculates the percentage of PRs opened early in the week (Monday up to
+ * the day before the cut-off day) that were merged by the end of the
+ * cut-off day. With the default Wednesday cut-off: PRs opened Mon-Tue
+ * merged by Wednesday EOD. Days follow the UTC week boundaries.
+ *
+ * @param week - ISO 8601 week identifier (e.g., "2025-W02")
+ * @param cutoffDay - Cut-off day, Tuesday to Sunday (default: Wednesday)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Merged percentage and counts
+ * @throws Error if the week identifier is invalid or the cut-off day is Monday
+ *
+ * @example
+ * const metric = await calculateMergedByMidweek("2025-W02", "wednesday", "my-project");
+ * // Returns: { percentage: 75, merged_count: 15, opened_count: 20, cutoffDay: "wednesday", cutoffDate: 2025-01-08T23:59:59.999Z }
+ */
+export async function calculateMergedByMidweek(
+  week: string,
+  cutoffDay: Weekday = DEFAULT_MIDWEEK_CUTOFF_DAY,
+  projectName?: string,
+  teamId?: number,
+): Promise<MergedByMidweekMetric> {
+  const cutoffIndex = WEEKDAYS.indexOf(cutoffDay);
+  if (cutoffIndex < 1) {
+    throw new Error(
+      `Invalid cut-off day: ${cutoffDay}. Cut-off day must be between tuesday and sunday.`,
+    );
+  }
+
+  const { startDate } = getWeekBoundaries(week);
+  const dayMs = 24 * 60 * 60 * 1000;
+  const cutoffStart = new Date(startDate.getTime() + cutoffIndex * dayMs);
+  const cutoffDate = new Date(cutoffStart.getTime() + dayMs - 1);
+
+  try {
+    const conditions = [
+      gte(pullRequests.createdAt, startDate),
+      lt(pullRequests.createdAt, cutoffStart),
+      eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(pullRequests.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        opened_count: sql<number>`cast(count(*) as integer)`,
+        merged_count: sql<number>`cast(coalesce(sum(case when ${lte(pullRequests.mergedAt, cutoffDate)} then 1 else 0 end), 0) as integer)`,
+      })
+      .from(pullRequests)
+      .where(and(...conditions, teamPullRequestFilter(teamId)));
+
+    const row = result[0];
+
+    // Calculate percentage (no PRs opened means nothing to measure)
+    const percentage =
+      row.opened_count > 0 ? (row.merged_count / row.opened_count) * 100 : null;
+
+    console.log(
+      `[PR Metrics] Merged by ${cutoffDay} ${projectName || "Organization"} (${week}): ${percentage === null ? "N/A" : `${percentage.toFixed(2)}%`} (${row.merged_count}/${row.opened_count})`,
+    );
+
+    return {
+      percentage,
+      merged_count: row.merged_count,
+      opened_count: row.opened_count,
+      cutoffDay,
+      cutoffDate,
+    };
+  } catch (error) {
+    console.error("[PR Metrics] Error calculating merged by midweek:", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Blocked PRs
+// ============================================================================
+
+/**
+ * Open PRs without a review for longer than this are reported as blocked
+ */
+export const BLOCKED_PR_STALE_DAYS = 3;
+
+/**
+ * Why a PR is reported as blocked:
+ * - label: has a label containing "blocked" (e.g. "blocked", "Blocked-by-infra")
+ * - no-review: open for more than BLOCKED_PR_STALE_DAYS without a review
+ */
+export type BlockedReason = "label" | "no-review";
+
+export interface BlockedPullRequest {
+  prNumber: number;
+  title: string;
+  author: string;
+  orgName: string;
+  projectName: string;
+  repoName: string;
+  labels: string[];
+  createdAt: Date;
+  ageHours: number; // Time since PR creation
+  reason: BlockedReason; // "label" when both apply
+  url: string; // Pull request page on its source (Azure DevOps or GitHub)
+}
+
+/**
+ * Builds the web URL of a pull request on its source
+ *
+ * @example
+ * getPullRequestUrl({ source: "azure-devops", orgName: "acme", projectName: "Shop", repoName: "billing", prNumber: 42 })
+ * // Returns: "https://dev.azure.com/acme/Shop/_git/billing/pullrequest/42"
+ * getPullRequestUrl({ source: "github", orgName: "acme", projectName: "billing", repoName: "billing", prNumber: 42 })
+ * // Returns: "https://github.com/acme/billing/pull/42"
+ */
+export function getPullRequestUrl(pr: {
+  source: string;
+  orgName: string;
+  projectName: string;
+  repoName: string;
+  prNumber: number;
+}): string {
+  if (pr.source === "github") {
+    return `https://github.com/${encodeURIComponent(pr.orgName)}/${encodeURIComponent(pr.repoName)}/pull/${pr.prNumber}`;
+  }
+
+  return `https://dev.azure.com/${encodeURIComponent(pr.orgName)}/${encodeURIComponent(pr.projectName)}/_git/${encodeURIComponent(pr.repoName)}/pullrequest/${pr.prNumber}`;
+}
+
+/**
+ * Lists open PRs that are blocked: labelled as blocked, or open for more than
+ * BLOCKED_PR_STALE_DAYS without a review. Draft and bot PRs are excluded.
+ *
+ * @param asOf - Point in time to evaluate (default: now)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Blocked PRs, oldest first
+ *
+ * @example
+ * const blocked = await getBlockedPullRequests(new Date(), "my-project");
+ * // Returns: [{ prNumber: 42, author: "Jane Doe", ageHours: 96, reason: "no-review", ... }]
+ */
+export async function getBlockedPullRequests(
+  asOf: Date = new Date(),
+  projectName?: string,
+  teamId?: number,
+): Promise<BlockedPullRequest[]> {
+  try {
+    const staleBefore = new Date(
+      asOf.getTime() - BLOCKED_PR_STALE_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const hasBlockedLabel = sql<boolean>`exists (select 1 from jsonb_array_elements_text(coalesce(${pullRequests.labels}, '[]'::jsonb)) as label where lower(label) like '%blocked%')`;
+
+    const conditions = [
+      eq(pullRequests.state, "open"),
+      lte(pullRequests.createdAt, asOf),
+      eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
+      or(
+        hasBlockedLabel,
+        and(
+          lte(pullRequests.createdAt, staleBefore),
+          isNull(pullRequests.firstReviewAt),
+        ),
+      ),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(pullRequests.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        prNumber: pullRequests.prNumber,
+        title: pullRequests.title,
+        author: pullRequests.author,
+        orgName: pullRequests.orgName,
+        projectName: pullRequests.projectName,
+        repoName: pullRequests.repoName,
+        labels: pullRequests.labels,
+        createdAt: pullRequests.createdAt,
+        source: pullRequests.source,
+        hasBlockedLabel,
+      })
+      .from(pullRequests)
+      .where(and(...conditions, teamPullRequestFilter(teamId)))
+      .orderBy(asc(pullRequests.createdAt), asc(pullRequests.prNumber));
+
+    const blocked = result.map(
+      ({ hasBlockedLabel, labels, source, ...pr }): BlockedPullRequest => ({
+        ...pr,
+        labels: Array.isArray(labels) ? labels : [],
+        ageHours: (asOf.getTime() - pr.createdAt.getTime()) / (1000 * 60 * 60),
+        reason: hasBlockedLabel ? "label" : "no-review",
+        url: getPullRequestUrl({ ...pr, source }),
+      }),
+    );
+
+    console.log(
+      `[PR Metrics] Blocked PRs ${projectName || "Organization"} (as of ${asOf.toISOString()}): ${blocked.length}`,
+    );
+
+    return blocked;
+  } catch (error) {
+    console.error("[PR Metrics] Error listing blocked PRs:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Reviewer Metrics Calculation
+ * Calculates reviewer SLA and reviewer load from pr_reviews.
+ *
+ * Metrics:
+ * - Reviewer SLA: % of review requests answered within 24 hours of PR creation
+ * - Reviewer Load: distribution of reviews per reviewer (counter-metric for
+ *   review wait time)
+ *
+ * A reviewer's response is their first vote or comment, whichever came
+ * first. Results are aggregates only: reviewer names are never returned, so
+ * the metrics cannot be used to rank individuals.
+ *
+ * All metrics exclude bot reviewers and draft or bot PRs (see identities).
+ */
+
+import { and, eq, gte, lte, sql } from "drizzle-orm";
+import { db } from "@/lib/db/client";
+import { prReviews, pullRequests } from "@/lib/db/schema";
+import { teamPullRequestFilter } from "./team-filters";
+
+/**
+ * Review requests answered within this time count towards the SLA
+ */
+export const REVIEWER_SLA_HOURS = 24;
+
+export interface ReviewerSLAMetric {
+  percentage: number | null; // null when there were no review requests
+  within_sla_count: number;
+  total_count: number;
+  sla_hours: number;
+}
+
+export interface ReviewerLoadDistribution {
+  reviewer_count: number;
+  review_count: number;
+  p50_reviews: number | null;
+  p90_reviews: number | null;
+  max_reviews: number | null;
+  // Number of reviewers per review count, ascending by reviews
+  distribution: Array<{ reviews: number; reviewers: number }>;
+}
+
+// First response of a reviewer (least() ignores nulls)
+const respondedAt = sql`least(${prReviews.votedAt}, ${prReviews.firstCommentAt})`;
+
+// Reviews of the PR they belong to
+const reviewedPullRequest = and(
+  eq(prReviews.projectName, pullRequests.projectName),
+  eq(prReviews.repoName, pullRequests.repoName),
+  eq(prReviews.prNumber, pullRequests.prNumber),
+);
+
+/**
+ * Calculates reviewer SLA: the percentage of review requests on PRs created
+ * within a time window that were answered within REVIEWER_SLA_HOURS of PR
+ * creation. Requests are left out while their SLA window is still running at
+ * asOf, answered or not, so recent PRs do not skew the percentage; after
+ * that, unanswered requests count as missed.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @param asOf - Point in time to evaluate SLA windows at (default: now)
+ * @returns SLA percentage and counts
+ *
+ * @example
+ * const sla = await calculateReviewerSLA(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z"),
+ *   "my-project"
+ * );
+ * // Returns: { percentage: 85, within_sla_count: 34, total_count: 40, sla_hours: 24 }
+ */
+export async function calculateReviewerSLA(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+  asOf: Date = new Date(),
+): Promise<ReviewerSLAMetric> {
+  try {
+    const slaExpiredBefore = new Date(
+      asOf.getTime() - REVIEWER_SLA_HOURS * 60 * 60 * 1000,
+    );
+
+    const conditions = [
+      gte(pullRequests.createdAt, startDate),
+      lte(pullRequests.createdAt, endDate),
+      eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
+      eq(prReviews.isBot, false),
+      lte(pullRequests.createdAt, slaExpiredBefore),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(pullRequests.projectName, projectName));
+    }
+
+    const result = await db
+      .select({
+        within_sla_count: sql<number>`cast(coalesce(sum(case when ${respondedAt} <= ${pullRequests.createdAt} + make_interval(hours => ${REVIEWER_SLA_HOURS}) then 1 else 0 end), 0) as integer)`,
+        total_count: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(prReviews)
+      .innerJoin(pullRequests, reviewedPullRequest)
+      .where(and(...conditions, teamPullRequestFilter(teamId)));
+
+    const row = result[0];
+
+    // Calculate percentage (no review requests means nothing to measure)
+    const percentage =
+      row.total_count > 0
+        ? (row.within_sla_count / row.total_count) * 100
+        : null;
+
+    console.log(
+      `[Reviewer Metrics] SLA ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): ${percentage === null ? "N/A" : `${percentage.toFixed(2)}%`} (${row.within_sla_count}/${row.total_count})`,
+    );
+
+    return {
+      percentage,
+      within_sla_count: row.within_sla_count,
+      total_count: row.total_count,
+      sla_hours: REVIEWER_SLA_HOURS,
+    };
+  } catch (error) {
+    console.error("[Reviewer Metrics] Error calculating reviewer SLA:", error);
+    throw error;
+  }
+}
+
+/**
+ * Calculates reviewer load: how many reviews each reviewer gave within a
+ * time window (by first response), aggregated into percentiles and a
+ * distribution without reviewer names.
+ *
+ * @param startDate - Start of time window (inclusive)
+ * @param endDate - End of time window (inclusive)
+ * @param projectName - Optional project filter
+ * @param teamId - Optional team filter (see team-filters.ts)
+ * @returns Reviews per reviewer distribution
+ *
+ * @example
+ * const load = await calculateReviewerLoad(
+ *   new Date("2025-01-06T00:00:00Z"),
+ *   new Date("2025-01-12T23:59:59Z")
+ * );
+ * // Returns: {
+ * //   reviewer_count: 3, review_count: 9, p50_reviews: 2, p90_reviews: 4.6, max_reviews: 5,
+ * //   distribution: [{ reviews: 2, reviewers: 2 }, { reviews: 5, reviewers: 1 }]
+ * // }
+ */
+export async function calculateReviewerLoad(
+  startDate: Date,
+  endDate: Date,
+  projectName?: string,
+  teamId?: number,
+): Promise<ReviewerLoadDistribution> {
+  try {
+    const conditions = [
+      sql`${respondedAt} >= ${startDate.toISOString()}::timestamp`,
+      sql`${respondedAt} <= ${endDate.toISOString()}::timestamp`,
+      eq(pullRequests.isDraft, false),
+      eq(pullRequests.isBot, false),
+      eq(prReviews.isBot, false),
+    ];
+
+    if (projectName) {
+      conditions.push(eq(pullRequests.projectName, projectName));
+    }
+
+    const perReviewer = db
+      .select({
+        reviews: sql<number>`cast(count(*) as integer)`.as("reviews"),
+      })
+      .from(prReviews)
+      .innerJoin(pullRequests, reviewedPullRequest)
+      .where(and(...conditions, teamPullRequestFilter(teamId)))
+      .groupBy(prReviews.reviewer)
+      .as("per_reviewer");
+
+    const [summary] = await db
+      .select({
+        reviewer_count: sql<number>`cast(count(*) as integer)`,
+        review_count: sql<number>`cast(coalesce(sum(${perReviewer.reviews}), 0) as integer)`,
+        p50_reviews: sql<
+          number | null
+        >`percentile_cont(0.5) within group (order by ${perReviewer.reviews})`,
+        p90_reviews: sql<
+          number | null
+        >`percentile_cont(0.9) within group (order by ${perReviewer.reviews})`,
+        max_reviews: sql<number | null>`max(${perReviewer.reviews})`,
+      })
+      .from(perReviewer);
+
+    const distribution = await db
+      .select({
+        reviews: perReviewer.reviews,
+        reviewers: sql<number>`cast(count(*) as integer)`,
+      })
+      .from(perReviewer)
+      .groupBy(perReviewer.reviews)
+      .orderBy(perReviewer.reviews);
+
+    console.log(
+      `[Reviewer Metrics] Load ${projectName || "Organization"} (${startDate.toISOString()} to ${endDate.toISOString()}): reviewers=${summary.reviewer_count}, reviews=${summary.review_count}, p50=${summary.p50_reviews}, p90=${summary.p90_reviews}, max=${summary.max_reviews}`,
+    );
+
+    return { ...summary, distribution };
+  } catch (error) {
+    console.error("[Reviewer Metrics] Error calculating reviewer load:", error);
+    throw error;
+  }
+}
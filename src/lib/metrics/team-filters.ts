@@ -0,0 +1,91 @@
+/**
+ * Team Filters
+ * SQL conditions restricting metric queries to the data a team owns.
+ *
+ * - Repository data (deployments, CI runs, test results) belongs to a team
+ *   when its project/repository is listed in team_repositories
+ * - Incidents belong to a team through the deployment that caused them
+ * - Pull requests belong to a team when they target one of its repositories
+ *   or are authored by one of its members (team_members)
+ *
+ * Every filter returns undefined without a team, so it can be passed to
+ * and() unconditionally.
+ */
+
+import { eq, inArray, or, type SQL, sql } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { db } from "@/lib/db/client";
+import {
+  deployments,
+  incidents,
+  pullRequests,
+  teamMembers,
+  teamRepositories,
+} from "@/lib/db/schema";
+
+/**
+ * Rows whose project/repository is owned by the team
+ *
+ * @param teamId - Team to filter by (undefined for no filter)
+ * @param projectColumn - Project name column of the filtered table
+ * @param repoColumn - Repository name column of the filtered table
+ */
+export function inTeamRepositories(
+  teamId: number | undefined,
+  projectColumn: AnyPgColumn,
+  repoColumn: AnyPgColumn,
+): SQL | undefined {
+  if (teamId === undefined) {
+    return undefined;
+  }
+
+  return sql`(${projectColumn}, ${repoColumn}) in (select ${teamRepositories.projectName}, ${teamRepositories.repoName} from ${teamRepositories} where ${teamRepositories.teamId} = ${teamId})`;
+}
+
+/**
+ * Deployments of the team's repositories
+ */
+export function teamDeploymentFilter(teamId?: number): SQL | undefined {
+  return inTeamRepositories(
+    teamId,
+    deployments.projectName,
+    deployments.repoName,
+  );
+}
+
+/**
+ * Incidents caused by deployments of the team's repositories
+ */
+export function teamIncidentFilter(teamId?: number): SQL | undefined {
+  if (teamId === undefined) {
+    return undefined;
+  }
+
+  return inArray(
+    incidents.deploymentId,
+    db
+      .select({ deploymentId: deployments.deploymentId })
+      .from(deployments)
+      .where(teamDeploymentFilter(teamId)),
+  );
+}
+
+/**
+ * Pull requests to the team's repositories or authored by its members
+ */
+export function teamPullRequestFilter(teamId?: number): SQL | undefined {
+  if (teamId === undefined) {
+    return undefined;
+  }
+
+  return or(
+    inTeamRepositories(teamId, pullRequests.projectName, pullRequests.repoName),
+    inArray(
+      pullRequests.author,
+      db
+        .select({ memberName: teamMembers.memberName })
+        .from(teamMembers)
+        .where(eq(teamMembers.teamId, teamId)),
+    ),
+  );
+}
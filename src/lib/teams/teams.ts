@@ -0,0 +1,293 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db/client";
+import {
+  type Team,
+  teamMembers,
+  teamRepositories,
+  teams,
+} from "@/lib/db/schema";
+
+/**
+ * Team Management
+ *
+ * Teams group the people (PR authors) and repositories (services) whose
+ * metrics they own. Used by the admin API (/api/teams) and by the `team`
+ * filter of the metrics API (see team-filters.ts).
+ */
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+// Validation schema for a team (POST /api/teams)
+export const teamSchema = z.object({
+  // Used in URLs and the ?team= filter
+  name: z
+    .string()
+    .min(1, "name is required")
+    .max(255, "name must be 255 characters or less")
+    .regex(
+      /^[a-z0-9][a-z0-9._-]*$/i,
+      "name may only contain letters, digits, '.', '_' and '-'",
+    ),
+  description: z
+    .string()
+    .max(1000, "description must be 1000 characters or less")
+    .nullable()
+    .optional(),
+  // PR authors as ingested (identity name, else Azure DevOps display name or
+  // GitHub login)
+  members: z
+    .array(
+      z
+        .string()
+        .min(1, "member names must not be empty")
+        .max(255, "member names must be 255 characters or less"),
+    )
+    .max(500, "a team can have at most 500 members")
+    .optional(),
+  repositories: z
+    .array(
+      z.object({
+        projectName: z
+          .string()
+          .min(1, "projectName is required")
+          .max(255, "projectName must be 255 characters or less"),
+        repoName: z
+          .string()
+          .min(1, "repoName is required")
+          .max(255, "repoName must be 255 characters or less"),
+      }),
+    )
+    .max(500, "a team can have at most 500 repositories")
+    .optional(),
+});
+
+// Validation schema for a team update (PATCH /api/teams/:name)
+export const teamUpdateSchema = teamSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      "At least one of name, description, members or repositories is required",
+  });
+
+export type TeamRequest = z.infer<typeof teamSchema>;
+export type TeamUpdateRequest = z.infer<typeof teamUpdateSchema>;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface TeamRepositoryRef {
+  projectName: string;
+  repoName: string;
+}
+
+/**
+ * A team with its members and repositories
+ */
+export interface TeamDetails {
+  id: number;
+  name: string;
+  description: string | null;
+  members: string[];
+  repositories: TeamRepositoryRef[];
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Find a team by name
+ *
+ * @returns The team, or undefined if there is no team with that name
+ */
+export async function findTeam(name: string): Promise<Team | undefined> {
+  const [team] = await db
+    .select()
+    .from(teams)
+    .where(eq(teams.name, name))
+    .limit(1);
+
+  return team;
+}
+
+/**
+ * Load members and repositories for a list of teams
+ */
+async function withDetails(teamRows: Team[]): Promise<TeamDetails[]> {
+  if (teamRows.length === 0) {
+    return [];
+  }
+
+  const teamIds = teamRows.map((team) => team.id);
+
+  const [members, repositories] = await Promise.all([
+    db
+      .select()
+      .from(teamMembers)
+      .where(inArray(teamMembers.teamId, teamIds))
+      .orderBy(asc(teamMembers.memberName)),
+    db
+      .select()
+      .from(teamRepositories)
+      .where(inArray(teamRepositories.teamId, teamIds))
+      .orderBy(
+        asc(teamRepositories.projectName),
+        asc(teamRepositories.repoName),
+      ),
+  ]);
+
+  return teamRows.map((team) => ({
+    id: team.id,
+    name: team.name,
+    description: team.description,
+    members: members
+      .filter((member) => member.teamId === team.id)
+      .map((member) => member.memberName),
+    repositories: repositories
+      .filter((repository) => repository.teamId === team.id)
+      .map(({ projectName, repoName }) => ({ projectName, repoName })),
+    createdAt: team.createdAt,
+    updatedAt: team.updatedAt,
+  }));
+}
+
+/**
+ * List all teams with their members and repositories, ordered by name
+ */
+export async function listTeams(): Promise<TeamDetails[]> {
+  const teamRows = await db.select().from(teams).orderBy(asc(teams.name));
+  return withDetails(teamRows);
+}
+
+/**
+ * Get a team with its members and repositories
+ *
+ * @returns The team, or undefined if there is no team with that name
+ */
+export async function getTeam(name: string): Promise<TeamDetails | undefined> {
+  const team = await findTeam(name);
+  if (!team) {
+    return undefined;
+  }
+
+  const [details] = await withDetails([team]);
+  return details;
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+async function replaceMembers(teamId: number, members: string[]) {
+  await db.delete(teamMembers).where(eq(teamMembers.teamId, teamId));
+
+  const uniqueMembers = [...new Set(members)];
+  if (uniqueMembers.length > 0) {
+    await db
+      .insert(teamMembers)
+      .values(uniqueMembers.map((memberName) => ({ teamId, memberName })));
+  }
+}
+
+async function replaceRepositories(
+  teamId: number,
+  repositories: TeamRepositoryRef[],
+) {
+  await db.delete(teamRepositories).where(eq(teamRepositories.teamId, teamId));
+
+  if (repositories.length > 0) {
+    await db
+      .insert(teamRepositories)
+      .values(
+        repositories.map(({ projectName, repoName }) => ({
+          teamId,
+          projectName,
+          repoName,
+        })),
+      )
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Create a team
+ *
+ * @param input - Team validated against teamSchema
+ * @returns The created team, or undefined if the name is already taken
+ */
+export async function createTeam(
+  input: TeamRequest,
+): Promise<TeamDetails | undefined> {
+  const [team] = await db
+    .insert(teams)
+    .values({ name: input.name, description: input.description ?? null })
+    .onConflictDoNothing({ target: teams.name })
+    .returning();
+
+  if (!team) {
+    return undefined;
+  }
+
+  await replaceMembers(team.id, input.members ?? []);
+  await replaceRepositories(team.id, input.repositories ?? []);
+
+  console.log(`[Teams] Team created: ${team.name}`);
+
+  const [details] = await withDetails([team]);
+  return details;
+}
+
+/**
+ * Update a team
+ *
+ * @param team - Team to update
+ * @param input - Fields to change, validated against teamUpdateSchema;
+ *   omitted fields are kept, members and repositories replace the lists
+ * @returns The updated team
+ */
+export async function updateTeam(
+  team: Team,
+  input: TeamUpdateRequest,
+): Promise<TeamDetails> {
+  const [updated] = await db
+    .update(teams)
+    .set({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && {
+        description: input.description,
+      }),
+      updatedAt: new Date(),
+    })
+    .where(eq(teams.id, team.id))
+    .returning();
+
+  if (input.members) {
+    await replaceMembers(team.id, input.members);
+  }
+
+  if (input.repositories) {
+    await replaceRepositories(team.id, input.repositories);
+  }
+
+  console.log(`[Teams] Team updated: ${updated.name}`);
+
+  const [details] = await withDetails([updated]);
+  return details;
+}
+
+/**
+ * Delete a team with its member and repository mappings
+ */
+export async function deleteTeam(team: Team): Promise<void> {
+  await db.delete(teamMembers).where(eq(teamMembers.teamId, team.id));
+  await db.delete(teamRepositories).where(eq(teamRepositories.teamId, team.id));
+  await db.delete(teams).where(eq(teams.id, team.id));
+
+  console.log(`[Teams] Team deleted: ${team.name}`);
+}
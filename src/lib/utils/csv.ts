@@ -0,0 +1,87 @@
+/**
+ * CSV utilities for bulk imports.
+ * Parses RFC 4180 CSV: comma-separated fields, optional double-quoted fields
+ * (which may contain commas, newlines and "" escaped quotes), CRLF or LF
+ * line endings.
+ */
+
+/**
+ * Parses CSV text into rows of raw field values.
+ *
+ * Blank lines are skipped. A leading UTF-8 byte order mark (as written by
+ * spreadsheet exports) is ignored.
+ *
+ * @param text - CSV text
+ * @returns Rows of field values, in input order
+ * @throws Error if a quoted field is not closed
+ *
+ * @example
+ * parseCSV('name,notes\nweb,"hotfix, rollback"')
+ * // Returns: [["name", "notes"], ["web", "hotfix, rollback"]]
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let fieldQuoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== "" || fieldQuoted) {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+    fieldQuoted = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+      fieldQuoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+      fieldQuoted = false;
+    } else if (char === "\n") {
+      endRow();
+    } else if (char === "\r") {
+      if (input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field in CSV input");
+  }
+
+  if (field !== "" || row.length > 0 || fieldQuoted) {
+    endRow();
+  }
+
+  return rows;
+}
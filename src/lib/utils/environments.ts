@@ -0,0 +1,81 @@
+/**
+ * Deployment environment registry.
+ * Lists the environments deployments may target and which of them are
+ * production tiers, i.e. count towards the DORA metrics.
+ *
+ * Configured through environment variables (comma-separated, case-insensitive):
+ * - DEPLOYMENT_ENVIRONMENTS: accepted environments
+ *   (default: "production,staging,development")
+ * - PRODUCTION_ENVIRONMENTS: production tiers (default: "production");
+ *   these are accepted even when missing from DEPLOYMENT_ENVIRONMENTS
+ *
+ * @example
+ * DEPLOYMENT_ENVIRONMENTS="prod-eu,prod-us,canary,staging"
+ * PRODUCTION_ENVIRONMENTS="prod-eu,prod-us"
+ */
+
+export interface EnvironmentRegistry {
+  /** Accepted environment names (lowercase), production tiers first */
+  environments: string[];
+  /** Environment names that count as production (lowercase) */
+  productionEnvironments: string[];
+}
+
+const DEFAULT_ENVIRONMENTS = ["production", "staging", "development"];
+const DEFAULT_PRODUCTION_ENVIRONMENTS = ["production"];
+
+function parseEnvironmentList(
+  value: string | undefined,
+  fallback: string[],
+): string[] {
+  const names = (value ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.length > 0 ? [...new Set(names)] : fallback;
+}
+
+/**
+ * Reads the environment registry from the environment variables.
+ *
+ * Read on every call, so configuration changes apply without a restart of
+ * long-lived modules (and tests can override it).
+ *
+ * @returns Accepted environments and production tiers
+ */
+export function getEnvironmentRegistry(): EnvironmentRegistry {
+  const productionEnvironments = parseEnvironmentList(
+    process.env.PRODUCTION_ENVIRONMENTS,
+    DEFAULT_PRODUCTION_ENVIRONMENTS,
+  );
+  const environments = parseEnvironmentList(
+    process.env.DEPLOYMENT_ENVIRONMENTS,
+    DEFAULT_ENVIRONMENTS,
+  );
+
+  return {
+    environments: [...new Set([...productionEnvironments, ...environments])],
+    productionEnvironments,
+  };
+}
+
+/**
+ * Returns the environment names that count as production.
+ *
+ * @example
+ * // PRODUCTION_ENVIRONMENTS="prod-eu,prod-us"
+ * getProductionEnvironments() // Returns: ["prod-eu", "prod-us"]
+ */
+export function getProductionEnvironments(): string[] {
+  return getEnvironmentRegistry().productionEnvironments;
+}
+
+/**
+ * Checks whether an environment name is registered (case-insensitive).
+ */
+export function isKnownEnvironment(name: string): boolean {
+  return getEnvironmentRegistry().environments.includes(
+    name.trim().toLowerCase(),
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Formatting and trend helpers shared by the dashboard pages.
+ */
+
+/**
+ * Trend direction of a metric compared to the previous period
+ */
+export type Trend = "up" | "down" | "same";
+
+/**
+ * Formats hours to a human-readable string
+ *
+ * @example
+ * formatHours(0.5) // "30m"
+ * formatHours(4.25) // "4.3h"
+ * formatHours(36) // "1.5d"
+ * formatHours(null) // "N/A"
+ */
+export function formatHours(hours: number | null): string {
+  if (hours === null) return "N/A";
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 24) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+/**
+ * Calculates trend direction by comparing current to previous value
+ * Returns undefined if previous data is not available
+ *
+ * @param current - Value of the current period
+ * @param previous - Value of the previous period
+ * @param threshold - Relative change below which the trend is "same" (default: 5%)
+ */
+export function calculateTrend(
+  current: number | null,
+  previous: number | null,
+  threshold = 0.05,
+): Trend | undefined {
+  if (current === null || previous === null || previous === 0) {
+    return undefined; // Not enough data to calculate trend
+  }
+
+  const percentChange = Math.abs((current - previous) / previous);
+
+  if (percentChange < threshold) {
+    return "same";
+  }
+
+  return current > previous ? "up" : "down";
+}
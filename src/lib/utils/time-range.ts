@@ -0,0 +1,388 @@
+/**
+ * Time range utilities for the metrics API.
+ *
+ * A metrics request covers either an ISO week (`week=2025-W02`, the default)
+ * or an explicit date range (`from=2025-01-01&to=2025-03-31`, inclusive, UTC).
+ * With `granularity=day|week|month|quarter` the range is split into
+ * calendar-aligned buckets so a single request returns a time series.
+ */
+
+import { getCurrentWeek, getWeekBoundaries, getWeekIdentifier } from "./week";
+
+export type Granularity = "day" | "week" | "month" | "quarter";
+
+export const GRANULARITIES: readonly Granularity[] = [
+  "day",
+  "week",
+  "month",
+  "quarter",
+];
+
+// Upper bound on buckets per request (a year of days)
+export const MAX_TIME_BUCKETS = 366;
+
+/**
+ * One period of a time series, clipped to the requested range
+ */
+export interface TimeBucket {
+  period: string; // "2025-01-06", "2025-W02", "2025-01" or "2025-Q1"
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Resolved time range of a metrics request
+ */
+export interface TimeRange {
+  startDate: Date;
+  endDate: Date;
+  week?: string;
+  from?: string;
+  to?: string;
+  granularity?: Granularity;
+  buckets?: TimeBucket[];
+}
+
+/**
+ * 400 response body for an invalid time range
+ */
+export interface TimeRangeError {
+  error: string;
+  details: string;
+  received?: string;
+}
+
+// ============================================================================
+// Dates and Periods
+// ============================================================================
+
+/**
+ * Parses a calendar date in "YYYY-MM-DD" format as a UTC day.
+ *
+ * @param value - Date string
+ * @param endOfDay - Return 23:59:59.999 instead of 00:00:00.000
+ * @returns The UTC timestamp, or null if the value is not a valid date
+ *
+ * @example
+ * parseDateParam("2025-01-06") // 2025-01-06T00:00:00.000Z
+ * parseDateParam("2025-01-12", true) // 2025-01-12T23:59:59.999Z
+ * parseDateParam("2025-02-30") // null
+ */
+export function parseDateParam(value: string, endOfDay = false): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Reject dates that roll over (e.g. February 30th)
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  if (endOfDay) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+
+  return date;
+}
+
+/**
+ * Start of the period containing a date (UTC, weeks start on Monday)
+ */
+function getPeriodStart(date: Date, granularity: Granularity): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (granularity) {
+    case "day":
+      return new Date(Date.UTC(year, month, day));
+    case "week": {
+      const dayOfWeek = date.getUTCDay() || 7; // Convert Sunday (0) to 7
+      return new Date(Date.UTC(year, month, day - dayOfWeek + 1));
+    }
+    case "month":
+      return new Date(Date.UTC(year, month, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+  }
+}
+
+/**
+ * Start of the period following the one starting at periodStart
+ */
+function getNextPeriodStart(periodStart: Date, granularity: Granularity): Date {
+  const year = periodStart.getUTCFullYear();
+  const month = periodStart.getUTCMonth();
+  const day = periodStart.getUTCDate();
+
+  switch (granularity) {
+    case "day":
+      return new Date(Date.UTC(year, month, day + 1));
+    case "week":
+      return new Date(Date.UTC(year, month, day + 7));
+    case "month":
+      return new Date(Date.UTC(year, month + 1, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month + 3, 1));
+  }
+}
+
+/**
+ * Identifier of the period starting at periodStart
+ */
+function getPeriodIdentifier(
+  periodStart: Date,
+  granularity: Granularity,
+): string {
+  const year = periodStart.getUTCFullYear();
+  const month = periodStart.getUTCMonth();
+
+  switch (granularity) {
+    case "day":
+      return periodStart.toISOString().slice(0, 10);
+    case "week": {
+      // getWeekIdentifier reads local date parts; Thursday noon UTC falls
+      // in the same ISO week in every time zone
+      const thursday = new Date(periodStart);
+      thursday.setUTCDate(thursday.getUTCDate() + 3);
+      thursday.setUTCHours(12);
+      return getWeekIdentifier(thursday);
+    }
+    case "month":
+      return `${year}-${(month + 1).toString().padStart(2, "0")}`;
+    case "quarter":
+      return `${year}-Q${Math.floor(month / 3) + 1}`;
+  }
+}
+
+/**
+ * Counts the periods of a granularity overlapping a range.
+ */
+function countPeriods(
+  startDate: Date,
+  endDate: Date,
+  granularity: Granularity,
+): number {
+  const first = getPeriodStart(startDate, granularity);
+  const last = getPeriodStart(endDate, granularity);
+
+  switch (granularity) {
+    case "day":
+      return Math.round((last.getTime() - first.getTime()) / 86400000) + 1;
+    case "week":
+      return (
+        Math.round((last.getTime() - first.getTime()) / (7 * 86400000)) + 1
+      );
+    case "month":
+    case "quarter": {
+      const months =
+        (last.getUTCFullYear() - first.getUTCFullYear()) * 12 +
+        last.getUTCMonth() -
+        first.getUTCMonth();
+      return (granularity === "month" ? months : months / 3) + 1;
+    }
+  }
+}
+
+/**
+ * Splits a range into calendar-aligned periods. The first and last period
+ * are clipped to the range, so buckets cover it exactly once.
+ *
+ * @param startDate - Start of the range (inclusive)
+ * @param endDate - End of the range (inclusive)
+ * @param granularity - Period length
+ * @returns Buckets in chronological order
+ *
+ * @example
+ * getTimeBuckets(
+ *   new Date("2025-01-15T00:00:00Z"),
+ *   new Date("2025-02-28T23:59:59.999Z"),
+ *   "month",
+ * )
+ * // Returns: [
+ * //   { period: "2025-01", startDate: 2025-01-15T00:00:00.000Z, endDate: 2025-01-31T23:59:59.999Z },
+ * //   { period: "2025-02", startDate: 2025-02-01T00:00:00.000Z, endDate: 2025-02-28T23:59:59.999Z },
+ * // ]
+ */
+export function getTimeBuckets(
+  startDate: Date,
+  endDate: Date,
+  granularity: Granularity,
+): TimeBucket[] {
+  const buckets: TimeBucket[] = [];
+
+  let periodStart = getPeriodStart(startDate, granularity);
+  while (periodStart <= endDate) {
+    const nextPeriodStart = getNextPeriodStart(periodStart, granularity);
+    const periodEnd = new Date(nextPeriodStart.getTime() - 1);
+
+    buckets.push({
+      period: getPeriodIdentifier(periodStart, granularity),
+      startDate: periodStart < startDate ? startDate : periodStart,
+      endDate: periodEnd > endDate ? endDate : periodEnd,
+    });
+
+    periodStart = nextPeriodStart;
+  }
+
+  return buckets;
+}
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+/**
+ * Resolves the time range of a metrics request from its query parameters:
+ * - week: ISO 8601 week identifier (default: current week)
+ * - from, to: inclusive UTC dates in "YYYY-MM-DD" format (instead of week)
+ * - granularity: day, week, month or quarter; splits the range into buckets
+ *
+ * @param searchParams - Request query parameters
+ * @returns The resolved range, or the 400 response body when invalid
+ *
+ * @example
+ * resolveTimeRange(new URLSearchParams("from=2025-01-01&to=2025-03-31&granularity=month"))
+ * // Returns: { startDate, endDate, from, to, granularity: "month", buckets: [3 buckets] }
+ */
+export function resolveTimeRange(
+  searchParams: URLSearchParams,
+): TimeRange | TimeRangeError {
+  const weekParam = searchParams.get("week");
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+  const granularityParam = searchParams.get("granularity");
+
+  let range: TimeRange;
+
+  if (fromParam !== null || toParam !== null) {
+    if (weekParam !== null) {
+      return {
+        error: "Invalid date range",
+        details: "Use either week or from/to, not both.",
+      };
+    }
+
+    if (fromParam === null || toParam === null) {
+      return {
+        error: "Invalid date range",
+        details: "from and to must be provided together.",
+      };
+    }
+
+    const startDate = parseDateParam(fromParam);
+    const endDate = parseDateParam(toParam, true);
+
+    if (!startDate || !endDate) {
+      return {
+        error: "Invalid date range",
+        details:
+          'from and to must be dates in YYYY-MM-DD format (e.g., "2025-01-06").',
+        received: startDate ? toParam : fromParam,
+      };
+    }
+
+    if (startDate > endDate) {
+      return {
+        error: "Invalid date range",
+        details: "from must not be after to.",
+        received: `${fromParam}..${toParam}`,
+      };
+    }
+
+    range = { startDate, endDate, from: fromParam, to: toParam };
+  } else {
+    const week = weekParam || getCurrentWeek();
+
+    let boundaries: { startDate: Date; endDate: Date };
+    try {
+      boundaries = getWeekBoundaries(week);
+    } catch {
+      return {
+        error: "Invalid week format",
+        details:
+          'Week must be in ISO 8601 format (e.g., "2025-W02"). Use YYYY-Wnn where nn is the week number (01-53).',
+        received: week,
+      };
+    }
+
+    range = { ...boundaries, week };
+  }
+
+  if (granularityParam === null) {
+    return range;
+  }
+
+  const granularity = GRANULARITIES.find((g) => g === granularityParam);
+  if (!granularity) {
+    return {
+      error: "Invalid granularity",
+      details: `granularity must be one of: ${GRANULARITIES.join(", ")}`,
+      received: granularityParam,
+    };
+  }
+
+  const periods = countPeriods(range.startDate, range.endDate, granularity);
+  if (periods > MAX_TIME_BUCKETS) {
+    return {
+      error: "Invalid granularity",
+      details: `The range spans ${periods} ${granularity} periods; at most ${MAX_TIME_BUCKETS} are returned per request. Use a coarser granularity or a shorter range.`,
+      received: granularity,
+    };
+  }
+
+  return {
+    ...range,
+    granularity,
+    buckets: getTimeBuckets(range.startDate, range.endDate, granularity),
+  };
+}
+
+/**
+ * Response fields describing a time range:
+ * { week } or { from, to }, then startDate, endDate and granularity
+ */
+export function describeTimeRange(range: TimeRange) {
+  return {
+    ...(range.week !== undefined && { week: range.week }),
+    ...(range.from !== undefined && { from: range.from, to: range.to }),
+    startDate: range.startDate.toISOString(),
+    endDate: range.endDate.toISOString(),
+    ...(range.granularity && { granularity: range.granularity }),
+  };
+}
+
+/**
+ * Calculates a metric once per bucket
+ *
+ * Buckets are calculated one after another to keep the number of concurrent
+ * database queries per request bounded.
+ *
+ * @param buckets - Buckets from resolveTimeRange
+ * @param calculate - Metric calculation for one window
+ * @returns One entry per bucket: { period, startDate, endDate, ...metric }
+ */
+export async function calculateTimeSeries<T extends object>(
+  buckets: TimeBucket[],
+  calculate: (startDate: Date, endDate: Date) => Promise<T>,
+): Promise<Array<T & { period: string; startDate: string; endDate: string }>> {
+  const series: Array<
+    T & { period: string; startDate: string; endDate: string }
+  > = [];
+
+  for (const bucket of buckets) {
+    const metrics = await calculate(bucket.startDate, bucket.endDate);
+    series.push({
+      period: bucket.period,
+      startDate: bucket.startDate.toISOString(),
+      endDate: bucket.endDate.toISOString(),
+      ...metrics,
+    });
+  }
+
+  return series;
+}
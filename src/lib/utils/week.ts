@@ -104,6 +104,39 @@ export function getWeekIdentifier(date: Date): string {
   return `${d.getUTCFullYear()}-W${weekNumber.toString().padStart(2, "0")}`;
 }
 
+/**
+ * Returns consecutive week identifiers ending with the given week, oldest
+ * first. Weeks are counted back on the calendar, so years with 53 ISO weeks
+ * keep their last week.
+ *
+ * @param weekIdentifier - Last week in "YYYY-Wnn" format
+ * @param count - Number of weeks to return
+ * @returns Week identifiers in chronological order
+ * @throws Error if week identifier format is invalid
+ *
+ * @example
+ * getRecentWeeks("2021-W02", 3)
+ * // Returns: ["2020-W53", "2021-W01", "2021-W02"]
+ */
+export function getRecentWeeks(
+  weekIdentifier: string,
+  count: number,
+): string[] {
+  const { startDate } = getWeekBoundaries(weekIdentifier);
+  const weeks: string[] = [];
+
+  for (let offset = count - 1; offset >= 0; offset--) {
+    // getWeekIdentifier reads local date parts; Thursday noon UTC falls
+    // in the same ISO week in every time zone
+    const thursday = new Date(startDate);
+    thursday.setUTCDate(startDate.getUTCDate() - offset * 7 + 3);
+    thursday.setUTCHours(12);
+    weeks.push(getWeekIdentifier(thursday));
+  }
+
+  return weeks;
+}
+
 /**
  * Validates if a string is a valid week identifier format.
  *